@@ -1,154 +1,847 @@
-import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { Upload, AlertCircle, FileText, Search, ArrowLeft, Loader2, ChevronLeft, ChevronRight, Filter, X, List } from 'lucide-react';
-import { parseTmxContent, normalizeTu } from './services/tmxParser';
-import { createSearchWorker } from './services/workerUtils';
-import { ParsedTmxData, NormalizedTu } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Upload, AlertCircle, FileText, Search, ArrowLeft, Loader2, ChevronLeft, ChevronRight, Filter, X, List, Download, FilePlus, Layers, GitCompare, ScanSearch, ShieldCheck, Percent, Replace, Eraser, BarChart3, Link2, FileWarning } from 'lucide-react';
+import { createTmxWorkerClient, RequestCancelledError, TmxWorkerClient } from './services/workerClient';
+import { SearchParams, StatsResult, ConsistencyResult, QaResult, DiagnosticsResult } from './services/workerProtocol';
+import { downloadBlob, deriveFileName } from './services/download';
+import { TmxHeader, NormalizedTu, SearchMode, TabularExportOptions, SourceFormat, CsvMapping, CsvPreview, SourceFileSummary, TuGroup, DiffMatchKey, DiffStatus, TuDiff, ConsistencyCluster, ConsistencyIssue, QaCheckId, QaConfig, QaIssue, QueryNode, HitRange, TuEdit, EditState, ReplaceOptions, BulkAction, LanguageView, FacetFilter, MemoryAnalytics, ListLayout, Density, RecentFile, SavedSession, BatchOptions, BatchReport, DiagnosticCode, DateRange, ListSort } from './types';
 import { TuCard } from './components/TuCard';
 import { HeaderStats } from './components/HeaderStats';
+import { IngestProgress, IngestStatus } from './components/IngestProgress';
+import { ExportDialog, ExportFormat, ExportScope } from './components/ExportDialog';
+import { CsvMappingDialog } from './components/CsvMappingDialog';
+import { TuGroupCard } from './components/TuGroupCard';
+import { CompareDialog } from './components/CompareDialog';
+import { CompareSummary } from './components/CompareSummary';
+import { DiffTuCard } from './components/DiffTuCard';
+import { ConsistencyReport } from './components/ConsistencyReport';
+import { QaPanel } from './components/QaPanel';
+import { FuzzyMatchPanel } from './components/FuzzyMatchPanel';
+import { ReplaceDialog } from './components/ReplaceDialog';
+import { CleanupDialog } from './components/CleanupDialog';
+import { LanguagePicker } from './components/LanguagePicker';
+import { VirtualTuList, ListRow } from './components/VirtualTuList';
+import { TuRow } from './components/TuRow';
+import { AnalyticsPanel } from './components/AnalyticsPanel';
+import { BatchFilterDialog } from './components/BatchFilterDialog';
+import { DiagnosticsPanel } from './components/DiagnosticsPanel';
+import { DateFilter } from './components/DateFilter';
+import { FilterChips } from './components/FilterChips';
+import { EditControls } from './components/EditControls';
+import { ListControls } from './components/ListControls';
+import { HitNavigator } from './components/HitNavigator';
+import { RecentFiles } from './components/RecentFiles';
+import { DEFAULT_QA_CONFIG } from './services/qaChecks';
+import { parseQuery, QuerySyntaxError } from './services/queryLanguage';
+import { DEFAULT_LANGUAGE_VIEW, isLanguageFiltered } from './services/languageView';
+import { sameFacet } from './services/analytics';
+import { DEFAULT_BATCH_OPTIONS, splitBatchInput } from './services/batchList';
+import { dateRangeBounds } from './services/tmxDates';
+import { encodeLinkedView, linkTargetOf, LinkedView, LinkTarget, parseLinkedView } from './services/deepLink';
+import { forgetAll, forgetFile, getStoredFile, isRememberingFiles, isStorageAvailable, lastSession, listRecentFiles, loadSession, saveSession, sessionKeyOf, setRememberingFiles } from './services/memoryStore';
 
-type SearchMode = 'text' | 'id_partial' | 'id_prefix';
+interface ResultSet {
+  id: number;
+  total: number;
+  ranked: boolean;
+}
+
+const ACCEPTED_FILES = '.tmx,.xml,.xlf,.xliff,.sdlxliff,.mqxliff,.mxliff,.tbx,.csv,.tsv,.txt';
+
+interface GroupSet {
+  id: number;
+  total: number;
+}
+
+type ViewMode = 'units' | 'merged';
+
+interface Comparison {
+  id: number;
+  baseline: number;
+  revised: number;
+  counts: Record<DiffStatus, number>;
+}
+
+// Filters that narrow a search; each defaults to the current state
+interface SearchOverrides {
+  batchActive?: boolean;
+  batchText?: string;
+  batchOptions?: BatchOptions;
+  origin?: number | null;
+  qaChecks?: QaCheckId[] | null;
+  modifiedOnly?: boolean;
+  languageView?: LanguageView;
+  facets?: FacetFilter[];
+  dateRanges?: DateRange[];
+  sort?: ListSort | null;
+}
+
+/** Whether filters restored from a saved session or a link start a search of their own. */
+const startsSearch = (view: {
+  searchQuery: string;
+  isBatchActive: boolean;
+  originFilter: number | null;
+  languageView: LanguageView;
+  facets: FacetFilter[];
+  dateRanges?: DateRange[];
+  listSort?: ListSort | null;
+}) =>
+  view.isBatchActive ||
+  !!view.searchQuery.trim() ||
+  view.originFilter !== null ||
+  isLanguageFiltered(view.languageView) ||
+  view.facets.length > 0 ||
+  (view.dateRanges?.length ?? 0) > 0 ||
+  !!view.listSort;
+
+/**
+ * Search hits rendered in the list, in reading order. A hit that spans an inline tag is
+ * rendered as several marks, which are kept together.
+ */
+const hitGroups = (container: HTMLElement): HTMLElement[][] => {
+  const groups: HTMLElement[][] = [];
+  let previous: HTMLElement | null = null;
+  container.querySelectorAll<HTMLElement>('mark[data-hit]').forEach(mark => {
+    const sameHit = previous !== null
+      && previous.dataset.hit === mark.dataset.hit
+      && previous.closest('[data-hit-scope]') === mark.closest('[data-hit-scope]');
+    if (sameHit) groups[groups.length - 1].push(mark);
+    else groups.push([mark]);
+    previous = mark;
+  });
+  return groups;
+};
+
+const QUERY_HELP = [
+  'Fields: source: target: text: lang: id: segid: prop:type=value changeid: creationid: changed: created: used: usage:',
+  'target.de-DE: limits a field to one language; lang:de-DE does so for the terms next to it',
+  'Values: word, "phrase" or /regex/i; field=value matches the whole value',
+  'Dates and usage also take >, >=, <, <=, e.g. changed>2024-01-01',
+  'Combine with AND (default), OR, NOT or -, and (parentheses)'
+].join('\n');
+
+// Unchanged units are counted but hidden until asked for
+const DEFAULT_DIFF_FILTER: DiffStatus[] = ['added', 'removed', 'changed', 'metadata'];
 
 function App() {
-  const [file, setFile] = useState<File | null>(null);
+  // Files picked for this session; `sources` holds the ones that finished loading
+  const [files, setFiles] = useState<File[]>([]);
+  const [sources, setSources] = useState<SourceFileSummary[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [parsedData, setParsedData] = useState<ParsedTmxData | null>(null);
+  const [header, setHeader] = useState<TmxHeader | null>(null);
+  const [tmxVersion, setTmxVersion] = useState('');
+  const [ingestStatus, setIngestStatus] = useState<IngestStatus | null>(null);
+  const [sourceFormat, setSourceFormat] = useState<{ format: SourceFormat; label: string } | null>(null);
+  const [csvImport, setCsvImport] = useState<{ file: File; preview: CsvPreview } | null>(null);
   
-  // Master List
-  const [normalizedTus, setNormalizedTus] = useState<NormalizedTu[]>([]);
+  // The full memory lives in the worker; the main thread only tracks its size and the visible page.
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [currentTus, setCurrentTus] = useState<NormalizedTu[]>([]);
+  // QA findings and relevance scores for the units in currentTus, by position
+  const [currentQa, setCurrentQa] = useState<QaIssue[][]>([]);
+  const [currentScores, setCurrentScores] = useState<number[]>([]);
+  // Search hits per unit and variant, and the one hit-navigation is on (an index into the page's hits)
+  const [currentHits, setCurrentHits] = useState<HitRange[][][]>([]);
+  const [pageHitCount, setPageHitCount] = useState(0);
+  const [activeHit, setActiveHit] = useState<number | null>(null);
+  // Session positions of the units in currentTus (edits refer to units by them) and which were edited
+  const [currentIndices, setCurrentIndices] = useState<number[]>([]);
+  const [currentModified, setCurrentModified] = useState<boolean[]>([]);
   
   // Search State
   const [searchQuery, setSearchQuery] = useState('');
   const [searchMode, setSearchMode] = useState<SearchMode>('text');
   const [isSearching, setIsSearching] = useState(false);
-  const [filteredIndices, setFilteredIndices] = useState<number[] | null>(null);
+  const [resultSet, setResultSet] = useState<ResultSet | null>(null);
+  const [originFilter, setOriginFilter] = useState<number | null>(null);
+  const [queryError, setQueryError] = useState<QuerySyntaxError | null>(null);
+  const [languageView, setLanguageView] = useState<LanguageView>(DEFAULT_LANGUAGE_VIEW);
+
+  // Merged View State
+  const [viewMode, setViewMode] = useState<ViewMode>('units');
+  const [groupSet, setGroupSet] = useState<GroupSet | null>(null);
+  const [currentGroups, setCurrentGroups] = useState<TuGroup[]>([]);
+
+  // Compare Mode State
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [diffFilter, setDiffFilter] = useState<DiffStatus[]>(DEFAULT_DIFF_FILTER);
+  const [diffTotal, setDiffTotal] = useState(0);
+  const [currentDiffs, setCurrentDiffs] = useState<TuDiff[]>([]);
+
+  // Consistency Report State
+  const [consistency, setConsistency] = useState<ConsistencyResult | null>(null);
+  const [showConsistency, setShowConsistency] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Label of the report cluster currently shown in the list, if any
+  const [clusterView, setClusterView] = useState<string | null>(null);
+
+  // Fuzzy Match Lookup
+  const [showFuzzyPanel, setShowFuzzyPanel] = useState(false);
+
+  // QA State
+  const [qaConfig, setQaConfig] = useState<QaConfig>(DEFAULT_QA_CONFIG);
+  const [qaRun, setQaRun] = useState<QaResult | null>(null);
+  const [showQaPanel, setShowQaPanel] = useState(false);
+  const [isRunningQa, setIsRunningQa] = useState(false);
+  // Checks whose flagged units the list is restricted to
+  const [qaFilter, setQaFilter] = useState<QaCheckId[] | null>(null);
+
+  // Validation findings of the loaded TMX files
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+  // Analytics State: the breakdown of the current list, and the buckets filtering it
+  const [showAnalytics, setShowAnalytics] = useState(false);
+  const [analytics, setAnalytics] = useState<MemoryAnalytics | null>(null);
+  const [isCountingAnalytics, setIsCountingAnalytics] = useState(false);
+  const [facets, setFacets] = useState<FacetFilter[]>([]);
+
+  // Date State: a range per date field narrowing the list, and the date it is ordered by
+  const [dateRanges, setDateRanges] = useState<DateRange[]>([]);
+  const [listSort, setListSort] = useState<ListSort | null>(null);
+
+  // Editing State
+  const [editState, setEditState] = useState<EditState | null>(null);
+  const [editUser, setEditUser] = useState('');
+  const [modifiedOnly, setModifiedOnly] = useState(false);
+  const [showReplaceDialog, setShowReplaceDialog] = useState(false);
+
+  // Selection and Cleanup State: selected units by session index
+  const [selection, setSelection] = useState<Set<number>>(new Set());
+  const [cleanupStats, setCleanupStats] = useState<StatsResult | null>(null);
+
+  // Export State
+  const [exportColumns, setExportColumns] = useState<StatsResult | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   
   // Batch Filter State
   const [showBatchModal, setShowBatchModal] = useState(false);
   const [batchInput, setBatchInput] = useState('');
   const [isBatchActive, setIsBatchActive] = useState(false);
+  const [batchOptions, setBatchOptions] = useState<BatchOptions>(DEFAULT_BATCH_OPTIONS);
+  const [batchReport, setBatchReport] = useState<BatchReport | null>(null);
+  const [batchPropTypes, setBatchPropTypes] = useState<string[]>([]);
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
+  const [listLayout, setListLayout] = useState<ListLayout>('pages');
+  const [density, setDensity] = useState<Density>('comfortable');
+  // Identifies the filters behind the list, to return to where each one was left
+  const [listKey, setListKey] = useState('');
+  const [focusedPosition, setFocusedPosition] = useState<number | null>(null);
+  const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
+  const [jumpInput, setJumpInput] = useState('');
+  const [jumpMissed, setJumpMissed] = useState(false);
 
-  const workerRef = useRef<Worker | null>(null);
+  // Local Persistence State: files kept in this browser, and the files of the open session
+  const [rememberFiles, setRememberFiles] = useState(isRememberingFiles);
+  const [recentFiles, setRecentFiles] = useState<RecentFile[]>([]);
+  const [resumable, setResumable] = useState<SavedSession | null>(null);
+  const [sessionFiles, setSessionFiles] = useState<{ fingerprint: string; name: string }[]>([]);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
-  // Initialize Worker
-  useEffect(() => {
-    workerRef.current = createSearchWorker();
-    
-    workerRef.current.onmessage = (e) => {
-      const { type, indices } = e.data;
-      if (type === 'DATA_LOADED') {
-        setLoading(false);
-      }
-      if (type === 'SEARCH_RESULTS') {
-        setFilteredIndices(indices);
-        setIsSearching(false);
-        setCurrentPage(1);
-      }
-    };
+  // Deep Link State: a view opened from the URL hash, waiting for its files, and the unit it would point at now
+  const [sharedLink, setSharedLink] = useState<LinkedView | null>(() => parseLinkedView(window.location.hash));
+  const [focusedUnit, setFocusedUnit] = useState<LinkTarget | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
+  const clientRef = useRef<TmxWorkerClient | null>(null);
+  const searchRequestRef = useRef<number | null>(null);
+  // Resolves the pending CSV column mapping; null when the user skips the file
+  const csvMappingRef = useRef<((mapping: CsvMapping | null) => void) | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Which hit to land on once the page hit-navigation moved to has rendered
+  const pendingHitRef = useRef<'first' | 'last' | null>(null);
+  // List position of the unit last clicked, where a shift-click range starts
+  const selectionAnchorRef = useRef<number | null>(null);
+  // First position in view per list key, and the rows the continuous list shows
+  const listPositionsRef = useRef(new Map<string, number>());
+  const visibleRangeRef = useRef({ first: 0, last: 0 });
+  // Where a restored session's list was left, taken by the first list it searches for
+  const pendingPositionRef = useRef<number | null>(null);
+  // Unit a shared link points at, focused once the list it belongs to is shown; then
+  // where it was found, so the same list shown again keeps it in focus
+  const linkTargetRef = useRef<LinkTarget | null>(null);
+  const linkedFocusRef = useRef<{ key: string; position: number } | null>(null);
+  // The QA run whose result is still wanted; a later run, an edit or a load supersedes it
+  const qaRequestRef = useRef<number | null>(null);
+  // Saves the open session as it is at the time of the call
+  const persistSessionRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
     return () => {
-      workerRef.current?.terminate();
+      clientRef.current?.terminate();
     };
   }, []);
 
+  /** Rejection handler that shows a failed request in the error banner; cancelled requests are expected. */
+  const reportFailure = (message: string) => (err: unknown) => {
+    if (err instanceof RequestCancelledError) return;
+    setError(`${message} ${err instanceof Error ? err.message : ''}`);
+  };
+
+  const requestCsvMapping = (csvFile: File, preview: CsvPreview) =>
+    new Promise<CsvMapping | null>(resolve => {
+      csvMappingRef.current = resolve;
+      setCsvImport({ file: csvFile, preview });
+    });
+
+  const resolveCsvMapping = (mapping: CsvMapping | null) => {
+    setCsvImport(null);
+    csvMappingRef.current?.(mapping);
+    csvMappingRef.current = null;
+  };
+
+  /**
+   * Reads files into the session one after another. Each file is inspected first;
+   * CSV files wait for their column mapping unless a parsed copy is stored. A failing
+   * file does not stop the rest. With `resume`, the filters and list position saved for
+   * the same files are restored once they are all in.
+   */
+  const loadFiles = async (client: TmxWorkerClient, queue: File[], resume = false) => {
+    qaRequestRef.current = null;
+    setIsRunningQa(false);
+    let loadedFiles = 0;
+    const fingerprints: string[] = [];
+
+    for (const queued of queue) {
+      setIngestStatus(s => ({
+        bytesProcessed: 0,
+        totalBytes: queued.size,
+        tuCount: s?.tuCount ?? 0,
+        done: false,
+        fileName: queue.length > 1 || loadedFiles > 0 || sources.length > 0 ? queued.name : undefined
+      }));
+
+      try {
+        const inspection = await client.request('INSPECT_FILE', { file: queued, remember: rememberFiles }).promise;
+        setSourceFormat(f => f || { format: inspection.format, label: inspection.label });
+
+        let csvMapping: CsvMapping | undefined;
+        if (inspection.csvPreview) {
+          const mapping = await requestCsvMapping(queued, inspection.csvPreview);
+          if (!mapping) continue;
+          csvMapping = mapping;
+        }
+
+        const loadParams = { file: queued, format: inspection.format, csvMapping, fingerprint: inspection.fingerprint, remember: rememberFiles };
+        const { promise } = client.request('LOAD_FILE', loadParams, (progress) => {
+          const { version, header: fileHeader } = progress;
+          // Version and header of the first file describe the session
+          if (progress.fileIndex === 0) {
+            if (version !== undefined) setTmxVersion(version);
+            if (fileHeader) setHeader(fileHeader);
+          }
+          setLoadedCount(progress.tuCount);
+          setIngestStatus(s => s && { ...s, bytesProcessed: progress.bytesProcessed, tuCount: progress.tuCount });
+          if (progress.tuCount > 0) setLoading(false);
+        });
+
+        const { tuCount, source, storeError } = await promise;
+        loadedFiles++;
+        if (storeError) setError(`Could not keep a local copy of ${queued.name}. ${storeError}`);
+        if (inspection.fingerprint) {
+          const fingerprint = inspection.fingerprint;
+          fingerprints.push(fingerprint);
+          setSessionFiles(list => [...list, { fingerprint, name: queued.name }]);
+        }
+        setSources(list => [...list, source]);
+        setLoadedCount(tuCount);
+        setIngestStatus(s => s && { ...s, tuCount });
+      } catch (err) {
+        // The session was closed or replaced
+        if (err instanceof RequestCancelledError) return;
+        setError(`Failed to read ${queued.name}. ${err instanceof Error ? err.message : ''}`);
+      }
+    }
+
+    // Files without a <header> still get browsed with defaults
+    if (loadedFiles > 0) setHeader(h => h || {});
+    // A shared link takes precedence over where the user left the same files
+    const link = resume ? sharedLink : null;
+    if (link) {
+      applyLinkedView(link);
+      setSharedLink(null);
+    } else if (resume && rememberFiles && fingerprints.length === queue.length) {
+      const session = await loadSession(sessionKeyOf(fingerprints)).catch(() => undefined);
+      if (clientRef.current !== client) return;
+      // Applied together with `done`, so the search that follows sees the restored filters
+      if (session) applySession(session);
+    }
+    setIngestStatus(s => s && { ...s, bytesProcessed: s.totalBytes, done: true });
+    // Without filters no search follows, so the unit is looked up in the whole memory
+    if (link && !startsSearch(linkedFilters(link))) locateLinkTarget('', null);
+    setLoading(false);
+  };
+
   // Handle File Upload
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const uploadedFile = event.target.files?.[0];
-    if (!uploadedFile) return;
-    
-    setFile(uploadedFile);
+    const uploadedFiles: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    if (uploadedFiles.length === 0) return;
+    startSession(uploadedFiles);
+  };
+
+  const startSession = (uploadedFiles: File[]) => {
+    persistSessionRef.current();
+    // One worker per session: replacing it drops the previous memory and any in-flight work
+    clientRef.current?.terminate();
+    resolveCsvMapping(null);
+    const client = createTmxWorkerClient();
+    clientRef.current = client;
+    searchRequestRef.current = null;
+
+    setFiles(uploadedFiles);
+    setSources([]);
     setLoading(true);
     setError(null);
-    setParsedData(null);
-    setNormalizedTus([]);
-    setFilteredIndices(null);
+    setHeader(null);
+    setTmxVersion('');
+    setSourceFormat(null);
+    setLoadedCount(0);
+    setCurrentTus([]);
+    setIngestStatus(null);
+    setResultSet(null);
+    setOriginFilter(null);
+    setLanguageView(DEFAULT_LANGUAGE_VIEW);
+    setViewMode('units');
+    setComparison(null);
+    setConsistency(null);
+    setShowConsistency(false);
+    setClusterView(null);
+    setQaRun(null);
+    setQaFilter(null);
+    setShowQaPanel(false);
+    setShowFuzzyPanel(false);
+    setShowDiagnostics(false);
+    setShowAnalytics(false);
+    setAnalytics(null);
+    setFacets([]);
+    setDateRanges([]);
+    setListSort(null);
+    setEditState(null);
+    setModifiedOnly(false);
+    setShowReplaceDialog(false);
+    setSelection(new Set());
+    setCleanupStats(null);
+    setCurrentPage(1);
+    setListKey('');
+    setFocusedPosition(null);
+    setExpandedRows(new Set());
+    setJumpInput('');
+    listPositionsRef.current.clear();
+    pendingPositionRef.current = null;
+    linkTargetRef.current = null;
+    linkedFocusRef.current = null;
+    setFocusedUnit(null);
+    setSessionFiles([]);
+    setStorageError(null);
     setSearchQuery('');
     setBatchInput('');
     setIsBatchActive(false);
+    setBatchOptions(DEFAULT_BATCH_OPTIONS);
+    setBatchReport(null);
 
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const content = e.target?.result as string;
-        setTimeout(() => {
-          try {
-             const rawData = parseTmxContent(content);
-             setParsedData(rawData);
-             const headerSrc = rawData.tmx.header['@_srclang'] || 'en-US';
-             const tus = rawData.tmx.body.tu.map((tu, idx) => normalizeTu(tu, idx, headerSrc));
-             setNormalizedTus(tus);
-             
-             if (workerRef.current) {
-               workerRef.current.postMessage({ type: 'LOAD_DATA', payload: tus });
-             } else {
-               setLoading(false);
-             }
-
-          } catch (parseErr) {
-             console.error(parseErr);
-             setError("Failed to parse TMX XML structure. Please check if the file is valid TMX.");
-             setLoading(false);
-          }
-        }, 100);
-      } catch (err) {
-        setError("Error reading file content.");
-        setLoading(false);
+    loadFiles(client, uploadedFiles, true);
+  };
+
+  /** Opens files kept in local storage, as if they had been picked again. */
+  const openStoredFiles = async (fingerprints: string[]) => {
+    try {
+      const stored = await Promise.all(fingerprints.map(getStoredFile));
+      const found = stored.filter((file): file is File => !!file);
+      if (found.length < fingerprints.length) {
+        setStorageError('This file is no longer kept in the browser. Open it from disk instead.');
+        refreshRecentFiles();
+        return;
       }
+      startSession(found);
+    } catch (err) {
+      setStorageError(`Could not read the local copy. ${err instanceof Error ? err.message : ''}`);
+    }
+  };
+
+  const refreshRecentFiles = () => {
+    Promise.all([listRecentFiles(), lastSession()])
+      .then(([recent, session]) => {
+        setRecentFiles(recent);
+        setResumable(session ?? null);
+      })
+      .catch((err: unknown) => setStorageError(`Could not list the files kept in the browser. ${err instanceof Error ? err.message : ''}`));
+  };
+
+  const forgetRecentFile = (fingerprint: string) => {
+    forgetFile(fingerprint)
+      .catch((err: unknown) => setStorageError(`Could not forget the file. ${err instanceof Error ? err.message : ''}`))
+      .finally(refreshRecentFiles);
+  };
+
+  const forgetRecentFiles = () => {
+    forgetAll()
+      .catch((err: unknown) => setStorageError(`Could not forget the files. ${err instanceof Error ? err.message : ''}`))
+      .finally(refreshRecentFiles);
+  };
+
+  const changeRememberFiles = (remember: boolean) => {
+    setRememberingFiles(remember);
+    setRememberFiles(remember);
+  };
+
+  // Filters and position as they were when the same files were last open
+  const applySession = (session: SavedSession) => {
+    setSearchQuery(session.searchQuery);
+    setSearchMode(session.searchMode);
+    setBatchInput(session.batchInput);
+    setIsBatchActive(session.isBatchActive);
+    setBatchOptions(session.batchOptions ?? DEFAULT_BATCH_OPTIONS);
+    setOriginFilter(session.originFilter);
+    setLanguageView(session.languageView);
+    setFacets(session.facets);
+    setDateRanges(session.dateRanges ?? []);
+    setListSort(session.listSort ?? null);
+    setListLayout(session.listLayout);
+    setDensity(session.density);
+    if (startsSearch(session)) {
+      // The restored filters start a search; its list opens here
+      pendingPositionRef.current = session.listPosition;
+    } else {
+      listPositionsRef.current.set('', session.listPosition);
+      setCurrentPage(Math.floor(session.listPosition / itemsPerPage) + 1);
+    }
+  };
+
+  const linkedFilters = (view: LinkedView) => ({
+    searchQuery: view.batch ? '' : view.query,
+    isBatchActive: !!view.batch,
+    originFilter: null,
+    languageView: view.languages,
+    facets: view.facets,
+    dateRanges: view.dateRanges,
+    listSort: view.sort
+  });
+
+  // The view a shared link describes; its unit is focused once the list it filters is shown
+  const applyLinkedView = (view: LinkedView) => {
+    const filters = linkedFilters(view);
+    setSearchQuery(filters.searchQuery);
+    setSearchMode(view.mode);
+    setBatchInput(view.batch ? view.batch.join('\n') : '');
+    setBatchOptions(view.batchOptions);
+    setIsBatchActive(filters.isBatchActive);
+    setLanguageView(filters.languageView);
+    setFacets(filters.facets);
+    setDateRanges(filters.dateRanges);
+    setListSort(filters.listSort);
+    linkTargetRef.current = view.unit;
+  };
+
+  const locateLinkTarget = (key: string, resultSetId: number | null) => {
+    const client = clientRef.current;
+    const target = linkTargetRef.current;
+    if (!client || !target) return;
+    linkTargetRef.current = null;
+    client
+      .request('LOCATE_TU', { resultSetId, ...target })
+      .promise.then((position) => {
+        if (position < 0) {
+          // Shown in the jump box, as if the user had looked for it
+          setJumpInput('tuid' in target ? target.tuid : target.segmentId);
+          setJumpMissed(true);
+          return;
+        }
+        linkedFocusRef.current = { key, position };
+        listPositionsRef.current.set(key, position);
+        setCurrentPage(Math.floor(position / itemsPerPage) + 1);
+        setFocusedPosition(position);
+      })
+      .catch(reportFailure('Could not find the linked unit.'));
+  };
+
+  const dismissSharedLink = () => {
+    setSharedLink(null);
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+  };
+
+  const copyLink = () => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      })
+      .catch(reportFailure('Could not copy the link.'));
+  };
+
+  const persistSession = () => {
+    if (!rememberFiles || sessionFiles.length === 0 || !ingestStatus?.done) return;
+    saveSession({
+      key: sessionKeyOf(sessionFiles.map(f => f.fingerprint)),
+      files: sessionFiles,
+      savedAt: Date.now(),
+      searchQuery,
+      searchMode,
+      batchInput,
+      isBatchActive,
+      batchOptions,
+      originFilter,
+      languageView,
+      facets,
+      dateRanges,
+      listSort,
+      listLayout,
+      density,
+      listPosition: listPositionsRef.current.get(listKey) ?? 0
+    }).catch((err: unknown) => setError(`Could not save the session in the browser. ${err instanceof Error ? err.message : ''}`));
+  };
+  persistSessionRef.current = persistSession;
+
+  // Save the session a moment after it changes, and whenever the page is hidden or left
+  useEffect(() => {
+    const timer = setTimeout(persistSession, 1000);
+    return () => clearTimeout(timer);
+  }, [sessionFiles, ingestStatus?.done, searchQuery, searchMode, batchInput, isBatchActive, batchOptions, originFilter, languageView, facets, dateRanges, listSort, listLayout, density, listKey, currentPage]);
+
+  useEffect(() => {
+    const onHide = () => {
+      if (document.visibilityState === 'hidden') persistSessionRef.current();
     };
+    const onPageHide = () => persistSessionRef.current();
+    document.addEventListener('visibilitychange', onHide);
+    window.addEventListener('pagehide', onPageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', onHide);
+      window.removeEventListener('pagehide', onPageHide);
+    };
+  }, []);
 
-    reader.onerror = () => {
-      setError("Failed to read file.");
-      setLoading(false);
+  // The upload screen lists what is kept locally
+  useEffect(() => {
+    if (files.length === 0) refreshRecentFiles();
+  }, [files.length === 0]);
+
+  // A link points at the focused unit, looked up since the continuous list keeps its rows to itself
+  useEffect(() => {
+    const client = clientRef.current;
+    setFocusedUnit(null);
+    if (!client || focusedPosition === null || comparison || viewMode !== 'units') return;
+    let current = true;
+    client
+      .request('GET_PAGE', { resultSetId: resultSet?.id ?? null, offset: focusedPosition, limit: 1 })
+      .promise.then((page) => {
+        if (current && page.tus.length > 0) setFocusedUnit(linkTargetOf(page.tus[0]));
+      })
+      // The address bar then links to the list without a unit
+      .catch(() => undefined);
+    return () => {
+      current = false;
     };
+  }, [focusedPosition, resultSet, comparison, viewMode]);
+
+  // The address bar always holds a link to the current view
+  useEffect(() => {
+    if (files.length === 0 || !ingestStatus?.done) return;
+    const hash = encodeLinkedView({
+      query: searchQuery,
+      mode: searchMode,
+      batch: isBatchActive ? splitBatchInput(batchInput, batchOptions.field) : null,
+      batchOptions,
+      languages: languageView,
+      facets,
+      dateRanges,
+      sort: listSort,
+      unit: focusedUnit,
+      files: sessionFiles.map(f => f.fingerprint)
+    });
+    history.replaceState(null, '', hash ? `#${hash}` : window.location.pathname + window.location.search);
+  }, [files.length, ingestStatus?.done, searchQuery, searchMode, isBatchActive, batchInput, batchOptions, languageView, facets, dateRanges, listSort, focusedUnit, sessionFiles]);
 
-    reader.readAsText(uploadedFile);
+  // Add more files to the current session
+  const handleAddFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const addedFiles: File[] = event.target.files ? Array.from(event.target.files) : [];
+    event.target.value = '';
+    const client = clientRef.current;
+    if (!client || addedFiles.length === 0) return;
+
+    setFiles(list => [...list, ...addedFiles]);
+    setError(null);
+    setConsistency(null);
+    // The worker drops QA findings once new units arrive
+    setQaRun(null);
+    if (qaFilter) {
+      setQaFilter(null);
+      triggerSearch({ qaChecks: null });
+    }
+    loadFiles(client, addedFiles);
   };
 
   const handleReset = () => {
-    setFile(null);
-    setParsedData(null);
-    setNormalizedTus([]);
+    persistSessionRef.current();
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    clientRef.current?.terminate();
+    clientRef.current = null;
+    searchRequestRef.current = null;
+    resolveCsvMapping(null);
+    setFiles([]);
+    setSources([]);
+    setHeader(null);
+    setTmxVersion('');
+    setSourceFormat(null);
+    setLoadedCount(0);
+    setCurrentTus([]);
+    setIngestStatus(null);
     setError(null);
     setSearchQuery('');
-    setFilteredIndices(null);
+    setResultSet(null);
+    setOriginFilter(null);
+    setLanguageView(DEFAULT_LANGUAGE_VIEW);
+    setViewMode('units');
+    setComparison(null);
+    setConsistency(null);
+    setShowConsistency(false);
+    setClusterView(null);
+    setQaRun(null);
+    setQaFilter(null);
+    setShowQaPanel(false);
+    setShowFuzzyPanel(false);
+    setShowDiagnostics(false);
+    setShowAnalytics(false);
+    setAnalytics(null);
+    setFacets([]);
+    setDateRanges([]);
+    setListSort(null);
+    setEditState(null);
+    setModifiedOnly(false);
+    setShowReplaceDialog(false);
+    setSelection(new Set());
+    setCleanupStats(null);
     setCurrentPage(1);
+    setListKey('');
+    setFocusedPosition(null);
+    setExpandedRows(new Set());
+    setJumpInput('');
+    listPositionsRef.current.clear();
+    pendingPositionRef.current = null;
+    linkTargetRef.current = null;
+    linkedFocusRef.current = null;
+    setFocusedUnit(null);
+    setSessionFiles([]);
     setBatchInput('');
     setIsBatchActive(false);
+    setBatchOptions(DEFAULT_BATCH_OPTIONS);
+    setBatchReport(null);
+  };
+
+  const cancelSearch = () => {
+    if (searchRequestRef.current !== null) {
+      clientRef.current?.cancel(searchRequestRef.current);
+      searchRequestRef.current = null;
+    }
+    setIsSearching(false);
   };
 
-  // Run Search (Standard or Batch)
-  const triggerSearch = () => {
-    if (!workerRef.current) return;
+  const runSearch = (params: SearchParams) => {
+    const client = clientRef.current;
+    if (!client) return;
 
-    if (isBatchActive) {
+    // Only the latest search matters; abandon whatever is still scanning
+    cancelSearch();
+    setClusterView(null);
+    const { id, promise } = client.request('SEARCH', params);
+    searchRequestRef.current = id;
+    setIsSearching(true);
+
+    promise
+      .then((result) => {
+        if (searchRequestRef.current !== id) return;
+        searchRequestRef.current = null;
+        setResultSet({ id: result.resultSetId, total: result.total, ranked: result.ranked });
+        setBatchReport(result.batchReport ?? null);
+        setIsSearching(false);
+        showList(JSON.stringify({ ...params, queryTree: undefined }), result.total, result.resultSetId);
+      })
+      .catch((err: unknown) => {
+        if (err instanceof RequestCancelledError) return;
+        setError(`Search failed. ${err instanceof Error ? err.message : ''}`);
+        setIsSearching(false);
+      });
+  };
+
+  const clearResults = () => {
+    cancelSearch();
+    setClusterView(null);
+    setResultSet(null);
+    setBatchReport(null);
+    showList('', loadedCount - (editState?.deletedCount ?? 0), null);
+  };
+
+  // A list opens where it was last left, so dropping a filter goes back to the same spot
+  const showList = (key: string, total: number, resultSetId: number | null) => {
+    const linked = linkedFocusRef.current?.key === key ? linkedFocusRef.current : null;
+    linkedFocusRef.current = linked;
+    const saved = linked?.position ?? pendingPositionRef.current ?? listPositionsRef.current.get(key) ?? 0;
+    pendingPositionRef.current = null;
+    const position = Math.min(saved, Math.max(0, total - 1));
+    listPositionsRef.current.set(key, position);
+    setListKey(key);
+    setCurrentPage(Math.floor(position / itemsPerPage) + 1);
+    setFocusedPosition(linked ? position : null);
+    locateLinkTarget(key, resultSetId);
+  };
+
+  // Run Search (Standard or Batch), restricted to the chosen origin file, QA checks and languages if any
+  const triggerSearch = (overrides: SearchOverrides = {}) => {
+    const {
+      batchActive = isBatchActive,
+      batchText = batchInput,
+      batchOptions: options = batchOptions,
+      origin = originFilter,
+      qaChecks = qaFilter,
+      modifiedOnly: onlyModified = modifiedOnly,
+      languageView: view = languageView,
+      facets: facetFilters = facets,
+      dateRanges: ranges = dateRanges,
+      sort = listSort
+    } = overrides;
+    const originFiles = origin === null ? undefined : [origin];
+    const languages = isLanguageFiltered(view) ? { source: view.source, targets: view.targets } : undefined;
+    const scope = {
+      originFiles,
+      qaChecks: qaChecks ?? undefined,
+      modifiedOnly: onlyModified || undefined,
+      languages,
+      facets: facetFilters.length > 0 ? facetFilters : undefined,
+      dateRanges: ranges.length > 0 ? ranges.map(dateRangeBounds) : undefined,
+      sort: sort ?? undefined
+    };
+    if (batchActive) {
       // Batch mode
-      const ids = batchInput.split(/[\n,]+/).map(s => s.trim()).filter(Boolean);
+      const ids = splitBatchInput(batchText, options.field);
       if (ids.length === 0) {
-        setFilteredIndices(null);
+        clearResults();
         setIsBatchActive(false);
         return;
       }
-      setIsSearching(true);
-      workerRef.current.postMessage({ 
-        type: 'SEARCH', 
-        payload: { query: '', mode: 'batch_id', batchList: ids } 
-      });
+      runSearch({ query: '', mode: 'batch_id', batchList: ids, batchOptions: options, ...scope });
     } else {
       // Standard search
-      if (!searchQuery.trim()) {
-        setFilteredIndices(null);
+      setQueryError(null);
+      if (!searchQuery.trim() && !originFiles && !qaChecks && !onlyModified && !languages && !scope.facets && !scope.dateRanges && !sort) {
+        clearResults();
         return;
       }
-      setIsSearching(true);
-      workerRef.current.postMessage({ 
-        type: 'SEARCH', 
-        payload: { query: searchQuery, mode: searchMode } 
-      });
+      // Query syntax is checked here so mistakes show up without a worker round trip
+      let queryTree: QueryNode | undefined;
+      if (searchMode === 'query') {
+        try {
+          queryTree = parseQuery(searchQuery) ?? undefined;
+        } catch (err) {
+          if (!(err instanceof QuerySyntaxError)) throw err;
+          setQueryError(err);
+          return;
+        }
+      }
+      runSearch({ query: searchQuery, mode: searchMode, queryTree, ...scope });
     }
   };
 
@@ -156,8 +849,9 @@ function App() {
   useEffect(() => {
     if (isBatchActive) return; // Don't auto-search text if batch is active
     
-    if (!searchQuery.trim()) {
-      setFilteredIndices(null);
+    if (!searchQuery.trim() && originFilter === null && qaFilter === null && !modifiedOnly && !isLanguageFiltered(languageView) && facets.length === 0 && dateRanges.length === 0 && !listSort) {
+      setQueryError(null);
+      clearResults();
       return;
     }
 
@@ -168,41 +862,720 @@ function App() {
     return () => clearTimeout(timer);
   }, [searchQuery, searchMode]);
 
+  // Results computed while the file was still streaming only cover the part loaded so far
+  useEffect(() => {
+    if (ingestStatus?.done && (isBatchActive || searchQuery.trim() || originFilter !== null || qaFilter !== null || modifiedOnly || isLanguageFiltered(languageView) || facets.length > 0 || dateRanges.length > 0 || listSort)) {
+      triggerSearch();
+    }
+  }, [ingestStatus?.done]);
+
+  // Only a change to which units qualify needs a new search; reordering columns does not
+  const changeLanguageView = (view: LanguageView) => {
+    const filterKey = (v: LanguageView) => (isLanguageFiltered(v) ? [v.source, ...[...v.targets].sort()].join() : null);
+    const changed = filterKey(languageView) !== filterKey(view);
+    setLanguageView(view);
+    if (changed) triggerSearch({ languageView: view });
+  };
+
+  const selectOrigin = (origin: number | null) => {
+    setOriginFilter(origin);
+    triggerSearch({ origin });
+  };
+
+  // The prop picker of the batch dialog lists the prop types in the memory
+  const openBatchModal = () => {
+    clientRef.current
+      ?.request('GET_STATS', {})
+      .promise.then(({ propTypes }) => setBatchPropTypes(propTypes))
+      .catch(reportFailure('Could not list the prop types.'));
+    setShowBatchModal(true);
+  };
+
   // Handle Batch Modal Submit
-  const applyBatchFilter = () => {
+  const applyBatchFilter = (input: string, options: BatchOptions) => {
     setShowBatchModal(false);
-    if (!batchInput.trim()) {
+    setBatchInput(input);
+    setBatchOptions(options);
+    if (splitBatchInput(input, options.field).length === 0) {
       setIsBatchActive(false);
       setSearchQuery(''); // clear standard search to show nothing/all
-      setFilteredIndices(null);
+      clearResults();
       return;
     }
     setIsBatchActive(true);
     setSearchQuery(''); // Clear text search visual
-    triggerSearch();
+    triggerSearch({ batchActive: true, batchText: input, batchOptions: options });
   };
 
   const clearBatch = () => {
     setIsBatchActive(false);
     setBatchInput('');
-    setFilteredIndices(null);
+    clearResults();
+  };
+
+  // The export dialog needs the language and prop columns available in the memory
+  const openExportDialog = () => {
+    clientRef.current
+      ?.request('GET_STATS', {})
+      .promise.then(setExportColumns)
+      .catch(reportFailure('Could not list the columns to export.'));
+  };
+
+  const handleExport = (format: ExportFormat, scope: ExportScope, options: TabularExportOptions) => {
+    const client = clientRef.current;
+    if (!client || files.length === 0) return;
+    const resultSetId = scope === 'filtered' ? resultSet?.id ?? null : null;
+    const request = format === 'tmx'
+      ? client.request('EXPORT_TMX', { resultSetId })
+      : client.request('EXPORT_TABLE', { resultSetId, options });
+
+    setIsExporting(true);
+    request.promise
+      .then(({ blob }) => {
+        downloadBlob(blob, deriveFileName(files[0].name, resultSetId !== null ? 'filtered' : files.length > 1 ? 'merged' : 'export', format));
+        setExportColumns(null);
+      })
+      .catch(reportFailure('Export failed.'))
+      .finally(() => setIsExporting(false));
+  };
+
+  const runCompare = (baseline: number, revised: number, matchBy: DiffMatchKey) => {
+    const client = clientRef.current;
+    if (!client) return;
+    setShowCompareDialog(false);
+    client
+      .request('COMPARE', { baseline, revised, matchBy })
+      .promise.then((result) => {
+        setComparison({ id: result.diffSetId, baseline, revised, counts: result.counts });
+        setDiffFilter(DEFAULT_DIFF_FILTER);
+        setCurrentPage(1);
+      })
+      .catch((err: unknown) => {
+        if (err instanceof RequestCancelledError) return;
+        setError(`Comparison failed. ${err instanceof Error ? err.message : ''}`);
+      });
+  };
+
+  const toggleDiffStatus = (status: DiffStatus) => {
+    setDiffFilter(list => (list.includes(status) ? list.filter(s => s !== status) : [...list, status]));
+    setCurrentPage(1);
+  };
+
+  const exitCompare = () => {
+    setComparison(null);
+    setCurrentDiffs([]);
+    setCurrentPage(1);
+  };
+
+  // The report reflects the memory at analysis time, so it is kept until files are added
+  const openConsistencyReport = () => {
+    const client = clientRef.current;
+    if (!client) return;
+    if (consistency) {
+      setShowConsistency(true);
+      return;
+    }
+    setIsAnalyzing(true);
+    client
+      .request('ANALYZE_CONSISTENCY', {})
+      .promise.then((result) => {
+        setConsistency(result);
+        setShowConsistency(true);
+      })
+      .catch((err: unknown) => {
+        if (err instanceof RequestCancelledError) return;
+        setError(`Consistency analysis failed. ${err instanceof Error ? err.message : ''}`);
+      })
+      .finally(() => setIsAnalyzing(false));
+  };
+
+  const loadClusterPage = (issue: ConsistencyIssue, offset: number, limit: number) => {
+    const client = clientRef.current;
+    if (!client || !consistency) return Promise.reject(new Error('No report available.'));
+    return client.request('GET_CLUSTER_PAGE', { reportId: consistency.reportId, issue, offset, limit }).promise;
+  };
+
+  // Show every unit of a cluster in the main list
+  const jumpToCluster = (cluster: ConsistencyCluster) => {
+    const client = clientRef.current;
+    if (!client || !consistency) return;
+    if (isBatchActive) clearBatch();
+    setSearchQuery('');
+    setOriginFilter(null);
+    setQaFilter(null);
+    setComparison(null);
+    setViewMode('units');
+    setShowConsistency(false);
+    cancelSearch();
+
+    client
+      .request('SELECT_CLUSTER', { reportId: consistency.reportId, issue: cluster.issue, index: cluster.index })
+      .promise.then((result) => {
+        setResultSet({ id: result.resultSetId, total: result.total, ranked: result.ranked });
+        setClusterView(cluster.key || cluster.issue);
+        showList(`cluster:${cluster.issue}:${cluster.index}`, result.total, result.resultSetId);
+      })
+      .catch(reportFailure('Could not show the units of this finding.'));
+  };
+
+  const exportCluster = (cluster: ConsistencyCluster) => {
+    const client = clientRef.current;
+    if (!client || !consistency || files.length === 0) return;
+    client
+      .request('EXPORT_CLUSTER', { reportId: consistency.reportId, issue: cluster.issue, index: cluster.index })
+      .promise.then(({ blob }) => downloadBlob(blob, deriveFileName(files[0].name, `${cluster.issue}-${cluster.index + 1}`, 'tmx')))
+      .catch(reportFailure('Exporting the units of this finding failed.'));
+  };
+
+  const exportConsistencyReport = () => {
+    const client = clientRef.current;
+    if (!client || !consistency || files.length === 0) return;
+    client
+      .request('EXPORT_REPORT', { reportId: consistency.reportId })
+      .promise.then(({ blob }) => downloadBlob(blob, deriveFileName(files[0].name, 'consistency', 'csv')))
+      .catch(reportFailure('Exporting the consistency report failed.'));
+  };
+
+  const lookupFuzzy = (text: string, minScore: number, limit: number) => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('FUZZY_MATCH', { text, minScore, limit }).promise;
+  };
+
+  const runQa = (config: QaConfig) => {
+    const client = clientRef.current;
+    if (!client) return;
+    setQaConfig(config);
+    setIsRunningQa(true);
+    const { id, promise } = client.request('RUN_QA', { config });
+    qaRequestRef.current = id;
+    promise
+      .then((result) => {
+        if (qaRequestRef.current !== id) return;
+        setQaRun(result);
+        // Re-apply the filter against the new findings
+        if (qaFilter) {
+          const checks = qaFilter.filter(check => result.counts[check] > 0);
+          setQaFilter(checks.length > 0 ? checks : null);
+          triggerSearch({ qaChecks: checks.length > 0 ? checks : null });
+        }
+      })
+      .catch((err: unknown) => {
+        if (err instanceof RequestCancelledError || qaRequestRef.current !== id) return;
+        setError(`QA checks failed. ${err instanceof Error ? err.message : ''}`);
+      })
+      .finally(() => {
+        if (qaRequestRef.current === id) setIsRunningQa(false);
+      });
+  };
+
+  const selectQaFilter = (checks: QaCheckId[] | null) => {
+    setQaFilter(checks);
+    setShowQaPanel(false);
+    setViewMode('units');
+    triggerSearch({ qaChecks: checks });
+  };
+
+  // Clicking a bucket in the analytics adds it as a filter, clicking it again removes it
+  const toggleFacet = (facet: FacetFilter) => {
+    const next = facets.some(f => sameFacet(f, facet)) ? facets.filter(f => !sameFacet(f, facet)) : [...facets, facet];
+    setFacets(next);
+    setViewMode('units');
+    triggerSearch({ facets: next });
+  };
+
+  const clearFacets = () => {
+    setFacets([]);
+    triggerSearch({ facets: [] });
+  };
+
+  const changeDateRanges = (ranges: DateRange[]) => {
+    setDateRanges(ranges);
+    setViewMode('units');
+    triggerSearch({ dateRanges: ranges });
+  };
+
+  const changeListSort = (sort: ListSort | null) => {
+    setListSort(sort);
+    setViewMode('units');
+    triggerSearch({ sort });
+  };
+
+  // The worker drops QA findings and the consistency report on every change. QA runs
+  // again with the same checks so its badges and filter stay; the report is rebuilt on request.
+  const applyEditState = (state: EditState) => {
+    setEditState(state);
+    setConsistency(null);
+    if (qaRun) runQa(qaConfig);
+  };
+
+  const saveEdit = (index: number, edit: TuEdit) => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('EDIT_TU', { index, edit, user: editUser.trim() || undefined }).promise.then(applyEditState);
+  };
+
+  const stepHistory = (type: 'UNDO' | 'REDO') => {
+    const client = clientRef.current;
+    if (!client) return;
+    client
+      .request(type, {})
+      .promise.then(applyEditState)
+      .catch(reportFailure('Undo or redo failed.'));
+  };
+
+  const previewReplace = (options: ReplaceOptions, inResults: boolean) => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('PREVIEW_REPLACE', { resultSetId: inResults ? resultSet?.id ?? null : null, options }).promise;
+  };
+
+  const loadReplacePage = (previewId: number, offset: number, limit: number) => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('GET_REPLACE_PAGE', { previewId, offset, limit }).promise;
+  };
+
+  const loadDiagnosticsPage = (fileIndex: number, codes: DiagnosticCode[], offset: number, limit: number): Promise<DiagnosticsResult> => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('GET_DIAGNOSTICS', { fileIndex, codes, offset, limit }).promise;
+  };
+
+  // A finding's unit is looked for in the current list; filtered out, it shows up as a missed jump
+  const showDiagnosedUnit = (unit: number, tuid?: string) => {
+    const client = clientRef.current;
+    if (!client) return;
+    setShowDiagnostics(false);
+    setViewMode('units');
+    client
+      .request('LOCATE_TU', { resultSetId: resultSet?.id ?? null, index: unit })
+      .promise.then((position) => {
+        if (position >= 0) {
+          setJumpMissed(false);
+          focusPosition(position);
+        } else {
+          setJumpInput(tuid ?? '');
+          setJumpMissed(true);
+        }
+      })
+      .catch(reportFailure('Could not find the unit in the list.'));
+  };
+
+  const applyReplace = (previewId: number) => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('APPLY_REPLACE', { previewId, user: editUser.trim() || undefined }).promise.then(applyEditState);
   };
 
-  const totalCount = filteredIndices === null ? normalizedTus.length : filteredIndices.length;
+  /** Toggles one unit, or with `range` selects everything from the last clicked one to it. */
+  const toggleSelected = (position: number, index: number, range: boolean) => {
+    const client = clientRef.current;
+    const anchor = selectionAnchorRef.current;
+    selectionAnchorRef.current = position;
+    if (!range || anchor === null || !client) {
+      setSelection(current => {
+        const next = new Set(current);
+        if (next.has(index)) next.delete(index);
+        else next.add(index);
+        return next;
+      });
+      return;
+    }
+    const from = Math.min(anchor, position);
+    client
+      .request('GET_INDICES', { resultSetId: resultSet?.id ?? null, offset: from, limit: Math.max(anchor, position) - from + 1 })
+      .promise.then(indices => setSelection(current => new Set([...current, ...indices])))
+      .catch(reportFailure('Could not select the range.'));
+  };
+
+  // Select every unit the list currently shows, across all pages
+  const selectAllListed = () => {
+    const client = clientRef.current;
+    if (!client) return;
+    client
+      .request('GET_INDICES', { resultSetId: resultSet?.id ?? null, offset: 0, limit: totalCount })
+      .promise.then(indices => setSelection(current => new Set([...current, ...indices])))
+      .catch(reportFailure('Could not select the listed units.'));
+  };
+
+  const clearSelection = () => {
+    setSelection(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  // The cleanup dialog lists the languages and prop types of the memory
+  const openCleanupDialog = () => {
+    clientRef.current
+      ?.request('GET_STATS', {})
+      .promise.then(setCleanupStats)
+      .catch(reportFailure('Could not list the languages and prop types.'));
+  };
+
+  const previewCleanup = (action: BulkAction, selectedOnly: boolean) => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('PREVIEW_BULK', { action, indices: selectedOnly ? [...selection] : null }).promise;
+  };
+
+  const applyCleanup = (previewId: number) => {
+    const client = clientRef.current;
+    if (!client) return Promise.reject(new Error('No memory loaded.'));
+    return client.request('APPLY_BULK', { previewId, user: editUser.trim() || undefined }).promise.then((state) => {
+      applyEditState(state);
+      clearSelection();
+    });
+  };
+
+  const toggleModifiedOnly = () => {
+    setModifiedOnly(!modifiedOnly);
+    setViewMode('units');
+    triggerSearch({ modifiedOnly: !modifiedOnly });
+  };
+
+  const saveFile = (fileIndex: number) => {
+    const client = clientRef.current;
+    const source = sources[fileIndex];
+    if (!client || !source) return;
+    client
+      .request('SAVE_TMX', { fileIndex })
+      .promise.then(({ blob }) => downloadBlob(blob, deriveFileName(source.name, 'edited', 'tmx')))
+      .catch((err: unknown) => {
+        if (err instanceof RequestCancelledError) return;
+        setError(`Saving ${source.name} failed. ${err instanceof Error ? err.message : ''}`);
+      });
+  };
+
+  // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) step through the edit history, except while typing
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || !editState) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey && editState.undoLabel) {
+        e.preventDefault();
+        stepHistory('UNDO');
+      } else if ((key === 'y' || (key === 'z' && e.shiftKey)) && editState.redoLabel) {
+        e.preventDefault();
+        stepHistory('REDO');
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [editState]);
+
+  const exportQaReport = () => {
+    const client = clientRef.current;
+    if (!client || !qaRun || files.length === 0) return;
+    client
+      .request('EXPORT_QA', { qaRunId: qaRun.qaRunId })
+      .promise.then(({ blob }) => downloadBlob(blob, deriveFileName(files[0].name, 'qa', 'csv')))
+      .catch(reportFailure('Exporting the QA report failed.'));
+  };
+
+  const deletedCount = editState?.deletedCount ?? 0;
+  const totalCount = comparison
+    ? diffTotal
+    : viewMode === 'merged' ? groupSet?.total ?? 0 : resultSet === null ? loadedCount - deletedCount : resultSet.total;
   const totalPages = Math.ceil(totalCount / itemsPerPage);
-  
-  const currentTus = useMemo(() => {
-    const start = (currentPage - 1) * itemsPerPage;
-    const end = start + itemsPerPage;
-    
-    if (filteredIndices === null) {
-      return normalizedTus.slice(start, end);
-    } else {
-      return filteredIndices.slice(start, end).map(idx => normalizedTus[idx]);
+  // While streaming, the unfiltered page only needs refetching until it has filled up
+  const pageFill = resultSet === null ? Math.min(loadedCount, currentPage * itemsPerPage) : 0;
+  const scrolling = listLayout === 'scroll' && !comparison && viewMode === 'units';
+
+  // Validator findings across the loaded files
+  const fileProblems = sources.reduce(
+    (sum, source) => ({ errors: sum.errors + (source.validation?.errors || 0), warnings: sum.warnings + (source.validation?.warnings || 0) }),
+    { errors: 0, warnings: 0 }
+  );
+
+  // Shift-click ranges are positions in the list, which mean nothing in another one
+  useEffect(() => {
+    selectionAnchorRef.current = null;
+  }, [resultSet]);
+
+  // Deleting units, or undoing that, changes what the filters match; a report cluster
+  // cannot be rerun and is left instead
+  useEffect(() => {
+    if (!resultSet) return;
+    if (clusterView) clearResults();
+    else triggerSearch();
+  }, [deletedCount]);
+
+  // Count the analytics of whatever the list shows while the panel is open
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!showAnalytics || !client || !ingestStatus?.done) return;
+    let stale = false;
+    setIsCountingAnalytics(true);
+    const { id, promise } = client.request('GET_ANALYTICS', { resultSetId: resultSet?.id ?? null });
+
+    promise
+      .then((result) => {
+        if (!stale) setAnalytics(result);
+      })
+      .catch(reportFailure('Counting the analytics failed.'))
+      .finally(() => {
+        if (!stale) setIsCountingAnalytics(false);
+      });
+
+    return () => {
+      stale = true;
+      client.cancel(id);
+    };
+  }, [showAnalytics, resultSet, ingestStatus?.done, editState]);
+
+  // Group the current results for the merged view; regrouped once loading completes
+  useEffect(() => {
+    const client = clientRef.current;
+    if (viewMode !== 'merged' || !client) {
+      setGroupSet(null);
+      return;
     }
-  }, [normalizedTus, filteredIndices, currentPage]);
+    let stale = false;
+    const { id, promise } = client.request('GROUP_TUS', { resultSetId: resultSet?.id ?? null });
+
+    promise
+      .then((result) => {
+        if (stale) return;
+        setGroupSet({ id: result.groupSetId, total: result.total });
+        setCurrentPage(1);
+      })
+      .catch(reportFailure('Grouping failed.'));
 
-  if (!file || (!loading && !parsedData && !error && normalizedTus.length === 0)) {
+    return () => {
+      stale = true;
+      client.cancel(id);
+    };
+  }, [viewMode, resultSet, ingestStatus?.done, deletedCount]);
+
+  // Fetch the visible page from the worker
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
+    let stale = false;
+    const offset = (currentPage - 1) * itemsPerPage;
+
+    if (comparison) {
+      client
+        .request('GET_DIFF_PAGE', { diffSetId: comparison.id, statuses: diffFilter, offset, limit: itemsPerPage })
+        .promise.then((page) => {
+          if (stale) return;
+          setCurrentDiffs(page.entries);
+          setDiffTotal(page.total);
+        })
+        .catch(reportFailure('Could not load the comparison.'));
+      return () => {
+        stale = true;
+      };
+    }
+
+    if (viewMode === 'merged') {
+      if (!groupSet) return;
+      client
+        .request('GET_GROUP_PAGE', { groupSetId: groupSet.id, offset, limit: itemsPerPage })
+        .promise.then((page) => {
+          if (!stale) setCurrentGroups(page.groups);
+        })
+        .catch(reportFailure('Could not load the merged units.'));
+      return () => {
+        stale = true;
+      };
+    }
+
+    // The continuous list fetches its own rows
+    if (listLayout === 'scroll') return;
+
+    client
+      .request('GET_PAGE', {
+        resultSetId: resultSet?.id ?? null,
+        offset,
+        limit: itemsPerPage
+      })
+      .promise.then((page) => {
+        if (stale) return;
+        setCurrentTus(page.tus);
+        setCurrentQa(page.qa || []);
+        setCurrentScores(page.scores || []);
+        setCurrentHits(page.hits || []);
+        setCurrentIndices(page.indices);
+        setCurrentModified(page.modified || []);
+      })
+      .catch(reportFailure('Could not load the units.'));
+
+    return () => {
+      stale = true;
+    };
+  }, [comparison, diffFilter, viewMode, groupSet, resultSet, currentPage, pageFill, qaRun, editState, listLayout]);
+
+  // Count the hits of a freshly rendered page, landing on one if navigation brought us here
+  useEffect(() => {
+    const count = listRef.current ? hitGroups(listRef.current).length : 0;
+    const pending = pendingHitRef.current;
+    pendingHitRef.current = null;
+    setPageHitCount(count);
+    setActiveHit(pending && count > 0 ? (pending === 'first' ? 0 : count - 1) : null);
+  }, [currentTus, currentHits]);
+
+  useEffect(() => {
+    if (!listRef.current) return;
+    const groups = hitGroups(listRef.current);
+    groups.forEach((marks, idx) => marks.forEach(mark => {
+      mark.classList.toggle('ring-2', idx === activeHit);
+      mark.classList.toggle('ring-orange-400', idx === activeHit);
+    }));
+    if (activeHit !== null) groups[activeHit]?.[0].scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [activeHit, currentTus, currentHits]);
+
+  /** Steps to the next or previous hit, turning the page at either end of it. */
+  const goToHit = (step: 1 | -1) => {
+    const next = activeHit === null ? (step > 0 ? 0 : pageHitCount - 1) : activeHit + step;
+    if (next >= 0 && next < pageHitCount) {
+      setActiveHit(next);
+    } else if (step > 0 && currentPage < totalPages) {
+      pendingHitRef.current = 'first';
+      setCurrentPage(currentPage + 1);
+    } else if (step < 0 && currentPage > 1) {
+      pendingHitRef.current = 'last';
+      setCurrentPage(currentPage - 1);
+    }
+  };
+
+  // Remember the page each list was left on
+  useEffect(() => {
+    if (listLayout === 'pages' && !comparison && viewMode === 'units') {
+      listPositionsRef.current.set(listKey, (currentPage - 1) * itemsPerPage);
+    }
+  }, [currentPage]);
+
+  const fileNames = useMemo(() => sources.map(source => source.name), [sources]);
+
+  // Loaded rows of the continuous list go stale with every edit or QA run
+  const listVersion = useMemo(() => ({}), [editState, qaRun]);
+
+  const loadListRange = (offset: number, limit: number): Promise<ListRow[]> => {
+    const client = clientRef.current;
+    if (!client) return Promise.resolve([]);
+    return client.request('GET_PAGE', { resultSetId: resultSet?.id ?? null, offset, limit }).promise.then(page =>
+      page.tus.map((tu, idx) => ({
+        tu,
+        index: page.indices[idx],
+        qa: page.qa?.[idx],
+        score: page.scores?.[idx],
+        hits: page.hits?.[idx],
+        modified: page.modified?.[idx]
+      }))
+    );
+  };
+
+  const changeListLayout = (layout: ListLayout) => {
+    // The page opens at the first unit that was in view, and the list at the top of the page
+    if (layout === 'pages') setCurrentPage(Math.floor((listPositionsRef.current.get(listKey) ?? 0) / itemsPerPage) + 1);
+    setListLayout(layout);
+  };
+
+  const focusPosition = (position: number) => {
+    setFocusedPosition(position);
+    if (listLayout === 'pages') setCurrentPage(Math.floor(position / itemsPerPage) + 1);
+  };
+
+  // j/k move the focus by one unit, Page Up/Down by a screen or a page
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || comparison || viewMode !== 'units' || totalCount === 0) return;
+      if ((e.target as HTMLElement).closest('input, textarea, select, [contenteditable]')) return;
+      const screen = scrolling ? Math.max(1, visibleRangeRef.current.last - visibleRangeRef.current.first) : itemsPerPage;
+      const step = ({ j: 1, k: -1, PageDown: screen, PageUp: -screen } as Record<string, number>)[e.key];
+      if (!step) return;
+      e.preventDefault();
+      if (focusedPosition === null) {
+        focusPosition(scrolling ? visibleRangeRef.current.first : (currentPage - 1) * itemsPerPage);
+      } else {
+        focusPosition(Math.max(0, Math.min(totalCount - 1, focusedPosition + step)));
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [focusedPosition, scrolling, comparison, viewMode, totalCount, currentPage, listLayout]);
+
+  // On a page, the focused unit is scrolled to once its page has loaded
+  useEffect(() => {
+    if (focusedPosition === null || scrolling) return;
+    listRef.current?.querySelector(`[data-position="${focusedPosition}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [focusedPosition, currentTus]);
+
+  // "#120" goes to the 120th unit of the list; anything else is looked up as a tuid first
+  const jumpTo = () => {
+    const client = clientRef.current;
+    const value = jumpInput.trim();
+    if (!client || !value) return;
+    const number = /^#?\d+$/.test(value) ? Number(value.replace('#', '')) - 1 : -1;
+    const located = value.startsWith('#')
+      ? Promise.resolve(-1)
+      : client.request('LOCATE_TU', { resultSetId: resultSet?.id ?? null, tuid: value }).promise;
+    located
+      .then((position) => {
+        const target = position >= 0 ? position : number >= 0 && number < totalCount ? number : -1;
+        setJumpMissed(target < 0);
+        if (target >= 0) focusPosition(target);
+      })
+      .catch(reportFailure('Could not find the unit in the list.'));
+  };
+
+  const toggleExpanded = (index: number) =>
+    setExpandedRows(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  const renderUnit = (row: ListRow, position: number) => {
+    const card = (
+      <TuCard
+        tu={row.tu}
+        searchMode={isBatchActive ? 'batch' : searchMode}
+        searchQuery={searchQuery}
+        originName={sources.length > 1 && row.tu.origin !== undefined ? fileNames[row.tu.origin] : undefined}
+        languageView={languageView}
+        qaIssues={row.qa}
+        score={row.score}
+        hits={row.hits}
+        modified={row.modified}
+        onEdit={edit => saveEdit(row.index, edit)}
+        editUser={editUser}
+        onEditUserChange={setEditUser}
+        selected={selection.has(row.index)}
+        onSelect={range => toggleSelected(position, row.index, range)}
+        focused={density === 'comfortable' && focusedPosition === position}
+      />
+    );
+    if (density === 'comfortable') return card;
+    return (
+      <TuRow
+        tu={row.tu}
+        position={position}
+        hits={row.hits}
+        languageView={languageView}
+        qaIssues={row.qa}
+        modified={row.modified}
+        selected={selection.has(row.index)}
+        onSelect={range => toggleSelected(position, row.index, range)}
+        focused={focusedPosition === position}
+        expanded={expandedRows.has(row.index)}
+        onToggleExpanded={() => toggleExpanded(row.index)}
+      >
+        {card}
+      </TuRow>
+    );
+  };
+
+  if (files.length === 0 || (!loading && !header && !error && loadedCount === 0)) {
+    // The link's files, when this browser keeps all of them
+    const linkedRecentFiles = sharedLink && sharedLink.files.length > 0
+      ? sharedLink.files.map(fingerprint => recentFiles.find(f => f.fingerprint === fingerprint))
+      : null;
+    const linkedStored = linkedRecentFiles?.every(Boolean) ? (linkedRecentFiles as RecentFile[]) : null;
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 p-4">
         <div className="max-w-xl w-full text-center space-y-8">
@@ -212,18 +1585,54 @@ function App() {
               Visualize, inspect, and analyze your Translation Memory eXchange files locally and securely.
             </p>
           </div>
+          {sharedLink && (
+            <div className="bg-blue-50 border border-blue-200 rounded-xl p-3 flex items-center gap-3 text-left text-sm text-blue-800">
+              <Link2 size={16} className="shrink-0" />
+              <span className="flex-1">
+                This link opens a view
+                {sharedLink.unit && <> at <span className="font-mono">{'tuid' in sharedLink.unit ? sharedLink.unit.tuid : sharedLink.unit.segmentId}</span></>}
+                . Open the file it was made with to see it.
+              </span>
+              {linkedStored && (
+                <button
+                  onClick={() => openStoredFiles(sharedLink.files)}
+                  className="shrink-0 px-3 py-1 rounded-lg bg-blue-600 text-white hover:bg-blue-700 font-medium"
+                  title="The file is kept in this browser"
+                >
+                  Open {linkedStored.map(f => f.name).join(', ')}
+                </button>
+              )}
+              <button onClick={dismissSharedLink} className="shrink-0 text-blue-400 hover:text-blue-600" title="Ignore the link">
+                <X size={16} />
+              </button>
+            </div>
+          )}
           <div className="bg-white border-2 border-dashed border-slate-300 rounded-xl p-12 hover:border-blue-500 hover:bg-slate-50 transition-all cursor-pointer relative group">
-            <input type="file" accept=".tmx,.xml" onChange={handleFileUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"/>
+            <input type="file" multiple accept={ACCEPTED_FILES} onChange={handleFileUpload} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"/>
             <div className="flex flex-col items-center space-y-4">
               <div className="p-4 bg-blue-50 text-blue-600 rounded-full group-hover:scale-110 transition-transform">
                 <Upload size={32} />
               </div>
               <div className="space-y-1">
-                <p className="font-semibold text-slate-700">Click to upload or drag and drop</p>
-                <p className="text-sm text-slate-400">Supported format: .tmx (XML)</p>
+                <p className="font-semibold text-slate-700">Click to upload or drag and drop one or more files</p>
+                <p className="text-sm text-slate-400">Pick a baseline and a revised file to compare versions</p>
+                <p className="text-sm text-slate-400">Supported formats: TMX, XLIFF 1.2/2.x, TBX, CSV/TSV</p>
               </div>
             </div>
           </div>
+
+          {isStorageAvailable() && (
+            <RecentFiles
+              recentFiles={recentFiles}
+              resumable={resumable}
+              error={storageError}
+              rememberFiles={rememberFiles}
+              onOpen={openStoredFiles}
+              onForget={forgetRecentFile}
+              onForgetAll={forgetRecentFiles}
+              onRememberChange={changeRememberFiles}
+            />
+          )}
         </div>
       </div>
     );
@@ -233,31 +1642,130 @@ function App() {
     <div className="min-h-screen bg-slate-50 flex flex-col relative">
       {/* Batch Filter Modal */}
       {showBatchModal && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
-          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg flex flex-col max-h-[90vh]">
-            <div className="p-4 border-b border-slate-100 flex justify-between items-center">
-              <h3 className="font-bold text-slate-800 flex items-center gap-2">
-                <List size={18} /> Batch Filter by ID
-              </h3>
-              <button onClick={() => setShowBatchModal(false)} className="text-slate-400 hover:text-slate-600">
-                <X size={20} />
-              </button>
-            </div>
-            <div className="p-4 flex-1 flex flex-col">
-              <p className="text-sm text-slate-500 mb-2">Paste a list of x-segment-ids (one per line) to filter specifically.</p>
-              <textarea 
-                className="flex-1 w-full min-h-[200px] p-3 border border-slate-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
-                placeholder={`RingCentral.webModule.abc123\nRingCentral.webModule.xyz987`}
-                value={batchInput}
-                onChange={(e) => setBatchInput(e.target.value)}
-              />
-            </div>
-            <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
-              <button onClick={() => setShowBatchModal(false)} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
-              <button onClick={applyBatchFilter} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium">Apply Filter</button>
-            </div>
-          </div>
-        </div>
+        <BatchFilterDialog
+          input={batchInput}
+          options={batchOptions}
+          propTypes={batchPropTypes}
+          report={isBatchActive ? batchReport : null}
+          onApply={applyBatchFilter}
+          onClose={() => setShowBatchModal(false)}
+        />
+      )}
+
+      {/* CSV Column Mapping */}
+      {csvImport && (
+        <CsvMappingDialog
+          fileName={csvImport.file.name}
+          preview={csvImport.preview}
+          onConfirm={resolveCsvMapping}
+          onCancel={() => resolveCsvMapping(null)}
+        />
+      )}
+
+      {/* Compare Dialog */}
+      {showCompareDialog && (
+        <CompareDialog
+          sources={sources}
+          onCompare={runCompare}
+          onClose={() => setShowCompareDialog(false)}
+        />
+      )}
+
+      {/* Consistency Report */}
+      {showConsistency && consistency && (
+        <ConsistencyReport
+          counts={consistency.counts}
+          loadPage={loadClusterPage}
+          onJump={jumpToCluster}
+          onExportCluster={exportCluster}
+          onExportReport={exportConsistencyReport}
+          onClose={() => setShowConsistency(false)}
+          fileNames={fileNames}
+        />
+      )}
+
+      {/* Fuzzy Match Lookup */}
+      {showFuzzyPanel && (
+        <FuzzyMatchPanel
+          lookup={lookupFuzzy}
+          fileNames={sources.length > 1 ? fileNames : undefined}
+          onClose={() => setShowFuzzyPanel(false)}
+        />
+      )}
+
+      {/* Find and Replace */}
+      {showReplaceDialog && (
+        <ReplaceDialog
+          languages={[...new Set(sources.flatMap(source => source.languages))].sort()}
+          sourceLang={header?.['@_srclang'] || ''}
+          filteredCount={resultSet ? resultSet.total : null}
+          preview={previewReplace}
+          loadPage={loadReplacePage}
+          apply={applyReplace}
+          onClose={() => setShowReplaceDialog(false)}
+        />
+      )}
+
+      {/* Bulk Cleanup */}
+      {cleanupStats && (
+        <CleanupDialog
+          languages={cleanupStats.stats.languages}
+          propTypes={cleanupStats.propTypes}
+          sources={sources}
+          selectedCount={selection.size}
+          preview={previewCleanup}
+          apply={applyCleanup}
+          onSave={saveFile}
+          onClose={() => setCleanupStats(null)}
+        />
+      )}
+
+      {/* QA Checks */}
+      {showQaPanel && (
+        <QaPanel
+          config={qaConfig}
+          result={qaRun}
+          isRunning={isRunningQa}
+          activeFilter={qaFilter}
+          onRun={runQa}
+          onFilter={selectQaFilter}
+          onExport={exportQaReport}
+          onClose={() => setShowQaPanel(false)}
+        />
+      )}
+
+      {showDiagnostics && (
+        <DiagnosticsPanel
+          sources={sources}
+          loadPage={loadDiagnosticsPage}
+          onShowUnit={showDiagnosedUnit}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+
+      {showAnalytics && (
+        <AnalyticsPanel
+          analytics={analytics}
+          isLoading={isCountingAnalytics}
+          isFiltered={resultSet !== null}
+          facets={facets}
+          onToggleFacet={toggleFacet}
+          onClearFacets={clearFacets}
+          onClose={() => setShowAnalytics(false)}
+        />
+      )}
+
+      {/* Export Dialog */}
+      {exportColumns && (
+        <ExportDialog
+          languages={exportColumns.stats.languages}
+          propTypes={exportColumns.propTypes}
+          totalCount={loadedCount - deletedCount}
+          filteredCount={resultSet ? resultSet.total : null}
+          isExporting={isExporting}
+          onExport={handleExport}
+          onClose={() => setExportColumns(null)}
+        />
       )}
 
       {/* Header Bar */}
@@ -273,11 +1781,25 @@ function App() {
             </button>
             <div className="flex items-center gap-2">
                <FileText className="text-blue-600" size={20} />
-               <h1 className="font-bold text-slate-800 truncate max-w-[200px] md:max-w-md">{file.name}</h1>
+               <h1 className="font-bold text-slate-800 truncate max-w-[200px] md:max-w-md">{files[0].name}</h1>
+               {files.length > 1 && (
+                 <span className="text-sm text-slate-500 whitespace-nowrap">+{files.length - 1} more</span>
+               )}
             </div>
           </div>
           <div className="flex items-center gap-4">
-            {parsedData && <span className="text-sm text-slate-500 hidden sm:inline-block">TMX v{parsedData.tmx['@_version']}</span>}
+            {sourceFormat?.format === 'tmx'
+              ? tmxVersion && <span className="text-sm text-slate-500 hidden sm:inline-block">TMX v{tmxVersion}</span>
+              : sourceFormat && <span className="text-sm text-slate-500 hidden sm:inline-block">{header?.['@_o-tmf'] || sourceFormat.label}</span>}
+            <label
+              className={`px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 flex items-center gap-2 text-sm font-medium whitespace-nowrap
+                ${ingestStatus?.done ? 'hover:bg-slate-50 cursor-pointer' : 'opacity-50 cursor-not-allowed'}`}
+              title="Merge more files into this session"
+            >
+              <FilePlus size={16} />
+              Add Files
+              <input type="file" multiple accept={ACCEPTED_FILES} onChange={handleAddFiles} disabled={!ingestStatus?.done} className="hidden" />
+            </label>
           </div>
         </div>
       </header>
@@ -288,19 +1810,48 @@ function App() {
           <div className="flex flex-col items-center justify-center py-20">
             <Loader2 size={48} className="text-blue-600 animate-spin mb-4" />
             <p className="text-slate-600 font-medium">Processing translation memory...</p>
+            {ingestStatus && ingestStatus.totalBytes > 0 && (
+              <p className="text-xs text-slate-400 mt-1">
+                {Math.round((ingestStatus.bytesProcessed / ingestStatus.totalBytes) * 100)}% read
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg px-4 py-3 mb-6">
+            <AlertCircle size={18} className="shrink-0 mt-0.5" />
+            <span className="flex-1">{error}</span>
+            <button onClick={() => setError(null)} className="text-red-400 hover:text-red-600">
+              <X size={16} />
+            </button>
           </div>
         )}
 
-        {!loading && !error && parsedData && (
+        {!loading && header && (
           <>
-            <HeaderStats header={parsedData.tmx.header} totalTus={normalizedTus.length} />
+            {ingestStatus && !ingestStatus.done && <IngestProgress status={ingestStatus} />}
+
+            <HeaderStats header={header} totalTus={loadedCount} sources={sources} activeOrigin={originFilter} onSelectOrigin={selectOrigin} />
 
             {/* Toolbar */}
-            <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-6 sticky top-16 bg-slate-50/95 backdrop-blur py-2 z-10 border-b border-slate-200/50">
+            {comparison && (
+              <div className="mb-6 sticky top-16 bg-slate-50/95 backdrop-blur py-2 z-10 border-b border-slate-200/50">
+                <CompareSummary
+                  baselineName={sources[comparison.baseline]?.name || ''}
+                  revisedName={sources[comparison.revised]?.name || ''}
+                  counts={comparison.counts}
+                  activeStatuses={diffFilter}
+                  onToggleStatus={toggleDiffStatus}
+                  onExit={exitCompare}
+                />
+              </div>
+            )}
+            <div className={`flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-6 sticky top-16 bg-slate-50/95 backdrop-blur py-2 z-10 border-b border-slate-200/50 ${comparison ? 'hidden' : ''}`}>
               
-              <div className="flex flex-col sm:flex-row gap-2 w-full lg:max-w-3xl">
+              <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 w-full lg:max-w-3xl">
                 {/* Search Controls */}
-                <div className="flex flex-1 gap-0 shadow-sm rounded-lg overflow-hidden border border-slate-200">
+                <div className={`flex flex-1 gap-0 shadow-sm rounded-lg overflow-hidden border ${queryError ? 'border-red-300' : 'border-slate-200'}`}>
                    {/* Search Mode Dropdown */}
                    <div className="bg-slate-50 border-r border-slate-200 px-2 flex items-center">
                      <select 
@@ -314,8 +1865,10 @@ function App() {
                        className="bg-transparent text-xs font-bold text-slate-600 focus:outline-none py-2 cursor-pointer disabled:opacity-50"
                      >
                        <option value="text">Full Text</option>
+                       <option value="substring">Contains</option>
                        <option value="id_partial">ID (Partial)</option>
                        <option value="id_prefix">ID (Prefix)</option>
+                       <option value="query">Query</option>
                      </select>
                    </div>
                    
@@ -324,7 +1877,8 @@ function App() {
                       <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
                       <input 
                         type="text"
-                        placeholder={isBatchActive ? "Batch filter active" : "Search..."}
+                        placeholder={isBatchActive ? "Batch filter active" : searchMode === 'query' ? 'lang:de target:"Speichern" -source:/^Cancel/' : "Search..."}
+                        title={searchMode === 'query' ? QUERY_HELP : undefined}
                         value={searchQuery}
                         disabled={isBatchActive}
                         onChange={(e) => setSearchQuery(e.target.value)}
@@ -340,7 +1894,7 @@ function App() {
 
                 {/* Batch Filter Button */}
                 <button 
-                  onClick={isBatchActive ? clearBatch : () => setShowBatchModal(true)}
+                  onClick={isBatchActive ? clearBatch : openBatchModal}
                   className={`px-3 py-2 rounded-lg border flex items-center gap-2 text-sm font-medium transition-colors whitespace-nowrap
                     ${isBatchActive 
                       ? 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200' 
@@ -349,27 +1903,319 @@ function App() {
                   {isBatchActive ? <X size={16} /> : <Filter size={16} />}
                   {isBatchActive ? 'Clear Filter' : 'Batch Filter'}
                 </button>
+
+                <FilterChips
+                  batchReport={isBatchActive ? batchReport : null}
+                  clusterView={clusterView}
+                  modifiedOnly={modifiedOnly}
+                  facets={facets}
+                  dateRanges={dateRanges}
+                  qaFilter={qaFilter}
+                  onReviewBatch={openBatchModal}
+                  onClearCluster={clearResults}
+                  onClearModified={toggleModifiedOnly}
+                  onRemoveFacet={toggleFacet}
+                  onRemoveDateRange={range => changeDateRanges(dateRanges.filter(r => r.field !== range.field))}
+                  onClearQaFilter={() => selectQaFilter(null)}
+                />
+
+                {/* Query Syntax Error, on a line of its own below the controls */}
+                {queryError && (
+                  <div className="basis-full order-last flex items-center gap-1.5 text-xs text-red-600 px-1">
+                    <AlertCircle size={12} className="shrink-0" />
+                    <span>{queryError.message} (at character {queryError.position + 1})</span>
+                  </div>
+                )}
               </div>
 
-              {/* Pagination Info */}
-              <div className="flex items-center gap-2 text-sm text-slate-600 bg-white px-3 py-1.5 rounded-lg border border-slate-200 shadow-sm whitespace-nowrap">
-                <span>Page {currentPage} of {totalPages || 1}</span>
-                <span className="text-slate-300">|</span>
-                <span>{totalCount.toLocaleString()} results</span>
+              <div className="flex items-center gap-2">
+                {/* Origin File Filter */}
+                {sources.length > 1 && (
+                  <select
+                    value={originFilter ?? ''}
+                    onChange={(e) => selectOrigin(e.target.value === '' ? null : Number(e.target.value))}
+                    className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white text-sm text-slate-600 shadow-sm max-w-[200px]"
+                    title="Show units from one file only"
+                  >
+                    <option value="">All files</option>
+                    {sources.map(source => <option key={source.index} value={source.index}>{source.name}</option>)}
+                  </select>
+                )}
+
+                {/* Language Pair */}
+                <LanguagePicker
+                  languages={[...new Set(sources.flatMap(source => source.languages))].sort()}
+                  view={languageView}
+                  onChange={changeLanguageView}
+                />
+
+                {/* Date Ranges and Order */}
+                <DateFilter
+                  ranges={dateRanges}
+                  sort={listSort}
+                  onRangesChange={changeDateRanges}
+                  onSortChange={changeListSort}
+                />
+
+                {/* Merged View Toggle */}
+                <button
+                  onClick={() => {
+                    setViewMode(m => (m === 'merged' ? 'units' : 'merged'));
+                    setCurrentPage(1);
+                  }}
+                  className={`px-3 py-1.5 rounded-lg border flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap transition-colors
+                    ${viewMode === 'merged'
+                      ? 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                  title="Group units that share their source text or x-segment-id"
+                >
+                  <Layers size={16} />
+                  Merged
+                </button>
+
+                {/* Compare Versions */}
+                {sources.length > 1 && (
+                  <button
+                    onClick={() => setShowCompareDialog(true)}
+                    disabled={!ingestStatus?.done}
+                    className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Diff a baseline file against a revised one"
+                  >
+                    <GitCompare size={16} />
+                    Compare
+                  </button>
+                )}
+
+                {/* Consistency Report */}
+                <button
+                  onClick={openConsistencyReport}
+                  disabled={isAnalyzing || !ingestStatus?.done || loadedCount === 0}
+                  className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Find duplicates and inconsistent translations"
+                >
+                  {isAnalyzing ? <Loader2 size={16} className="animate-spin" /> : <ScanSearch size={16} />}
+                  Consistency
+                </button>
+
+                {/* Fuzzy Match Lookup */}
+                <button
+                  onClick={() => setShowFuzzyPanel(true)}
+                  disabled={!ingestStatus?.done || loadedCount === 0}
+                  className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Look up fuzzy matches for a new sentence"
+                >
+                  <Percent size={16} />
+                  Fuzzy
+                </button>
+
+                {/* Analytics */}
+                <button
+                  onClick={() => setShowAnalytics(true)}
+                  disabled={!ingestStatus?.done || loadedCount === 0}
+                  className={`px-3 py-1.5 rounded-lg border flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+                    ${facets.length > 0
+                      ? 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                  title="Languages, word counts, users, dates, usage and props; click a bucket to filter by it"
+                >
+                  <BarChart3 size={16} />
+                  Analytics
+                </button>
+
+                {/* Find and Replace */}
+                <button
+                  onClick={() => setShowReplaceDialog(true)}
+                  disabled={isSearching || !ingestStatus?.done || loadedCount === 0}
+                  className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Replace text across many units, with a preview"
+                >
+                  <Replace size={16} />
+                  Replace
+                </button>
+
+                {/* Bulk Cleanup */}
+                <button
+                  onClick={openCleanupDialog}
+                  disabled={isSearching || !ingestStatus?.done || loadedCount === 0}
+                  className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Delete units, languages or props in bulk"
+                >
+                  <Eraser size={16} />
+                  Clean Up
+                </button>
+
+                {/* QA Checks */}
+                <button
+                  onClick={() => setShowQaPanel(true)}
+                  disabled={!ingestStatus?.done || loadedCount === 0}
+                  className={`px-3 py-1.5 rounded-lg border flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap transition-colors disabled:opacity-50 disabled:cursor-not-allowed
+                    ${qaRun
+                      ? 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                  title="Check placeholders, numbers, tags, spacing and punctuation"
+                >
+                  {isRunningQa ? <Loader2 size={16} className="animate-spin" /> : <ShieldCheck size={16} />}
+                  QA
+                  {qaRun && <span className="font-mono text-xs">{qaRun.affectedUnits.toLocaleString()}</span>}
+                </button>
+
+                {/* File Problems */}
+                {fileProblems.errors + fileProblems.warnings > 0 && (
+                  <button
+                    onClick={() => setShowDiagnostics(true)}
+                    className={`px-3 py-1.5 rounded-lg border flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap transition-colors
+                      ${fileProblems.errors > 0
+                        ? 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100'
+                        : 'bg-amber-50 text-amber-800 border-amber-200 hover:bg-amber-100'}`}
+                    title="XML errors and TMX 1.4b violations found while reading the files"
+                  >
+                    <FileWarning size={16} />
+                    Problems
+                    <span className="font-mono text-xs">{(fileProblems.errors + fileProblems.warnings).toLocaleString()}</span>
+                  </button>
+                )}
+
+                {/* Edit History and Save */}
+                {editState && (editState.modifiedCount > 0 || editState.deletedCount > 0 || editState.redoLabel) && (
+                  <EditControls
+                    editState={editState}
+                    sources={sources}
+                    modifiedOnly={modifiedOnly}
+                    onStep={stepHistory}
+                    onToggleModifiedOnly={toggleModifiedOnly}
+                    onSave={saveFile}
+                  />
+                )}
+
+                {/* Export */}
+                <button
+                  onClick={openExportDialog}
+                  disabled={isSearching || !ingestStatus?.done || loadedCount === 0}
+                  className="px-3 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Export as TMX, CSV, TSV or XLSX"
+                >
+                  <Download size={16} />
+                  Export
+                </button>
+
+                {/* List Layout, Density and Jump */}
+                {!comparison && viewMode === 'units' && (
+                  <ListControls
+                    layout={listLayout}
+                    density={density}
+                    jumpInput={jumpInput}
+                    jumpMissed={jumpMissed}
+                    linkCopied={linkCopied}
+                    onLayoutChange={changeListLayout}
+                    onDensityChange={setDensity}
+                    onJumpInputChange={value => {
+                      setJumpInput(value);
+                      setJumpMissed(false);
+                    }}
+                    onJump={jumpTo}
+                    onCopyLink={copyLink}
+                  />
+                )}
+
+                {/* Hit Navigation */}
+                {!comparison && viewMode === 'units' && !scrolling && currentHits.length > 0 && (
+                  <HitNavigator
+                    activeHit={activeHit}
+                    hitCount={pageHitCount}
+                    isFirstPage={currentPage === 1}
+                    isLastPage={currentPage >= totalPages}
+                    onStep={goToHit}
+                  />
+                )}
+
+                {/* Pagination Info */}
+                <div className="flex items-center gap-2 text-sm text-slate-600 bg-white px-3 py-1.5 rounded-lg border border-slate-200 shadow-sm whitespace-nowrap">
+                  {!scrolling && (
+                    <>
+                      <span>Page {currentPage} of {totalPages || 1}</span>
+                      <span className="text-slate-300">|</span>
+                    </>
+                  )}
+                  <span>{totalCount.toLocaleString()} {viewMode === 'merged' ? 'groups' : 'results'}</span>
+                  {resultSet?.ranked && viewMode === 'units' && <span className="text-slate-400">by relevance</span>}
+                </div>
               </div>
             </div>
-            
+
+            {/* Selection Bar */}
+            {selection.size > 0 && !comparison && viewMode === 'units' && (
+              <div className="flex flex-wrap items-center gap-3 mb-4 px-4 py-2 rounded-lg border border-blue-200 bg-blue-50 text-sm text-blue-800">
+                <span className="font-medium">{selection.size.toLocaleString()} selected</span>
+                <button onClick={selectAllListed} className="hover:underline">
+                  Select all {totalCount.toLocaleString()} {resultSet ? 'in the results' : 'units'}
+                </button>
+                <button onClick={clearSelection} className="hover:underline">Clear selection</button>
+                <button
+                  onClick={openCleanupDialog}
+                  className="ml-auto px-3 py-1 rounded-lg bg-white border border-blue-200 hover:bg-blue-100 flex items-center gap-1.5 font-medium"
+                >
+                  <Eraser size={14} />
+                  Clean Up Selection
+                </button>
+              </div>
+            )}
+
             {/* TU List */}
-            <div className="space-y-4">
-              {currentTus.length > 0 ? (
-                currentTus.map((tu) => (
-                  <TuCard 
-                    key={tu.id} 
-                    tu={tu} 
+            <div ref={listRef} className={!comparison && viewMode === 'units' && density === 'compact' && !scrolling ? 'rounded-lg border border-slate-200 overflow-hidden' : 'space-y-4'}>
+              {comparison ? (
+                currentDiffs.length > 0 ? (
+                  currentDiffs.map((diff, idx) => (
+                    <DiffTuCard key={`${diff.status}-${(diff.revised || diff.baseline)?.id}-${idx}`} diff={diff} baselineName={fileNames[comparison.baseline] || ''} revisedName={fileNames[comparison.revised] || ''} />
+                  ))
+                ) : (
+                  <div className="text-center py-20 text-slate-400">
+                    <p>No units in the selected change categories.</p>
+                  </div>
+                )
+              ) : viewMode === 'merged' && currentGroups.length > 0 ? (
+                currentGroups.map((group, idx) => (
+                  <TuGroupCard
+                    key={`${group.key}-${idx}`}
+                    group={group}
                     searchMode={isBatchActive ? 'batch' : searchMode}
                     searchQuery={searchQuery}
+                    languageView={languageView}
+                    fileNames={fileNames}
                   />
                 ))
+              ) : scrolling && totalCount > 0 ? (
+                <VirtualTuList
+                  key={`${listKey}|${resultSet?.id ?? 'all'}|${density}`}
+                  total={totalCount}
+                  version={listVersion}
+                  loadRange={loadListRange}
+                  estimatedHeight={density === 'compact' ? 37 : 260}
+                  initialPosition={listPositionsRef.current.get(listKey) ?? 0}
+                  focusedPosition={focusedPosition}
+                  onRangeChange={(first, last) => {
+                    visibleRangeRef.current = { first, last };
+                    listPositionsRef.current.set(listKey, first);
+                  }}
+                  onRowClick={setFocusedPosition}
+                  renderRow={renderUnit}
+                />
+              ) : viewMode === 'units' && !scrolling && currentTus.length > 0 ? (
+                currentTus.map((tu, idx) => {
+                  const position = (currentPage - 1) * itemsPerPage + idx;
+                  const row = {
+                    tu,
+                    index: currentIndices[idx],
+                    qa: currentQa[idx],
+                    score: currentScores[idx],
+                    hits: currentHits[idx],
+                    modified: currentModified[idx]
+                  };
+                  return (
+                    <div key={`${tu.origin}-${tu.id}-${idx}`} data-position={position} onClick={() => setFocusedPosition(position)} className="scroll-mt-40">
+                      {renderUnit(row, position)}
+                    </div>
+                  );
+                })
               ) : (
                 <div className="text-center py-20 text-slate-400">
                   <p>No translation units found matching your search.</p>
@@ -378,7 +2224,7 @@ function App() {
             </div>
 
             {/* Pagination Controls */}
-            {totalPages > 1 && (
+            {totalPages > 1 && !scrolling && (
               <div className="flex justify-center items-center gap-4 mt-8 pb-8">
                 <button
                   onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
@@ -0,0 +1,204 @@
+import React from 'react';
+import { BarChart3, X, Loader2 } from 'lucide-react';
+import { FacetBucket, FacetCounts, FacetField, FacetFilter, MemoryAnalytics } from '../types';
+import { sameFacet } from '../services/analytics';
+
+interface AnalyticsPanelProps {
+  analytics: MemoryAnalytics | null;
+  isLoading: boolean;
+  /** Whether the figures describe a filtered list rather than the whole memory. */
+  isFiltered: boolean;
+  facets: FacetFilter[];
+  onToggleFacet: (facet: FacetFilter) => void;
+  onClearFacets: () => void;
+  onClose: () => void;
+}
+
+const USAGE_LABELS: Record<string, string> = { '0': 'Never used', '1': 'Once', '': 'No usage count' };
+
+const Section: React.FC<{ title: string; note?: string; children: React.ReactNode }> = ({ title, note, children }) => (
+  <section className="space-y-2">
+    <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-baseline gap-2">
+      {title}
+      {note && <span className="font-normal normal-case tracking-normal">{note}</span>}
+    </h4>
+    {children}
+  </section>
+);
+
+/**
+ * Statistics of the units in the list, broken down by language and metadata. Every
+ * bucket is a facet: clicking one narrows the list to it, clicking it again lets go.
+ */
+export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
+  analytics,
+  isLoading,
+  isFiltered,
+  facets,
+  onToggleFacet,
+  onClearFacets,
+  onClose
+}) => {
+  const isActive = (facet: FacetFilter) => facets.some(f => sameFacet(f, facet));
+
+  /** Horizontal bars, longest value first as the worker sorted them. */
+  const barList = (buckets: FacetBucket[], facetOf: (value: string) => FacetFilter, label: (value: string) => string = v => v || 'None') => {
+    const max = Math.max(1, ...buckets.map(b => b.count));
+    return (
+      <div className="space-y-1">
+        {buckets.map(bucket => {
+          const facet = facetOf(bucket.value);
+          const active = isActive(facet);
+          return (
+            <button
+              key={bucket.value}
+              onClick={() => onToggleFacet(facet)}
+              className={`w-full grid grid-cols-[minmax(0,10rem)_1fr_auto] items-center gap-2 px-1.5 py-0.5 rounded text-left text-xs hover:bg-slate-50
+                ${active ? 'bg-blue-50 ring-1 ring-blue-300' : ''}`}
+              title={active ? 'Stop filtering by this' : 'Show only these units'}
+            >
+              <span className={`truncate ${bucket.value ? 'text-slate-700' : 'italic text-slate-400'}`}>{label(bucket.value)}</span>
+              <span className="h-2 rounded-full bg-slate-100 overflow-hidden">
+                <span className={`block h-full ${active ? 'bg-blue-600' : 'bg-blue-400'}`} style={{ width: `${(bucket.count / max) * 100}%` }} />
+              </span>
+              <span className="font-mono text-slate-500 tabular-nums">{bucket.count.toLocaleString()}</span>
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const openList = (counts: FacetCounts, field: FacetField, propType?: string) => (
+    <>
+      {barList(counts.buckets, value => ({ field, value, propType }))}
+      {counts.distinct > counts.buckets.length && (
+        <p className="text-[11px] text-slate-400 px-1.5">
+          Top {counts.buckets.length} of {counts.distinct.toLocaleString()} distinct values
+        </p>
+      )}
+    </>
+  );
+
+  /** Vertical bars over time; undated units get a bar of their own at the end. */
+  const histogram = (buckets: FacetBucket[], field: FacetField) => {
+    if (buckets.length === 0) return <p className="text-sm text-slate-400">No dates.</p>;
+    const max = Math.max(1, ...buckets.map(b => b.count));
+    const dated = buckets.filter(b => b.value);
+    return (
+      <div>
+        <div className="flex items-end gap-px h-28">
+          {buckets.map(bucket => {
+            const facet = { field, value: bucket.value };
+            const active = isActive(facet);
+            return (
+              <button
+                key={bucket.value}
+                onClick={() => bucket.count > 0 && onToggleFacet(facet)}
+                className={`flex-1 min-w-[3px] h-full flex items-end group ${bucket.value ? '' : 'ml-2'}`}
+                title={`${bucket.value || 'No date'}: ${bucket.count.toLocaleString()} units`}
+              >
+                <span
+                  className={`w-full rounded-t-sm ${active ? 'bg-blue-600' : bucket.value ? 'bg-blue-400 group-hover:bg-blue-500' : 'bg-slate-300 group-hover:bg-slate-400'}`}
+                  style={{ height: `${(bucket.count / max) * 100}%`, minHeight: bucket.count > 0 ? 2 : 0 }}
+                />
+              </button>
+            );
+          })}
+        </div>
+        {dated.length > 0 && (
+          <div className="flex justify-between text-[11px] text-slate-400 font-mono mt-1">
+            <span>{dated[0].value}</span>
+            {dated.length > 1 && <span>{dated[dated.length - 1].value}</span>}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <BarChart3 size={18} /> Analytics
+            {analytics && (
+              <span className="font-normal text-sm text-slate-400">
+                {analytics.totalUnits.toLocaleString()} units{isFiltered ? ' in the current list' : ''}
+              </span>
+            )}
+            {isLoading && <Loader2 size={16} className="animate-spin text-blue-500" />}
+          </h3>
+          <div className="flex items-center gap-3">
+            {facets.length > 0 && (
+              <button onClick={onClearFacets} className="text-sm text-blue-600 hover:text-blue-800">
+                Clear {facets.length} {facets.length === 1 ? 'facet' : 'facets'}
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {!analytics ? (
+          <div className="p-10 text-center text-slate-400 text-sm">Counting…</div>
+        ) : (
+          <div className={`p-4 flex-1 overflow-auto grid grid-cols-1 md:grid-cols-2 gap-6 ${isLoading ? 'opacity-60' : ''}`}>
+            <Section title="Languages">
+              <table className="w-full text-xs">
+                <thead className="text-slate-400 text-left">
+                  <tr>
+                    <th className="px-1.5 py-1 font-semibold">Language</th>
+                    <th className="px-1.5 py-1 font-semibold text-right">Units</th>
+                    <th className="px-1.5 py-1 font-semibold text-right">Words</th>
+                    <th className="px-1.5 py-1 font-semibold text-right">Characters</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.languages.map(figures => {
+                    const facet: FacetFilter = { field: 'language', value: figures.lang };
+                    return (
+                      <tr
+                        key={figures.lang}
+                        onClick={() => onToggleFacet(facet)}
+                        className={`border-t border-slate-100 cursor-pointer hover:bg-slate-50 ${isActive(facet) ? 'bg-blue-50 hover:bg-blue-50' : ''}`}
+                      >
+                        <td className="px-1.5 py-1 font-mono font-bold text-slate-700">{figures.lang}</td>
+                        <td className="px-1.5 py-1 text-right font-mono text-slate-600">{figures.units.toLocaleString()}</td>
+                        <td className="px-1.5 py-1 text-right font-mono text-slate-600">{figures.words.toLocaleString()}</td>
+                        <td className="px-1.5 py-1 text-right font-mono text-slate-600">{figures.characters.toLocaleString()}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </Section>
+
+            <Section title="Language Pairs">
+              {analytics.pairs.length > 0
+                ? barList(analytics.pairs, value => ({ field: 'pair', value }))
+                : <p className="text-sm text-slate-400">No unit has a target.</p>}
+            </Section>
+
+            <Section title="Created">{histogram(analytics.created, 'created')}</Section>
+            <Section title="Changed">{histogram(analytics.changed, 'changed')}</Section>
+
+            <Section title="Created By">{openList(analytics.creationUsers, 'creationid')}</Section>
+            <Section title="Changed By">{openList(analytics.changeUsers, 'changeid')}</Section>
+
+            <Section title="Usage Count">
+              {barList(analytics.usage, value => ({ field: 'usage', value }), value => USAGE_LABELS[value] ?? `${value} times`)}
+            </Section>
+
+            {analytics.props.map(prop => (
+              <Section key={prop.type} title={prop.type} note="prop">
+                {openList(prop, 'prop', prop.type)}
+              </Section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { List, X, FileUp, AlertTriangle, Copy } from 'lucide-react';
+import { BatchField, BatchOptions, BatchReport } from '../types';
+import { readBatchFile, splitBatchInput } from '../services/batchList';
+
+interface BatchFilterDialogProps {
+  input: string;
+  options: BatchOptions;
+  propTypes: string[];
+  /** Outcome of the list currently applied, if any. */
+  report: BatchReport | null;
+  onApply: (input: string, options: BatchOptions) => void;
+  onClose: () => void;
+}
+
+const FIELD_OPTIONS: { value: BatchField; label: string }[] = [
+  { value: 'segmentId', label: 'x-segment-id' },
+  { value: 'tuid', label: 'tuid' },
+  { value: 'prop', label: 'Prop' },
+  { value: 'source', label: 'Source text (exact)' }
+];
+
+// Entries of a report shown before "and N more"
+const REPORT_PREVIEW = 200;
+
+/**
+ * The list of IDs (or source texts) to narrow the memory to, typed, pasted or dropped
+ * as a file. The result keeps the order of the list; the report names entries that
+ * matched nothing or more than one unit.
+ */
+export const BatchFilterDialog: React.FC<BatchFilterDialogProps> = ({ input, options, propTypes, report, onApply, onClose }) => {
+  const [text, setText] = useState(input);
+  const [field, setField] = useState<BatchField>(options.field);
+  const [chosenProp, setPropType] = useState(options.propType);
+  // Prop types arrive after the dialog opens; until one is picked, the first other than x-segment-id
+  const propType = chosenProp || propTypes.find(type => type !== 'x-segment-id') || propTypes[0] || '';
+  const [patterns, setPatterns] = useState(options.patterns);
+  const [isDragging, setIsDragging] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const entryCount = splitBatchInput(text, field).length;
+
+  const loadFile = (file: File) => {
+    setFileError(null);
+    readBatchFile(file)
+      .then(setText)
+      .catch((err: unknown) => setFileError(err instanceof Error ? err.message : `Could not read ${file.name}.`));
+  };
+
+  const copyMissing = () => {
+    if (report) navigator.clipboard.writeText(report.missing.join('\n')).catch(() => setFileError('Could not copy to the clipboard.'));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div
+        className={`bg-white rounded-xl shadow-xl w-full max-w-lg flex flex-col max-h-[90vh] ${isDragging ? 'ring-4 ring-blue-300' : ''}`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) loadFile(file);
+        }}
+      >
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <List size={18} /> Batch Filter
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 flex-1 flex flex-col gap-3 overflow-auto text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-slate-500">Match</span>
+            <select
+              value={field}
+              onChange={(e) => setField(e.target.value as BatchField)}
+              className="border border-slate-200 rounded-lg px-2 py-1 bg-white"
+            >
+              {FIELD_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {field === 'prop' && (
+              <select
+                value={propType}
+                onChange={(e) => setPropType(e.target.value)}
+                className="border border-slate-200 rounded-lg px-2 py-1 bg-white font-mono text-xs"
+              >
+                {propTypes.length === 0 && <option value="">No props</option>}
+                {propTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center gap-1.5 text-slate-600 cursor-pointer ml-auto" title="abc-* matches every ID starting with abc-; ? stands for one character">
+              <input type="checkbox" checked={patterns} onChange={(e) => setPatterns(e.target.checked)} />
+              Wildcards (* ?)
+            </label>
+          </div>
+
+          <p className="text-slate-500">
+            {field === 'source'
+              ? 'One source text per line; units whose source is exactly this text match.'
+              : 'One entry per line or separated by commas; case does not matter.'}{' '}
+            Drop a .txt, .csv or .json file here to load its list.
+          </p>
+          <textarea
+            className="flex-1 w-full min-h-[200px] p-3 border border-slate-200 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-none"
+            placeholder={field === 'source' ? 'Save changes\nCancel' : 'RingCentral.webModule.abc123\nRingCentral.webModule.xyz*'}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+          />
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <label className="flex items-center gap-1 text-blue-600 hover:text-blue-800 cursor-pointer">
+              <FileUp size={14} /> Load from file
+              <input
+                type="file"
+                accept=".txt,.csv,.tsv,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) loadFile(file);
+                }}
+              />
+            </label>
+            <span className="ml-auto">{entryCount.toLocaleString()} {entryCount === 1 ? 'entry' : 'entries'}</span>
+          </div>
+          {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+
+          {report && (report.missing.length > 0 || report.ambiguous.length > 0) && (
+            <div className="border border-amber-200 bg-amber-50 rounded-lg p-3 space-y-2 text-xs text-amber-900">
+              <p className="font-semibold flex items-center gap-1.5">
+                <AlertTriangle size={14} />
+                Last applied list: {report.matched.toLocaleString()} units for {report.requested.toLocaleString()} entries
+              </p>
+              {report.missing.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between">
+                    <span>Not found ({report.missing.length.toLocaleString()})</span>
+                    <button onClick={copyMissing} className="flex items-center gap-1 text-amber-700 hover:text-amber-900" title="Copy the entries that were not found">
+                      <Copy size={12} /> Copy
+                    </button>
+                  </div>
+                  <ul className="mt-1 max-h-32 overflow-auto font-mono bg-white/60 rounded p-1.5">
+                    {report.missing.slice(0, REPORT_PREVIEW).map(entry => (
+                      <li key={entry} className="truncate">{entry}</li>
+                    ))}
+                    {report.missing.length > REPORT_PREVIEW && (
+                      <li className="text-amber-600">and {(report.missing.length - REPORT_PREVIEW).toLocaleString()} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+              {report.ambiguous.length > 0 && (
+                <div>
+                  <span>Matched several units ({report.ambiguous.length.toLocaleString()})</span>
+                  <ul className="mt-1 max-h-32 overflow-auto font-mono bg-white/60 rounded p-1.5">
+                    {report.ambiguous.slice(0, REPORT_PREVIEW).map(({ entry, count }) => (
+                      <li key={entry} className="flex gap-2">
+                        <span className="truncate flex-1">{entry}</span>
+                        <span className="shrink-0 text-amber-600">{count.toLocaleString()} units</span>
+                      </li>
+                    ))}
+                    {report.ambiguous.length > REPORT_PREVIEW && (
+                      <li className="text-amber-600">and {(report.ambiguous.length - REPORT_PREVIEW).toLocaleString()} more</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+          <button
+            onClick={() => onApply(text, { field, propType: field === 'prop' ? propType : '', patterns })}
+            disabled={field === 'prop' && !propType}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+          >
+            Apply Filter
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import React, { useState } from 'react';
+import { Eraser, X, Loader2, Eye, AlertCircle, AlertTriangle, CheckCircle2, Download } from 'lucide-react';
+import { BulkAction, BulkActionKind, SourceFileSummary } from '../types';
+import { BulkSummary } from '../services/workerProtocol';
+
+interface CleanupDialogProps {
+  languages: string[];
+  propTypes: string[];
+  sources: SourceFileSummary[];
+  /** Number of units currently selected in the list. */
+  selectedCount: number;
+  preview: (action: BulkAction, selectedOnly: boolean) => Promise<BulkSummary>;
+  apply: (previewId: number) => Promise<void>;
+  onSave: (fileIndex: number) => void;
+  onClose: () => void;
+}
+
+const ACTIONS: { kind: BulkActionKind; label: string; hint: string; selection?: boolean }[] = [
+  { kind: 'delete', label: 'Delete selected units', hint: 'Takes the selected units out of the memory', selection: true },
+  { kind: 'keep', label: 'Keep only selected units', hint: 'Deletes every unit that is not selected', selection: true },
+  { kind: 'remove_language', label: 'Remove a language', hint: 'Drops that language\'s variant from every unit' },
+  { kind: 'strip_props', label: 'Strip props', hint: 'Removes the chosen prop types from every unit' },
+  { kind: 'drop_older', label: 'Drop old units', hint: 'By change date, or creation date for units never changed; undated units stay' },
+  { kind: 'drop_unused', label: 'Drop unused units', hint: 'Units with usagecount="0"; units without a usage count stay' }
+];
+
+/**
+ * Bulk cleanup: pick an operation, review how many units it deletes or changes, apply
+ * it as one undoable step and download the cleaned files.
+ */
+export const CleanupDialog: React.FC<CleanupDialogProps> = ({
+  languages,
+  propTypes,
+  sources,
+  selectedCount,
+  preview,
+  apply,
+  onSave,
+  onClose
+}) => {
+  const [kind, setKind] = useState<BulkActionKind>(selectedCount > 0 ? 'delete' : 'remove_language');
+  const [lang, setLang] = useState(languages[languages.length - 1] || '');
+  const [strippedProps, setStrippedProps] = useState<string[]>([]);
+  const [date, setDate] = useState('');
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const [summary, setSummary] = useState<BulkSummary | null>(null);
+  const [isApplied, setIsApplied] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Any change to the operation makes the summary stale
+  const change = (update: () => void) => {
+    update();
+    setSummary(null);
+    setError(null);
+  };
+
+  const action: BulkAction | null =
+    kind === 'remove_language' ? (lang ? { kind, lang } : null)
+    : kind === 'strip_props' ? (strippedProps.length > 0 ? { kind, propTypes: strippedProps } : null)
+    : kind === 'drop_older' ? (date ? { kind, date } : null)
+    : { kind };
+  const needsSelection = ACTIONS.find(a => a.kind === kind)?.selection ?? false;
+
+  const runPreview = () => {
+    if (!action) return;
+    setIsBusy(true);
+    setError(null);
+    preview(action, needsSelection || selectedOnly)
+      .then(setSummary)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsBusy(false));
+  };
+
+  const runApply = () => {
+    if (!summary) return;
+    setIsBusy(true);
+    setError(null);
+    apply(summary.previewId)
+      .then(() => setIsApplied(true))
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsBusy(false));
+  };
+
+  const nothingToDo = summary !== null && summary.deletedUnits === 0 && summary.changedUnits === 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Eraser size={18} /> Clean Up Memory
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {isApplied && summary ? (
+          <div className="p-4 flex-1 overflow-y-auto space-y-4 text-sm">
+            <div className="flex items-start gap-2 text-green-700">
+              <CheckCircle2 size={18} className="shrink-0" />
+              <span>Cleanup applied. Undo (Ctrl+Z) brings everything back until you reload.</span>
+            </div>
+            <div className="space-y-2">
+              {sources.filter(source => summary.affectedByFile[source.index] > 0).map(source => (
+                <button
+                  key={source.index}
+                  onClick={() => onSave(source.index)}
+                  className="w-full px-3 py-2 rounded-lg border border-slate-200 hover:bg-slate-50 flex items-center justify-between gap-2 text-left text-slate-600"
+                >
+                  <span className="truncate">{source.name}</span>
+                  <span className="flex items-center gap-1.5 text-blue-600 font-medium whitespace-nowrap">
+                    <Download size={14} /> Cleaned TMX
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 flex-1 overflow-y-auto space-y-5">
+            <section className="space-y-2">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Operation</h4>
+              {ACTIONS.map(option => {
+                const disabled = option.selection && selectedCount === 0;
+                return (
+                  <label
+                    key={option.kind}
+                    className={`flex items-start gap-2 text-sm ${disabled ? 'text-slate-300' : 'text-slate-600 cursor-pointer'}`}
+                    title={disabled ? 'Select units in the list first' : undefined}
+                  >
+                    <input
+                      type="radio"
+                      className="mt-1"
+                      checked={kind === option.kind}
+                      disabled={disabled}
+                      onChange={() => change(() => setKind(option.kind))}
+                    />
+                    <span>
+                      {option.label}
+                      {option.selection && selectedCount > 0 && ` (${selectedCount.toLocaleString()})`}
+                      <span className="block text-xs text-slate-400">{option.hint}</span>
+                    </span>
+                  </label>
+                );
+              })}
+            </section>
+
+            {kind === 'remove_language' && (
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Language</h4>
+                <select
+                  value={lang}
+                  onChange={(e) => change(() => setLang(e.target.value))}
+                  className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm bg-white font-mono"
+                >
+                  {languages.map(l => <option key={l} value={l}>{l}</option>)}
+                </select>
+              </section>
+            )}
+
+            {kind === 'strip_props' && (
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Prop Types</h4>
+                {propTypes.length === 0 && <p className="text-sm text-slate-400">No props in this memory.</p>}
+                <div className="grid grid-cols-2 gap-2">
+                  {propTypes.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={strippedProps.includes(type)}
+                        onChange={() => change(() => setStrippedProps(list => (list.includes(type) ? list.filter(t => t !== type) : [...list, type])))}
+                        className="rounded border-slate-300"
+                      />
+                      <span className="font-mono text-xs">{type}</span>
+                    </label>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {kind === 'drop_older' && (
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Older Than</h4>
+                <input
+                  type="date"
+                  value={date}
+                  onChange={(e) => change(() => setDate(e.target.value))}
+                  className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm"
+                />
+              </section>
+            )}
+
+            {!needsSelection && (
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Units</h4>
+                <div className="flex gap-4">
+                  <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                    <input type="radio" checked={!selectedOnly} onChange={() => change(() => setSelectedOnly(false))} />
+                    Full memory
+                  </label>
+                  <label className={`flex items-center gap-2 text-sm cursor-pointer ${selectedCount === 0 ? 'text-slate-300' : 'text-slate-600'}`}>
+                    <input type="radio" checked={selectedOnly} disabled={selectedCount === 0} onChange={() => change(() => setSelectedOnly(true))} />
+                    Selected units{selectedCount > 0 && ` (${selectedCount.toLocaleString()})`}
+                  </label>
+                </div>
+              </section>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 text-red-600 text-sm">
+                <AlertCircle size={14} /> {error}
+              </div>
+            )}
+
+            {summary && (
+              <section className="space-y-1.5 text-sm bg-slate-50 border border-slate-200 rounded-lg p-3">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">What Will Change</h4>
+                {summary.sourceKeptUnits > 0 && (
+                  <p className="flex items-center gap-1.5 text-amber-700">
+                    <AlertTriangle size={14} className="shrink-0" />
+                    {summary.sourceKeptUnits.toLocaleString()} units keep this language because it is their source language
+                  </p>
+                )}
+                {nothingToDo ? (
+                  <p className="text-slate-500">No unit is affected.</p>
+                ) : (
+                  <>
+                    {summary.deletedUnits > 0 && (
+                      <p className="text-slate-700">{summary.deletedUnits.toLocaleString()} units deleted</p>
+                    )}
+                    {summary.changedUnits > 0 && (
+                      <p className="text-slate-700">
+                        {summary.changedUnits.toLocaleString()} units changed
+                        {summary.removedVariants > 0 && `, ${summary.removedVariants.toLocaleString()} variants removed`}
+                        {summary.removedProps > 0 && `, ${summary.removedProps.toLocaleString()} props removed`}
+                      </p>
+                    )}
+                    {summary.monolingualUnits > 0 && (
+                      <p className="flex items-center gap-1.5 text-amber-700">
+                        <AlertTriangle size={14} className="shrink-0" />
+                        {summary.monolingualUnits.toLocaleString()} units are left with fewer than two languages
+                      </p>
+                    )}
+                    <p className="text-slate-500">{summary.remainingUnits.toLocaleString()} units remain in the memory</p>
+                    {sources.length > 1 && (
+                      <ul className="pt-1 text-xs text-slate-500 space-y-0.5">
+                        {sources.filter(source => summary.affectedByFile[source.index] > 0).map(source => (
+                          <li key={source.index} className="flex justify-between gap-2">
+                            <span className="truncate">{source.name}</span>
+                            <span className="font-mono">{summary.affectedByFile[source.index].toLocaleString()}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </>
+                )}
+              </section>
+            )}
+          </div>
+        )}
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+          {isApplied ? (
+            <button onClick={onClose} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium">Done</button>
+          ) : (
+            <>
+              <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+              {summary && !nothingToDo ? (
+                <button
+                  onClick={runApply}
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Eraser size={16} />}
+                  Apply Cleanup
+                </button>
+              ) : (
+                <button
+                  onClick={runPreview}
+                  disabled={isBusy || !action || (needsSelection && selectedCount === 0)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {isBusy ? <Loader2 size={16} className="animate-spin" /> : <Eye size={16} />}
+                  Review Changes
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { GitCompare, X } from 'lucide-react';
+import { SourceFileSummary, DiffMatchKey } from '../types';
+
+interface CompareDialogProps {
+  sources: SourceFileSummary[];
+  onCompare: (baseline: number, revised: number, matchBy: DiffMatchKey) => void;
+  onClose: () => void;
+}
+
+const MATCH_OPTIONS: { value: DiffMatchKey; label: string; hint: string }[] = [
+  { value: 'tuid', label: 'tuid', hint: 'TU identifier attribute' },
+  { value: 'segmentId', label: 'x-segment-id', hint: 'Segment ID prop' },
+  { value: 'source', label: 'Source text', hint: 'Whitespace-normalized source segment' }
+];
+
+export const CompareDialog: React.FC<CompareDialogProps> = ({ sources, onCompare, onClose }) => {
+  // Default to the first loaded file as baseline and the last one as revision
+  const [baseline, setBaseline] = useState(0);
+  const [revised, setRevised] = useState(sources.length - 1);
+  const [matchBy, setMatchBy] = useState<DiffMatchKey>(
+    sources.every(s => s.format === 'tmx') ? 'tuid' : 'segmentId'
+  );
+
+  const fileSelect = (value: number, onChange: (value: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm bg-white"
+    >
+      {sources.map(source => (
+        <option key={source.index} value={source.index}>
+          {source.name} ({source.tuCount.toLocaleString()} units)
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <GitCompare size={18} /> Compare Versions
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wide">Baseline</label>
+            {fileSelect(baseline, setBaseline)}
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wide">Revised</label>
+            {fileSelect(revised, setRevised)}
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wide">Match units by</label>
+            {MATCH_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-center gap-2 cursor-pointer text-slate-600">
+                <input
+                  type="radio"
+                  name="compare-match"
+                  checked={matchBy === option.value}
+                  onChange={() => setMatchBy(option.value)}
+                />
+                <span className="font-medium">{option.label}</span>
+                <span className="text-xs text-slate-400">{option.hint}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+          <button
+            onClick={() => onCompare(baseline, revised, matchBy)}
+            disabled={baseline === revised}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Compare
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
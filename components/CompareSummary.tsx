@@ -0,0 +1,58 @@
+import React from 'react';
+import { GitCompare, X } from 'lucide-react';
+import { DiffStatus } from '../types';
+import { DIFF_STATUS_LABELS, DIFF_STATUS_STYLES } from './DiffTuCard';
+
+interface CompareSummaryProps {
+  baselineName: string;
+  revisedName: string;
+  counts: Record<DiffStatus, number>;
+  activeStatuses: DiffStatus[];
+  onToggleStatus: (status: DiffStatus) => void;
+  onExit: () => void;
+}
+
+const STATUS_ORDER: DiffStatus[] = ['added', 'removed', 'changed', 'metadata', 'unchanged'];
+
+/**
+ * Compare mode toolbar: one counter per change category, each doubling as a filter toggle.
+ */
+export const CompareSummary: React.FC<CompareSummaryProps> = ({
+  baselineName,
+  revisedName,
+  counts,
+  activeStatuses,
+  onToggleStatus,
+  onExit
+}) => (
+  <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+    <div className="flex items-center gap-2 text-sm text-slate-600 min-w-0">
+      <GitCompare size={16} className="text-blue-600 shrink-0" />
+      <span className="font-medium truncate">{baselineName}</span>
+      <span className="text-slate-400">→</span>
+      <span className="font-medium truncate">{revisedName}</span>
+    </div>
+    <div className="flex flex-wrap items-center gap-2">
+      {STATUS_ORDER.map(status => {
+        const active = activeStatuses.includes(status);
+        return (
+          <button
+            key={status}
+            onClick={() => onToggleStatus(status)}
+            className={`px-2.5 py-1 rounded-lg border text-xs font-semibold transition-opacity
+              ${DIFF_STATUS_STYLES[status]} ${active ? '' : 'opacity-40 hover:opacity-70'}`}
+            title={active ? 'Hide this category' : 'Show this category'}
+          >
+            {DIFF_STATUS_LABELS[status]} <span className="font-mono">{counts[status].toLocaleString()}</span>
+          </button>
+        );
+      })}
+      <button
+        onClick={onExit}
+        className="px-3 py-1 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 flex items-center gap-1.5 text-xs font-medium"
+      >
+        <X size={14} /> Exit Compare
+      </button>
+    </div>
+  </div>
+);
@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import { ScanSearch, X, Locate, Download, ChevronLeft, ChevronRight, Loader2, FileSpreadsheet } from 'lucide-react';
+import { ConsistencyCluster, ConsistencyIssue, NormalizedTu } from '../types';
+import { ClusterPageResult } from '../services/workerProtocol';
+import { CONSISTENCY_ISSUE_LABELS } from '../services/consistencyAnalysis';
+import { SegmentView } from './SegmentView';
+
+interface ConsistencyReportProps {
+  counts: Record<ConsistencyIssue, number>;
+  loadPage: (issue: ConsistencyIssue, offset: number, limit: number) => Promise<ClusterPageResult>;
+  onJump: (cluster: ConsistencyCluster) => void;
+  onExportCluster: (cluster: ConsistencyCluster) => void;
+  onExportReport: () => void;
+  onClose: () => void;
+  fileNames: string[]; // names of the loaded files by index
+}
+
+const ISSUES: ConsistencyIssue[] = ['duplicate', 'target_conflict', 'source_conflict', 'segment_id_conflict'];
+const CLUSTERS_PER_PAGE = 10;
+
+const ISSUE_HINTS: Record<ConsistencyIssue, string> = {
+  duplicate: 'Units whose every variant is identical',
+  target_conflict: 'One source text translated in more than one way',
+  source_conflict: 'Different source texts sharing one translation',
+  segment_id_conflict: 'Units with the same x-segment-id but different content'
+};
+
+/** The variant shown for a member: the target of the cluster's language pair, if any. */
+const memberVariants = (tu: NormalizedTu, cluster: ConsistencyCluster) => {
+  const source = tu.variants.find(v => v.lang === tu.srcLang) || tu.variants[0];
+  const targets = tu.variants.filter(v => v !== source && (!cluster.targetLang || v.lang === cluster.targetLang));
+  return { source, targets };
+};
+
+const ClusterCard: React.FC<{
+  cluster: ConsistencyCluster;
+  onJump: () => void;
+  onExport: () => void;
+  fileNames: string[];
+}> = ({ cluster, onJump, onExport, fileNames }) => {
+  const conflicting = cluster.issue === 'target_conflict' ? 'Targets' : cluster.issue === 'source_conflict' ? 'Sources' : 'Versions';
+
+  return (
+    <div className="border border-slate-200 rounded-lg overflow-hidden">
+      <div className="bg-slate-50 px-4 py-2 flex items-center justify-between gap-4 border-b border-slate-100">
+        <div className="min-w-0 flex items-center gap-3 text-sm">
+          {(cluster.srcLang || cluster.targetLang) && (
+            <span className="shrink-0 text-[11px] font-bold uppercase tracking-wide text-slate-500">
+              {cluster.srcLang}{cluster.targetLang && ` → ${cluster.targetLang}`}
+            </span>
+          )}
+          <span className="font-medium text-slate-800 truncate" title={cluster.key}>{cluster.key || <span className="italic text-slate-400">Empty</span>}</span>
+        </div>
+        <div className="flex items-center gap-2 shrink-0 text-xs">
+          <span className="text-slate-500">{cluster.total.toLocaleString()} units</span>
+          <button onClick={onJump} className="px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:bg-blue-50 hover:border-blue-200 flex items-center gap-1" title="Show these units in the main list">
+            <Locate size={12} /> Show
+          </button>
+          <button onClick={onExport} className="px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:bg-blue-50 hover:border-blue-200 flex items-center gap-1" title="Export these units as TMX">
+            <Download size={12} /> TMX
+          </button>
+        </div>
+      </div>
+
+      {cluster.issue !== 'duplicate' && (
+        <div className="px-4 py-2 border-b border-slate-100 text-sm">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wide mr-2">{conflicting}</span>
+          <div className="flex flex-wrap gap-2 mt-1">
+            {cluster.variants.map((variant, idx) => (
+              <span key={idx} className="px-2 py-0.5 rounded bg-amber-50 border border-amber-200 text-amber-800">
+                {variant.text || <span className="italic">empty</span>}
+                <span className="ml-1.5 font-mono text-xs text-amber-600">×{variant.count}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <table className="w-full text-sm">
+        <tbody>
+          {cluster.tus.map((tu, idx) => {
+            const { source, targets } = memberVariants(tu, cluster);
+            return (
+              <tr key={`${tu.origin}-${tu.id}-${idx}`} className="border-b border-slate-100 last:border-0 align-top">
+                <td className="px-4 py-1.5 font-mono text-xs text-slate-500 whitespace-nowrap">
+                  {tu.id}
+                  {tu.origin !== undefined && <div className="text-[10px] text-slate-400 truncate max-w-[140px]" title={fileNames[tu.origin]}>{fileNames[tu.origin]}</div>}
+                </td>
+                <td className="px-2 py-1.5 text-slate-800">{source && <SegmentView parts={source.segment} />}</td>
+                <td className="px-2 py-1.5 text-slate-600">
+                  {targets.map((variant, vIdx) => (
+                    <div key={vIdx}>
+                      {!cluster.targetLang && <span className="text-[10px] font-bold text-green-700 mr-1.5">{variant.lang}</span>}
+                      <SegmentView parts={variant.segment} />
+                    </div>
+                  ))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {cluster.total > cluster.tus.length && (
+        <div className="px-4 py-1.5 text-xs text-slate-400 bg-slate-50 border-t border-slate-100">
+          and {(cluster.total - cluster.tus.length).toLocaleString()} more — use Show to browse all of them
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Duplicate and inconsistency findings, one tab per kind of issue, paged cluster by cluster.
+ */
+export const ConsistencyReport: React.FC<ConsistencyReportProps> = ({
+  counts,
+  loadPage,
+  onJump,
+  onExportCluster,
+  onExportReport,
+  onClose,
+  fileNames
+}) => {
+  const [issue, setIssue] = useState<ConsistencyIssue>(() => ISSUES.find(i => counts[i] > 0) || 'duplicate');
+  const [page, setPage] = useState(1);
+  const [clusters, setClusters] = useState<ConsistencyCluster[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const totalPages = Math.ceil(counts[issue] / CLUSTERS_PER_PAGE);
+
+  useEffect(() => {
+    let stale = false;
+    setIsLoading(true);
+    setError(null);
+    loadPage(issue, (page - 1) * CLUSTERS_PER_PAGE, CLUSTERS_PER_PAGE)
+      .then((result) => {
+        if (!stale) setClusters(result.clusters);
+      })
+      .catch((err: unknown) => {
+        if (!stale) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!stale) setIsLoading(false);
+      });
+    return () => {
+      stale = true;
+    };
+  }, [issue, page]);
+
+  const totalFindings = ISSUES.reduce((sum, i) => sum + counts[i], 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <ScanSearch size={18} /> Consistency Report
+            <span className="font-normal text-sm text-slate-400">{totalFindings.toLocaleString()} clusters</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Issue Tabs */}
+        <div className="px-4 pt-3 flex flex-wrap gap-2 border-b border-slate-100">
+          {ISSUES.map(i => (
+            <button
+              key={i}
+              onClick={() => {
+                setIssue(i);
+                setPage(1);
+              }}
+              title={ISSUE_HINTS[i]}
+              className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors
+                ${issue === i ? 'border-blue-600 text-blue-700' : 'border-transparent text-slate-500 hover:text-slate-700'}`}
+            >
+              {CONSISTENCY_ISSUE_LABELS[i]}
+              <span className={`ml-2 px-1.5 py-0.5 rounded text-xs font-mono ${counts[i] > 0 ? 'bg-amber-100 text-amber-800' : 'bg-slate-100 text-slate-400'}`}>
+                {counts[i].toLocaleString()}
+              </span>
+            </button>
+          ))}
+        </div>
+
+        <div className="p-4 flex-1 overflow-auto space-y-3">
+          <p className="text-xs text-slate-400">{ISSUE_HINTS[issue]}.</p>
+          {error ? (
+            <div className="text-center py-10 text-red-600 text-sm">{error}</div>
+          ) : isLoading && clusters.length === 0 ? (
+            <div className="flex justify-center py-10"><Loader2 size={24} className="text-blue-600 animate-spin" /></div>
+          ) : counts[issue] === 0 ? (
+            <div className="text-center py-10 text-slate-400">No findings of this kind.</div>
+          ) : (
+            clusters.map(cluster => (
+              <ClusterCard
+                key={`${cluster.issue}-${cluster.index}`}
+                cluster={cluster}
+                onJump={() => onJump(cluster)}
+                onExport={() => onExportCluster(cluster)}
+                fileNames={fileNames}
+              />
+            ))
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-between items-center gap-3 rounded-b-xl">
+          <button
+            onClick={onExportReport}
+            disabled={totalFindings === 0}
+            className="px-3 py-2 text-sm text-slate-600 border border-slate-200 bg-white hover:bg-slate-100 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet size={16} /> Export Report (CSV)
+          </button>
+          {totalPages > 1 && (
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <button
+                onClick={() => setPage(p => Math.max(1, p - 1))}
+                disabled={page === 1}
+                className="p-1.5 rounded-lg border border-slate-300 bg-white disabled:opacity-50 hover:bg-slate-50"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span>Page {page} of {totalPages}</span>
+              <button
+                onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+                disabled={page === totalPages}
+                className="p-1.5 rounded-lg border border-slate-300 bg-white disabled:opacity-50 hover:bg-slate-50"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { Table, X } from 'lucide-react';
+import { CsvPreview, CsvMapping, CsvColumnRole } from '../types';
+import { isKnownLanguage } from '../services/languageView';
+
+interface CsvMappingDialogProps {
+  fileName: string;
+  preview: CsvPreview;
+  onConfirm: (mapping: CsvMapping) => void;
+  onCancel: () => void;
+}
+
+const LANGUAGE_CODE = /^[a-z]{2,3}([-_][A-Za-z0-9]{2,8})*$/i;
+const ID_HEADINGS = ['id', 'tuid', 'key', 'string id', 'segment id', 'x-segment-id'];
+// Column names that happen to be language codes (src is Sardinian, id Indonesian)
+const NOT_LANGUAGES = ['src', 'tgt', 'trg', 'id', 'key', 'no', 'nr', 'ref'];
+
+/** The language a heading names, as a BCP 47 code ("de_DE" becomes "de-DE"), or ''. */
+const languageOfHeading = (heading: string): string => {
+  if (!LANGUAGE_CODE.test(heading) || NOT_LANGUAGES.includes(heading.toLowerCase())) return '';
+  const code = heading.replace(/_/g, '-');
+  return isKnownLanguage(code) ? code : '';
+};
+
+/** Suggests a role per column from the header row, e.g. "de-DE" becomes a language column. */
+const guessRoles = (headings: string[]): CsvColumnRole[] => {
+  let idTaken = false;
+  return headings.map(raw => {
+    const heading = raw.trim();
+    if (!idTaken && ID_HEADINGS.includes(heading.toLowerCase())) {
+      idTaken = true;
+      return { kind: 'id' };
+    }
+    const lang = languageOfHeading(heading);
+    if (lang) return { kind: 'language', lang };
+    if (heading) return { kind: 'prop', type: heading };
+    return { kind: 'ignore' };
+  });
+};
+
+const roleKey = (role: CsvColumnRole) => role.kind;
+
+export const CsvMappingDialog: React.FC<CsvMappingDialogProps> = ({ fileName, preview, onConfirm, onCancel }) => {
+  const columnCount = Math.max(0, ...preview.rows.map(r => r.length));
+  const headings = preview.rows[0] || [];
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [columns, setColumns] = useState<CsvColumnRole[]>(() => {
+    const guessed = guessRoles(headings);
+    return Array.from({ length: columnCount }, (_, i) => guessed[i] || { kind: 'ignore' });
+  });
+
+  const languages = columns.flatMap(c => (c.kind === 'language' && c.lang ? [c.lang] : []));
+  const [sourceLang, setSourceLang] = useState(languages[0] || '');
+  const effectiveSource = languages.includes(sourceLang) ? sourceLang : languages[0] || '';
+  const sampleRows = preview.rows.slice(hasHeaderRow ? 1 : 0, hasHeaderRow ? 6 : 5);
+
+  const setRole = (index: number, role: CsvColumnRole) => {
+    setColumns(cols => cols.map((c, i) => (i === index ? role : c)));
+  };
+
+  const changeKind = (index: number, kind: CsvColumnRole['kind']) => {
+    const heading = hasHeaderRow ? (headings[index] || '').trim() : '';
+    switch (kind) {
+      case 'language':
+        setRole(index, { kind, lang: languageOfHeading(heading) });
+        break;
+      case 'prop':
+        setRole(index, { kind, type: heading || `column-${index + 1}` });
+        break;
+      default:
+        setRole(index, { kind });
+    }
+  };
+
+  const canConfirm = languages.length > 0 && columns.every(c => c.kind !== 'language' || c.lang.trim());
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Table size={18} /> Map CSV Columns
+            <span className="font-normal text-slate-400 text-sm truncate max-w-[300px]">{fileName}</span>
+          </h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 flex-1 overflow-auto space-y-4">
+          <div className="flex flex-wrap items-center gap-6 text-sm text-slate-600">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={hasHeaderRow} onChange={() => setHasHeaderRow(h => !h)} className="rounded border-slate-300" />
+              First row contains headings
+            </label>
+            <label className="flex items-center gap-2">
+              Source language
+              <select
+                value={effectiveSource}
+                onChange={(e) => setSourceLang(e.target.value)}
+                className="border border-slate-200 rounded-lg px-2 py-1 text-sm bg-white font-mono"
+              >
+                {languages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+              </select>
+            </label>
+            <span className="text-xs text-slate-400">
+              Delimiter: <span className="font-mono">{preview.delimiter === '\t' ? 'tab' : preview.delimiter}</span>
+            </span>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-200 rounded-lg">
+            <table className="text-sm min-w-full">
+              <thead className="bg-slate-50">
+                <tr>
+                  {columns.map((role, idx) => (
+                    <th key={idx} className="p-2 text-left align-top border-b border-slate-200 min-w-[160px]">
+                      <select
+                        value={roleKey(role)}
+                        onChange={(e) => changeKind(idx, e.target.value as CsvColumnRole['kind'])}
+                        className="w-full border border-slate-200 rounded px-1.5 py-1 text-xs bg-white font-medium"
+                      >
+                        <option value="ignore">Ignore</option>
+                        <option value="id">TU id</option>
+                        <option value="language">Language</option>
+                        <option value="prop">Prop</option>
+                      </select>
+                      {role.kind === 'language' && (
+                        <input
+                          value={role.lang}
+                          onChange={(e) => setRole(idx, { kind: 'language', lang: e.target.value.trim() })}
+                          placeholder="e.g. de-DE"
+                          className="mt-1 w-full border border-slate-200 rounded px-1.5 py-1 text-xs font-mono"
+                        />
+                      )}
+                      {role.kind === 'prop' && (
+                        <input
+                          value={role.type}
+                          onChange={(e) => setRole(idx, { kind: 'prop', type: e.target.value })}
+                          placeholder="prop type"
+                          className="mt-1 w-full border border-slate-200 rounded px-1.5 py-1 text-xs font-mono"
+                        />
+                      )}
+                    </th>
+                  ))}
+                </tr>
+                {hasHeaderRow && (
+                  <tr>
+                    {columns.map((_, idx) => (
+                      <th key={idx} className="px-2 py-1 text-left text-xs text-slate-400 font-semibold border-b border-slate-200">
+                        {headings[idx]}
+                      </th>
+                    ))}
+                  </tr>
+                )}
+              </thead>
+              <tbody>
+                {sampleRows.map((row, r) => (
+                  <tr key={r} className="border-b border-slate-100 last:border-0">
+                    {columns.map((role, idx) => (
+                      <td key={idx} className={`px-2 py-1.5 align-top max-w-[240px] truncate ${role.kind === 'ignore' ? 'text-slate-300' : 'text-slate-700'}`}>
+                        {row[idx]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+          <button onClick={onCancel} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+          <button
+            onClick={() => onConfirm({ delimiter: preview.delimiter, hasHeaderRow, sourceLang: effectiveSource, columns })}
+            disabled={!canConfirm}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Load File
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { CalendarRange } from 'lucide-react';
+import { DateField, DateRange, ListSort } from '../types';
+import { DATE_FIELD_LABELS } from '../services/tmxDates';
+
+interface DateFilterProps {
+  ranges: DateRange[];
+  sort: ListSort | null;
+  onRangesChange: (ranges: DateRange[]) => void;
+  onSortChange: (sort: ListSort | null) => void;
+}
+
+const DATE_FIELDS = Object.keys(DATE_FIELD_LABELS) as DateField[];
+
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: '', label: 'Default (relevance or file order)' },
+  { value: '-changed', label: 'Recently changed first' },
+  { value: 'changed', label: 'Least recently changed first' },
+  { value: '-created', label: 'Newest first' },
+  { value: 'created', label: 'Oldest first' },
+  { value: '-used', label: 'Recently used first' },
+  { value: 'used', label: 'Least recently used first' }
+];
+
+const sortValue = (sort: ListSort | null) => (sort ? `${sort.descending ? '-' : ''}${sort.field}` : '');
+
+/**
+ * Toolbar control for dates: a range of days per date field (units need a date inside
+ * every range given), and ordering the list by one of the dates.
+ */
+export const DateFilter: React.FC<DateFilterProps> = ({ ranges, sort, onRangesChange, onSortChange }) => {
+  const [open, setOpen] = useState(false);
+  const isDefault = ranges.length === 0 && !sort;
+
+  const rangeOf = (field: DateField) => ranges.find(range => range.field === field);
+
+  const setBound = (field: DateField, bound: 'from' | 'to', day: string) => {
+    const current = rangeOf(field) || { field, from: '', to: '' };
+    const next = { ...current, [bound]: day };
+    const others = ranges.filter(range => range.field !== field);
+    onRangesChange(next.from || next.to ? [...others, next] : others);
+  };
+
+  const pickSort = (value: string) => {
+    if (!value) onSortChange(null);
+    else onSortChange({ field: value.replace(/^-/, '') as DateField, descending: value.startsWith('-') });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`px-3 py-1.5 rounded-lg border flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap transition-colors
+          ${isDefault
+            ? 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+            : 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200'}`}
+        title="Filter and sort by creation, change or last usage date"
+      >
+        <CalendarRange size={16} />
+        Dates
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 z-20 w-80 bg-white border border-slate-200 rounded-lg shadow-lg p-3 space-y-3 text-sm">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Date ranges</span>
+              {ranges.length > 0 && (
+                <button onClick={() => onRangesChange([])} className="text-xs text-blue-600 hover:text-blue-800">Clear</button>
+              )}
+            </div>
+            {DATE_FIELDS.map(field => {
+              const range = rangeOf(field);
+              return (
+                <div key={field} className="grid grid-cols-[5rem_1fr_auto_1fr] items-center gap-1.5">
+                  <span className="text-slate-600">{DATE_FIELD_LABELS[field]}</span>
+                  <input
+                    type="date"
+                    value={range?.from || ''}
+                    max={range?.to || undefined}
+                    onChange={(e) => setBound(field, 'from', e.target.value)}
+                    className="border border-slate-200 rounded-lg px-1.5 py-1 text-xs min-w-0"
+                  />
+                  <span className="text-slate-400">–</span>
+                  <input
+                    type="date"
+                    value={range?.to || ''}
+                    min={range?.from || undefined}
+                    onChange={(e) => setBound(field, 'to', e.target.value)}
+                    className="border border-slate-200 rounded-lg px-1.5 py-1 text-xs min-w-0"
+                  />
+                </div>
+              );
+            })}
+            <p className="text-[11px] text-slate-400">Days in your time zone. Units without the date are left out.</p>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Order</span>
+            <select
+              value={sortValue(sort)}
+              onChange={(e) => pickSort(e.target.value)}
+              className="w-full border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-sm"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-[11px] text-slate-400">Replaces relevance and list order; undated units come last.</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
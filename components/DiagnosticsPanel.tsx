@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { FileWarning, X, ChevronLeft, ChevronRight, AlertCircle, AlertTriangle, LocateFixed } from 'lucide-react';
+import { DiagnosticCode, SourceFileSummary } from '../types';
+import { DiagnosticsResult } from '../services/workerProtocol';
+import { DIAGNOSTICS, DIAGNOSTIC_CODES } from '../services/tmxValidator';
+
+interface DiagnosticsPanelProps {
+  /** Loaded files; those the validator found something in can be picked. */
+  sources: SourceFileSummary[];
+  loadPage: (fileIndex: number, codes: DiagnosticCode[], offset: number, limit: number) => Promise<DiagnosticsResult>;
+  /** Shows the unit with this session index in the list. */
+  onShowUnit: (unit: number, tuid?: string) => void;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+/**
+ * What the validator found in each loaded TMX file: XML errors and TMX 1.4b violations
+ * with their line and column, filterable by kind. Findings about a unit that was loaded
+ * can take the list to it.
+ */
+export const DiagnosticsPanel: React.FC<DiagnosticsPanelProps> = ({ sources, loadPage, onShowUnit, onClose }) => {
+  const flagged = sources.filter(source => source.validation && source.validation.errors + source.validation.warnings > 0);
+  const [fileIndex, setFileIndex] = useState(flagged[0]?.index ?? 0);
+  const [codes, setCodes] = useState<DiagnosticCode[]>([]);
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<DiagnosticsResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const counts = sources[fileIndex]?.validation;
+
+  useEffect(() => {
+    if (!counts) return;
+    let stale = false;
+    loadPage(fileIndex, codes, offset, PAGE_SIZE)
+      .then(data => {
+        if (!stale) setPage(data);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      stale = true;
+    };
+  }, [fileIndex, codes, offset]);
+
+  const toggleCode = (code: DiagnosticCode) => {
+    setCodes(current => (current.includes(code) ? current.filter(c => c !== code) : [...current, code]));
+    setOffset(0);
+  };
+
+  const pickFile = (index: number) => {
+    setFileIndex(index);
+    setCodes([]);
+    setOffset(0);
+    setPage(null);
+  };
+
+  const totalPages = page ? Math.ceil(page.total / PAGE_SIZE) : 0;
+  const counted = counts ? counts.errors + counts.warnings : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center gap-3">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <FileWarning size={18} /> File Problems
+            {counts && (
+              <span className="font-normal text-sm text-slate-400">
+                {counts.errors.toLocaleString()} errors · {counts.warnings.toLocaleString()} warnings
+              </span>
+            )}
+          </h3>
+          <div className="flex items-center gap-3">
+            {flagged.length > 1 && (
+              <select
+                value={fileIndex}
+                onChange={(e) => pickFile(Number(e.target.value))}
+                className="border border-slate-200 rounded-lg px-2 py-1 bg-white text-sm max-w-[16rem]"
+              >
+                {flagged.map(source => (
+                  <option key={source.index} value={source.index}>{source.name}</option>
+                ))}
+              </select>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {counts && (
+          <div className="px-4 py-3 border-b border-slate-100 flex flex-wrap gap-1.5">
+            {DIAGNOSTIC_CODES.filter(code => counts.byCode[code]).map(code => {
+              const active = codes.includes(code);
+              const isError = DIAGNOSTICS[code].severity === 'error';
+              return (
+                <button
+                  key={code}
+                  onClick={() => toggleCode(code)}
+                  className={`px-2 py-1 rounded-full border text-xs flex items-center gap-1.5 transition-colors
+                    ${active
+                      ? 'bg-blue-100 text-blue-700 border-blue-200'
+                      : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+                >
+                  {isError ? <AlertCircle size={12} className="text-red-500" /> : <AlertTriangle size={12} className="text-amber-500" />}
+                  {DIAGNOSTICS[code].label}
+                  <span className="font-mono text-slate-400">{(counts.byCode[code] || 0).toLocaleString()}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex-1 overflow-auto text-sm">
+          {error && <p className="p-4 text-red-600">{error}</p>}
+          {!counts ? (
+            <p className="p-10 text-center text-slate-400">No problems found.</p>
+          ) : !page ? (
+            <p className="p-10 text-center text-slate-400">Loading…</p>
+          ) : (
+            <table className="w-full">
+              <tbody>
+                {page.diagnostics.map((diagnostic, i) => (
+                  <tr key={offset + i} className="border-b border-slate-100 align-top hover:bg-slate-50">
+                    <td className="pl-4 pr-2 py-2">
+                      {diagnostic.severity === 'error'
+                        ? <AlertCircle size={14} className="text-red-500 mt-0.5" />
+                        : <AlertTriangle size={14} className="text-amber-500 mt-0.5" />}
+                    </td>
+                    <td className="px-2 py-2 font-mono text-xs text-slate-500 whitespace-nowrap">
+                      {diagnostic.line}:{diagnostic.column}
+                    </td>
+                    <td className="px-2 py-2 text-slate-700">
+                      {diagnostic.message}
+                      {diagnostic.tuid !== undefined && (
+                        <span className="ml-2 font-mono text-xs text-slate-400">tuid {diagnostic.tuid}</span>
+                      )}
+                    </td>
+                    <td className="pl-2 pr-4 py-2 text-right">
+                      {diagnostic.unit !== undefined && (
+                        <button
+                          onClick={() => onShowUnit(diagnostic.unit as number, diagnostic.tuid)}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="Show this unit in the list"
+                        >
+                          <LocateFixed size={14} />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-between items-center gap-3 rounded-b-xl text-sm text-slate-600">
+          <span>
+            {page && page.total < counted && codes.length === 0
+              ? `The first ${page.total.toLocaleString()} of ${counted.toLocaleString()} findings are listed`
+              : page && `${page.total.toLocaleString()} ${page.total === 1 ? 'finding' : 'findings'}`}
+          </span>
+          {totalPages > 1 && (
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setOffset(o => Math.max(0, o - PAGE_SIZE))}
+                disabled={offset === 0}
+                className="p-1 rounded border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
+              >
+                <ChevronLeft size={14} />
+              </button>
+              <span className="text-xs">{offset / PAGE_SIZE + 1} / {totalPages}</span>
+              <button
+                onClick={() => setOffset(o => o + PAGE_SIZE)}
+                disabled={offset / PAGE_SIZE + 1 >= totalPages}
+                className="p-1 rounded border border-slate-200 bg-white hover:bg-slate-50 disabled:opacity-40"
+              >
+                <ChevronRight size={14} />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React from 'react';
+import { Hash, ArrowRight } from 'lucide-react';
+import { TuDiff, DiffStatus, NormalizedTu, TuVariant } from '../types';
+import { SegmentView } from './SegmentView';
+import { diffChars } from '../services/textDiff';
+import { serializeSegment } from '../services/inlineMarkup';
+
+interface DiffTuCardProps {
+  diff: TuDiff;
+  baselineName: string;
+  revisedName: string;
+}
+
+export const DIFF_STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Target changed',
+  metadata: 'Metadata only',
+  unchanged: 'Unchanged'
+};
+
+export const DIFF_STATUS_STYLES: Record<DiffStatus, string> = {
+  added: 'bg-green-50 text-green-700 border-green-200',
+  removed: 'bg-red-50 text-red-700 border-red-200',
+  changed: 'bg-amber-50 text-amber-700 border-amber-200',
+  metadata: 'bg-purple-50 text-purple-700 border-purple-200',
+  unchanged: 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+/** Languages of both versions, source first, then in order of appearance. */
+const languagesOf = (diff: TuDiff): string[] => {
+  const tus = [diff.revised, diff.baseline].filter((tu): tu is NormalizedTu => !!tu);
+  const langs: string[] = [];
+  const seen = new Set<string>();
+  const add = (lang: string) => {
+    if (seen.has(lang.toLowerCase())) return;
+    seen.add(lang.toLowerCase());
+    langs.push(lang);
+  };
+  tus.forEach(tu => add(tu.srcLang));
+  tus.forEach(tu => tu.variants.forEach(v => add(v.lang)));
+  return langs;
+};
+
+const variantOf = (tu: NormalizedTu | undefined, lang: string): TuVariant | undefined =>
+  tu?.variants.find(v => v.lang.toLowerCase() === lang.toLowerCase());
+
+/** Flattens props and TU attributes into one comparable map. */
+const metadataEntries = (tu?: NormalizedTu): Record<string, string> => {
+  if (!tu) return {};
+  const entries: Record<string, string> = {};
+  Object.entries(tu.attributes).forEach(([key, value]) => { entries[key] = value; });
+  Object.entries(tu.props).forEach(([key, value]) => { entries[`prop:${key}`] = value; });
+  tu.annotations
+    .filter(a => a.element === 'note')
+    .forEach((note, idx) => { entries[`note ${idx + 1}`] = note.value; });
+  return entries;
+};
+
+/** Character diff of two strings, deletions struck through and insertions highlighted. */
+export const InlineDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <>
+    {diffChars(before, after).map((op, idx) => {
+      if (op.type === 'insert') return <ins key={idx} className="bg-green-100 text-green-800 no-underline rounded-sm">{op.text}</ins>;
+      if (op.type === 'delete') return <del key={idx} className="bg-red-100 text-red-700 rounded-sm">{op.text}</del>;
+      return <React.Fragment key={idx}>{op.text}</React.Fragment>;
+    })}
+  </>
+);
+
+const VariantDiff: React.FC<{ before?: TuVariant; after?: TuVariant }> = ({ before, after }) => {
+  if (!before && after) {
+    return <span className="bg-green-100 text-green-800 rounded-sm"><SegmentView parts={after.segment} /></span>;
+  }
+  if (before && !after) {
+    return <del className="bg-red-100 text-red-700 rounded-sm"><SegmentView parts={before.segment} /></del>;
+  }
+  if (!before || !after) return null;
+  if (before.text !== after.text) return <InlineDiff before={before.text} after={after.text} />;
+
+  const tagsChanged = serializeSegment(before.segment) !== serializeSegment(after.segment);
+  return (
+    <>
+      <SegmentView parts={after.segment} />
+      {tagsChanged && (
+        <span className="ml-2 text-[11px] font-sans font-medium text-amber-600 bg-amber-50 border border-amber-200 rounded px-1">inline tags changed</span>
+      )}
+    </>
+  );
+};
+
+/**
+ * TuCard variant for compare mode: one language per row with the baseline-to-revised
+ * character diff, followed by the metadata fields that changed.
+ */
+export const DiffTuCard: React.FC<DiffTuCardProps> = ({ diff, baselineName, revisedName }) => {
+  const { status, baseline, revised } = diff;
+  const primary = (revised || baseline)!;
+  const languages = languagesOf(diff);
+  const srcLang = primary.srcLang.toLowerCase();
+
+  const before = metadataEntries(baseline);
+  const after = metadataEntries(revised);
+  const changedMetadata = baseline && revised
+    ? [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(key => before[key] !== after[key])
+    : [];
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden mb-4 flex flex-col">
+      {/* Top Bar: status, ID and origin files */}
+      <div className="bg-slate-50/80 px-4 py-2 flex items-center justify-between border-b border-slate-100 text-xs">
+        <div className="flex items-center gap-3">
+          <span className={`px-2 py-0.5 rounded border font-semibold ${DIFF_STATUS_STYLES[status]}`}>
+            {DIFF_STATUS_LABELS[status]}
+          </span>
+          <div className="flex items-center gap-1.5 px-2 py-0.5 bg-white border border-slate-200 rounded font-mono text-slate-500 shadow-sm">
+            <Hash size={10} />
+            <span>{primary.id}</span>
+          </div>
+          {primary.props['x-segment-id'] && (
+            <span className="font-mono text-blue-700 truncate max-w-[280px]">{primary.props['x-segment-id']}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1.5 text-slate-400">
+          {baseline && <span className="truncate max-w-[160px]">{baselineName}</span>}
+          {baseline && revised && <ArrowRight size={12} />}
+          {revised && <span className="truncate max-w-[160px]">{revisedName}</span>}
+        </div>
+      </div>
+
+      {/* Variants */}
+      <div className="divide-y divide-slate-100">
+        {languages.map(lang => {
+          const isSource = lang.toLowerCase() === srcLang;
+          const oldVariant = variantOf(baseline, lang);
+          const newVariant = variantOf(revised, lang);
+          return (
+            <div key={lang} className="px-5 py-3 grid grid-cols-[90px_1fr] gap-4 items-start">
+              <span className={`justify-self-start px-2 py-0.5 rounded text-[11px] font-bold tracking-wide uppercase border
+                ${isSource ? 'bg-blue-50 text-blue-700 border-blue-100' : 'bg-green-50 text-green-700 border-green-100'}`}>
+                {lang}
+              </span>
+              <p className={`text-[15px] leading-relaxed whitespace-pre-wrap ${isSource ? 'text-slate-900 font-medium' : 'text-slate-700'}`}>
+                {status === 'added' || status === 'removed'
+                  ? <SegmentView parts={(newVariant || oldVariant)?.segment || []} />
+                  : <VariantDiff before={oldVariant} after={newVariant} />}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Footer: changed metadata */}
+      {changedMetadata.length > 0 && (
+        <div className="bg-slate-50 px-4 py-3 border-t border-slate-100 text-xs text-slate-500 flex flex-col gap-1">
+          {changedMetadata.map(key => (
+            <div key={key} className="flex items-center gap-2 flex-wrap">
+              <span className="font-semibold text-slate-500">{key}:</span>
+              <del className="font-mono text-red-600">{before[key] ?? '∅'}</del>
+              <ArrowRight size={10} className="text-slate-400" />
+              <span className="font-mono text-green-700">{after[key] ?? '∅'}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
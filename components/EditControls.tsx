@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Pencil, Redo2, Save, Undo2 } from 'lucide-react';
+import { EditState, SourceFileSummary } from '../types';
+
+interface EditControlsProps {
+  editState: EditState;
+  sources: SourceFileSummary[];
+  modifiedOnly: boolean;
+  onStep: (type: 'UNDO' | 'REDO') => void;
+  onToggleModifiedOnly: () => void;
+  onSave: (fileIndex: number) => void;
+}
+
+/**
+ * Toolbar controls for the session's edits: undo and redo, the edited-units filter, and
+ * saving, with a menu to pick the file when several are loaded.
+ */
+export const EditControls: React.FC<EditControlsProps> = ({ editState, sources, modifiedOnly, onStep, onToggleModifiedOnly, onSave }) => {
+  const [showSaveMenu, setShowSaveMenu] = useState(false);
+
+  const save = (fileIndex: number) => {
+    setShowSaveMenu(false);
+    onSave(fileIndex);
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <button
+        onClick={() => onStep('UNDO')}
+        disabled={!editState.undoLabel}
+        className="p-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"
+        title={editState.undoLabel ? `Undo: ${editState.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+      >
+        <Undo2 size={16} />
+      </button>
+      <button
+        onClick={() => onStep('REDO')}
+        disabled={!editState.redoLabel}
+        className="p-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 shadow-sm disabled:opacity-40 disabled:cursor-not-allowed"
+        title={editState.redoLabel ? `Redo: ${editState.redoLabel} (Ctrl+Y)` : 'Nothing to redo'}
+      >
+        <Redo2 size={16} />
+      </button>
+      <button
+        onClick={onToggleModifiedOnly}
+        className={`px-3 py-1.5 rounded-lg border flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap transition-colors
+          ${modifiedOnly
+            ? 'bg-amber-100 text-amber-800 border-amber-200 hover:bg-amber-200'
+            : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+        title="Show only the units edited in this session"
+      >
+        <Pencil size={16} />
+        <span className="font-mono text-xs">{editState.modifiedCount.toLocaleString()}</span>
+      </button>
+      <div className="relative">
+        <button
+          onClick={() => (sources.length === 1 ? save(0) : setShowSaveMenu(open => !open))}
+          disabled={editState.modifiedCount === 0 && editState.deletedCount === 0}
+          className="px-3 py-1.5 rounded-lg border border-blue-200 bg-blue-600 text-white hover:bg-blue-700 flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Download the edited file as TMX"
+        >
+          <Save size={16} />
+          Save
+        </button>
+        {showSaveMenu && (
+          <div className="absolute right-0 mt-1 z-20 w-64 bg-white border border-slate-200 rounded-lg shadow-lg py-1 text-sm">
+            {sources.map(source => (
+              <button
+                key={source.index}
+                onClick={() => save(source.index)}
+                disabled={!editState.modifiedByFile[source.index]}
+                className="w-full px-3 py-2 flex items-center justify-between gap-2 text-left text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                <span className="truncate">{source.name}</span>
+                <span className="font-mono text-xs text-slate-400">{(editState.modifiedByFile[source.index] || 0).toLocaleString()}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
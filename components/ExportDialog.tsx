@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Download, X, Loader2 } from 'lucide-react';
+import { TabularExportOptions, MetadataField } from '../types';
+
+export type ExportFormat = 'tmx' | TabularExportOptions['format'];
+export type ExportScope = 'filtered' | 'all';
+
+interface ExportDialogProps {
+  languages: string[];
+  propTypes: string[];
+  totalCount: number;
+  /** Size of the active filter, or null when no filter is applied. */
+  filteredCount: number | null;
+  isExporting: boolean;
+  onExport: (format: ExportFormat, scope: ExportScope, options: TabularExportOptions) => void;
+  onClose: () => void;
+}
+
+const METADATA_OPTIONS: { field: MetadataField; label: string }[] = [
+  { field: 'creationDate', label: 'Creation date' },
+  { field: 'createUser', label: 'Created by' },
+  { field: 'changeDate', label: 'Change date' },
+  { field: 'changeUser', label: 'Changed by' }
+];
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const Checkbox: React.FC<{ checked: boolean; onChange: () => void; label: string; mono?: boolean }> = ({ checked, onChange, label, mono }) => (
+  <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={onChange} className="rounded border-slate-300" />
+    <span className={mono ? 'font-mono text-xs' : ''}>{label}</span>
+  </label>
+);
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  languages, propTypes, totalCount, filteredCount, isExporting, onExport, onClose
+}) => {
+  const [format, setFormat] = useState<ExportFormat>('tmx');
+  const [scope, setScope] = useState<ExportScope>(filteredCount !== null ? 'filtered' : 'all');
+  const [options, setOptions] = useState<TabularExportOptions>({
+    format: 'csv',
+    delimiter: ',',
+    encoding: 'utf-8-bom',
+    languages,
+    includeId: true,
+    propTypes: propTypes.includes('x-segment-id') ? ['x-segment-id'] : [],
+    metadataFields: []
+  });
+
+  const isTabular = format !== 'tmx';
+  const isDelimited = format === 'csv' || format === 'tsv';
+  const update = (patch: Partial<TabularExportOptions>) => setOptions(o => ({ ...o, ...patch }));
+  // Keep the chosen language order stable regardless of click order
+  const orderedLanguages = languages.filter(l => options.languages.includes(l));
+  const canExport = !isExporting && (!isTabular || orderedLanguages.length > 0 || options.includeId);
+
+  const handleExport = () => {
+    if (format === 'tmx') {
+      onExport(format, scope, options);
+    } else {
+      onExport(format, scope, { ...options, format, languages: orderedLanguages });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Download size={18} /> Export Translation Units
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 flex-1 overflow-y-auto space-y-5">
+          <section className="space-y-2">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Units</h4>
+            <div className="flex gap-4">
+              <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+                Full memory ({totalCount.toLocaleString()})
+              </label>
+              <label className={`flex items-center gap-2 text-sm cursor-pointer ${filteredCount === null ? 'text-slate-300' : 'text-slate-600'}`}>
+                <input type="radio" checked={scope === 'filtered'} disabled={filteredCount === null} onChange={() => setScope('filtered')} />
+                Current filter{filteredCount !== null && ` (${filteredCount.toLocaleString()})`}
+              </label>
+            </div>
+          </section>
+
+          <section className="space-y-2">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Format</h4>
+            <div className="grid grid-cols-4 gap-2">
+              {(['tmx', 'csv', 'tsv', 'xlsx'] as ExportFormat[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => setFormat(f)}
+                  className={`py-1.5 rounded-lg border text-sm font-medium uppercase transition-colors ${
+                    format === f ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+                  }`}
+                >
+                  {f}
+                </button>
+              ))}
+            </div>
+            {format === 'tmx' && (
+              <p className="text-xs text-slate-400">TMX 1.4b with the original header, attributes, props and inline tags.</p>
+            )}
+          </section>
+
+          {isDelimited && (
+            <section className="grid grid-cols-2 gap-4">
+              {format === 'csv' && (
+                <label className="flex flex-col gap-1 text-sm text-slate-600">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Delimiter</span>
+                  <select
+                    value={options.delimiter}
+                    onChange={(e) => update({ delimiter: e.target.value as TabularExportOptions['delimiter'] })}
+                    className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm bg-white"
+                  >
+                    <option value=",">Comma (,)</option>
+                    <option value=";">Semicolon (;)</option>
+                    <option value={'\t'}>Tab</option>
+                  </select>
+                </label>
+              )}
+              <label className="flex flex-col gap-1 text-sm text-slate-600">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Encoding</span>
+                <select
+                  value={options.encoding}
+                  onChange={(e) => update({ encoding: e.target.value as TabularExportOptions['encoding'] })}
+                  className="border border-slate-200 rounded-lg px-2 py-1.5 text-sm bg-white"
+                >
+                  <option value="utf-8-bom">UTF-8 with BOM (Excel)</option>
+                  <option value="utf-8">UTF-8</option>
+                  <option value="utf-16le">UTF-16 LE</option>
+                </select>
+              </label>
+            </section>
+          )}
+
+          {isTabular && (
+            <>
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Language Columns</h4>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                  {languages.map(lang => (
+                    <Checkbox
+                      key={lang}
+                      label={lang}
+                      mono
+                      checked={options.languages.includes(lang)}
+                      onChange={() => update({ languages: toggle(options.languages, lang) })}
+                    />
+                  ))}
+                </div>
+              </section>
+
+              <section className="space-y-2">
+                <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wide">Additional Columns</h4>
+                <Checkbox label="TU id" checked={options.includeId} onChange={() => update({ includeId: !options.includeId })} />
+                {propTypes.map(type => (
+                  <Checkbox
+                    key={type}
+                    label={type}
+                    mono
+                    checked={options.propTypes.includes(type)}
+                    onChange={() => update({ propTypes: toggle(options.propTypes, type) })}
+                  />
+                ))}
+                <div className="grid grid-cols-2 gap-2 pt-1">
+                  {METADATA_OPTIONS.map(({ field, label }) => (
+                    <Checkbox
+                      key={field}
+                      label={label}
+                      checked={options.metadataFields.includes(field)}
+                      onChange={() => update({ metadataFields: toggle(options.metadataFields, field) })}
+                    />
+                  ))}
+                </div>
+              </section>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-3 rounded-b-xl">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:bg-slate-200 rounded-lg">Cancel</button>
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting && <Loader2 size={16} className="animate-spin" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { AlertCircle, X } from 'lucide-react';
+import { BatchReport, DateRange, FacetFilter, QaCheckId } from '../types';
+import { QA_CHECKS } from '../services/qaChecks';
+import { describeFacet } from '../services/analytics';
+import { describeDateRange } from '../services/tmxDates';
+
+interface FilterChipsProps {
+  batchReport: BatchReport | null; // report of the active batch filter
+  clusterView: string | null;
+  modifiedOnly: boolean;
+  facets: FacetFilter[];
+  dateRanges: DateRange[];
+  qaFilter: QaCheckId[] | null;
+  onReviewBatch: () => void;
+  onClearCluster: () => void;
+  onClearModified: () => void;
+  onRemoveFacet: (facet: FacetFilter) => void;
+  onRemoveDateRange: (range: DateRange) => void;
+  onClearQaFilter: () => void;
+}
+
+const CHIP_CLASS = 'px-3 py-2 rounded-lg border flex items-center gap-2 text-sm font-medium whitespace-nowrap bg-amber-50 text-amber-800 border-amber-200 hover:bg-amber-100';
+
+/**
+ * Toolbar chips for the filters narrowing the list besides the search box; clicking one drops it.
+ */
+export const FilterChips: React.FC<FilterChipsProps> = ({
+  batchReport,
+  clusterView,
+  modifiedOnly,
+  facets,
+  dateRanges,
+  qaFilter,
+  onReviewBatch,
+  onClearCluster,
+  onClearModified,
+  onRemoveFacet,
+  onRemoveDateRange,
+  onClearQaFilter
+}) => (
+  <>
+    {/* Batch Report Indicator */}
+    {batchReport && (batchReport.missing.length > 0 || batchReport.ambiguous.length > 0) && (
+      <button
+        onClick={onReviewBatch}
+        className={CHIP_CLASS}
+        title="Entries of the list that matched no unit or several; click to review or edit the list"
+      >
+        <AlertCircle size={16} />
+        {[
+          batchReport.missing.length > 0 && `${batchReport.missing.length.toLocaleString()} not found`,
+          batchReport.ambiguous.length > 0 && `${batchReport.ambiguous.length.toLocaleString()} ambiguous`
+        ].filter(Boolean).join(' · ')}
+      </button>
+    )}
+
+    {/* Report Cluster Indicator */}
+    {clusterView && (
+      <button onClick={onClearCluster} className={CHIP_CLASS} title="Back to all units">
+        <X size={16} />
+        <span className="truncate max-w-[180px]">Cluster: {clusterView}</span>
+      </button>
+    )}
+
+    {/* Modified Filter Indicator */}
+    {modifiedOnly && (
+      <button onClick={onClearModified} className={CHIP_CLASS} title="Show all units again">
+        <X size={16} />
+        Edited units
+      </button>
+    )}
+
+    {/* Facet Indicators */}
+    {facets.map(facet => (
+      <button
+        key={`${facet.field}-${facet.propType}-${facet.value}`}
+        onClick={() => onRemoveFacet(facet)}
+        className={CHIP_CLASS}
+        title="Stop filtering by this"
+      >
+        <X size={16} />
+        <span className="truncate max-w-[180px]">{describeFacet(facet)}</span>
+      </button>
+    ))}
+
+    {/* Date Range Indicators */}
+    {dateRanges.map(range => (
+      <button key={range.field} onClick={() => onRemoveDateRange(range)} className={CHIP_CLASS} title="Stop filtering by this date">
+        <X size={16} />
+        <span className="truncate max-w-[220px]">{describeDateRange(range)}</span>
+      </button>
+    ))}
+
+    {/* QA Filter Indicator */}
+    {qaFilter && (
+      <button onClick={onClearQaFilter} className={CHIP_CLASS} title="Stop filtering by QA findings">
+        <X size={16} />
+        <span className="truncate max-w-[180px]">
+          QA: {qaFilter.length === 1 ? QA_CHECKS[qaFilter[0]].label : `${qaFilter.length} checks`}
+        </span>
+      </button>
+    )}
+  </>
+);
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Percent, X, Loader2, Search } from 'lucide-react';
+import { FuzzyMatch } from '../types';
+import { FuzzyResult } from '../services/workerProtocol';
+import { TuCard } from './TuCard';
+import { InlineDiff } from './DiffTuCard';
+
+interface FuzzyMatchPanelProps {
+  lookup: (text: string, minScore: number, limit: number) => Promise<FuzzyResult>;
+  fileNames?: string[]; // names of the loaded files by index, given to label matches when several are loaded
+  onClose: () => void;
+}
+
+const MIN_SCORE_OPTIONS = [50, 60, 70, 75, 85, 95];
+const LIMIT_OPTIONS = [5, 10, 25, 50];
+
+// Bands as CAT tools usually report them
+const scoreStyle = (score: number) =>
+  score === 100
+    ? 'bg-green-100 text-green-800 border-green-200'
+    : score >= 85
+      ? 'bg-blue-100 text-blue-800 border-blue-200'
+      : score >= 70
+        ? 'bg-amber-100 text-amber-800 border-amber-200'
+        : 'bg-slate-100 text-slate-600 border-slate-200';
+
+const MatchResult: React.FC<{ match: FuzzyMatch; query: string; originName?: string }> = ({ match, query, originName }) => {
+  const source = match.tu.variants.find(v => v.lang === match.tu.srcLang) || match.tu.variants[0];
+  return (
+    <div>
+      <div className="flex items-start gap-3 px-1 pb-2 text-sm">
+        <span className={`shrink-0 px-2 py-0.5 rounded border font-mono font-bold text-xs ${scoreStyle(match.score)}`}>
+          {match.score}%
+        </span>
+        <p className="text-slate-600 whitespace-pre-wrap" title="Memory source compared with your sentence">
+          <InlineDiff before={source?.text || ''} after={query} />
+        </p>
+      </div>
+      <TuCard tu={match.tu} originName={originName} />
+    </div>
+  );
+};
+
+/**
+ * TM leverage check: which units would a CAT tool offer for a new source sentence,
+ * and at what match percentage.
+ */
+export const FuzzyMatchPanel: React.FC<FuzzyMatchPanelProps> = ({ lookup, fileNames, onClose }) => {
+  const [text, setText] = useState('');
+  const [minScore, setMinScore] = useState(70);
+  const [limit, setLimit] = useState(10);
+  const [result, setResult] = useState<{ query: string; minScore: number; data: FuzzyResult } | null>(null);
+  const [isLooking, setIsLooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runLookup = () => {
+    const query = text.trim();
+    if (!query) return;
+    setIsLooking(true);
+    setError(null);
+    lookup(query, minScore, limit)
+      .then(data => setResult({ query, minScore, data }))
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsLooking(false));
+  };
+
+  const selectClass = 'border border-slate-200 rounded-lg px-2 py-1.5 text-sm bg-white';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-slate-50 rounded-xl shadow-xl w-full max-w-5xl flex flex-col max-h-[90vh]">
+        <div className="p-4 bg-white border-b border-slate-100 flex justify-between items-center rounded-t-xl">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Percent size={18} /> Fuzzy Match Lookup
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 bg-white border-b border-slate-100 space-y-3">
+          <textarea
+            className="w-full min-h-[72px] p-3 border border-slate-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none resize-y"
+            placeholder="Paste a new source sentence to see how the memory would match it"
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) runLookup();
+            }}
+          />
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-slate-600">
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2">
+                Minimum
+                <select value={minScore} onChange={(e) => setMinScore(Number(e.target.value))} className={selectClass}>
+                  {MIN_SCORE_OPTIONS.map(score => <option key={score} value={score}>{score}%</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Show
+                <select value={limit} onChange={(e) => setLimit(Number(e.target.value))} className={selectClass}>
+                  {LIMIT_OPTIONS.map(count => <option key={count} value={count}>top {count}</option>)}
+                </select>
+              </label>
+            </div>
+            <button
+              onClick={runLookup}
+              disabled={isLooking || !text.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isLooking ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+              Find Matches
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 flex-1 overflow-auto space-y-4">
+          {error ? (
+            <div className="text-center py-10 text-red-600 text-sm">{error}</div>
+          ) : !result ? (
+            <div className="text-center py-10 text-slate-400 text-sm">Matches are scored against each unit's source text.</div>
+          ) : result.data.matches.length === 0 ? (
+            <div className="text-center py-10 text-slate-400 text-sm">
+              No match of {result.minScore}% or more among {result.data.candidates.toLocaleString()} candidate units.
+            </div>
+          ) : (
+            result.data.matches.map((match, idx) => (
+              <MatchResult key={`${match.tu.origin}-${match.tu.id}-${idx}`} match={match} query={result.query} originName={match.tu.origin === undefined ? undefined : fileNames?.[match.tu.origin]} />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
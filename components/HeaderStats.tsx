@@ -1,48 +1,96 @@
 import React from 'react';
-import { TmxHeader } from '../types';
-import { FileCode, Calendar, Wrench, Languages } from 'lucide-react';
+import { TmxHeader, SourceFileSummary } from '../types';
+import { FileCode, Calendar, Wrench, Languages, Files } from 'lucide-react';
 
 interface HeaderStatsProps {
   header: TmxHeader;
   totalTus: number;
+  sources?: SourceFileSummary[];
+  activeOrigin?: number | null;
+  onSelectOrigin?: (index: number | null) => void;
 }
 
-export const HeaderStats: React.FC<HeaderStatsProps> = ({ header, totalTus }) => {
+export const HeaderStats: React.FC<HeaderStatsProps> = ({ header, totalTus, sources = [], activeOrigin = null, onSelectOrigin }) => {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-      <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
-        <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
-          <FileCode size={14} /> Source Language
-        </span>
-        <span className="text-2xl font-bold text-slate-800 mt-2">{header['@_srclang'] || 'N/A'}</span>
-        <span className="text-xs text-slate-500 mt-1">Admin Lang: {header['@_adminlang'] || '-'}</span>
-      </div>
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
+            <FileCode size={14} /> Source Language
+          </span>
+          <span className="text-2xl font-bold text-slate-800 mt-2">{header['@_srclang'] || 'N/A'}</span>
+          <span className="text-xs text-slate-500 mt-1">Admin Lang: {header['@_adminlang'] || '-'}</span>
+        </div>
 
-      <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
-        <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
-          <Languages size={14} /> Total Units
-        </span>
-        <span className="text-2xl font-bold text-slate-800 mt-2">{totalTus.toLocaleString()}</span>
-        <span className="text-xs text-slate-500 mt-1">Segments</span>
-      </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
+            <Languages size={14} /> Total Units
+          </span>
+          <span className="text-2xl font-bold text-slate-800 mt-2">{totalTus.toLocaleString()}</span>
+          <span className="text-xs text-slate-500 mt-1">Segments</span>
+        </div>
 
-      <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
-        <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
-           <Wrench size={14} /> Creation Tool
-        </span>
-        <span className="text-lg font-bold text-slate-800 mt-2 truncate" title={header['@_creationtool']}>
-          {header['@_creationtool'] || 'Unknown'}
-        </span>
-        <span className="text-xs text-slate-500 mt-1">v{header['@_creationtoolversion'] || '?'}</span>
-      </div>
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
+             <Wrench size={14} /> Creation Tool
+          </span>
+          <span className="text-lg font-bold text-slate-800 mt-2 truncate" title={header['@_creationtool']}>
+            {header['@_creationtool'] || 'Unknown'}
+          </span>
+          <span className="text-xs text-slate-500 mt-1">v{header['@_creationtoolversion'] || '?'}</span>
+        </div>
 
-       <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
-        <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
-           <Calendar size={14} /> Data Type
-        </span>
-        <span className="text-xl font-bold text-slate-800 mt-2">{header['@_datatype'] || 'Plain Text'}</span>
-        <span className="text-xs text-slate-500 mt-1">SegType: {header['@_segtype'] || 'sentence'}</span>
+         <div className="bg-white p-4 rounded-lg shadow-sm border border-slate-200 flex flex-col">
+          <span className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
+             <Calendar size={14} /> Data Type
+          </span>
+          <span className="text-xl font-bold text-slate-800 mt-2">{header['@_datatype'] || 'Plain Text'}</span>
+          <span className="text-xs text-slate-500 mt-1">SegType: {header['@_segtype'] || 'sentence'}</span>
+        </div>
       </div>
-    </div>
+
+      {/* Per-file breakdown, only when several files are merged into the session */}
+      {sources.length > 1 && (
+        <div className="bg-white rounded-lg shadow-sm border border-slate-200 mb-6 overflow-hidden">
+          <div className="px-4 py-2 border-b border-slate-100 text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-2">
+            <Files size={14} /> Loaded Files ({sources.length})
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-slate-400 text-left">
+                <tr>
+                  <th className="px-4 py-2 font-semibold">File</th>
+                  <th className="px-4 py-2 font-semibold">Format</th>
+                  <th className="px-4 py-2 font-semibold text-right">Units</th>
+                  <th className="px-4 py-2 font-semibold">Source</th>
+                  <th className="px-4 py-2 font-semibold">Languages</th>
+                  <th className="px-4 py-2 font-semibold">Tool</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sources.map(source => {
+                  const isActive = activeOrigin === source.index;
+                  return (
+                    <tr
+                      key={source.index}
+                      onClick={onSelectOrigin ? () => onSelectOrigin(isActive ? null : source.index) : undefined}
+                      className={`border-t border-slate-100 ${onSelectOrigin ? 'cursor-pointer hover:bg-slate-50' : ''} ${isActive ? 'bg-blue-50 hover:bg-blue-50' : ''}`}
+                      title={onSelectOrigin ? (isActive ? 'Show all files' : 'Show only units from this file') : undefined}
+                    >
+                      <td className="px-4 py-2 font-medium text-slate-700 truncate max-w-[280px]">{source.name}</td>
+                      <td className="px-4 py-2 text-slate-500">{source.label}</td>
+                      <td className="px-4 py-2 text-slate-700 text-right font-mono">{source.tuCount.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-slate-500 font-mono">{source.header['@_srclang'] || '-'}</td>
+                      <td className="px-4 py-2 text-slate-500 font-mono text-xs">{source.languages.join(', ')}</td>
+                      <td className="px-4 py-2 text-slate-500 truncate max-w-[200px]">{source.header['@_creationtool'] || '-'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </>
   );
-};
\ No newline at end of file
+};
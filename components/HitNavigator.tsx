@@ -0,0 +1,37 @@
+import React from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+interface HitNavigatorProps {
+  activeHit: number | null; // index into the page's hits, null before the first step
+  hitCount: number; // hits on the current page
+  isFirstPage: boolean;
+  isLastPage: boolean;
+  onStep: (step: 1 | -1) => void;
+}
+
+/**
+ * Steps through the search hits of the page, moving on to the neighbouring page at either end.
+ */
+export const HitNavigator: React.FC<HitNavigatorProps> = ({ activeHit, hitCount, isFirstPage, isLastPage, onStep }) => (
+  <div className="flex items-center text-sm text-slate-600 bg-white rounded-lg border border-slate-200 shadow-sm whitespace-nowrap">
+    <button
+      onClick={() => onStep(-1)}
+      disabled={isFirstPage && (activeHit === null || activeHit === 0)}
+      className="px-2 py-1.5 hover:bg-slate-50 rounded-l-lg disabled:opacity-40 disabled:cursor-not-allowed"
+      title="Previous hit"
+    >
+      <ChevronUp size={16} />
+    </button>
+    <span className="px-1 text-xs tabular-nums" title="Hits on this page">
+      {activeHit === null ? '–' : activeHit + 1} of {hitCount}
+    </span>
+    <button
+      onClick={() => onStep(1)}
+      disabled={isLastPage && (activeHit === null ? hitCount === 0 : activeHit >= hitCount - 1)}
+      className="px-2 py-1.5 hover:bg-slate-50 rounded-r-lg disabled:opacity-40 disabled:cursor-not-allowed"
+      title="Next hit"
+    >
+      <ChevronDown size={16} />
+    </button>
+  </div>
+);
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+
+export interface IngestStatus {
+  bytesProcessed: number;
+  totalBytes: number;
+  tuCount: number;
+  done: boolean;
+  fileName?: string; // file currently being read, when several are queued
+}
+
+interface IngestProgressProps {
+  status: IngestStatus;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const IngestProgress: React.FC<IngestProgressProps> = ({ status }) => {
+  const percent = status.totalBytes > 0 ? Math.round((status.bytesProcessed / status.totalBytes) * 100) : 0;
+
+  return (
+    <div className="bg-white border border-blue-100 rounded-lg shadow-sm px-4 py-3 mb-6">
+      <div className="flex items-center justify-between text-xs text-slate-600 mb-2">
+        <span className="flex items-center gap-2 font-medium">
+          <Loader2 size={14} className="text-blue-600 animate-spin" />
+          {status.fileName ? `Loading ${status.fileName}…` : 'Loading translation memory…'} {status.tuCount.toLocaleString()} units so far
+        </span>
+        <span className="font-mono text-slate-400">
+          {formatBytes(status.bytesProcessed)} / {formatBytes(status.totalBytes)} ({percent}%)
+        </span>
+      </div>
+      <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Languages, ArrowLeftRight } from 'lucide-react';
+import { LanguageView } from '../types';
+
+interface LanguagePickerProps {
+  languages: string[];
+  view: LanguageView;
+  onChange: (view: LanguageView) => void;
+}
+
+const describe = (view: LanguageView) => {
+  if (view.source === null && view.targets.length === 0) return 'All languages';
+  const source = view.source ?? 'Source';
+  const targets = view.targets.length === 0 ? 'all' : view.targets.length === 1 ? view.targets[0] : `${view.targets.length} languages`;
+  return `${source} → ${targets}`;
+};
+
+/**
+ * Toolbar control for the language view: which language fills the source column (any
+ * of them can pivot into it), which targets are shown, and whether units lacking them
+ * are hidden.
+ */
+export const LanguagePicker: React.FC<LanguagePickerProps> = ({ languages, view, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const isDefault = view.source === null && view.targets.length === 0;
+
+  const toggleTarget = (lang: string) =>
+    onChange({ ...view, targets: view.targets.includes(lang) ? view.targets.filter(l => l !== lang) : [...view.targets, lang] });
+
+  const swap = () => onChange({ ...view, source: view.targets[0], targets: [view.source!] });
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`px-3 py-1.5 rounded-lg border flex items-center gap-2 text-sm font-medium shadow-sm whitespace-nowrap transition-colors
+          ${isDefault
+            ? 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'
+            : 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200'}`}
+        title="Choose the source and target languages to show"
+      >
+        <Languages size={16} />
+        <span className="max-w-[160px] truncate">{describe(view)}</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 z-20 w-72 bg-white border border-slate-200 rounded-lg shadow-lg p-3 space-y-3 text-sm">
+          <div className="space-y-1">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Source column</span>
+            <div className="flex items-center gap-2">
+              <select
+                value={view.source ?? ''}
+                onChange={(e) => {
+                  const source = e.target.value || null;
+                  onChange({ ...view, source, targets: view.targets.filter(l => l !== source) });
+                }}
+                className="flex-1 border border-slate-200 rounded-lg px-2 py-1.5 bg-white font-mono text-xs"
+              >
+                <option value="">Each unit's srclang</option>
+                {languages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+              </select>
+              <button
+                onClick={swap}
+                disabled={view.source === null || view.targets.length !== 1}
+                className="p-1.5 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50 disabled:opacity-40 disabled:cursor-not-allowed"
+                title="Swap source and target"
+              >
+                <ArrowLeftRight size={14} />
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Target columns</span>
+              {view.targets.length > 0 && (
+                <button onClick={() => onChange({ ...view, targets: [] })} className="text-xs text-blue-600 hover:text-blue-800">All</button>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+              {languages.filter(lang => lang !== view.source).map(lang => (
+                <button
+                  key={lang}
+                  onClick={() => toggleTarget(lang)}
+                  className={`px-2 py-0.5 rounded border text-[11px] font-bold uppercase
+                    ${view.targets.includes(lang) ? 'bg-green-100 text-green-800 border-green-300' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                >
+                  {lang}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-slate-400">Shown in the order picked; none picked shows every language.</p>
+          </div>
+
+          <label className="flex items-center gap-2 text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={view.hideMissing} onChange={(e) => onChange({ ...view, hideMissing: e.target.checked })} />
+            Hide units missing these languages
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
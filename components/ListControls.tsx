@@ -0,0 +1,79 @@
+import React from 'react';
+import { AlignJustify, Check, Link2, LocateFixed, ScrollText } from 'lucide-react';
+import { Density, ListLayout } from '../types';
+
+interface ListControlsProps {
+  layout: ListLayout;
+  density: Density;
+  jumpInput: string;
+  jumpMissed: boolean; // the last jump found no such position or tuid
+  linkCopied: boolean;
+  onLayoutChange: (layout: ListLayout) => void;
+  onDensityChange: (density: Density) => void;
+  onJumpInputChange: (value: string) => void;
+  onJump: () => void;
+  onCopyLink: () => void;
+}
+
+/**
+ * Toolbar controls for how the unit list is shown: pages or one continuous list, full cards
+ * or one line per unit, a box to jump to a position or tuid, and copying a link to the view.
+ */
+export const ListControls: React.FC<ListControlsProps> = ({
+  layout,
+  density,
+  jumpInput,
+  jumpMissed,
+  linkCopied,
+  onLayoutChange,
+  onDensityChange,
+  onJumpInputChange,
+  onJump,
+  onCopyLink
+}) => (
+  <div className="flex items-center gap-1">
+    <button
+      onClick={() => onLayoutChange(layout === 'pages' ? 'scroll' : 'pages')}
+      className={`p-2 rounded-lg border shadow-sm transition-colors
+        ${layout === 'scroll'
+          ? 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200'
+          : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+      title={layout === 'scroll' ? 'Back to pages' : 'One continuous list instead of pages'}
+    >
+      <ScrollText size={16} />
+    </button>
+    <button
+      onClick={() => onDensityChange(density === 'compact' ? 'comfortable' : 'compact')}
+      className={`p-2 rounded-lg border shadow-sm transition-colors
+        ${density === 'compact'
+          ? 'bg-blue-100 text-blue-700 border-blue-200 hover:bg-blue-200'
+          : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}`}
+      title={density === 'compact' ? 'Full cards' : 'One line per unit'}
+    >
+      <AlignJustify size={16} />
+    </button>
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onJump();
+      }}
+      className={`flex items-center gap-1.5 px-2 py-1.5 rounded-lg border bg-white shadow-sm ${jumpMissed ? 'border-red-300' : 'border-slate-200'}`}
+      title="Go to a position (#120) or a tuid; j/k and Page Up/Down move through the list"
+    >
+      <LocateFixed size={14} className={jumpMissed ? 'text-red-500' : 'text-slate-400'} />
+      <input
+        value={jumpInput}
+        onChange={(e) => onJumpInputChange(e.target.value)}
+        placeholder="#pos or tuid"
+        className="w-24 text-sm bg-transparent focus:outline-none"
+      />
+    </form>
+    <button
+      onClick={onCopyLink}
+      className="p-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-50 shadow-sm"
+      title="Copy a link to this view and the focused unit; it opens with the same file"
+    >
+      {linkCopied ? <Check size={16} className="text-green-600" /> : <Link2 size={16} />}
+    </button>
+  </div>
+);
@@ -0,0 +1,41 @@
+import React from 'react';
+import { AlertOctagon, AlertTriangle, Info } from 'lucide-react';
+import { QaIssue, QaSeverity } from '../types';
+import { QA_CHECKS } from '../services/qaChecks';
+
+export const QA_SEVERITY_STYLES: Record<QaSeverity, string> = {
+  error: 'bg-red-50 text-red-700 border-red-200',
+  warning: 'bg-amber-50 text-amber-800 border-amber-200',
+  info: 'bg-sky-50 text-sky-700 border-sky-200'
+};
+
+const SEVERITY_ICONS: Record<QaSeverity, React.ElementType> = {
+  error: AlertOctagon,
+  warning: AlertTriangle,
+  info: Info
+};
+
+/** One badge per failed check; the individual messages show on hover. */
+export const QaBadges: React.FC<{ issues: QaIssue[] }> = ({ issues }) => {
+  const byCheck = new Map<string, QaIssue[]>();
+  issues.forEach(issue => byCheck.set(issue.check, [...(byCheck.get(issue.check) || []), issue]));
+
+  return (
+    <>
+      {[...byCheck.values()].map(found => {
+        const { check, severity } = found[0];
+        const Icon = SEVERITY_ICONS[severity];
+        return (
+          <span
+            key={check}
+            className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[11px] font-semibold ${QA_SEVERITY_STYLES[severity]}`}
+            title={found.map(issue => issue.message).join('\n')}
+          >
+            <Icon size={10} />
+            {QA_CHECKS[check].label}
+          </span>
+        );
+      })}
+    </>
+  );
+};
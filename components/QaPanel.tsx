@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { ShieldCheck, X, Loader2, Play, Locate, FileSpreadsheet } from 'lucide-react';
+import { QaCheckId, QaConfig } from '../types';
+import { QaResult } from '../services/workerProtocol';
+import { QA_CHECKS, QA_CHECK_IDS } from '../services/qaChecks';
+import { QA_SEVERITY_STYLES } from './QaBadge';
+
+interface QaPanelProps {
+  config: QaConfig;
+  result: QaResult | null;
+  isRunning: boolean;
+  activeFilter: QaCheckId[] | null;
+  onRun: (config: QaConfig) => void;
+  onFilter: (checks: QaCheckId[]) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+/**
+ * QA settings and findings: choose the checks, run them over the whole memory, then
+ * filter the main list by check or download the findings as CSV.
+ */
+export const QaPanel: React.FC<QaPanelProps> = ({
+  config,
+  result,
+  isRunning,
+  activeFilter,
+  onRun,
+  onFilter,
+  onExport,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<QaConfig>(config);
+
+  const toggleCheck = (check: QaCheckId) => {
+    setDraft(d => ({
+      ...d,
+      checks: d.checks.includes(check) ? d.checks.filter(c => c !== check) : QA_CHECK_IDS.filter(c => c === check || d.checks.includes(c))
+    }));
+  };
+
+  const ratioInput = (value: number, onChange: (value: number) => void) => (
+    <input
+      type="number"
+      min={0}
+      step={0.1}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-16 border border-slate-200 rounded px-1.5 py-0.5 text-xs font-mono"
+    />
+  );
+
+  // Counts belong to the config the last run used; edits only apply once run again
+  const flaggedChecks = result ? QA_CHECK_IDS.filter(check => result.counts[check] > 0) : [];
+  const ratiosValid = draft.minLengthRatio >= 0 && draft.maxLengthRatio > draft.minLengthRatio;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh]">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <ShieldCheck size={18} /> QA Checks
+            {result && (
+              <span className="font-normal text-sm text-slate-400">{result.affectedUnits.toLocaleString()} units flagged</span>
+            )}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 flex-1 overflow-auto">
+          <table className="w-full text-sm">
+            <tbody>
+              {QA_CHECK_IDS.map(check => {
+                const info = QA_CHECKS[check];
+                const count = result?.counts[check] ?? 0;
+                const isFiltered = activeFilter?.length === 1 && activeFilter[0] === check;
+                return (
+                  <tr key={check} className="border-b border-slate-100 last:border-0">
+                    <td className="py-2 pr-2 w-6">
+                      <input type="checkbox" checked={draft.checks.includes(check)} onChange={() => toggleCheck(check)} />
+                    </td>
+                    <td className="py-2 pr-2">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-700">{info.label}</span>
+                        <span className={`px-1.5 rounded border text-[10px] font-bold uppercase ${QA_SEVERITY_STYLES[info.severity]}`}>
+                          {info.severity}
+                        </span>
+                      </div>
+                      <div className="text-xs text-slate-400">{info.description}</div>
+                      {check === 'length_ratio' && (
+                        <div className="flex items-center gap-2 mt-1 text-xs text-slate-500">
+                          Allowed target/source ratio
+                          {ratioInput(draft.minLengthRatio, value => setDraft(d => ({ ...d, minLengthRatio: value })))}
+                          to
+                          {ratioInput(draft.maxLengthRatio, value => setDraft(d => ({ ...d, maxLengthRatio: value })))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="py-2 text-right whitespace-nowrap">
+                      {result && (
+                        <button
+                          onClick={() => onFilter([check])}
+                          disabled={count === 0}
+                          className={`px-2 py-1 rounded border text-xs flex items-center gap-1 ml-auto disabled:opacity-40 disabled:cursor-not-allowed
+                            ${isFiltered ? 'bg-blue-100 text-blue-700 border-blue-200' : 'bg-white text-slate-600 border-slate-200 hover:bg-blue-50 hover:border-blue-200'}`}
+                          title="Show the units flagged by this check"
+                        >
+                          <Locate size={12} />
+                          <span className="font-mono">{count.toLocaleString()}</span>
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 bg-slate-50 border-t border-slate-100 flex justify-between items-center gap-3 rounded-b-xl">
+          <div className="flex gap-2">
+            <button
+              onClick={onExport}
+              disabled={!result || result.affectedUnits === 0}
+              className="px-3 py-2 text-sm text-slate-600 border border-slate-200 bg-white hover:bg-slate-100 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FileSpreadsheet size={16} /> Export Report (CSV)
+            </button>
+            <button
+              onClick={() => onFilter(flaggedChecks)}
+              disabled={flaggedChecks.length === 0}
+              className="px-3 py-2 text-sm text-slate-600 border border-slate-200 bg-white hover:bg-slate-100 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Locate size={16} /> Show All Flagged
+            </button>
+          </div>
+          <button
+            onClick={() => onRun(draft)}
+            disabled={isRunning || draft.checks.length === 0 || !ratiosValid}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isRunning ? <Loader2 size={16} className="animate-spin" /> : <Play size={16} />}
+            {result ? 'Run Again' : 'Run Checks'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ArrowLeft, FileText, History, Trash2 } from 'lucide-react';
+import { RecentFile, SavedSession } from '../types';
+
+interface RecentFilesProps {
+  recentFiles: RecentFile[];
+  resumable: SavedSession | null; // the last session, when its files are still kept
+  error: string | null;
+  rememberFiles: boolean;
+  onOpen: (fingerprints: string[]) => void;
+  onForget: (fingerprint: string) => void;
+  onForgetAll: () => void;
+  onRememberChange: (remember: boolean) => void;
+}
+
+/**
+ * Landing page box listing the files kept in this browser, with the switch that turns keeping them on.
+ */
+export const RecentFiles: React.FC<RecentFilesProps> = ({
+  recentFiles,
+  resumable,
+  error,
+  rememberFiles,
+  onOpen,
+  onForget,
+  onForgetAll,
+  onRememberChange
+}) => (
+  <div className="bg-white border border-slate-200 rounded-xl text-left">
+    {(recentFiles.length > 0 || resumable) && (
+      <div className="p-3 border-b border-slate-100 flex items-center justify-between">
+        <h2 className="text-xs font-bold text-slate-400 uppercase tracking-wide flex items-center gap-1.5">
+          <History size={14} /> Recent Files
+        </h2>
+        <button onClick={onForgetAll} className="text-xs text-slate-400 hover:text-red-600">
+          Forget all
+        </button>
+      </div>
+    )}
+    {resumable && (
+      <button
+        onClick={() => onOpen(resumable.files.map(f => f.fingerprint))}
+        className="w-full px-3 py-2 flex items-center gap-2 text-sm text-blue-700 hover:bg-blue-50 border-b border-slate-100"
+        title="Reopen these files with the filters and position you left them at"
+      >
+        <ArrowLeft size={14} className="rotate-180 shrink-0" />
+        <span className="font-semibold shrink-0">Resume last session</span>
+        <span className="truncate text-slate-500">{resumable.files.map(f => f.name).join(', ')}</span>
+      </button>
+    )}
+    {recentFiles.length > 0 && (
+      <ul className="divide-y divide-slate-100">
+        {recentFiles.map(recent => (
+          <li key={recent.fingerprint} className="flex items-center group/recent hover:bg-slate-50">
+            <button onClick={() => onOpen([recent.fingerprint])} className="flex-1 min-w-0 px-3 py-2 flex items-center gap-3 text-left">
+              <FileText size={16} className="text-slate-400 shrink-0" />
+              <span className="min-w-0">
+                <span className="block truncate text-sm font-medium text-slate-700">{recent.name}</span>
+                <span className="block truncate text-xs text-slate-400">
+                  {recent.label} · {recent.tuCount.toLocaleString()} units · {recent.languages.join(', ')} · {new Date(recent.openedAt).toLocaleDateString()}
+                </span>
+              </span>
+            </button>
+            <button
+              onClick={() => onForget(recent.fingerprint)}
+              className="px-3 text-slate-300 hover:text-red-600 opacity-0 group-hover/recent:opacity-100"
+              title="Forget this file"
+            >
+              <Trash2 size={14} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+    {error && <p className="px-3 py-2 text-xs text-red-600 border-t border-slate-100">{error}</p>}
+    <label className="px-3 py-2 flex items-center gap-2 text-xs text-slate-500 border-t border-slate-100 first:border-t-0">
+      <input type="checkbox" checked={rememberFiles} onChange={(e) => onRememberChange(e.target.checked)} />
+      Keep opened files and where I left them in this browser, for faster reopening. Nothing is uploaded.
+    </label>
+  </div>
+);
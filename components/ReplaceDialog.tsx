@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { Replace, X, Loader2, Eye, ChevronLeft, ChevronRight, Hash, AlertCircle } from 'lucide-react';
+import { ReplaceField, ReplaceOptions } from '../types';
+import { ReplacePageResult, ReplaceResult } from '../services/workerProtocol';
+import { compilePattern } from '../services/findReplace';
+import { InlineDiff } from './DiffTuCard';
+
+interface ReplaceDialogProps {
+  languages: string[];
+  sourceLang: string;
+  /** Size of the current result set, when a search or filter is active. */
+  filteredCount: number | null;
+  preview: (options: ReplaceOptions, inResults: boolean) => Promise<ReplaceResult>;
+  loadPage: (previewId: number, offset: number, limit: number) => Promise<ReplacePageResult>;
+  apply: (previewId: number) => Promise<void>;
+  onClose: () => void;
+}
+
+const PAGE_SIZE = 10;
+
+const FIELD_OPTIONS: { value: ReplaceField; label: string }[] = [
+  { value: 'target', label: 'Target segments' },
+  { value: 'source', label: 'Source segments' },
+  { value: 'prop', label: 'Prop values' }
+];
+
+const FLAG_OPTIONS: { key: 'regex' | 'unicode' | 'matchCase' | 'wholeWord' | 'preserveCase'; label: string; hint: string }[] = [
+  { key: 'regex', label: 'Regular expression', hint: 'Use $1 or $<name> in the replacement for groups' },
+  { key: 'unicode', label: 'Unicode', hint: 'Compile with the u flag for \\p{…} escapes; \\- and \\_ and classes such as [\\w-.] are errors then' },
+  { key: 'matchCase', label: 'Match case', hint: 'Only matches with the same capitalization' },
+  { key: 'wholeWord', label: 'Whole words', hint: 'Skip matches inside longer words' },
+  { key: 'preserveCase', label: 'Preserve case', hint: 'Acme → Nova, ACME → NOVA, acme → nova' }
+];
+
+/**
+ * Bulk find and replace: pick what to change, review every affected unit as a
+ * before/after diff, then apply it all as one undoable edit.
+ */
+export const ReplaceDialog: React.FC<ReplaceDialogProps> = ({
+  languages,
+  sourceLang,
+  filteredCount,
+  preview,
+  loadPage,
+  apply,
+  onClose
+}) => {
+  const [options, setOptions] = useState<ReplaceOptions>({
+    find: '',
+    replace: '',
+    field: 'target',
+    languages: [],
+    propType: '',
+    regex: false,
+    unicode: false,
+    matchCase: false,
+    wholeWord: false,
+    preserveCase: true
+  });
+  const [inResults, setInResults] = useState(filteredCount !== null);
+  const [result, setResult] = useState<ReplaceResult | null>(null);
+  const [page, setPage] = useState<ReplacePageResult | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Any change to the options makes the preview stale
+  const update = (changes: Partial<ReplaceOptions>) => {
+    setOptions(o => ({ ...o, ...changes }));
+    setResult(null);
+    setPage(null);
+  };
+
+  let patternError: string | null = null;
+  if (options.find) {
+    try {
+      compilePattern(options);
+    } catch (err) {
+      patternError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  useEffect(() => {
+    if (!result) return;
+    let stale = false;
+    loadPage(result.previewId, offset, PAGE_SIZE)
+      .then(data => {
+        if (!stale) setPage(data);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      stale = true;
+    };
+  }, [result, offset]);
+
+  const runPreview = () => {
+    setIsBusy(true);
+    setError(null);
+    preview(options, inResults && filteredCount !== null)
+      .then(data => {
+        setResult(data);
+        setOffset(0);
+      })
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsBusy(false));
+  };
+
+  const runApply = () => {
+    if (!result) return;
+    setIsBusy(true);
+    setError(null);
+    apply(result.previewId)
+      .then(onClose)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsBusy(false));
+  };
+
+  const toggleLanguage = (lang: string) =>
+    update({ languages: options.languages.includes(lang) ? options.languages.filter(l => l !== lang) : [...options.languages, lang] });
+
+  const fieldLanguages = options.field === 'target' ? languages.filter(lang => lang !== sourceLang) : [];
+  const inputClass = 'w-full border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none';
+  const totalPages = result ? Math.ceil(result.affectedUnits / PAGE_SIZE) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4">
+      <div className="bg-slate-50 rounded-xl shadow-xl w-full max-w-5xl flex flex-col max-h-[90vh]">
+        <div className="p-4 bg-white border-b border-slate-100 flex justify-between items-center rounded-t-xl">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Replace size={18} /> Find and Replace
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 bg-white border-b border-slate-100 space-y-3 text-sm">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input value={options.find} onChange={(e) => update({ find: e.target.value })} className={inputClass} placeholder="Find" />
+            <input value={options.replace} onChange={(e) => update({ replace: e.target.value })} className={inputClass} placeholder="Replace with" />
+          </div>
+          {patternError && (
+            <div className="flex items-center gap-1.5 text-xs text-red-600">
+              <AlertCircle size={12} /> {patternError}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-x-4 gap-y-2 text-slate-600">
+            {FLAG_OPTIONS.filter(flag => flag.key !== 'unicode' || options.regex).map(flag => (
+              <label key={flag.key} className="flex items-center gap-1.5 cursor-pointer" title={flag.hint}>
+                <input type="checkbox" checked={options[flag.key]} onChange={(e) => update({ [flag.key]: e.target.checked })} />
+                {flag.label}
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-slate-600">
+            <select
+              value={options.field}
+              onChange={(e) => update({ field: e.target.value as ReplaceField, languages: [] })}
+              className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+            >
+              {FIELD_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+            {options.field === 'prop' && (
+              <input
+                value={options.propType}
+                onChange={(e) => update({ propType: e.target.value })}
+                className="border border-slate-200 rounded-lg px-2 py-1.5 font-mono text-xs"
+                placeholder="prop type (all if empty)"
+              />
+            )}
+            {fieldLanguages.length > 1 && (
+              <div className="flex flex-wrap items-center gap-1.5">
+                {fieldLanguages.map(lang => (
+                  <button
+                    key={lang}
+                    onClick={() => toggleLanguage(lang)}
+                    className={`px-2 py-0.5 rounded border text-[11px] font-bold uppercase
+                      ${options.languages.includes(lang) ? 'bg-green-100 text-green-800 border-green-300' : 'bg-white text-slate-500 border-slate-200 hover:bg-slate-50'}`}
+                    title="Limit to the selected languages; all when none is selected"
+                  >
+                    {lang}
+                  </button>
+                ))}
+              </div>
+            )}
+            {filteredCount !== null && (
+              <label className="flex items-center gap-1.5 cursor-pointer ml-auto">
+                <input
+                  type="checkbox"
+                  checked={inResults}
+                  onChange={(e) => {
+                    setInResults(e.target.checked);
+                    setResult(null);
+                    setPage(null);
+                  }}
+                />
+                Only the {filteredCount.toLocaleString()} units in the current results
+              </label>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 flex-1 overflow-auto space-y-3">
+          {error ? (
+            <div className="text-center py-10 text-red-600 text-sm">{error}</div>
+          ) : !result ? (
+            <div className="text-center py-10 text-slate-400 text-sm">Preview the replacement to review every unit it changes.</div>
+          ) : result.affectedUnits === 0 ? (
+            <div className="text-center py-10 text-slate-400 text-sm">Nothing matches.</div>
+          ) : (
+            page?.entries.map(entry => (
+              <div key={`${entry.tu.origin}-${entry.tu.id}`} className="bg-white border border-slate-200 rounded-lg p-3 space-y-2 text-sm">
+                <div className="flex items-center gap-1.5 text-xs font-mono text-slate-500">
+                  <Hash size={10} /> {entry.tu.id}
+                </div>
+                {entry.changes.map((change, idx) => (
+                  <div key={idx} className="flex items-start gap-3">
+                    <span className="shrink-0 px-2 py-0.5 rounded text-[11px] font-bold tracking-wide uppercase bg-slate-100 text-slate-600 border border-slate-200">
+                      {change.label}
+                    </span>
+                    <p className="text-slate-700 whitespace-pre-wrap">
+                      <InlineDiff before={change.before} after={change.after} />
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="p-4 bg-white border-t border-slate-100 flex flex-wrap justify-between items-center gap-3 rounded-b-xl text-sm">
+          <div className="flex items-center gap-3 text-slate-600">
+            {result && result.affectedUnits > 0 && (
+              <>
+                <span>
+                  {result.replacements.toLocaleString()} replacements in {result.affectedUnits.toLocaleString()} units
+                </span>
+                {totalPages > 1 && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => setOffset(o => Math.max(0, o - PAGE_SIZE))}
+                      disabled={offset === 0}
+                      className="p-1 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+                    >
+                      <ChevronLeft size={14} />
+                    </button>
+                    <span className="text-xs">{offset / PAGE_SIZE + 1} / {totalPages}</span>
+                    <button
+                      onClick={() => setOffset(o => o + PAGE_SIZE)}
+                      disabled={offset / PAGE_SIZE + 1 >= totalPages}
+                      className="p-1 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-40"
+                    >
+                      <ChevronRight size={14} />
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={runPreview}
+              disabled={isBusy || !options.find || patternError !== null}
+              className="px-4 py-2 text-slate-600 border border-slate-200 bg-white hover:bg-slate-100 rounded-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBusy && !result ? <Loader2 size={16} className="animate-spin" /> : <Eye size={16} />}
+              Preview
+            </button>
+            <button
+              onClick={runApply}
+              disabled={isBusy || !result || result.affectedUnits === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isBusy && result ? <Loader2 size={16} className="animate-spin" /> : <Replace size={16} />}
+              {result && result.affectedUnits > 0 ? `Replace in ${result.affectedUnits.toLocaleString()} Units` : 'Replace All'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
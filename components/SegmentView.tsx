@@ -0,0 +1,101 @@
+import React from 'react';
+import { SegmentPart, SegmentInlineTag, HitRange } from '../types';
+import { getTagCode } from '../services/inlineMarkup';
+
+interface SegmentViewProps {
+  parts: SegmentPart[];
+  highlights?: HitRange[]; // offsets into the segment's plain text (text runs and <hi> content)
+}
+
+/**
+ * Short label for an inline tag chip, modelled on how CAT tools number tags:
+ * paired tags show their `i` index, placeholders their `x` index.
+ */
+const tagLabel = (tag: SegmentInlineTag): string => {
+  const { i, x, pos } = tag.attributes;
+  switch (tag.name) {
+    case 'bpt':
+      return `<${i ?? x ?? ''}>`;
+    case 'ept':
+      return `</${i ?? ''}>`;
+    case 'it':
+      return pos === 'end' ? `</${x ?? 'it'}>` : `<${x ?? 'it'}>`;
+    case 'ph':
+      return `<${x ?? 'ph'}/>`;
+    default:
+      return `<${tag.name}>`;
+  }
+};
+
+const tagTitle = (tag: SegmentInlineTag): string => {
+  const details = Object.entries(tag.attributes).map(([k, v]) => `${k}="${v}"`).join(' ');
+  const code = getTagCode(tag);
+  return `${tag.name}${details ? ` ${details}` : ''}${code ? `\n${code}` : ''}`;
+};
+
+const TagChip: React.FC<{ tag: SegmentInlineTag }> = ({ tag }) => (
+  <span
+    className="inline-flex items-center align-baseline mx-0.5 px-1 rounded border border-purple-200 bg-purple-50 text-purple-700 font-mono text-[11px] leading-4 cursor-help select-none"
+    title={tagTitle(tag)}
+  >
+    {tagLabel(tag)}
+  </span>
+);
+
+/** Splits a text run at the hits overlapping it; `offset` is where the run starts in the plain text. */
+const renderText = (text: string, offset: number, highlights: HitRange[], key: string): React.ReactNode => {
+  const pieces: React.ReactNode[] = [];
+  let pos = 0;
+  highlights.forEach((hit, hitIdx) => {
+    const start = Math.max(hit.start - offset, pos);
+    const end = Math.min(hit.end - offset, text.length);
+    if (end <= start) return;
+    if (start > pos) pieces.push(text.slice(pos, start));
+    // Pieces of one hit split by a tag share their data-hit value
+    pieces.push(
+      <mark key={`${key}-${start}`} data-hit={hitIdx} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(start, end)}
+      </mark>
+    );
+    pos = end;
+  });
+  if (pieces.length === 0) return <React.Fragment key={key}>{text}</React.Fragment>;
+  if (pos < text.length) pieces.push(text.slice(pos));
+  return <React.Fragment key={key}>{pieces}</React.Fragment>;
+};
+
+const renderParts = (
+  parts: SegmentPart[],
+  keyPrefix: string,
+  highlights: HitRange[],
+  cursor: { offset: number }
+): React.ReactNode[] => {
+  return parts.map((part, idx) => {
+    const key = `${keyPrefix}${idx}`;
+    if (part.kind === 'text') {
+      const node = renderText(part.text, cursor.offset, highlights, key);
+      cursor.offset += part.text.length;
+      return node;
+    }
+    if (part.name === 'hi') {
+      return (
+        <span
+          key={key}
+          className="underline decoration-dotted decoration-purple-400 underline-offset-2"
+          title={part.attributes.type ? `hi type="${part.attributes.type}"` : 'hi'}
+        >
+          {renderParts(part.content, `${key}-`, highlights, cursor)}
+        </span>
+      );
+    }
+    return <TagChip key={key} tag={part} />;
+  });
+};
+
+/**
+ * Renders a segment's text runs with its inline tags as compact chips. Highlights
+ * address the plain text, so a hit that spans a tag is marked on both sides of it.
+ */
+export const SegmentView: React.FC<SegmentViewProps> = ({ parts, highlights }) => {
+  return <>{renderParts(parts, '', highlights || [], { offset: 0 })}</>;
+};
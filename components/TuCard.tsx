@@ -1,36 +1,59 @@
 import React, { useState } from 'react';
-import { NormalizedTu } from '../types';
-import { Clock, User, Hash, Tag, Calendar, Layers, Copy, Check } from 'lucide-react';
+import { NormalizedTu, TuVariant, QaIssue, HitRange, TuEdit, LanguageView } from '../types';
+import { Clock, User, Hash, Tag, Calendar, Layers, Copy, Check, FileText, Pencil } from 'lucide-react';
+import { SegmentView } from './SegmentView';
+import { QaBadges } from './QaBadge';
+import { TuEditor } from './TuEditor';
+import { arrangeVariants, DEFAULT_LANGUAGE_VIEW } from '../services/languageView';
+import { formatDateTime, formatRelativeTime, parseTmxDate } from '../services/tmxDates';
 
 interface TuCardProps {
   tu: NormalizedTu;
-  highlightText?: string; // Currently unused but good for future ext
+  hits?: HitRange[][]; // search hits per variant, parallel to tu.variants
   searchMode?: string;
   searchQuery?: string;
+  originName?: string; // label of the unit's source file, given when several files are loaded
+  languageView?: LanguageView; // which languages go in the source and target columns
+  qaIssues?: QaIssue[]; // findings of the latest QA run, shown next to the target they concern
+  score?: number; // relevance relative to the best hit of a ranked search (0-1)
+  modified?: boolean; // edited in this session
+  onEdit?: (edit: TuEdit) => Promise<void>; // enables the edit form
+  editUser?: string;
+  onEditUserChange?: (user: string) => void;
+  selected?: boolean;
+  onSelect?: (range: boolean) => void; // range: extend from the last selected unit (shift-click)
+  focused?: boolean; // where keyboard navigation currently is
 }
 
-const formatDate = (dateStr?: string) => {
-  if (!dateStr) return null;
-  try {
-    const year = dateStr.substring(0, 4);
-    const month = dateStr.substring(4, 6);
-    const day = dateStr.substring(6, 8);
-    const time = dateStr.substring(9, 15);
-    const formattedTime = time.length >= 6 
-      ? `${time.substring(0,2)}:${time.substring(2,4)}:${time.substring(4,6)}` 
-      : time;
-    return `${year}-${month}-${day} ${formattedTime}`;
-  } catch (e) {
-    return dateStr;
-  }
+/** A TMX date as a relative time, with the full local date and the value as written on hover. */
+const DateText: React.FC<{ value: string; className?: string }> = ({ value, className }) => {
+  const time = parseTmxDate(value);
+  if (time === null) return <span className={`font-mono ${className || ''}`} title="Not a date this app can read">{value}</span>;
+  return <span className={className} title={`${formatDateTime(time)} (${value})`}>{formatRelativeTime(time)}</span>;
 };
 
-export const TuCard: React.FC<TuCardProps> = ({ tu, searchMode, searchQuery }) => {
-  const sourceVariant = tu.variants.find(v => v.lang === tu.srcLang) || tu.variants[0];
-  const targetVariants = tu.variants.filter(v => v !== sourceVariant);
+/** Dates a variant carries itself, where they differ from the unit's. */
+const VariantDates: React.FC<{ variant: TuVariant; tu: NormalizedTu }> = ({ variant, tu }) => {
+  const { creationdate, changedate } = variant.attributes;
+  const created = creationdate && creationdate !== tu.metadata.creationDate ? creationdate : undefined;
+  const changed = changedate && changedate !== tu.metadata.changeDate ? changedate : undefined;
+  if (!created && !changed) return null;
+  return (
+    <span className="flex items-center gap-2 text-[11px] text-slate-400">
+      <Clock size={10} />
+      {created && <span>created <DateText value={created} /></span>}
+      {changed && <span>changed <DateText value={changed} /></span>}
+    </span>
+  );
+};
+
+export const TuCard: React.FC<TuCardProps> = ({ tu, searchMode, searchQuery, originName, qaIssues, score, hits, modified, onEdit, editUser = '', onEditUserChange, selected, onSelect, focused, languageView = DEFAULT_LANGUAGE_VIEW }) => {
+  const { source: sourceVariant, targets: targetVariants, hidden: hiddenCount } = arrangeVariants(tu, languageView);
+  const hitsOf = (variant: TuVariant) => hits?.[tu.variants.indexOf(variant)];
   const hasProps = Object.keys(tu.props).length > 0;
   
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
 
   const handleCopy = (text: string, key: string) => {
     navigator.clipboard.writeText(text);
@@ -40,42 +63,90 @@ export const TuCard: React.FC<TuCardProps> = ({ tu, searchMode, searchQuery }) =
 
   const isSegmentIdMatch = (key: string, val: string) => {
     if (key !== 'x-segment-id' || !searchQuery) return false;
-    if (searchMode === 'id_partial' || searchMode === 'text') return val.toLowerCase().includes(searchQuery.toLowerCase());
+    if (searchMode === 'id_partial' || searchMode === 'text' || searchMode === 'substring') return val.toLowerCase().includes(searchQuery.toLowerCase());
     if (searchMode === 'id_prefix') return val.toLowerCase().startsWith(searchQuery.toLowerCase());
     return false;
   };
 
   return (
-    <div className="bg-white border border-slate-200 rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200 overflow-hidden mb-4 flex flex-col">
+    <div className={`bg-white border rounded-lg shadow-sm hover:shadow-md transition-shadow duration-200 overflow-hidden mb-4 flex flex-col
+      ${selected ? 'border-blue-400 ring-1 ring-blue-400' : 'border-slate-200'} ${focused ? 'outline outline-2 outline-offset-2 outline-blue-300' : ''}`}>
       {/* Top Bar: ID and Change Date */}
       <div className="bg-slate-50/80 px-4 py-2 flex items-center justify-between border-b border-slate-100 text-xs">
         <div className="flex items-center gap-3">
+           {onSelect && (
+             <input
+               type="checkbox"
+               checked={!!selected}
+               readOnly
+               onClick={(e) => onSelect(e.shiftKey)}
+               className="cursor-pointer"
+               title="Select (Shift+click selects a range)"
+             />
+           )}
            <div className="flex items-center gap-1.5 px-2 py-0.5 bg-white border border-slate-200 rounded font-mono text-slate-500 shadow-sm">
               <Hash size={10} />
               <span>{tu.id}</span>
            </div>
+           {originName && (
+             <div className="flex items-center gap-1.5 text-slate-400 truncate max-w-[240px]" title={originName}>
+                <FileText size={12} />
+                <span className="truncate">{originName}</span>
+             </div>
+           )}
+           {modified && (
+             <span className="px-1.5 py-0.5 rounded border border-amber-200 bg-amber-50 text-amber-700 font-bold uppercase text-[10px]" title="Changed in this session">
+               Edited
+             </span>
+           )}
         </div>
         <div className="flex items-center gap-4 text-slate-400">
+          {score !== undefined && (
+            <div className="flex items-center gap-1.5" title="Relevance compared to the best match">
+              <div className="w-12 h-1.5 rounded-full bg-slate-200 overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${Math.round(score * 100)}%` }} />
+              </div>
+              <span className="font-mono">{Math.round(score * 100)}%</span>
+            </div>
+          )}
           {tu.metadata.changeDate && (
-            <div className="flex items-center gap-1.5" title="Last Changed">
+            <div className="flex items-center gap-1.5">
               <Clock size={12} />
-              <span className="font-mono">{formatDate(tu.metadata.changeDate)}</span>
+              <span>Changed <DateText value={tu.metadata.changeDate} /></span>
             </div>
           )}
+          {onEdit && !isEditing && (
+            <button onClick={() => setIsEditing(true)} className="text-slate-400 hover:text-blue-600" title="Edit unit">
+              <Pencil size={14} />
+            </button>
+          )}
         </div>
       </div>
 
+      {isEditing && onEdit && (
+        <TuEditor
+          tu={tu}
+          user={editUser}
+          onUserChange={user => onEditUserChange?.(user)}
+          onSave={edit => onEdit(edit).then(() => setIsEditing(false))}
+          onCancel={() => setIsEditing(false)}
+        />
+      )}
+
       {/* Main Content */}
-      <div className="p-5 grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className={`p-5 grid grid-cols-1 lg:grid-cols-2 gap-6 ${isEditing && onEdit ? 'hidden' : ''}`}>
         {/* Source */}
         <div className="flex flex-col gap-2">
           <div className="flex items-center gap-2">
             <span className="px-2 py-0.5 rounded text-[11px] font-bold tracking-wide uppercase bg-blue-50 text-blue-700 border border-blue-100">
               {sourceVariant.lang}
             </span>
+            <VariantDates variant={sourceVariant} tu={tu} />
           </div>
-          <p className="text-slate-900 text-[15px] leading-relaxed whitespace-pre-wrap font-medium">
-            {sourceVariant.text || <span className="italic text-slate-300">Empty segment</span>}
+          <p data-hit-scope className="text-slate-900 text-[15px] leading-relaxed whitespace-pre-wrap font-medium">
+            {sourceVariant.segment.length > 0
+              ? <SegmentView parts={sourceVariant.segment} highlights={hitsOf(sourceVariant)} />
+              : <span className="italic text-slate-300">Empty segment</span>}
           </p>
         </div>
 
@@ -83,21 +154,31 @@ export const TuCard: React.FC<TuCardProps> = ({ tu, searchMode, searchQuery }) =
         <div className="flex flex-col gap-4">
           {targetVariants.map((variant, idx) => (
             <div key={`${tu.id}-${variant.lang}-${idx}`} className="flex flex-col gap-2">
-              <div className="flex items-center gap-2">
+              <div className="flex flex-wrap items-center gap-2">
                 <span className="px-2 py-0.5 rounded text-[11px] font-bold tracking-wide uppercase bg-green-50 text-green-700 border border-green-100">
                   {variant.lang}
                 </span>
+                {qaIssues && <QaBadges issues={qaIssues.filter(issue => issue.lang === variant.lang)} />}
+                <VariantDates variant={variant} tu={tu} />
               </div>
-              <p className="text-slate-700 text-[15px] leading-relaxed whitespace-pre-wrap">
-                 {variant.text || <span className="italic text-slate-300">Empty segment</span>}
+              <p data-hit-scope className="text-slate-700 text-[15px] leading-relaxed whitespace-pre-wrap">
+                 {variant.segment.length > 0
+                   ? <SegmentView parts={variant.segment} highlights={hitsOf(variant)} />
+                   : <span className="italic text-slate-300">Empty segment</span>}
               </p>
             </div>
           ))}
+          {targetVariants.length === 0 && (
+            <span className="italic text-slate-300 text-[15px]">No variant in the chosen target languages</span>
+          )}
+          {hiddenCount > 0 && (
+            <span className="text-xs text-slate-400">+{hiddenCount} more {hiddenCount === 1 ? 'language' : 'languages'} not shown</span>
+          )}
         </div>
       </div>
 
       {/* Footer: Metadata */}
-      <div className="mt-auto bg-slate-50 px-4 py-3 border-t border-slate-100 text-xs text-slate-500">
+      <div className={`mt-auto bg-slate-50 px-4 py-3 border-t border-slate-100 text-xs text-slate-500 ${isEditing && onEdit ? 'hidden' : ''}`}>
          <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
             
             {(tu.metadata.creationDate || tu.metadata.createUser) && (
@@ -105,12 +186,20 @@ export const TuCard: React.FC<TuCardProps> = ({ tu, searchMode, searchQuery }) =
                 <Calendar size={12} className="text-slate-400"/>
                 <span className="text-slate-400">Created:</span>
                 <span className="font-medium text-slate-600">
-                   {formatDate(tu.metadata.creationDate) || '-'} 
+                   {tu.metadata.creationDate ? <DateText value={tu.metadata.creationDate} /> : '-'}
                    {tu.metadata.createUser && <span className="text-slate-400 font-normal ml-1">by {tu.metadata.createUser}</span>}
                 </span>
               </div>
             )}
 
+            {tu.metadata.lastUsageDate && (
+              <div className="flex items-center gap-2">
+                 <Clock size={12} className="text-slate-400"/>
+                 <span className="text-slate-400">Last used:</span>
+                 <span className="font-medium text-slate-600"><DateText value={tu.metadata.lastUsageDate} /></span>
+              </div>
+            )}
+
             {tu.metadata.changeUser && (
               <div className="flex items-center gap-2">
                  <User size={12} className="text-slate-400"/>
@@ -127,7 +216,7 @@ export const TuCard: React.FC<TuCardProps> = ({ tu, searchMode, searchQuery }) =
                 const value = val as string;
                 const isId = key === 'x-segment-id';
                 const isMatch = isSegmentIdMatch(key, value);
-                
+              
                 return (
                   <div 
                     key={key} 
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Loader2, Check, AlertCircle } from 'lucide-react';
+import { NormalizedTu, TuEdit } from '../types';
+import { segmentToEditable, editableToSegment } from '../services/tuEditing';
+
+interface TuEditorProps {
+  tu: NormalizedTu;
+  user: string; // written to changeid on save
+  onUserChange: (user: string) => void;
+  onSave: (edit: TuEdit) => Promise<void>;
+  onCancel: () => void;
+}
+
+type Row = [string, string];
+
+const toRecord = (rows: Row[]): Record<string, string> => {
+  const record: Record<string, string> = {};
+  rows.forEach(([key, value]) => {
+    if (key.trim()) record[key.trim()] = value;
+  });
+  return record;
+};
+
+const sameRecord = (a: Record<string, string>, b: Record<string, string>) =>
+  Object.keys(a).length === Object.keys(b).length && Object.entries(a).every(([key, value]) => b[key] === value);
+
+const inputClass = 'border border-slate-200 rounded px-2 py-1 text-xs font-mono focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+const RowsEditor: React.FC<{ title: string; rows: Row[]; onChange: (rows: Row[]) => void; hint?: string }> = ({ title, rows, onChange, hint }) => (
+  <div className="space-y-1.5">
+    <div className="flex items-center justify-between">
+      <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">{title}</span>
+      <button onClick={() => onChange([...rows, ['', '']])} className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1">
+        <Plus size={12} /> Add
+      </button>
+    </div>
+    {rows.map(([key, value], idx) => (
+      <div key={idx} className="flex items-center gap-2">
+        <input
+          value={key}
+          onChange={(e) => onChange(rows.map((row, i) => (i === idx ? [e.target.value, row[1]] : row)))}
+          className={`${inputClass} w-40`}
+          placeholder="name"
+        />
+        <input
+          value={value}
+          onChange={(e) => onChange(rows.map((row, i) => (i === idx ? [row[0], e.target.value] : row)))}
+          className={`${inputClass} flex-1`}
+          placeholder="value"
+        />
+        <button onClick={() => onChange(rows.filter((_, i) => i !== idx))} className="text-slate-400 hover:text-red-600" title="Remove">
+          <Trash2 size={14} />
+        </button>
+      </div>
+    ))}
+    {hint && <p className="text-[11px] text-slate-400">{hint}</p>}
+  </div>
+);
+
+/**
+ * Edit form for one unit: target segments, props and TU attributes. Inline tags show
+ * as ⟦n⟧ tokens that can be moved or removed; see services/tuEditing.ts.
+ */
+export const TuEditor: React.FC<TuEditorProps> = ({ tu, user, onUserChange, onSave, onCancel }) => {
+  const sourceVariant = tu.variants.find(v => v.lang === tu.srcLang) || tu.variants[0];
+  const initialTexts = tu.variants.map(v => segmentToEditable(v.segment));
+  const [texts, setTexts] = useState<string[]>(initialTexts);
+  const [props, setProps] = useState<Row[]>(Object.entries(tu.props));
+  const [attributes, setAttributes] = useState<Row[]>(Object.entries(tu.attributes));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = () => {
+    const edit: TuEdit = {};
+    try {
+      const segments = tu.variants.flatMap((variant, idx) =>
+        variant !== sourceVariant && texts[idx] !== initialTexts[idx]
+          ? [{ variant: idx, segment: editableToSegment(texts[idx], variant.segment) }]
+          : []
+      );
+      if (segments.length > 0) edit.segments = segments;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    const newProps = toRecord(props);
+    if (!sameRecord(newProps, tu.props)) edit.props = newProps;
+    const newAttributes = toRecord(attributes);
+    if (!sameRecord(newAttributes, tu.attributes)) edit.attributes = newAttributes;
+
+    if (!edit.segments && !edit.props && !edit.attributes) {
+      onCancel();
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    onSave(edit)
+      .catch((err: unknown) => setError(err instanceof Error ? err.message : String(err)))
+      .finally(() => setIsSaving(false));
+  };
+
+  return (
+    <div className="p-5 space-y-5 text-sm">
+      <div className="space-y-3">
+        <div className="flex flex-col gap-1">
+          <span className="px-2 py-0.5 self-start rounded text-[11px] font-bold tracking-wide uppercase bg-blue-50 text-blue-700 border border-blue-100">
+            {sourceVariant.lang}
+          </span>
+          <p className="text-slate-500 whitespace-pre-wrap">{initialTexts[tu.variants.indexOf(sourceVariant)]}</p>
+        </div>
+        {tu.variants.map((variant, idx) => variant !== sourceVariant && (
+          <div key={`${variant.lang}-${idx}`} className="flex flex-col gap-1">
+            <span className="px-2 py-0.5 self-start rounded text-[11px] font-bold tracking-wide uppercase bg-green-50 text-green-700 border border-green-100">
+              {variant.lang}
+            </span>
+            <textarea
+              value={texts[idx]}
+              onChange={(e) => setTexts(list => list.map((text, i) => (i === idx ? e.target.value : text)))}
+              className="w-full min-h-[64px] p-2 border border-slate-200 rounded-lg text-[15px] focus:ring-2 focus:ring-blue-500 focus:outline-none resize-y"
+            />
+          </div>
+        ))}
+        <p className="text-[11px] text-slate-400">⟦n⟧ stands for an inline tag: move or delete it, but keep the number as it is.</p>
+      </div>
+
+      <RowsEditor title="Props" rows={props} onChange={setProps} />
+      <RowsEditor
+        title="Attributes"
+        rows={attributes}
+        onChange={setAttributes}
+        hint="changedate is set when you save, and changeid too when a name is given below."
+      />
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-600 text-xs">
+          <AlertCircle size={14} /> {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-3 border-t border-slate-100">
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          changeid
+          <input value={user} onChange={(e) => onUserChange(e.target.value)} className={`${inputClass} w-40`} placeholder="your name" />
+        </label>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 text-slate-600 hover:bg-slate-100 rounded-lg">Cancel</button>
+          <button
+            onClick={save}
+            disabled={isSaving}
+            className="px-3 py-1.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+            Save Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Layers } from 'lucide-react';
+import { TuGroup, LanguageView, NormalizedTu } from '../types';
+import { TuCard } from './TuCard';
+
+interface TuGroupCardProps {
+  group: TuGroup;
+  searchMode?: string;
+  searchQuery?: string;
+  languageView?: LanguageView;
+  fileNames: string[]; // names of the loaded files by index
+}
+
+/**
+ * Merged view entry: units from one or more files that share their source text or
+ * x-segment-id. Single-unit groups render as a plain TuCard.
+ */
+export const TuGroupCard: React.FC<TuGroupCardProps> = ({ group, searchMode, searchQuery, languageView, fileNames }) => {
+  const originName = (tu: NormalizedTu) => (tu.origin === undefined ? undefined : fileNames[tu.origin]);
+  const [expanded, setExpanded] = useState(true);
+
+  if (group.tus.length === 1) {
+    return <TuCard tu={group.tus[0]} searchMode={searchMode} searchQuery={searchQuery} languageView={languageView} originName={originName(group.tus[0])} />;
+  }
+
+  return (
+    <div className="border border-blue-200 rounded-lg bg-blue-50/40 mb-4">
+      <button
+        onClick={() => setExpanded(e => !e)}
+        className="w-full px-4 py-2 flex items-center justify-between gap-4 text-left text-sm"
+      >
+        <span className="flex items-center gap-2 min-w-0">
+          {expanded ? <ChevronDown size={16} className="text-blue-500 shrink-0" /> : <ChevronRight size={16} className="text-blue-500 shrink-0" />}
+          <Layers size={14} className="text-blue-500 shrink-0" />
+          <span className="font-mono text-slate-700 truncate" title={group.key}>{group.key || <span className="italic text-slate-400">Empty source</span>}</span>
+        </span>
+        <span className="text-xs text-slate-500 whitespace-nowrap">
+          {group.tus.length} units · {group.origins.length} {group.origins.length === 1 ? 'file' : 'files'}
+        </span>
+      </button>
+      {expanded && (
+        <div className="px-3 pb-1">
+          {group.tus.map((tu, idx) => (
+            <TuCard key={`${tu.origin}-${tu.id}-${idx}`} tu={tu} searchMode={searchMode} searchQuery={searchQuery} languageView={languageView} originName={originName(tu)} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { NormalizedTu, TuVariant, QaIssue, HitRange, LanguageView } from '../types';
+import { SegmentView } from './SegmentView';
+import { arrangeVariants, DEFAULT_LANGUAGE_VIEW } from '../services/languageView';
+
+interface TuRowProps {
+  tu: NormalizedTu;
+  position: number; // place in the current list, shown 1-based
+  hits?: HitRange[][];
+  languageView?: LanguageView;
+  qaIssues?: QaIssue[];
+  modified?: boolean;
+  selected?: boolean;
+  onSelect?: (range: boolean) => void;
+  focused?: boolean;
+  expanded?: boolean;
+  onToggleExpanded?: () => void;
+  children?: React.ReactNode; // the full card, shown below the row while expanded
+}
+
+/**
+ * Compact density: one line per unit with its source and first target, for scanning
+ * long lists. Expanding a row shows the full card underneath.
+ */
+export const TuRow: React.FC<TuRowProps> = ({
+  tu,
+  position,
+  hits,
+  languageView = DEFAULT_LANGUAGE_VIEW,
+  qaIssues,
+  modified,
+  selected,
+  onSelect,
+  focused,
+  expanded,
+  onToggleExpanded,
+  children
+}) => {
+  const { source, targets, hidden } = arrangeVariants(tu, languageView);
+  const hitsOf = (variant: TuVariant) => hits?.[tu.variants.indexOf(variant)];
+  const target = targets[0];
+  const moreTargets = Math.max(0, targets.length - 1) + hidden;
+
+  return (
+    <div className={`border-b border-slate-100 ${selected ? 'bg-blue-50' : 'bg-white'} ${focused ? 'outline outline-2 -outline-offset-2 outline-blue-300' : ''}`}>
+      <div className="flex items-center gap-3 px-3 h-9 text-sm" onDoubleClick={onToggleExpanded}>
+        {onSelect && (
+          <input
+            type="checkbox"
+            checked={!!selected}
+            readOnly
+            onClick={(e) => onSelect(e.shiftKey)}
+            className="cursor-pointer shrink-0"
+            title="Select (Shift+click selects a range)"
+          />
+        )}
+        <button onClick={onToggleExpanded} className="text-slate-400 hover:text-slate-600 shrink-0" title={expanded ? 'Collapse' : 'Show the full unit'}>
+          {expanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+        </button>
+        <span className="w-14 shrink-0 text-right font-mono text-xs text-slate-300 tabular-nums">{(position + 1).toLocaleString()}</span>
+        <span className="w-36 shrink-0 truncate font-mono text-xs text-slate-500" title={tu.id}>{tu.id}</span>
+        <span data-hit-scope className="flex-1 min-w-0 truncate text-slate-900" title={source.text}>
+          <span className="mr-1.5 text-[10px] font-bold uppercase text-blue-700">{source.lang}</span>
+          <SegmentView parts={source.segment} highlights={hitsOf(source)} />
+        </span>
+        <span data-hit-scope className="flex-1 min-w-0 truncate text-slate-600" title={target?.text}>
+          {target ? (
+            <>
+              <span className="mr-1.5 text-[10px] font-bold uppercase text-green-700">{target.lang}</span>
+              <SegmentView parts={target.segment} highlights={hitsOf(target)} />
+            </>
+          ) : (
+            <span className="italic text-slate-300">No target</span>
+          )}
+        </span>
+        {moreTargets > 0 && <span className="shrink-0 text-xs text-slate-400">+{moreTargets}</span>}
+        {qaIssues && qaIssues.length > 0 && (
+          <span className="shrink-0 px-1.5 rounded bg-red-50 border border-red-200 text-red-700 text-[10px] font-bold" title="QA findings">
+            {qaIssues.length}
+          </span>
+        )}
+        {modified && <span className="shrink-0 w-2 h-2 rounded-full bg-amber-400" title="Changed in this session" />}
+      </div>
+      {expanded && <div className="px-3 pt-1">{children}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { HitRange, NormalizedTu, QaIssue } from '../types';
+
+/** One unit of the list together with what the worker computed for it. */
+export interface ListRow {
+  tu: NormalizedTu;
+  index: number;
+  qa?: QaIssue[];
+  score?: number;
+  hits?: HitRange[][];
+  modified?: boolean;
+}
+
+interface VirtualTuListProps {
+  total: number;
+  /** Changes whenever loaded rows may be out of date (an edit, a QA run); visible rows are then refetched. */
+  version: unknown;
+  loadRange: (offset: number, limit: number) => Promise<ListRow[]>;
+  /** Height assumed for rows not measured yet. */
+  estimatedHeight: number;
+  /** Position scrolled to on mount. */
+  initialPosition: number;
+  focusedPosition: number | null;
+  onRangeChange: (first: number, last: number) => void;
+  onRowClick?: (position: number) => void;
+  renderRow: (row: ListRow, position: number) => React.ReactNode;
+}
+
+const CHUNK = 50; // rows fetched per request
+const OVERSCAN = 4; // rows rendered beyond either edge of the viewport
+const MAX_CHUNKS = 40; // loaded chunks kept; the ones farthest away are dropped first
+
+/**
+ * Continuous list that only renders the rows in view. Rows are fetched from the worker
+ * in chunks as they scroll in, and each rendered row is measured so that rows of any
+ * height line up; a row changing height above the viewport shifts the scroll position
+ * along with it, so what is on screen stays put.
+ */
+export const VirtualTuList: React.FC<VirtualTuListProps> = ({
+  total,
+  version,
+  loadRange,
+  estimatedHeight,
+  initialPosition,
+  focusedPosition,
+  onRangeChange,
+  onRowClick,
+  renderRow
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const innerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Float64Array(0));
+  const offsetsRef = useRef(new Float64Array(1));
+  const dirtyRef = useRef(true);
+  const firstRef = useRef(0);
+  const chunksRef = useRef(new Map<number, { version: unknown; rows: ListRow[] }>());
+  const loadingRef = useRef(new Map<number, unknown>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef(new Set<Element>());
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(0);
+  const [, setTick] = useState(0);
+
+  // Rows streamed in keep the heights measured so far
+  if (heightsRef.current.length !== total) {
+    const heights = new Float64Array(total).fill(estimatedHeight);
+    heights.set(heightsRef.current.subarray(0, Math.min(total, heightsRef.current.length)));
+    heightsRef.current = heights;
+    offsetsRef.current = new Float64Array(total + 1);
+    dirtyRef.current = true;
+  }
+  if (dirtyRef.current) {
+    const heights = heightsRef.current;
+    const offsets = offsetsRef.current;
+    for (let i = 0; i < total; i++) offsets[i + 1] = offsets[i] + heights[i];
+    dirtyRef.current = false;
+  }
+  const offsets = offsetsRef.current;
+
+  /** Last position whose row starts at or above `y`. */
+  const positionAt = (y: number) => {
+    let lo = 0;
+    let hi = Math.max(0, total - 1);
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (offsets[mid] <= y) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  };
+
+  const first = positionAt(scrollTop);
+  const last = Math.max(first, positionAt(scrollTop + viewport - 1));
+  const renderFrom = Math.max(0, first - OVERSCAN);
+  const renderTo = Math.min(total - 1, last + OVERSCAN);
+  firstRef.current = first;
+
+  const scrollTo = (top: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.scrollTop = top;
+    setScrollTop(container.scrollTop);
+  };
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const viewportObserver = new ResizeObserver(() => setViewport(container.clientHeight));
+    viewportObserver.observe(container);
+
+    observerRef.current = new ResizeObserver((entries) => {
+      const heights = heightsRef.current;
+      let shift = 0;
+      for (const entry of entries) {
+        const position = Number((entry.target as HTMLElement).dataset.position);
+        const height = (entry.target as HTMLElement).offsetHeight;
+        if (position >= heights.length || Math.abs(height - heights[position]) < 0.5) continue;
+        if (position < firstRef.current) shift += height - heights[position];
+        heights[position] = height;
+        dirtyRef.current = true;
+      }
+      if (!dirtyRef.current) return;
+      if (shift !== 0) container.scrollTop += shift;
+      setScrollTop(container.scrollTop);
+      setTick(t => t + 1);
+    });
+
+    return () => {
+      viewportObserver.disconnect();
+      observerRef.current?.disconnect();
+      observedRef.current.clear();
+    };
+  }, []);
+
+  useLayoutEffect(() => {
+    scrollTo(offsets[Math.min(initialPosition, Math.max(0, total - 1))] || 0);
+  }, []);
+
+  // Measure the rows now on screen, and stop measuring the ones that left
+  useLayoutEffect(() => {
+    const observer = observerRef.current;
+    if (!observer || !innerRef.current) return;
+    const rendered = new Set(Array.from(innerRef.current.children));
+    observedRef.current.forEach(el => {
+      if (rendered.has(el)) return;
+      observer.unobserve(el);
+      observedRef.current.delete(el);
+    });
+    rendered.forEach(el => {
+      if (observedRef.current.has(el)) return;
+      observer.observe(el);
+      observedRef.current.add(el);
+    });
+  });
+
+  // Fetch the chunks in view that are missing or out of date
+  useEffect(() => {
+    if (total === 0) return;
+    const chunks = chunksRef.current;
+    for (let chunk = Math.floor(renderFrom / CHUNK); chunk <= Math.floor(renderTo / CHUNK); chunk++) {
+      const loaded = chunks.get(chunk);
+      const complete = loaded && (loaded.rows.length === CHUNK || chunk * CHUNK + loaded.rows.length >= total);
+      if ((loaded?.version === version && complete) || loadingRef.current.get(chunk) === version) continue;
+      loadingRef.current.set(chunk, version);
+      loadRange(chunk * CHUNK, CHUNK)
+        .then((rows) => {
+          if (loadingRef.current.get(chunk) !== version) return;
+          loadingRef.current.delete(chunk);
+          chunks.set(chunk, { version, rows });
+          if (chunks.size > MAX_CHUNKS) {
+            const near = Math.floor(firstRef.current / CHUNK);
+            const farthest = [...chunks.keys()].sort((a, b) => Math.abs(b - near) - Math.abs(a - near));
+            farthest.slice(0, chunks.size - MAX_CHUNKS).forEach(key => chunks.delete(key));
+          }
+          setTick(t => t + 1);
+        })
+        // Left as placeholders; the chunk is asked for again when it comes back into view
+        .catch(() => loadingRef.current.delete(chunk));
+    }
+  }, [renderFrom, renderTo, version, total]);
+
+  useEffect(() => {
+    if (total > 0) onRangeChange(first, last);
+  }, [first, last, total]);
+
+  // Bring the focused row into view: nearby moves scroll just enough, jumps put it on top
+  useEffect(() => {
+    if (focusedPosition === null || focusedPosition >= total) return;
+    const top = offsets[focusedPosition];
+    const bottom = offsets[focusedPosition + 1];
+    if (focusedPosition < first - 1 || focusedPosition > last + 1 || top < scrollTop || bottom - top > viewport) {
+      scrollTo(top);
+    } else if (bottom > scrollTop + viewport) {
+      scrollTo(bottom - viewport);
+    }
+  }, [focusedPosition]);
+
+  const rows: React.ReactNode[] = [];
+  for (let position = renderFrom; position <= renderTo; position++) {
+    const row = chunksRef.current.get(Math.floor(position / CHUNK))?.rows[position % CHUNK];
+    rows.push(
+      <div
+        key={position}
+        data-position={position}
+        onClick={onRowClick && (() => onRowClick(position))}
+        className="absolute left-0 right-0 flow-root"
+        style={{ top: offsets[position] }}
+      >
+        {row ? (
+          renderRow(row, position)
+        ) : (
+          <div className="border-b border-slate-100 bg-slate-100/60 animate-pulse" style={{ height: heightsRef.current[position] }} />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div
+        ref={containerRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="h-[calc(100vh-13rem)] min-h-[24rem] overflow-y-auto px-1"
+      >
+        <div ref={innerRef} className="relative" style={{ height: offsets[total] }}>
+          {rows}
+        </div>
+      </div>
+      {total > 0 && (
+        <div className="absolute bottom-2 right-4 px-2 py-0.5 rounded bg-slate-800/70 text-white text-xs tabular-nums pointer-events-none">
+          {(first + 1).toLocaleString()}–{(last + 1).toLocaleString()} of {total.toLocaleString()}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import { FacetBucket, FacetCounts, FacetField, FacetFilter, LanguageFigures, MemoryAnalytics, NormalizedTu } from '../types';
+import { monthOfTime, parseTmxDate } from './tmxDates';
+
+/**
+ * Metadata breakdowns for the analytics view, and the facet filters its buckets turn
+ * into. Both sides bucket a unit the same way, so a bucket's count is exactly what
+ * clicking it leaves in the list.
+ */
+
+// Units processed between checkpoints, so the worker can yield and honour cancellation
+const SLICE = 20000;
+
+// Most frequent values reported for open-ended fields (users, prop values)
+const TOP_VALUES = 25;
+
+// Dates spanning more months than this are bucketed by year
+const MAX_MONTH_BUCKETS = 36;
+
+/** Usage count ranges, in display order; '' collects units without a usage count. */
+export const USAGE_BUCKETS = ['0', '1', '2-5', '6-20', '21-100', '101+', ''];
+
+export const usageBucket = (usageCount?: string): string => {
+  if (usageCount === undefined || usageCount.trim() === '' || Number.isNaN(Number(usageCount))) return '';
+  const count = Number(usageCount);
+  if (count <= 0) return '0';
+  if (count === 1) return '1';
+  if (count <= 5) return '2-5';
+  if (count <= 20) return '6-20';
+  if (count <= 100) return '21-100';
+  return '101+';
+};
+
+/** "en-US → de-DE" for each target of the unit, from its srclang. */
+export const pairsOf = (tu: NormalizedTu): string[] => {
+  const srcLang = tu.srcLang.toLowerCase();
+  return tu.variants.filter(v => v.lang.toLowerCase() !== srcLang).map(v => `${tu.srcLang} → ${v.lang}`);
+};
+
+// CJK characters count as one word each, as CAT tools count them
+const WORD = /\p{Ideo}|[\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Ideo}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}\p{M}])+/gu;
+
+const countWords = (text: string) => text.match(WORD)?.length ?? 0;
+
+/** "2024-03" (UTC) from a TMX date; '' when there is none or it cannot be read. */
+const monthOf = (date?: string) => {
+  const time = parseTmxDate(date);
+  return time === null ? '' : monthOfTime(time);
+};
+
+// Buckets are months ("2024-03") or, over long spans, years ("2024")
+const matchesDate = (date: string | undefined, value: string) => {
+  const month = monthOf(date);
+  return value === '' ? !month : month.startsWith(value);
+};
+
+const matchesFacet = (tu: NormalizedTu, facet: FacetFilter): boolean => {
+  switch (facet.field) {
+    case 'language': {
+      const lang = facet.value.toLowerCase();
+      return tu.variants.some(v => v.lang.toLowerCase() === lang);
+    }
+    case 'pair':
+      return pairsOf(tu).includes(facet.value);
+    case 'creationid':
+      return (tu.metadata.createUser || '') === facet.value;
+    case 'changeid':
+      return (tu.metadata.changeUser || '') === facet.value;
+    case 'created':
+      return matchesDate(tu.metadata.creationDate, facet.value);
+    case 'changed':
+      return matchesDate(tu.metadata.changeDate, facet.value);
+    case 'usage':
+      return usageBucket(tu.metadata.usageCount) === facet.value;
+    case 'prop':
+      return (tu.props[facet.propType || ''] ?? '') === facet.value;
+  }
+};
+
+/** Buckets of the same field (and prop type) are alternatives; different fields all have to match. */
+export const matchesFacets = (tu: NormalizedTu, facets: FacetFilter[]): boolean => {
+  const byField = new Map<string, FacetFilter[]>();
+  facets.forEach(facet => {
+    const key = `${facet.field}\u0000${facet.propType || ''}`;
+    byField.set(key, [...(byField.get(key) || []), facet]);
+  });
+  return [...byField.values()].every(alternatives => alternatives.some(facet => matchesFacet(tu, facet)));
+};
+
+export const sameFacet = (a: FacetFilter, b: FacetFilter) =>
+  a.field === b.field && a.value === b.value && (a.propType || '') === (b.propType || '');
+
+const increment = (counts: Map<string, number>, value: string) => counts.set(value, (counts.get(value) || 0) + 1);
+
+const topValues = (counts: Map<string, number>): FacetCounts => ({
+  buckets: [...counts].map(([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count).slice(0, TOP_VALUES),
+  distinct: counts.size
+});
+
+/** Month counts as a gapless timeline, rolled up into years when that would be too long. */
+const timeline = (months: Map<string, number>): FacetBucket[] => {
+  const undated = months.get('') || 0;
+  const dated = [...months.keys()].filter(Boolean).sort();
+  const buckets: FacetBucket[] = [];
+  if (dated.length > 0) {
+    const [firstYear, firstMonth] = dated[0].split('-').map(Number);
+    const [lastYear, lastMonth] = dated[dated.length - 1].split('-').map(Number);
+    const span = (lastYear - firstYear) * 12 + lastMonth - firstMonth + 1;
+    if (span > MAX_MONTH_BUCKETS) {
+      for (let year = firstYear; year <= lastYear; year++) {
+        const prefix = String(year);
+        const count = dated.filter(month => month.startsWith(prefix)).reduce((sum, month) => sum + months.get(month)!, 0);
+        buckets.push({ value: prefix, count });
+      }
+    } else {
+      for (let i = 0; i < span; i++) {
+        const year = firstYear + Math.floor((firstMonth - 1 + i) / 12);
+        const value = `${year}-${String(((firstMonth - 1 + i) % 12) + 1).padStart(2, '0')}`;
+        buckets.push({ value, count: months.get(value) || 0 });
+      }
+    }
+  }
+  if (undated > 0) buckets.push({ value: '', count: undated });
+  return buckets;
+};
+
+/** Breaks the given units down by language, users, dates, usage and prop values. */
+export const computeAnalytics = async (
+  tus: NormalizedTu[],
+  indices: number[],
+  checkpoint: () => Promise<void>
+): Promise<MemoryAnalytics> => {
+  const languages = new Map<string, LanguageFigures>();
+  const pairs = new Map<string, number>();
+  const creationUsers = new Map<string, number>();
+  const changeUsers = new Map<string, number>();
+  const created = new Map<string, number>();
+  const changed = new Map<string, number>();
+  const usage = new Map<string, number>();
+  const props = new Map<string, Map<string, number>>();
+
+  for (let i = 0; i < indices.length; i++) {
+    if (i > 0 && i % SLICE === 0) await checkpoint();
+    const tu = tus[indices[i]];
+
+    // Codes differing only in case share a bucket, as the language facet matches them alike
+    const seen = new Set<string>();
+    for (const variant of tu.variants) {
+      const key = variant.lang.toLowerCase();
+      let figures = languages.get(key);
+      if (!figures) {
+        figures = { lang: variant.lang, units: 0, words: 0, characters: 0 };
+        languages.set(key, figures);
+      }
+      if (!seen.has(key)) figures.units++;
+      seen.add(key);
+      figures.words += countWords(variant.text);
+      figures.characters += variant.text.length;
+    }
+    new Set(pairsOf(tu)).forEach(pair => increment(pairs, pair));
+
+    increment(creationUsers, tu.metadata.createUser || '');
+    increment(changeUsers, tu.metadata.changeUser || '');
+    increment(created, monthOf(tu.metadata.creationDate));
+    increment(changed, monthOf(tu.metadata.changeDate));
+    increment(usage, usageBucket(tu.metadata.usageCount));
+
+    for (const [type, value] of Object.entries(tu.props)) {
+      let values = props.get(type);
+      if (!values) {
+        values = new Map();
+        props.set(type, values);
+      }
+      increment(values, value);
+    }
+  }
+
+  return {
+    totalUnits: indices.length,
+    languages: [...languages.values()].sort((a, b) => b.units - a.units || a.lang.localeCompare(b.lang)),
+    pairs: [...pairs].map(([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count),
+    creationUsers: topValues(creationUsers),
+    changeUsers: topValues(changeUsers),
+    created: timeline(created),
+    changed: timeline(changed),
+    usage: USAGE_BUCKETS.filter(value => usage.has(value)).map(value => ({ value, count: usage.get(value)! })),
+    props: [...props].map(([type, values]) => ({ type, ...topValues(values) })).sort((a, b) => a.type.localeCompare(b.type))
+  };
+};
+
+const FACET_LABELS: Record<FacetField, string> = {
+  language: 'Language',
+  pair: 'Pair',
+  creationid: 'Created by',
+  changeid: 'Changed by',
+  created: 'Created',
+  changed: 'Changed',
+  usage: 'Usage',
+  prop: 'Prop'
+};
+
+/** Short label for a facet chip, e.g. "Changed by: jdoe" or "x-domain: legal". */
+export const describeFacet = (facet: FacetFilter): string =>
+  `${facet.field === 'prop' ? facet.propType : FACET_LABELS[facet.field]}: ${facet.value || 'none'}`;
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { globToRegExp, isGlob, readBatchFile, splitBatchInput } from './batchList';
+
+describe('batch lists', () => {
+  it('splits IDs on lines and commas, but source texts on lines only', () => {
+    expect(splitBatchInput('app.save, app.open\n\napp.save\r\n menu.* ', 'segmentId')).toEqual(['app.save', 'app.open', 'menu.*']);
+    expect(splitBatchInput('Save, then close\nOpen', 'source')).toEqual(['Save, then close', 'Open']);
+  });
+
+  it('matches wildcard patterns against the whole key, taking other characters literally', () => {
+    expect(isGlob('menu.*')).toBe(true);
+    expect(isGlob('menu.save')).toBe(false);
+    const pattern = globToRegExp('menu.?ave*', true);
+    expect(pattern.test('MENU.save.label')).toBe(true);
+    expect(pattern.test('menuXsave')).toBe(false);
+    expect(pattern.test('app.menu.save')).toBe(false);
+  });
+
+  it('reads IDs from JSON, the first CSV column without its header, or plain lines', async () => {
+    const read = (name: string, text: string) => readBatchFile(new File([text], name));
+    expect(await read('ids.json', '{"items": [{"id": "a"}, {"key": 2}, "c"]}')).toBe('a\n2\nc');
+    expect(await read('ids.csv', 'x-segment-id,note\napp.save,"Save, now"\napp.open,\n')).toBe('app.save\napp.open');
+    expect(await read('ids.txt', '\uFEFFa\r\n\r\n b \n')).toBe('a\nb');
+    await expect(read('ids.json', '{"items": 1}')).rejects.toThrow('holds no list of IDs');
+  });
+});
@@ -0,0 +1,86 @@
+import { BatchField, BatchOptions } from '../types';
+import { readFileText } from './formats/common';
+import { createCsvParser, detectDelimiter } from './formats/csvFormat';
+
+/**
+ * ID lists for the batch filter: splitting pasted text, reading dropped files, and the
+ * wildcard patterns an entry may be.
+ */
+
+export const DEFAULT_BATCH_OPTIONS: BatchOptions = { field: 'segmentId', propType: '', patterns: true };
+
+// First cell of a CSV header row, rather than an ID
+const HEADER_CELL = /^(x-segment-id|segment[ _-]?id|tuid|ids?|keys?|source)$/i;
+
+// Keys of JSON objects that hold the ID, in order of preference
+const ID_KEYS = ['id', 'tuid', 'segmentId', 'x-segment-id', 'key', 'source'];
+
+/**
+ * Entries of a list as typed or pasted: one per line, and for IDs commas separate them
+ * too (source texts may contain commas). Blank entries and repeats are dropped.
+ */
+export const splitBatchInput = (text: string, field: BatchField): string[] => {
+  const entries = text.split(field === 'source' ? /\r?\n/ : /[\r\n,]+/).map(entry => entry.trim()).filter(Boolean);
+  return [...new Set(entries)];
+};
+
+export const isGlob = (entry: string) => /[*?]/.test(entry);
+
+/** `*` stands for any run of characters and `?` for one; the pattern has to match the whole key. */
+export const globToRegExp = (pattern: string, ignoreCase: boolean): RegExp => {
+  const body = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${body}$`, ignoreCase ? 'is' : 's');
+};
+
+const idOfObject = (item: Record<string, unknown>): string[] => {
+  const key = ID_KEYS.find(k => typeof item[k] === 'string' || typeof item[k] === 'number');
+  const value = key ? item[key] : Object.values(item).find(v => typeof v === 'string');
+  return value === undefined ? [] : [String(value)];
+};
+
+/** IDs from a JSON array of strings or objects, or from the first array property of an object. */
+const idsOfJson = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      if (typeof item === 'string' || typeof item === 'number') return [String(item)];
+      if (item && typeof item === 'object') return idOfObject(item as Record<string, unknown>);
+      return [];
+    });
+  }
+  if (value && typeof value === 'object') {
+    const list = Object.values(value).find(Array.isArray);
+    return list ? idsOfJson(list) : [];
+  }
+  return [];
+};
+
+/**
+ * Reads an ID list from a dropped file: a JSON list, the first column of a CSV/TSV
+ * (without its header row), or one ID per line of plain text. Returned one per line.
+ */
+export const readBatchFile = async (file: File): Promise<string> => {
+  const text = (await readFileText(file)).replace(/^﻿/, '');
+  const name = file.name.toLowerCase();
+  let ids: string[];
+
+  if (name.endsWith('.json') || /^\s*[[{]/.test(text)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`${file.name} is not valid JSON.`);
+    }
+    ids = idsOfJson(parsed);
+    if (ids.length === 0) throw new Error(`${file.name} holds no list of IDs.`);
+  } else if (name.endsWith('.csv') || name.endsWith('.tsv')) {
+    const rows: string[][] = [];
+    const parser = createCsvParser(name.endsWith('.tsv') ? '\t' : detectDelimiter(text), row => rows.push(row));
+    parser.write(text);
+    parser.end();
+    if (rows.length > 0 && HEADER_CELL.test(rows[0][0].trim())) rows.shift();
+    ids = rows.map(row => row[0]);
+  } else {
+    ids = text.split(/\r?\n/);
+  }
+  return ids.map(id => id.trim()).filter(Boolean).join('\n');
+};
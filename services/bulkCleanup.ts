@@ -0,0 +1,66 @@
+import { BulkAction, NormalizedTu, TuEdit } from '../types';
+import { dateDigits, parseTmxDate } from './tmxDates';
+
+/**
+ * Cleanup rules for bulk operations. Each rule looks at one unit and says whether it
+ * goes, changes or stays; the worker decides which units a rule gets to see.
+ */
+
+/** What a cleanup does to a unit: drop it, apply an edit, or leave it alone (null). */
+export type CleanupOutcome = 'delete' | TuEdit | null;
+
+/**
+ * Whether a cleanup would take away the unit's source variant, which it leaves in place:
+ * srcLang would name a variant that no longer exists, and search, QA and fuzzy matching
+ * all read the source.
+ */
+export const keepsSourceVariant = (tu: NormalizedTu, action: BulkAction) =>
+  action.kind === 'remove_language' && action.lang.toLowerCase() === tu.srcLang.toLowerCase();
+
+/** YYYY-MM-DD as the date part of a TMX timestamp (YYYYMMDD). */
+const toTmxDate = (date: string) => date.replace(/-/g, '');
+
+export const cleanupUnit = (tu: NormalizedTu, action: BulkAction): CleanupOutcome => {
+  switch (action.kind) {
+    case 'delete':
+    case 'keep':
+      return 'delete';
+    case 'remove_language': {
+      if (keepsSourceVariant(tu, action)) return null;
+      const lang = action.lang.toLowerCase();
+      const dropVariants = tu.variants.flatMap((variant, idx) => (variant.lang.toLowerCase() === lang ? [idx] : []));
+      return dropVariants.length > 0 ? { dropVariants } : null;
+    }
+    case 'strip_props': {
+      const types = new Set(action.propTypes);
+      if (!Object.keys(tu.props).some(type => types.has(type))) return null;
+      return { props: Object.fromEntries(Object.entries(tu.props).filter(([type]) => !types.has(type))) };
+    }
+    case 'drop_older': {
+      // Units without any date are kept, since their age is unknown
+      const time = parseTmxDate(tu.metadata.changeDate) ?? parseTmxDate(tu.metadata.creationDate);
+      return time !== null && dateDigits(time).slice(0, 8) < toTmxDate(action.date) ? 'delete' : null;
+    }
+    case 'drop_unused':
+      return tu.metadata.usageCount !== undefined && Number(tu.metadata.usageCount) === 0 ? 'delete' : null;
+  }
+};
+
+/** Undo label for a cleanup that reached `count` units. */
+export const describeCleanup = (action: BulkAction, count: number): string => {
+  const units = `${count.toLocaleString()} ${count === 1 ? 'unit' : 'units'}`;
+  switch (action.kind) {
+    case 'delete':
+      return `Delete ${units}`;
+    case 'keep':
+      return `Delete ${units} outside the selection`;
+    case 'remove_language':
+      return `Remove ${action.lang} from ${units}`;
+    case 'strip_props':
+      return `Strip ${action.propTypes.join(', ')} from ${units}`;
+    case 'drop_older':
+      return `Drop ${units} older than ${action.date}`;
+    case 'drop_unused':
+      return `Drop ${units} never used`;
+  }
+};
@@ -0,0 +1,136 @@
+import { NormalizedTu, ConsistencyIssue } from '../types';
+import { serializeSegment } from './inlineMarkup';
+
+/** A finding as kept in the worker: member units by index into the memory. */
+export interface ClusterRecord {
+  issue: ConsistencyIssue;
+  key: string;
+  srcLang: string;
+  targetLang?: string;
+  members: number[];
+  variants: { text: string; count: number }[];
+}
+
+export type ConsistencyReport = Record<ConsistencyIssue, ClusterRecord[]>;
+
+export const CONSISTENCY_ISSUE_LABELS: Record<ConsistencyIssue, string> = {
+  duplicate: 'Exact duplicates',
+  target_conflict: 'Same source, different targets',
+  source_conflict: 'Different sources, same target',
+  segment_id_conflict: 'Conflicting x-segment-id'
+};
+
+// Units processed between checkpoints, so the worker can yield and honour cancellation
+const SLICE = 20000;
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ');
+
+/** Appends idx under outer -> inner, creating both levels as needed. */
+const addNested = (map: Map<string, Map<string, number[]>>, outer: string, inner: string, idx: number) => {
+  let byValue = map.get(outer);
+  if (!byValue) {
+    byValue = new Map();
+    map.set(outer, byValue);
+  }
+  const members = byValue.get(inner);
+  if (members) members.push(idx);
+  else byValue.set(inner, [idx]);
+};
+
+/**
+ * Turns "key -> distinct value -> members" buckets into clusters, keeping only keys
+ * with more than one distinct value.
+ */
+const conflictsOf = (
+  buckets: Map<string, Map<string, number[]>>,
+  describe: (key: string) => Omit<ClusterRecord, 'members' | 'variants'>
+): ClusterRecord[] => {
+  const clusters: ClusterRecord[] = [];
+  buckets.forEach((byValue, key) => {
+    if (byValue.size < 2) return;
+    const variants = [...byValue].map(([text, members]) => ({ text, count: members.length }));
+    variants.sort((a, b) => b.count - a.count);
+    clusters.push({ ...describe(key), members: [...byValue.values()].flat().sort((a, b) => a - b), variants });
+  });
+  return clusters;
+};
+
+const bySize = (a: ClusterRecord, b: ClusterRecord) => b.members.length - a.members.length;
+
+/**
+ * Finds exact duplicates, inconsistent translations of one source text, different
+ * sources translated the same way, and x-segment-ids whose units disagree.
+ * Text comparisons ignore surrounding and repeated whitespace, but not case. Units in
+ * `skip` (deleted ones) are left out.
+ */
+export const analyzeConsistency = async (
+  tus: NormalizedTu[],
+  checkpoint: () => Promise<void>,
+  skip: ReadonlySet<number> = new Set()
+): Promise<ConsistencyReport> => {
+  const duplicates = new Map<string, number[]>();
+  // Language pair + source text -> target text -> members, and the reverse direction
+  const targetsBySource = new Map<string, Map<string, number[]>>();
+  const sourcesByTarget = new Map<string, Map<string, number[]>>();
+  const contentBySegmentId = new Map<string, Map<string, number[]>>();
+  const displayLang = new Map<string, string>();
+
+  for (let idx = 0; idx < tus.length; idx++) {
+    if (idx > 0 && idx % SLICE === 0) await checkpoint();
+    if (skip.has(idx)) continue;
+    const tu = tus[idx];
+    const srcLang = tu.srcLang.toLowerCase();
+    displayLang.set(srcLang, tu.srcLang);
+    const source = tu.variants.find(v => v.lang.toLowerCase() === srcLang);
+    const sourceText = source ? normalize(source.text) : '';
+
+    const content = tu.variants
+      .map(v => `${v.lang.toLowerCase()}\u0001${serializeSegment(v.segment)}`)
+      .sort()
+      .join('\u0002');
+    const duplicateKey = `${srcLang}\u0000${content}`;
+    const sameContent = duplicates.get(duplicateKey);
+    if (sameContent) sameContent.push(idx);
+    else duplicates.set(duplicateKey, [idx]);
+
+    const targetSummary: string[] = [];
+    for (const variant of tu.variants) {
+      const lang = variant.lang.toLowerCase();
+      if (lang === srcLang) continue;
+      displayLang.set(lang, variant.lang);
+      const targetText = normalize(variant.text);
+      targetSummary.push(`${variant.lang}: ${targetText}`);
+      if (!sourceText || !targetText) continue;
+      addNested(targetsBySource, `${srcLang}\u0000${lang}\u0000${sourceText}`, targetText, idx);
+      addNested(sourcesByTarget, `${srcLang}\u0000${lang}\u0000${targetText}`, sourceText, idx);
+    }
+
+    const segmentId = tu.props['x-segment-id'];
+    if (segmentId) {
+      addNested(contentBySegmentId, segmentId, [sourceText, ...targetSummary].join(' → '), idx);
+    }
+  }
+
+  const splitPairKey = (key: string) => {
+    const [srcLang, targetLang, text] = key.split('\u0000');
+    return { srcLang: displayLang.get(srcLang) || srcLang, targetLang: displayLang.get(targetLang) || targetLang, key: text };
+  };
+
+  const duplicateClusters: ClusterRecord[] = [];
+  duplicates.forEach(members => {
+    if (members.length < 2) return;
+    const tu = tus[members[0]];
+    const source = tu.variants.find(v => v.lang === tu.srcLang) || tu.variants[0];
+    const text = source ? normalize(source.text) : '';
+    duplicateClusters.push({ issue: 'duplicate', key: text, srcLang: tu.srcLang, members, variants: [{ text, count: members.length }] });
+  });
+
+  return {
+    duplicate: duplicateClusters.sort(bySize),
+    target_conflict: conflictsOf(targetsBySource, key => ({ issue: 'target_conflict', ...splitPairKey(key) })).sort(bySize),
+    source_conflict: conflictsOf(sourcesByTarget, key => ({ issue: 'source_conflict', ...splitPairKey(key) })).sort(bySize),
+    segment_id_conflict: conflictsOf(contentBySegmentId, key => ({ issue: 'segment_id_conflict', key, srcLang: '' }))
+      .map(cluster => ({ ...cluster, srcLang: tus[cluster.members[0]].srcLang }))
+      .sort(bySize)
+  };
+};
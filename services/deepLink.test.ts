@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { encodeLinkedView, LinkedView, parseLinkedView } from './deepLink';
+import { DEFAULT_BATCH_OPTIONS } from './batchList';
+import { DEFAULT_LANGUAGE_VIEW } from './languageView';
+
+const UNFILTERED: LinkedView = {
+  query: '',
+  mode: 'text',
+  batch: null,
+  batchOptions: DEFAULT_BATCH_OPTIONS,
+  languages: DEFAULT_LANGUAGE_VIEW,
+  facets: [],
+  dateRanges: [],
+  sort: null,
+  unit: null,
+  files: ['f1', 'f2']
+};
+
+describe('linked views', () => {
+  it('leaves the hash empty for the unfiltered list', () => {
+    expect(encodeLinkedView(UNFILTERED)).toBe('');
+  });
+
+  it('writes only the settings that differ from their defaults', () => {
+    const hash = encodeLinkedView({ ...UNFILTERED, query: 'save', languages: { ...DEFAULT_LANGUAGE_VIEW, targets: ['de'] } });
+    expect(hash).toBe('q=save&tgt=de&files=f1%2Cf2');
+  });
+
+  it('reads back what it wrote, including flags turned off', () => {
+    const view: LinkedView = {
+      ...UNFILTERED,
+      batch: ['app.*', 'menu.save'],
+      batchOptions: { field: 'prop', propType: 'x-context', patterns: false },
+      languages: { source: 'en', targets: ['de', 'fr'], hideMissing: false },
+      facets: [{ field: 'prop', propType: 'x-domain', value: 'legal' }, { field: 'language', value: 'de-DE' }],
+      dateRanges: [{ field: 'changed', from: '2024-01-01', to: '' }],
+      sort: { field: 'changed', descending: true },
+      unit: { segmentId: 'menu.save' }
+    };
+    expect(parseLinkedView(`#${encodeLinkedView(view)}`)).toEqual(view);
+  });
+
+  it('keeps defaults for flags a link leaves out and ignores unknown values', () => {
+    const view = parseLinkedView('#q=save&mode=bogus&facet=nope:1&date=used:2024-13..&sort=size');
+    expect(view).toMatchObject({
+      query: 'save',
+      mode: 'text',
+      languages: DEFAULT_LANGUAGE_VIEW,
+      facets: [],
+      dateRanges: [],
+      sort: null
+    });
+    expect(parseLinkedView('#files=f1')).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+import { BatchOptions, DateField, DateRange, FacetField, FacetFilter, LanguageView, ListSort, NormalizedTu, SearchMode } from '../types';
+import { DEFAULT_BATCH_OPTIONS } from './batchList';
+import { DEFAULT_LANGUAGE_VIEW } from './languageView';
+
+/**
+ * The view a shareable link describes, kept in the URL hash as query parameters:
+ * #q=…&mode=…&src=…&tgt=…&facet=…&date=…&sort=…&tu=…&files=…, or #ids=…&by=… for a batch list.
+ * Settings left at their defaults are omitted. Nothing in it is sent to a server; the
+ * hash never leaves the browser.
+ */
+export interface LinkedView {
+  query: string;
+  mode: SearchMode;
+  batch: string[] | null; // entries of an active batch filter
+  batchOptions: BatchOptions;
+  languages: LanguageView;
+  facets: FacetFilter[];
+  dateRanges: DateRange[];
+  sort: ListSort | null;
+  unit: LinkTarget | null;
+  files: string[]; // fingerprints of the session's files (services/memoryStore.ts), in load order
+}
+
+/** The unit a link points at: by tuid, or by x-segment-id for units without one. */
+export type LinkTarget = { tuid: string } | { segmentId: string };
+
+const SEARCH_MODES: SearchMode[] = ['text', 'substring', 'id_partial', 'id_prefix', 'batch_id', 'query'];
+const FACET_FIELDS: FacetField[] = ['language', 'pair', 'creationid', 'changeid', 'created', 'changed', 'usage', 'prop'];
+const DATE_FIELDS: DateField[] = ['created', 'changed', 'used'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** How a unit is best pointed at; null when it has neither a tuid nor an x-segment-id. */
+export const linkTargetOf = (tu: NormalizedTu): LinkTarget | null => {
+  if (tu.attributes.tuid) return { tuid: tu.attributes.tuid };
+  if (tu.props['x-segment-id']) return { segmentId: tu.props['x-segment-id'] };
+  return null;
+};
+
+// "language:de-DE", "prop.x-domain:legal"
+const encodeFacet = (facet: FacetFilter) =>
+  `${facet.field === 'prop' ? `prop.${facet.propType || ''}` : facet.field}:${facet.value}`;
+
+const decodeFacet = (text: string): FacetFilter | null => {
+  const colon = text.indexOf(':');
+  if (colon < 0) return null;
+  const key = text.slice(0, colon);
+  const value = text.slice(colon + 1);
+  if (key.startsWith('prop.')) return { field: 'prop', propType: key.slice(5), value };
+  return FACET_FIELDS.includes(key as FacetField) && key !== 'prop' ? { field: key as FacetField, value } : null;
+};
+
+// "changed:2024-01-01..2024-03-31", either end may be empty
+const encodeDateRange = ({ field, from, to }: DateRange) => `${field}:${from}..${to}`;
+
+const decodeDateRange = (text: string): DateRange | null => {
+  const match = /^(\w+):([\d-]*)\.\.([\d-]*)$/.exec(text);
+  if (!match || !DATE_FIELDS.includes(match[1] as DateField)) return null;
+  const [from, to] = [match[2], match[3]].map(day => (DAY_PATTERN.test(day) ? day : ''));
+  return from || to ? { field: match[1] as DateField, from, to } : null;
+};
+
+// "changed" oldest first, "-changed" newest first
+const decodeSort = (text: string | null): ListSort | null => {
+  if (!text) return null;
+  const field = text.replace(/^-/, '') as DateField;
+  return DATE_FIELDS.includes(field) ? { field, descending: text.startsWith('-') } : null;
+};
+
+/** The hash for a view, without the leading '#'; empty for the unfiltered list with nothing focused. */
+export const encodeLinkedView = (view: LinkedView): string => {
+  const params = new URLSearchParams();
+  if (view.batch) {
+    params.set('ids', view.batch.join('\n'));
+    const { field, propType, patterns } = view.batchOptions;
+    if (field !== DEFAULT_BATCH_OPTIONS.field) params.set('by', field === 'prop' ? `prop.${propType}` : field);
+    if (patterns !== DEFAULT_BATCH_OPTIONS.patterns) params.set('glob', patterns ? '1' : '0');
+  } else if (view.query.trim()) {
+    params.set('q', view.query);
+    if (view.mode !== 'text') params.set('mode', view.mode);
+  }
+  if (view.languages.source) params.set('src', view.languages.source);
+  if (view.languages.targets.length > 0) params.set('tgt', view.languages.targets.join(','));
+  if (view.languages.hideMissing !== DEFAULT_LANGUAGE_VIEW.hideMissing) params.set('complete', view.languages.hideMissing ? '1' : '0');
+  view.facets.forEach(facet => params.append('facet', encodeFacet(facet)));
+  view.dateRanges.forEach(range => params.append('date', encodeDateRange(range)));
+  if (view.sort) params.set('sort', `${view.sort.descending ? '-' : ''}${view.sort.field}`);
+  if (view.unit) {
+    if ('tuid' in view.unit) params.set('tu', view.unit.tuid);
+    else params.set('seg', view.unit.segmentId);
+  }
+  if (params.toString() && view.files.length > 0) params.set('files', view.files.join(','));
+  return params.toString();
+};
+
+/** Reads a view back from a location hash; null when the hash holds none. */
+export const parseLinkedView = (hash: string): LinkedView | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const known = ['q', 'ids', 'src', 'tgt', 'complete', 'facet', 'date', 'sort', 'tu', 'seg'];
+  if (!known.some(key => params.has(key))) return null;
+
+  const mode = params.get('mode') as SearchMode | null;
+  const ids = params.get('ids');
+  const tuid = params.get('tu');
+  const segmentId = params.get('seg');
+  // Flags say 1 or 0; a missing one keeps its default
+  const flag = (key: string, fallback: boolean) => (params.has(key) ? params.get(key) === '1' : fallback);
+  const patterns = flag('glob', DEFAULT_BATCH_OPTIONS.patterns);
+  const by = params.get('by') || DEFAULT_BATCH_OPTIONS.field;
+  const batchOptions: BatchOptions = by.startsWith('prop.')
+    ? { field: 'prop', propType: by.slice(5), patterns }
+    : { field: ['tuid', 'source'].includes(by) ? (by as BatchOptions['field']) : 'segmentId', propType: '', patterns };
+  return {
+    query: params.get('q') || '',
+    mode: mode && SEARCH_MODES.includes(mode) ? mode : 'text',
+    batch: ids ? ids.split('\n').map(id => id.trim()).filter(Boolean) : null,
+    batchOptions,
+    languages: {
+      source: params.get('src') || null,
+      targets: (params.get('tgt') || '').split(',').filter(Boolean),
+      hideMissing: flag('complete', DEFAULT_LANGUAGE_VIEW.hideMissing)
+    },
+    facets: params.getAll('facet').map(decodeFacet).filter((facet): facet is FacetFilter => !!facet),
+    dateRanges: params.getAll('date').map(decodeDateRange).filter((range): range is DateRange => !!range),
+    sort: decodeSort(params.get('sort')),
+    unit: tuid ? { tuid } : segmentId ? { segmentId } : null,
+    files: (params.get('files') || '').split(',').filter(Boolean)
+  };
+};
@@ -0,0 +1,22 @@
+/**
+ * Triggers a browser download for a Blob produced in the worker.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Derives an export file name from the loaded file, e.g. "memory.tmx" -> "memory-filtered.tmx".
+ */
+export const deriveFileName = (original: string, suffix: string, extension: string) => {
+  const base = original.replace(/\.[^.]+$/, '') || 'export';
+  return `${base}${suffix ? `-${suffix}` : ''}.${extension}`;
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { compilePattern, createReplacer } from './findReplace';
+import { ReplaceOptions } from '../types';
+
+const options = (changes: Partial<ReplaceOptions>): ReplaceOptions => ({
+  find: '',
+  replace: '',
+  field: 'target',
+  languages: [],
+  propType: '',
+  regex: false,
+  unicode: false,
+  matchCase: false,
+  wholeWord: false,
+  preserveCase: false,
+  ...changes
+});
+
+const replaceIn = (text: string, changes: Partial<ReplaceOptions>) => createReplacer(options(changes))(text);
+
+describe('find and replace', () => {
+  it('replaces nothing where a pattern matches empty text', () => {
+    expect(replaceIn('Save', { find: 'x*', replace: '-', regex: true })).toEqual({ text: 'Save', count: 0 });
+    expect(replaceIn('Save', { find: '^', replace: '> ', regex: true })).toEqual({ text: 'Save', count: 0 });
+    expect(replaceIn('baaad', { find: 'a*', replace: 'o', regex: true })).toEqual({ text: 'bod', count: 1 });
+  });
+
+  it('skips matches inside longer words in whole-word mode, in any script', () => {
+    expect(replaceIn('cat concat cat_1 cat.', { find: 'cat', replace: 'dog', wholeWord: true })).toEqual({ text: 'dog concat cat_1 dog.', count: 2 });
+    expect(replaceIn('Größe Größenangabe', { find: 'größe', replace: 'Maß', wholeWord: true, preserveCase: true }).text).toBe('Maß Größenangabe');
+    expect(replaceIn('𝐀cat cat', { find: 'cat', replace: 'dog', wholeWord: true }).text).toBe('𝐀cat dog');
+  });
+
+  it('reads a regex the same way with or without whole words', () => {
+    // Without the u flag \- is a hyphen; whole words must not change that
+    expect(replaceIn('e-mail email', { find: 'e\\-mail', replace: 'mail', regex: true, wholeWord: true })).toEqual({ text: 'mail email', count: 1 });
+    expect(compilePattern(options({ find: 'a', regex: true, wholeWord: true })).flags).toBe('gi');
+  });
+
+  it('uses the u flag only when asked to', () => {
+    expect(replaceIn('Ärger', { find: '\\p{Lu}', replace: '_', regex: true }).count).toBe(0);
+    expect(replaceIn('Ärger', { find: '\\p{Lu}', replace: '_', regex: true, unicode: true, matchCase: true }).text).toBe('_rger');
+    expect(() => compilePattern(options({ find: 'e\\-mail', regex: true, unicode: true }))).toThrow();
+  });
+
+  it('expands groups in the replacement and adapts its case', () => {
+    expect(replaceIn('Save file', { find: '(\\w+) (?<what>\\w+)', replace: '$<what> $1', regex: true }).text).toBe('file Save');
+    expect(replaceIn('ACME Acme acme', { find: 'acme', replace: 'nova', preserveCase: true }).text).toBe('NOVA Nova nova');
+  });
+});
@@ -0,0 +1,141 @@
+import { NormalizedTu, ReplaceOptions, ReplaceChange, SegmentPart, TuEdit } from '../types';
+import { segmentToPlainText } from './inlineMarkup';
+
+/**
+ * Find and replace over segments and prop values. Matching runs on each text run of a
+ * segment separately, so inline tags are never touched (and a match cannot span one).
+ */
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Characters a whole-word match may not touch on either side
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+/**
+ * Builds the search pattern; throws on an invalid regular expression. The u flag is only
+ * set when asked for, since it rejects escapes plain regexes accept (\-, \_, [\w-.]).
+ */
+export const compilePattern = (options: ReplaceOptions): RegExp => {
+  const source = options.regex ? options.find : escapeRegExp(options.find);
+  return new RegExp(source, `g${options.matchCase ? '' : 'i'}${options.regex && options.unicode ? 'u' : ''}`);
+};
+
+/** Whether a match at [start, end) of the text has no letter, digit or underscore right before or after it. */
+const isWholeWord = (text: string, start: number, end: number) => {
+  // Two code units cover a character outside the BMP
+  const before = [...text.slice(Math.max(0, start - 2), start)].pop() || '';
+  const after = [...text.slice(end, end + 2)][0] || '';
+  return !WORD_CHARACTER.test(before) && !WORD_CHARACTER.test(after);
+};
+
+/** Expands $$, $&, $1..$99 and $<name> in a replacement template, as String.replace does. */
+const expandTemplate = (template: string, match: string, groups: (string | undefined)[], named?: Record<string, string | undefined>) =>
+  template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, ref: string, name?: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match;
+    if (name !== undefined) return named?.[name] ?? '';
+    const n = Number(ref);
+    return n >= 1 && n <= groups.length ? groups[n - 1] ?? '' : token;
+  });
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/** FOO -> BAR, Foo -> Bar, foo -> bar; mixed case keeps the replacement as typed. */
+const matchCase = (matched: string, replacement: string) => {
+  if (!/\p{L}/u.test(matched)) return replacement;
+  if (matched === matched.toUpperCase() && matched !== matched.toLowerCase()) {
+    // A single capital letter is more likely a capitalized word than an acronym
+    return [...matched.replace(/[^\p{L}]/gu, '')].length > 1 ? replacement.toUpperCase() : capitalize(replacement);
+  }
+  if (matched === matched.toLowerCase()) return replacement.toLowerCase();
+  const first = matched.charAt(0);
+  const rest = matched.slice(1);
+  if (first === first.toUpperCase() && rest === rest.toLowerCase()) return capitalize(replacement);
+  return replacement;
+};
+
+/**
+ * Replaces every match in a string; also reports how many there were. Empty matches
+ * (of a*, ^ or \b) replace nothing, and with whole words so do matches inside a word.
+ */
+export const createReplacer = (options: ReplaceOptions) => {
+  const pattern = compilePattern(options);
+  return (text: string): { text: string; count: number } => {
+    let count = 0;
+    const replaced = text.replace(pattern, (...args: unknown[]) => {
+      const match = args[0] as string;
+      // Trailing arguments: offset, whole string and, with named groups, the groups object
+      const hasNamed = typeof args[args.length - 1] === 'object' && args[args.length - 1] !== null;
+      const groups = args.slice(1, hasNamed ? -3 : -2) as (string | undefined)[];
+      const named = hasNamed ? (args[args.length - 1] as Record<string, string | undefined>) : undefined;
+      const offset = args[args.length - (hasNamed ? 3 : 2)] as number;
+      if (!match || (options.wholeWord && !isWholeWord(text, offset, offset + match.length))) return match;
+      count++;
+      const expanded = options.regex ? expandTemplate(options.replace, match, groups, named) : options.replace;
+      return options.preserveCase ? matchCase(match, expanded) : expanded;
+    });
+    return { text: count > 0 ? replaced : text, count };
+  };
+};
+
+type Replacer = ReturnType<typeof createReplacer>;
+
+/** The segment with replacements made in its text runs and <hi> content, or null when nothing matched. */
+const replaceInSegment = (parts: SegmentPart[], replace: Replacer): { parts: SegmentPart[]; count: number } | null => {
+  let count = 0;
+  const visit = (list: SegmentPart[]): SegmentPart[] =>
+    list.map(part => {
+      if (part.kind === 'text') {
+        const result = replace(part.text);
+        count += result.count;
+        return result.count > 0 ? { ...part, text: result.text } : part;
+      }
+      return part.name === 'hi' ? { ...part, content: visit(part.content) } : part;
+    });
+  const replaced = visit(parts);
+  return count > 0 ? { parts: replaced, count } : null;
+};
+
+const languageSelected = (lang: string, languages: string[]) =>
+  languages.length === 0 || languages.some(wanted => wanted.toLowerCase() === lang.toLowerCase());
+
+/**
+ * What replacing would do to one unit: the edit to apply and the texts it changes, or
+ * null when the unit is not affected.
+ */
+export const replaceInTu = (
+  tu: NormalizedTu,
+  options: ReplaceOptions,
+  replace: Replacer
+): { edit: TuEdit; changes: ReplaceChange[]; count: number } | null => {
+  const changes: ReplaceChange[] = [];
+  const edit: TuEdit = {};
+  let count = 0;
+
+  if (options.field === 'prop') {
+    const props = { ...tu.props };
+    Object.entries(tu.props).forEach(([type, value]) => {
+      if (options.propType && type !== options.propType) return;
+      const result = replace(value);
+      if (result.count === 0) return;
+      props[type] = result.text;
+      changes.push({ label: type, before: value, after: result.text });
+      count += result.count;
+    });
+    if (changes.length > 0) edit.props = props;
+  } else {
+    const sourceVariant = tu.variants.find(v => v.lang === tu.srcLang) || tu.variants[0];
+    const segments: NonNullable<TuEdit['segments']> = [];
+    tu.variants.forEach((variant, idx) => {
+      if ((variant === sourceVariant) !== (options.field === 'source')) return;
+      if (!languageSelected(variant.lang, options.languages)) return;
+      const result = replaceInSegment(variant.segment, replace);
+      if (!result) return;
+      segments.push({ variant: idx, segment: result.parts });
+      changes.push({ label: variant.lang, before: variant.text, after: segmentToPlainText(result.parts) });
+      count += result.count;
+    });
+    if (segments.length > 0) edit.segments = segments;
+  }
+  return changes.length > 0 ? { edit, changes, count } : null;
+};
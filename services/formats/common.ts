@@ -0,0 +1,173 @@
+import { NormalizedTu, TmxHeader, TmxAnnotation, SegmentPart, SourceFormat, CsvMapping, TmxDiagnostic } from '../../types';
+import { segmentToPlainText } from '../inlineMarkup';
+
+const CHUNK_SIZE = 2 * 1024 * 1024;
+const BATCH_SIZE = 2000;
+
+/** Where an element sits in the raw file, as [start, end) byte offsets. */
+export interface ByteSpan {
+  start: number;
+  end: number;
+}
+
+export interface FormatReadHandlers {
+  onRoot?: (version: string) => void;
+  onHeader?: (header: TmxHeader) => void;
+  /**
+   * Called with each batch of normalized TUs and the number of bytes consumed so far.
+   * Readers that can locate each unit in the file pass its byte span, parallel to `tus`.
+   */
+  onBatch: (tus: NormalizedTu[], bytesProcessed: number, spans?: ByteSpan[]) => void;
+  /**
+   * Problems found while reading, for readers that validate (TMX). Given this handler they
+   * recover from what they can and read on, rather than failing the whole file.
+   */
+  onDiagnostic?: (diagnostic: TmxDiagnostic) => void;
+}
+
+export interface FormatReadOptions {
+  csvMapping?: CsvMapping;
+}
+
+/**
+ * A pluggable reader that turns one file format into NormalizedTu batches.
+ * Readers resolve with the number of TUs produced.
+ */
+export interface FormatReader {
+  format: SourceFormat;
+  label: string;
+  extensions: string[];
+  /** Recognizes the format from the first few KB of decoded text. */
+  sniff: (head: string) => boolean;
+  read: (file: File, handlers: FormatReadHandlers, options: FormatReadOptions) => Promise<number>;
+}
+
+/**
+ * Picks a decoder from the byte order mark or the XML declaration, defaulting to UTF-8.
+ */
+export const detectEncoding = (head: Uint8Array): string => {
+  if (head[0] === 0xff && head[1] === 0xfe) return 'utf-16le';
+  if (head[0] === 0xfe && head[1] === 0xff) return 'utf-16be';
+  const prolog = new TextDecoder('ascii').decode(head.subarray(0, 200));
+  const declared = /encoding\s*=\s*["']([A-Za-z0-9._-]+)["']/.exec(prolog)?.[1];
+  if (declared) {
+    try {
+      new TextDecoder(declared);
+      return declared;
+    } catch {
+      // Unknown label, fall through to UTF-8.
+    }
+  }
+  return 'utf-8';
+};
+
+/**
+ * Decodes a File chunk by chunk, calling onText with each piece of text and the
+ * number of bytes consumed so far.
+ */
+export const streamFileText = async (
+  file: File,
+  onText: (text: string, bytesProcessed: number) => void
+): Promise<void> => {
+  let decoder: TextDecoder | null = null;
+  for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+    if (!decoder) decoder = new TextDecoder(detectEncoding(bytes));
+    onText(decoder.decode(bytes, { stream: true }), Math.min(file.size, offset + CHUNK_SIZE));
+  }
+  if (decoder) onText(decoder.decode(), file.size);
+};
+
+/** Reads a whole file (or its first `limit` bytes) as text with encoding detection. */
+export const readFileText = async (file: Blob, limit?: number): Promise<string> => {
+  const bytes = new Uint8Array(await (limit ? file.slice(0, limit) : file).arrayBuffer());
+  return new TextDecoder(detectEncoding(bytes)).decode(bytes);
+};
+
+export interface TuDraft {
+  id: string;
+  srcLang: string;
+  variants: { lang: string; segment: SegmentPart[]; attributes?: Record<string, string>; notes?: string[] }[];
+  props?: Record<string, string>;
+  notes?: string[];
+}
+
+/**
+ * Builds a NormalizedTu for formats that have no TMX attributes of their own.
+ * Props and notes become annotations so TMX export writes them out as <prop>/<note>.
+ */
+export const createNormalizedTu = (draft: TuDraft): NormalizedTu => {
+  const props = draft.props || {};
+  const toNotes = (notes?: string[]): TmxAnnotation[] =>
+    (notes || []).map(value => ({ element: 'note', value, attributes: {} }));
+
+  return {
+    id: draft.id,
+    srcLang: draft.srcLang,
+    variants: draft.variants.map(v => ({
+      lang: v.lang,
+      text: segmentToPlainText(v.segment),
+      segment: v.segment,
+      attributes: v.attributes || {},
+      annotations: toNotes(v.notes)
+    })),
+    props,
+    attributes: { tuid: draft.id },
+    annotations: [
+      ...Object.entries(props).map(([type, value]): TmxAnnotation => ({ element: 'prop', type, value, attributes: {} })),
+      ...toNotes(draft.notes)
+    ],
+    metadata: {}
+  };
+};
+
+/** Header synthesized for non-TMX sources so stats and TMX export have something to work with. */
+export const createSyntheticHeader = (srcLang: string, tmf: string, tool?: string): TmxHeader => ({
+  '@_creationtool': tool || 'TMXplorer',
+  '@_segtype': 'sentence',
+  '@_o-tmf': tmf,
+  '@_adminlang': 'en-US',
+  '@_srclang': srcLang,
+  '@_datatype': 'plaintext'
+});
+
+/** Text segment with no inline markup. */
+export const plainSegment = (text: string): SegmentPart[] => (text ? [{ kind: 'text', text }] : []);
+
+/** Hands TUs that were read all at once to the consumer in batches. */
+export const emitInBatches = (tus: NormalizedTu[], handlers: FormatReadHandlers, bytesProcessed: number) => {
+  for (let i = 0; i < tus.length; i += BATCH_SIZE) {
+    handlers.onBatch(tus.slice(i, i + BATCH_SIZE), bytesProcessed);
+  }
+};
+
+/** Element objects as produced by fast-xml-parser for the XML based formats. */
+export type XmlNode = Record<string, unknown>;
+
+const isXmlNode = (value: unknown): value is XmlNode => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Children that may repeat, as a list; those parsed as bare text are included. */
+export const toList = (value: unknown): unknown[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+/** Child elements that may repeat, as a list; those parsed as bare text are left out. */
+export const toNodeList = (value: unknown): XmlNode[] => toList(value).filter(isXmlNode);
+
+/** A single child element, when there is one. */
+export const childNode = (node: unknown, name: string): XmlNode | undefined => {
+  const value = isXmlNode(node) ? node[name] : undefined;
+  return isXmlNode(value) ? value : undefined;
+};
+
+/** An attribute's value, read from the '@_' key the parsers are configured with. */
+export const attribute = (node: unknown, name: string): string | undefined => {
+  const value = isXmlNode(node) ? node[`@_${name}`] : undefined;
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+/** Text of an element that may have been parsed as a bare string or as { '#text', attributes }. */
+export const nodeText = (node: unknown): string => {
+  if (node === undefined || node === null) return '';
+  if (isXmlNode(node)) return String(node['#text'] ?? '');
+  return String(node);
+};
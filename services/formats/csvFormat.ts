@@ -0,0 +1,147 @@
+import { NormalizedTu, CsvPreview } from '../../types';
+import { FormatReader, createNormalizedTu, createSyntheticHeader, readFileText, streamFileText, plainSegment, emitInBatches } from './common';
+
+const PREVIEW_BYTES = 64 * 1024;
+const PREVIEW_ROWS = 20;
+
+/**
+ * Incremental RFC 4180 parser: quoted fields may contain delimiters, doubled quotes
+ * and line breaks. Rows are emitted as soon as their terminating newline arrives.
+ */
+export const createCsvParser = (delimiter: string, onRow: (row: string[]) => void) => {
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  // A quote seen inside a quoted field: either an escaped quote or the closing one.
+  let quotePending = false;
+  let skipLineFeed = false;
+
+  const endRow = () => {
+    row.push(field);
+    // Blank lines are not rows
+    if (row.length > 1 || row[0] !== '') onRow(row);
+    row = [];
+    field = '';
+  };
+
+  const write = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === '\n') continue;
+      }
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (ch === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+          // fall through: the character after a closing quote is handled unquoted
+        } else if (ch === '"') {
+          quotePending = true;
+          continue;
+        } else {
+          field += ch;
+          continue;
+        }
+      }
+      if (ch === '"' && field === '') {
+        inQuotes = true;
+      } else if (ch === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (ch === '\r' || ch === '\n') {
+        endRow();
+        skipLineFeed = ch === '\r';
+      } else {
+        field += ch;
+      }
+    }
+  };
+
+  const end = () => {
+    if (quotePending) {
+      quotePending = false;
+      inQuotes = false;
+    }
+    if (field !== '' || row.length > 0) endRow();
+  };
+
+  return { write, end };
+};
+
+/** Guesses the delimiter from the first line: whichever of tab, semicolon or comma occurs most. */
+export const detectDelimiter = (sample: string): string => {
+  const firstLine = sample.split(/\r?\n/, 1)[0] || '';
+  const candidates = ['\t', ';', ','];
+  const counts = candidates.map(c => firstLine.split(c).length - 1);
+  const best = Math.max(...counts);
+  return best === 0 ? ',' : candidates[counts.indexOf(best)];
+};
+
+/**
+ * Reads the first rows of a CSV file so the user can map its columns.
+ */
+export const previewCsv = async (file: File): Promise<CsvPreview> => {
+  const text = await readFileText(file, PREVIEW_BYTES);
+  const delimiter = file.name.toLowerCase().endsWith('.tsv') ? '\t' : detectDelimiter(text);
+  const rows: string[][] = [];
+  const parser = createCsvParser(delimiter, row => rows.push(row));
+  parser.write(text);
+  // The last row may have been cut off by the preview limit
+  if (file.size <= PREVIEW_BYTES) parser.end();
+  return { delimiter, rows: rows.slice(0, PREVIEW_ROWS) };
+};
+
+export const csvFormat: FormatReader = {
+  format: 'csv',
+  label: 'CSV',
+  extensions: ['csv', 'tsv', 'txt'],
+  sniff: () => false, // plain text has no signature; chosen by extension only
+  read: async (file, handlers, { csvMapping }) => {
+    if (!csvMapping) throw new Error('CSV files need a column mapping before they can be loaded.');
+    const { columns, sourceLang, hasHeaderRow } = csvMapping;
+    const idColumn = columns.findIndex(c => c.kind === 'id');
+
+    let rowCount = 0;
+    let batch: NormalizedTu[] = [];
+    let total = 0;
+
+    const parser = createCsvParser(csvMapping.delimiter, row => {
+      rowCount++;
+      if (hasHeaderRow && rowCount === 1) return;
+
+      const id = (idColumn !== -1 && row[idColumn]) || `row-${rowCount}`;
+      const variants: { lang: string; segment: ReturnType<typeof plainSegment> }[] = [];
+      const props: Record<string, string> = {};
+
+      columns.forEach((role, idx) => {
+        const value = row[idx] ?? '';
+        if (role.kind === 'language') {
+          // Empty translations are omitted, except for the source
+          if (value || role.lang === sourceLang) variants.push({ lang: role.lang, segment: plainSegment(value) });
+        } else if (role.kind === 'prop' && value) {
+          props[role.type] = value;
+        }
+      });
+
+      if (variants.length === 0) return;
+      batch.push(createNormalizedTu({ id, srcLang: sourceLang, variants, props }));
+      total++;
+    });
+
+    handlers.onHeader?.(createSyntheticHeader(sourceLang, 'CSV'));
+    await streamFileText(file, (text, bytesProcessed) => {
+      parser.write(text);
+      emitInBatches(batch, handlers, bytesProcessed);
+      batch = [];
+    });
+    parser.end();
+    emitInBatches(batch, handlers, file.size);
+
+    return total;
+  }
+};
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { NormalizedTu, TmxHeader, CsvMapping } from '../../types';
+import { FormatReadOptions } from './common';
+import { detectFormat, getFormatReader, previewCsv } from './index';
+import { createCsvParser, detectDelimiter } from './csvFormat';
+
+const read = async (name: string, content: string, options: FormatReadOptions = {}) => {
+  const file = new File([content], name);
+  const reader = await detectFormat(file);
+  const tus: NormalizedTu[] = [];
+  let header: TmxHeader | undefined;
+  const count = await reader.read(file, { onHeader: h => (header = h), onBatch: batch => tus.push(...batch) }, options);
+  return { format: reader.format, count, tus, header };
+};
+
+const texts = (tu: NormalizedTu) => Object.fromEntries(tu.variants.map(v => [v.lang, v.text]));
+
+describe('XLIFF 1.2', () => {
+  const xliff = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en-US" target-language="de-DE" original="app.json" tool-id="Studio">
+    <body>
+      <trans-unit id="1" resname="app.save">
+        <source>Save <g id="b">now</g></source>
+        <target state="translated">Jetzt <g id="b">speichern</g></target>
+        <note>Button label</note>
+      </trans-unit>
+      <group id="dialogs">
+        <trans-unit id="2" approved="yes"><source>Cancel</source></trans-unit>
+      </group>
+    </body>
+  </file>
+</xliff>`;
+
+  it('reads units from the body and nested groups', async () => {
+    const { format, count, tus, header } = await read('app.xlf', xliff);
+    expect(format).toBe('xliff');
+    expect(count).toBe(2);
+    expect(header?.['@_srclang']).toBe('en-US');
+    expect(header?.['@_creationtool']).toBe('Studio');
+    expect(texts(tus[0])).toEqual({ 'en-US': 'Save now', 'de-DE': 'Jetzt speichern' });
+    expect(tus[1].variants.map(v => v.lang)).toEqual(['en-US']);
+  });
+
+  it('keeps ids, state, approval and notes as props and annotations', async () => {
+    const { tus } = await read('app.xlf', xliff);
+    expect(tus[0].props).toEqual({ 'x-segment-id': 'app.save', 'x-file': 'app.json', 'x-state': 'translated' });
+    expect(tus[1].props).toEqual({ 'x-segment-id': '2', 'x-file': 'app.json', 'x-approved': 'yes' });
+    expect(tus[0].annotations).toContainEqual({ element: 'note', value: 'Button label', attributes: {} });
+  });
+
+  it('maps <g> to a bpt/ept pair', async () => {
+    const { tus } = await read('app.xlf', xliff);
+    const tags = tus[0].variants[0].segment.flatMap(part => (part.kind === 'tag' ? [part.name] : []));
+    expect(tags).toEqual(['bpt', 'ept']);
+  });
+});
+
+describe('XLIFF 2', () => {
+  it('yields a unit per segment', async () => {
+    const { tus } = await read('app.xlf', `<xliff version="2.0" srcLang="en" trgLang="fr">
+      <file id="f1"><unit id="u1" name="greeting">
+        <segment id="s1"><source>Hello</source><target>Bonjour</target></segment>
+        <segment id="s2" state="final"><source>World</source><target>Monde</target></segment>
+      </unit></file></xliff>`);
+    expect(tus.map(tu => tu.id)).toEqual(['u1/s1', 'u1/s2']);
+    expect(texts(tus[1])).toEqual({ en: 'World', fr: 'Monde' });
+    expect(tus[1].props).toEqual({ 'x-segment-id': 'greeting', 'x-file': 'f1', 'x-state': 'final' });
+  });
+});
+
+describe('TBX', () => {
+  it('reads a term entry per unit with entry and term descriptions as props', async () => {
+    const { format, tus, header } = await read('terms.tbx', `<martif type="TBX" xml:lang="en">
+      <text><body>
+        <termEntry id="c1">
+          <descripGrp><descrip type="definition">A list of things</descrip></descripGrp>
+          <langSet xml:lang="en"><tig><term>list</term><termNote type="partOfSpeech">noun</termNote></tig></langSet>
+          <langSet xml:lang="de"><tig><term>Liste</term></tig></langSet>
+        </termEntry>
+      </body></text></martif>`);
+    expect(format).toBe('tbx');
+    expect(header?.['@_srclang']).toBe('en');
+    expect(tus).toHaveLength(1);
+    expect(texts(tus[0])).toEqual({ en: 'list', de: 'Liste' });
+    expect(tus[0].props).toEqual({ 'x-segment-id': 'c1', definition: 'A list of things', 'en:partOfSpeech': 'noun' });
+  });
+});
+
+describe('CSV', () => {
+  const mapping: CsvMapping = {
+    delimiter: ',',
+    hasHeaderRow: true,
+    sourceLang: 'en',
+    columns: [{ kind: 'id' }, { kind: 'language', lang: 'en' }, { kind: 'language', lang: 'de' }, { kind: 'prop', type: 'x-context' }]
+  };
+
+  it('parses quoted fields with delimiters, doubled quotes and line breaks', () => {
+    const rows: string[][] = [];
+    const parser = createCsvParser(',', row => rows.push(row));
+    parser.write('a,"b, ""c""\nd"\r\n');
+    parser.write('\ne,f');
+    parser.end();
+    expect(rows).toEqual([['a', 'b, "c"\nd'], ['e', 'f']]);
+  });
+
+  it('guesses the delimiter from the first line', () => {
+    expect(detectDelimiter('en;de;fr\na,b;c')).toBe(';');
+    expect(detectDelimiter('en\tde\n')).toBe('\t');
+    expect(detectDelimiter('single')).toBe(',');
+  });
+
+  it('reads rows through a column mapping', async () => {
+    const csv = 'key,en,de,context\nsave,Save,Speichern,toolbar\nquit,Quit,,\n';
+    const reader = getFormatReader('csv');
+    const tus: NormalizedTu[] = [];
+    await reader.read(new File([csv], 'app.csv'), { onBatch: batch => tus.push(...batch) }, { csvMapping: mapping });
+    expect(tus.map(tu => tu.id)).toEqual(['save', 'quit']);
+    expect(texts(tus[0])).toEqual({ en: 'Save', de: 'Speichern' });
+    expect(tus[0].props).toEqual({ 'x-context': 'toolbar' });
+    // Empty translations are left out
+    expect(texts(tus[1])).toEqual({ en: 'Quit' });
+  });
+
+  it('previews the first rows and refuses to load without a mapping', async () => {
+    const file = new File(['en\tde\nYes\tJa\n'], 'list.tsv');
+    expect(await previewCsv(file)).toEqual({ delimiter: '\t', rows: [['en', 'de'], ['Yes', 'Ja']] });
+    await expect(getFormatReader('csv').read(file, { onBatch: () => {} }, {})).rejects.toThrow(/column mapping/);
+  });
+});
@@ -0,0 +1,34 @@
+import { SourceFormat } from '../../types';
+import { FormatReader, readFileText } from './common';
+import { tmxFormat } from './tmxFormat';
+import { xliffFormat } from './xliffFormat';
+import { tbxFormat } from './tbxFormat';
+import { csvFormat } from './csvFormat';
+
+export { previewCsv } from './csvFormat';
+export type { FormatReader, FormatReadHandlers, FormatReadOptions } from './common';
+
+// Order matters for sniffing: the first reader that recognizes the content wins.
+const READERS: FormatReader[] = [tmxFormat, xliffFormat, tbxFormat, csvFormat];
+
+export const getFormatReader = (format: SourceFormat): FormatReader => {
+  const reader = READERS.find(r => r.format === format);
+  if (!reader) throw new Error(`Unsupported format: ${format}`);
+  return reader;
+};
+
+/**
+ * Determines a file's format from its content (for XML based formats) and falls back
+ * to its extension. Generic .xml files are always sniffed.
+ */
+export const detectFormat = async (file: File): Promise<FormatReader> => {
+  const head = await readFileText(file, 4096);
+  const sniffed = READERS.find(r => r.sniff(head));
+  if (sniffed) return sniffed;
+
+  const extension = file.name.toLowerCase().split('.').pop() || '';
+  const byExtension = READERS.find(r => r.extensions.includes(extension));
+  if (byExtension) return byExtension;
+
+  throw new Error('Unrecognized file format. Supported formats: TMX, XLIFF, TBX and CSV.');
+};
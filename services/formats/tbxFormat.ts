@@ -0,0 +1,79 @@
+import { XMLParser } from 'fast-xml-parser';
+import { NormalizedTu } from '../../types';
+import { FormatReader, createNormalizedTu, createSyntheticHeader, readFileText, plainSegment, emitInBatches, toList, toNodeList, childNode, attribute, nodeText, XmlNode } from './common';
+
+/**
+ * Collects <descrip>/<termNote>/<admin> children as props keyed by their type attribute,
+ * e.g. { definition: '...', partOfSpeech: 'noun' }.
+ */
+const collectTyped = (node: XmlNode, props: Record<string, string>, prefix = '') => {
+  ['descrip', 'termNote', 'admin', 'descripGrp'].forEach(name => {
+    toNodeList(node[name]).forEach(child => {
+      const inner = name === 'descripGrp' ? toNodeList(child.descrip)[0] : child;
+      const type = attribute(inner, 'type');
+      if (type) props[`${prefix}${type}`] = nodeText(inner);
+    });
+  });
+};
+
+/**
+ * TBX terminology: each termEntry (TBX 2) or conceptEntry (TBX 3) becomes one TU with
+ * a variant per term. Entry-level descriptions become props; term-level ones are
+ * prefixed with the language, e.g. "de-DE:partOfSpeech".
+ */
+export const tbxFormat: FormatReader = {
+  format: 'tbx',
+  label: 'TBX',
+  extensions: ['tbx'],
+  sniff: (head) => /<(martif|tbx)[\s>]/.test(head),
+  read: async (file, handlers) => {
+    const parser = new XMLParser({
+      ignoreAttributes: false,
+      attributeNamePrefix: '@_',
+      textNodeName: '#text',
+      removeNSPrefix: true,
+      parseTagValue: false,
+      htmlEntities: true,
+      isArray: (name) => ['termEntry', 'conceptEntry', 'langSet', 'langSec', 'tig', 'ntig', 'termSec', 'descrip', 'descripGrp', 'termNote', 'admin', 'note'].includes(name)
+    });
+    const parsed: unknown = parser.parse(await readFileText(file));
+    const root = childNode(parsed, 'martif') || childNode(parsed, 'tbx');
+    if (!root) throw new Error('Invalid TBX file: Missing root <martif> or <tbx> element.');
+
+    const body = childNode(childNode(root, 'text'), 'body') || {};
+    const entries = [...toNodeList(body.termEntry), ...toNodeList(body.conceptEntry)];
+    let srcLang = attribute(root, 'lang') || '';
+    const tus: NormalizedTu[] = [];
+
+    entries.forEach((entry, idx) => {
+      const id = attribute(entry, 'id') ?? `entry-${idx + 1}`;
+      const props: Record<string, string> = {};
+      collectTyped(entry, props);
+      const variants: { lang: string; segment: ReturnType<typeof plainSegment> }[] = [];
+
+      [...toNodeList(entry.langSet), ...toNodeList(entry.langSec)].forEach(langSet => {
+        const lang = attribute(langSet, 'lang') || 'unknown';
+        collectTyped(langSet, props, `${lang}:`);
+        const terms = [...toNodeList(langSet.tig), ...toNodeList(langSet.termSec), ...toNodeList(langSet.ntig).map(n => childNode(n, 'termGrp') || n)];
+        terms.forEach(term => {
+          collectTyped(term, props, `${lang}:`);
+          variants.push({ lang, segment: plainSegment(nodeText(term.term)) });
+        });
+      });
+
+      if (variants.length === 0) return;
+      srcLang = srcLang || variants[0].lang;
+      tus.push(createNormalizedTu({
+        id,
+        srcLang,
+        variants,
+        props: { 'x-segment-id': id, ...props },
+        notes: toList(entry.note).map(nodeText)
+      }));
+    });
+
+    handlers.onHeader?.(createSyntheticHeader(srcLang || 'en-US', attribute(root, 'type') || 'TBX'));
+    emitInBatches(tus, handlers, file.size);
+    return tus.length;
+  }
+};
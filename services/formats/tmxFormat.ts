@@ -0,0 +1,10 @@
+import { FormatReader } from './common';
+import { readTmxFile } from '../tmxFileReader';
+
+export const tmxFormat: FormatReader = {
+  format: 'tmx',
+  label: 'TMX',
+  extensions: ['tmx'],
+  sniff: (head) => /<tmx[\s>]/.test(head),
+  read: (file, handlers) => readTmxFile(file, handlers)
+};
@@ -0,0 +1,176 @@
+import { XMLParser } from 'fast-xml-parser';
+import { NormalizedTu, SegmentPart } from '../../types';
+import { parseSegment, InlineElementMapper } from '../inlineMarkup';
+import { FormatReader, createNormalizedTu, createSyntheticHeader, readFileText, emitInBatches, toList, toNodeList, childNode, attribute, nodeText, XmlNode } from './common';
+
+const codeOf = (source: string): SegmentPart[] => [{ kind: 'text', text: source }];
+
+/**
+ * XLIFF 1.2 inline markup: bpt/ept/ph/it carry native code like TMX; g/x/bx/ex
+ * only reference it, so their own markup is kept as the tag's code.
+ */
+const mapXliff12Element: InlineElementMapper = (name, attributes, source) => {
+  const id = attributes.id ?? '';
+  const rid = attributes.rid ?? id;
+  switch (name) {
+    case 'bpt':
+      return { action: 'tag', name: 'bpt', attributes: { i: rid } };
+    case 'ept':
+      return { action: 'tag', name: 'ept', attributes: { i: rid } };
+    case 'ph':
+      return { action: 'tag', name: 'ph', attributes: { x: id } };
+    case 'it':
+      return { action: 'tag', name: 'it', attributes: { x: id, pos: attributes.pos === 'close' ? 'end' : 'begin' } };
+    case 'sub':
+      return { action: 'tag', name: 'sub', attributes: {} };
+    case 'x':
+      return { action: 'tag', name: 'ph', attributes: { x: id }, content: codeOf(source) };
+    case 'bx':
+      return { action: 'tag', name: 'bpt', attributes: { i: rid }, content: codeOf(source) };
+    case 'ex':
+      return { action: 'tag', name: 'ept', attributes: { i: rid }, content: codeOf(source) };
+    case 'g':
+      return {
+        action: 'pair',
+        open: { kind: 'tag', name: 'bpt', attributes: { i: id }, content: codeOf(source) },
+        close: { kind: 'tag', name: 'ept', attributes: { i: id }, content: codeOf('</g>') }
+      };
+    case 'mrk':
+      return attributes.mtype === 'seg' ? { action: 'unwrap' } : { action: 'tag', name: 'hi', attributes: { type: attributes.mtype ?? '' } };
+    default:
+      return { action: 'unwrap' };
+  }
+};
+
+/** XLIFF 2.x inline markup: pc/sc/ec/ph become paired and placeholder tags. */
+const mapXliff2Element: InlineElementMapper = (name, attributes, source) => {
+  const id = attributes.id ?? '';
+  switch (name) {
+    case 'pc':
+      return {
+        action: 'pair',
+        open: { kind: 'tag', name: 'bpt', attributes: { i: id }, content: codeOf(source) },
+        close: { kind: 'tag', name: 'ept', attributes: { i: id }, content: codeOf('</pc>') }
+      };
+    case 'sc':
+      return { action: 'tag', name: 'bpt', attributes: { i: id }, content: codeOf(source) };
+    case 'ec':
+      return { action: 'tag', name: 'ept', attributes: { i: attributes.startRef ?? id }, content: codeOf(source) };
+    case 'ph':
+      return { action: 'tag', name: 'ph', attributes: { x: id }, content: codeOf(source) };
+    case 'mrk':
+      return { action: 'tag', name: 'hi', attributes: { type: attributes.type ?? '' } };
+    case 'cp': {
+      const code = parseInt(attributes.hex ?? '', 16);
+      return { action: 'text', text: Number.isFinite(code) ? String.fromCodePoint(code) : '' };
+    }
+    default:
+      return { action: 'unwrap' };
+  }
+};
+
+const createParser = () => new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  textNodeName: '#text',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  htmlEntities: true,
+  // Segment content is kept raw and parsed with the inline mappers above
+  stopNodes: ['*.source', '*.target'],
+  isArray: (name) => ['file', 'group', 'trans-unit', 'unit', 'segment', 'note'].includes(name)
+});
+
+/** Walks nested <group> elements, calling visit for each unit element found. */
+const walkUnits = (container: XmlNode, unitTag: string, visit: (unit: XmlNode) => void) => {
+  toNodeList(container[unitTag]).forEach(visit);
+  toNodeList(container.group).forEach(group => walkUnits(group, unitTag, visit));
+};
+
+const readXliff12 = (root: XmlNode, tus: NormalizedTu[]): { srcLang: string; tool?: string } => {
+  let srcLang = '';
+  let tool: string | undefined;
+
+  toNodeList(root.file).forEach(file => {
+    const fileSrc = attribute(file, 'source-language') || srcLang || 'en-US';
+    const fileTrg = attribute(file, 'target-language') || '';
+    const original = attribute(file, 'original');
+    srcLang = srcLang || fileSrc;
+    tool = tool || attribute(file, 'tool-id') || attribute(childNode(childNode(file, 'header'), 'tool'), 'tool-name');
+
+    walkUnits(childNode(file, 'body') || {}, 'trans-unit', unit => {
+      const id = attribute(unit, 'id') ?? String(tus.length);
+      const target = unit.target;
+      const variants = [{ lang: fileSrc, segment: parseSegment(nodeText(unit.source), mapXliff12Element) }];
+      if (target !== undefined) {
+        variants.push({ lang: attribute(target, 'lang') || fileTrg || 'unknown', segment: parseSegment(nodeText(target), mapXliff12Element) });
+      }
+
+      const props: Record<string, string> = { 'x-segment-id': attribute(unit, 'resname') || id };
+      const state = attribute(target, 'state');
+      const approved = attribute(unit, 'approved');
+      if (original) props['x-file'] = original;
+      if (state) props['x-state'] = state;
+      if (approved) props['x-approved'] = approved;
+
+      tus.push(createNormalizedTu({ id, srcLang: fileSrc, variants, props, notes: toList(unit.note).map(nodeText) }));
+    });
+  });
+
+  return { srcLang, tool };
+};
+
+const readXliff2 = (root: XmlNode, tus: NormalizedTu[]): { srcLang: string } => {
+  const srcLang = attribute(root, 'srcLang') || 'en-US';
+  const trgLang = attribute(root, 'trgLang') || '';
+
+  toNodeList(root.file).forEach(file => {
+    const original = attribute(file, 'original') || attribute(file, 'id');
+
+    walkUnits(file, 'unit', unit => {
+      const unitId = attribute(unit, 'id') ?? String(tus.length);
+      const segments = toNodeList(unit.segment);
+      const notes = toList(childNode(unit, 'notes')?.note).map(nodeText);
+
+      segments.forEach((segment, idx) => {
+        // Units with several segments yield one TU per segment
+        const id = segments.length > 1 ? `${unitId}/${attribute(segment, 'id') ?? idx + 1}` : unitId;
+        const variants = [{ lang: srcLang, segment: parseSegment(nodeText(segment.source), mapXliff2Element) }];
+        if (segment.target !== undefined) {
+          variants.push({ lang: trgLang || 'unknown', segment: parseSegment(nodeText(segment.target), mapXliff2Element) });
+        }
+
+        const props: Record<string, string> = { 'x-segment-id': attribute(unit, 'name') || id };
+        const state = attribute(segment, 'state');
+        if (original) props['x-file'] = original;
+        if (state) props['x-state'] = state;
+
+        tus.push(createNormalizedTu({ id, srcLang, variants, props, notes: idx === 0 ? notes : [] }));
+      });
+    });
+  });
+
+  return { srcLang };
+};
+
+export const xliffFormat: FormatReader = {
+  format: 'xliff',
+  label: 'XLIFF',
+  extensions: ['xlf', 'xliff', 'sdlxliff', 'mqxliff', 'mxliff'],
+  sniff: (head) => /<xliff[\s>]/.test(head),
+  read: async (file, handlers) => {
+    const parsed: unknown = createParser().parse(await readFileText(file));
+    const root = childNode(parsed, 'xliff');
+    if (!root) throw new Error('Invalid XLIFF file: Missing root <xliff> element.');
+
+    const version = attribute(root, 'version') || '1.2';
+    const tus: NormalizedTu[] = [];
+    const { srcLang, tool } = version.startsWith('1')
+      ? readXliff12(root, tus)
+      : { ...readXliff2(root, tus), tool: undefined };
+
+    handlers.onHeader?.(createSyntheticHeader(srcLang || 'en-US', `XLIFF ${version}`, tool));
+    emitInBatches(tus, handlers, file.size);
+    return tus.length;
+  }
+};
@@ -0,0 +1,52 @@
+/**
+ * Fuzzy match scoring in the manner of CAT tools: a word-level edit distance between a
+ * new sentence and a memory source, expressed as a percentage of the longer one.
+ * Words that differ only in case or accents cost less than a real substitution.
+ */
+
+// Ideographic characters count as one word each, punctuation marks as words of their own
+const FUZZY_TOKEN = /\p{Ideo}|[\p{Script=Hiragana}\p{Script=Katakana}]|(?:(?![\p{Ideo}\p{Script=Hiragana}\p{Script=Katakana}])[\p{L}\p{N}\p{M}])+|[^\s\p{L}\p{N}\p{M}]/gu;
+const ACCENTS = /[\u0300-\u036f]/g;
+// Cost of replacing a word with a variant of itself that differs in case or accents only
+const MINOR_EDIT_COST = 0.3;
+
+const tokensOf = (text: string) => text.match(FUZZY_TOKEN) || [];
+
+const loose = (token: string) => token.toLowerCase().normalize('NFKD').replace(ACCENTS, '');
+
+const substitutionCost = (a: string, b: string, looseA: string, looseB: string) =>
+  a === b ? 0 : looseA === looseB ? MINOR_EDIT_COST : 1;
+
+/**
+ * Match percentage (0-100) between two sentences. Returns null when the result is bound
+ * to fall below `minScore`, without running the full comparison.
+ */
+export const fuzzyScore = (query: string, candidate: string, minScore = 0): number | null => {
+  if (query === candidate) return 100;
+  const a = tokensOf(query);
+  const b = tokensOf(candidate);
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return null;
+  // Every unit of length difference is at least one insertion or deletion
+  if ((1 - Math.abs(a.length - b.length) / longest) * 100 < minScore) return null;
+
+  const looseA = a.map(loose);
+  const looseB = b.map(loose);
+  let previous = new Float64Array(b.length + 1).map((_, j) => j);
+  let current = new Float64Array(b.length + 1);
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + substitutionCost(a[i - 1], b[j - 1], looseA[i - 1], looseB[j - 1])
+      );
+    }
+    [previous, current] = [current, previous];
+  }
+
+  // Identical words in a different spacing still fall short of an exact match
+  const score = Math.min(99, Math.floor((1 - previous[b.length] / longest) * 100));
+  return score >= minScore ? score : null;
+};
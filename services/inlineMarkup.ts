@@ -0,0 +1,198 @@
+import { SegmentPart, SegmentInlineTag, InlineTagName } from '../types';
+
+const INLINE_TAGS: InlineTagName[] = ['bpt', 'ept', 'ph', 'it', 'ut', 'hi', 'sub'];
+
+// Matches, in order: CDATA sections, comments, and start/end/empty element tags.
+const MARKUP_PATTERN = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+};
+
+/**
+ * Decodes the predefined XML entities and numeric character references.
+ * Unknown entities are left untouched so nothing is silently lost.
+ */
+export const decodeXmlEntities = (text: string): string => {
+  if (text.indexOf('&') === -1) return text;
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+};
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+const pushText = (target: SegmentPart[], text: string) => {
+  if (!text) return;
+  const last = target[target.length - 1];
+  if (last && last.kind === 'text') {
+    last.text += text;
+  } else {
+    target.push({ kind: 'text', text });
+  }
+};
+
+/**
+ * How a markup element found inside segment content maps onto the TMX inline model.
+ * - tag: becomes an inline tag whose children are its content (after any preset content)
+ * - pair: becomes an opening and a closing tag around its children (e.g. XLIFF <g>)
+ * - unwrap: the element is dropped but its children are kept
+ * - text: the element is replaced by literal text (e.g. XLIFF 2 <cp>)
+ */
+export type InlineElementMapping =
+  | { action: 'tag'; name: InlineTagName; attributes: Record<string, string>; content?: SegmentPart[] }
+  | { action: 'pair'; open: SegmentInlineTag; close: SegmentInlineTag }
+  | { action: 'unwrap' }
+  | { action: 'text'; text: string };
+
+/** Maps an element (by local name, attributes and its verbatim start tag) onto the inline model. */
+export type InlineElementMapper = (name: string, attributes: Record<string, string>, source: string) => InlineElementMapping;
+
+/** TMX inline elements map onto themselves; anything else is unwrapped. */
+const mapTmxElement: InlineElementMapper = (name, attributes) => {
+  if (INLINE_TAGS.includes(name as InlineTagName)) {
+    return { action: 'tag', name: name as InlineTagName, attributes };
+  }
+  return { action: 'unwrap' };
+};
+
+/**
+ * Parses the raw inner XML of a <seg> element into an ordered list of text runs
+ * and TMX inline tags. Elements that are not TMX inline markup are unwrapped so
+ * that their text content is kept; unbalanced end tags are ignored. Other formats
+ * pass their own mapper to translate their inline markup into the same model.
+ */
+export const parseSegment = (rawXml: string, mapElement: InlineElementMapper = mapTmxElement): SegmentPart[] => {
+  const root: SegmentPart[] = [];
+  // Each frame is the child list being filled plus the element that owns it,
+  // and for paired mappings the closing tag to emit when the element ends.
+  const stack: { children: SegmentPart[]; name: string; close?: SegmentInlineTag }[] = [{ children: root, name: '' }];
+  let cursor = 0;
+
+  MARKUP_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = MARKUP_PATTERN.exec(rawXml)) !== null) {
+    const current = stack[stack.length - 1];
+    pushText(current.children, decodeXmlEntities(rawXml.slice(cursor, match.index)));
+    cursor = MARKUP_PATTERN.lastIndex;
+
+    if (match[1] !== undefined) {
+      pushText(current.children, match[1]);
+      continue;
+    }
+    const name = match[3];
+    if (!name) continue; // comment
+
+    const isClosing = match[2] === '/';
+    const isEmpty = match[5] === '/';
+    const localName = name.toLowerCase().replace(/^.*:/, '');
+
+    if (isClosing) {
+      const depth = stack.map(f => f.name).lastIndexOf(localName);
+      if (depth > 0) {
+        // Closing an outer element implicitly closes anything still open inside it
+        for (let i = stack.length - 1; i >= depth; i--) {
+          const close = stack[i].close;
+          if (close) stack[i - 1].children.push(close);
+        }
+        stack.length = depth;
+      }
+      continue;
+    }
+
+    const mapping = mapElement(localName, parseAttributes(match[4] || ''), match[0]);
+    switch (mapping.action) {
+      case 'tag': {
+        const tag: SegmentInlineTag = {
+          kind: 'tag',
+          name: mapping.name,
+          attributes: mapping.attributes,
+          content: mapping.content || []
+        };
+        current.children.push(tag);
+        if (!isEmpty) stack.push({ children: tag.content, name: localName });
+        break;
+      }
+      case 'pair':
+        current.children.push(mapping.open);
+        if (isEmpty) current.children.push(mapping.close);
+        else stack.push({ children: current.children, name: localName, close: mapping.close });
+        break;
+      case 'text':
+        pushText(current.children, mapping.text);
+        if (!isEmpty) stack.push({ children: [], name: localName }); // content is discarded
+        break;
+      case 'unwrap':
+        // Keep collecting its children into the current list.
+        if (!isEmpty) stack.push({ children: current.children, name: localName });
+        break;
+    }
+  }
+
+  pushText(stack[stack.length - 1].children, decodeXmlEntities(rawXml.slice(cursor)));
+  return root;
+};
+
+/**
+ * Returns the native code carried by an inline tag (e.g. the "<b>" inside a <bpt>),
+ * with any <sub> flows inlined.
+ */
+export const getTagCode = (tag: SegmentInlineTag): string => {
+  return tag.content.map(part => (part.kind === 'text' ? part.text : getTagCode(part))).join('');
+};
+
+/**
+ * Projects a segment onto its translatable plain text: text runs and <hi> content
+ * are kept, native code inside bpt/ept/ph/it/ut is dropped.
+ */
+export const segmentToPlainText = (parts: SegmentPart[]): string => {
+  let text = '';
+  for (const part of parts) {
+    if (part.kind === 'text') {
+      text += part.text;
+    } else if (part.name === 'hi') {
+      text += segmentToPlainText(part.content);
+    }
+  }
+  return text;
+};
+
+export const escapeXmlText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const escapeXmlAttribute = (text: string): string =>
+  escapeXmlText(text).replace(/"/g, '&quot;');
+
+export const serializeAttributes = (attributes: Record<string, string>): string =>
+  Object.entries(attributes).map(([name, value]) => ` ${name}="${escapeXmlAttribute(value)}"`).join('');
+
+/**
+ * Writes a segment model back to TMX inline markup; the inverse of parseSegment.
+ */
+export const serializeSegment = (parts: SegmentPart[]): string => {
+  return parts.map(part => {
+    if (part.kind === 'text') return escapeXmlText(part.text);
+    const attributes = serializeAttributes(part.attributes);
+    if (part.content.length === 0) return `<${part.name}${attributes}/>`;
+    return `<${part.name}${attributes}>${serializeSegment(part.content)}</${part.name}>`;
+  }).join('');
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createInvertedIndex, findTokenHits, tokenize } from './invertedIndex';
+
+const indexOf = (texts: string[]) => {
+  const index = createInvertedIndex();
+  texts.forEach((text, doc) => index.add(doc, [{ text }]));
+  return index;
+};
+
+describe('tokenizing', () => {
+  it('folds case, accents and ligatures', () => {
+    expect(tokenize('Größe Œuvre Café')).toEqual(['grosse', 'oeuvre', 'cafe']);
+  });
+
+  it('splits CJK runs into overlapping bigrams, ending with the last character alone', () => {
+    expect(tokenize('保存文件 OK')).toEqual(['保存', '存文', '文件', '件', 'ok']);
+  });
+
+  it('locates hits as word prefixes in the original text', () => {
+    expect(findTokenHits('Save the saved file', undefined, ['save'])).toEqual([{ start: 0, end: 4 }, { start: 9, end: 14 }]);
+    expect(findTokenHits('Straße', undefined, ['strass'])).toEqual([{ start: 0, end: 6 }]);
+  });
+});
+
+describe('inverted index', () => {
+  it('matches every query token as a prefix and ranks whole words first', () => {
+    const index = indexOf(['Saves are kept', 'Save the file', 'Open the file']);
+    expect(index.search('save').indices).toEqual([1, 0]);
+    expect(index.search('sav fil').indices).toEqual([1]);
+    expect(index.search('save').scores[0]).toBe(1);
+  });
+
+  it('forgets removed and truncated documents', () => {
+    const index = indexOf(['Save the file', 'Save all files', 'Save as']);
+    index.remove(0, [{ text: 'Save the file' }]);
+    expect(index.search('save').indices.sort()).toEqual([1, 2]);
+    index.truncate(2);
+    expect(index.search('save').indices).toEqual([1]);
+  });
+
+  it('filters related documents before the limit applies', () => {
+    const index = indexOf(['Save the file', 'Save the file now', 'Save the file later']);
+    expect(index.related('Save the file', 1, doc => doc !== 0)).toHaveLength(1);
+    expect(index.related('Save the file', 1, doc => doc !== 0)[0]).not.toBe(0);
+    expect(index.related('Print', 10)).toEqual([]);
+  });
+
+  it('restores a snapshot under shifted ids', () => {
+    const index = indexOf(['Save the file', 'Open the file']);
+    const copy = indexOf(['Close']);
+    copy.restore(index.snapshot(0, 2), 1);
+    expect(copy.search('file').indices.sort()).toEqual([1, 2]);
+    expect(copy.search('close').indices).toEqual([0]);
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Token index for full-text search. Text is folded (case, diacritics, a few ligatures),
+ * split into words, and CJK runs are indexed as overlapping character bigrams since
+ * they have no spaces to split on. Queries match every token of the query, each one
+ * as a word prefix, and hits are ranked with BM25.
+ */
+import { HitRange } from '../types';
+
+export interface RankedHits {
+  /** Document ids, best match first. */
+  indices: number[];
+  /** Relevance per hit, relative to the best one (1). */
+  scores: number[];
+}
+
+export interface InvertedIndex {
+  add: (doc: number, fields: { text: string; lang?: string }[]) => void;
+  /** Takes a document out again; `fields` must be the ones it was added with. */
+  remove: (doc: number, fields: { text: string; lang?: string }[]) => void;
+  /** Drops every document with an id of `docCount` or above. */
+  truncate: (docCount: number) => void;
+  search: (query: string) => RankedHits;
+  /** Documents sharing at least one whole token with the text, most similar first; `accept` filters them before the limit applies. */
+  related: (text: string, limit: number, accept?: (doc: number) => boolean) => number[];
+  /** Postings of documents [from, to), with ids relative to `from`, for storing and reloading. */
+  snapshot: (from: number, to: number) => IndexSnapshot;
+  /** Appends a snapshot's documents with ids shifted by `offset`, which must be past every indexed one. */
+  restore: (snapshot: IndexSnapshot, offset: number) => void;
+}
+
+/** Postings of a range of documents in a form that survives structured cloning compactly. */
+export interface IndexSnapshot {
+  terms: string[];
+  docs: Uint32Array[]; // per term, parallel to `terms`
+  freqs: Uint32Array[];
+  docLengths: Uint32Array;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Prefix expansions score lower than whole-word matches
+const PREFIX_WEIGHT = 0.5;
+
+// Letters that do not decompose under NFKD
+const FOLDS: Record<string, string> = { ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', đ: 'd', ł: 'l', ı: 'i', þ: 'th' };
+const FOLD_PATTERN = /[ßæœøđłıþ]/g;
+// Accents split off Latin, Greek and Cyrillic letters by NFKD; marks of other scripts
+// (Thai vowels, Devanagari signs) carry meaning and stay
+const ACCENTS = /[\u0300-\u036f]/g;
+
+const WORD = /[\p{L}\p{N}\p{M}]+/gu;
+const CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/u;
+const CJK_RUNS = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+)|([^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+)/gu;
+// Scripts written without spaces between words, which need a dictionary-based segmenter
+const UNSPACED = /[\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+const fold = (text: string) =>
+  text.toLowerCase().normalize('NFKD').replace(ACCENTS, '').normalize('NFC').replace(FOLD_PATTERN, ch => FOLDS[ch]);
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+const segmenterFor = (lang?: string) => {
+  const key = lang || '';
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    try {
+      segmenter = new Intl.Segmenter(lang || undefined, { granularity: 'word' });
+    } catch {
+      // Unknown or malformed language tag
+      segmenter = new Intl.Segmenter(undefined, { granularity: 'word' });
+    }
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+};
+
+type EmitToken = (token: string, start: number, end: number) => void;
+
+/** Bigrams of a CJK run; its last character also stands alone so every character starts a token. */
+const cjkTokens = (run: string, offset: number, emit: EmitToken) => {
+  const chars = [...run];
+  let start = offset;
+  for (let i = 0; i < chars.length; i++) {
+    const pair = i + 1 < chars.length ? chars[i] + chars[i + 1] : chars[i];
+    // NFKC only: unifies half- and full-width forms without splitting Hangul syllables into jamo
+    emit(pair.normalize('NFKC'), start, start + pair.length);
+    start += chars[i].length;
+  }
+};
+
+const wordTokens = (text: string, offset: number, lang: string | undefined, emit: EmitToken) => {
+  if (typeof Intl.Segmenter === 'function' && UNSPACED.test(text)) {
+    for (const segment of segmenterFor(lang).segment(text)) {
+      if (segment.isWordLike) emit(fold(segment.segment), offset + segment.index, offset + segment.index + segment.segment.length);
+    }
+    return;
+  }
+  for (const word of text.matchAll(WORD)) emit(fold(word[0]), offset + word.index!, offset + word.index! + word[0].length);
+};
+
+const scanTokens = (text: string, lang: string | undefined, emit: EmitToken) => {
+  if (!CJK.test(text)) {
+    wordTokens(text, 0, lang, emit);
+    return;
+  }
+  for (const run of text.matchAll(CJK_RUNS)) {
+    if (run[1]) cjkTokens(run[1], run.index!, emit);
+    else wordTokens(run[2], run.index!, lang, emit);
+  }
+};
+
+/** Folded index tokens of a text, in order. */
+export const tokenize = (text: string, lang?: string): string[] => {
+  const tokens: string[] = [];
+  scanTokens(text, lang, token => {
+    if (token) tokens.push(token);
+  });
+  return tokens;
+};
+
+/**
+ * Where the words of a text that the query tokens match (as prefixes) sit, as
+ * [start, end) offsets into the original text.
+ */
+export const findTokenHits = (text: string, lang: string | undefined, queryTokens: string[]): HitRange[] => {
+  const hits: HitRange[] = [];
+  scanTokens(text, lang, (token, start, end) => {
+    // Longest query token the word starts with
+    let queryToken = '';
+    for (const candidate of queryTokens) {
+      if (candidate.length > queryToken.length && token.startsWith(candidate)) queryToken = candidate;
+    }
+    if (!queryToken) return;
+    // A CJK bigram only matches as far as the query goes; words are marked whole
+    if (CJK.test(token)) end = Math.min(end, start + queryToken.length);
+    // CJK bigrams overlap; extend the previous hit instead of stacking ranges
+    const last = hits[hits.length - 1];
+    if (last && start <= last.end) last.end = Math.max(last.end, end);
+    else hits.push({ start, end });
+  });
+  return hits;
+};
+
+interface Postings {
+  docs: number[];
+  freqs: number[];
+}
+
+/** First position in a sorted array whose value is >= target. */
+const lowerBound = <T extends string | number>(sorted: T[], target: T) => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+export const createInvertedIndex = (): InvertedIndex => {
+  const postings = new Map<string, Postings>();
+  const docLengths: number[] = [];
+  let totalLength = 0;
+  // Sorted dictionary for prefix lookups; rebuilt on the first search after a change
+  let sortedTerms: string[] | null = null;
+
+  const countTerms = (fields: { text: string; lang?: string }[]) => {
+    const counts = new Map<string, number>();
+    let length = 0;
+    for (const field of fields) {
+      for (const token of tokenize(field.text, field.lang)) {
+        counts.set(token, (counts.get(token) || 0) + 1);
+        length++;
+      }
+    }
+    return { counts, length };
+  };
+
+  const add = (doc: number, fields: { text: string; lang?: string }[]) => {
+    const { counts, length } = countTerms(fields);
+    counts.forEach((count, term) => {
+      const list = postings.get(term);
+      if (list && list.docs[list.docs.length - 1] > doc) {
+        // Re-added after an edit; posting lists stay sorted by doc id
+        const at = lowerBound(list.docs, doc);
+        list.docs.splice(at, 0, doc);
+        list.freqs.splice(at, 0, count);
+      } else if (list) {
+        list.docs.push(doc);
+        list.freqs.push(count);
+      } else {
+        postings.set(term, { docs: [doc], freqs: [count] });
+        sortedTerms = null;
+      }
+    });
+    docLengths[doc] = length;
+    totalLength += length;
+  };
+
+  const remove = (doc: number, fields: { text: string; lang?: string }[]) => {
+    countTerms(fields).counts.forEach((_, term) => {
+      const list = postings.get(term);
+      if (!list) return;
+      const at = lowerBound(list.docs, doc);
+      if (list.docs[at] !== doc) return;
+      list.docs.splice(at, 1);
+      list.freqs.splice(at, 1);
+      if (list.docs.length === 0) {
+        postings.delete(term);
+        sortedTerms = null;
+      }
+    });
+    totalLength -= docLengths[doc] || 0;
+    docLengths[doc] = 0;
+  };
+
+  const truncate = (docCount: number) => {
+    if (docCount >= docLengths.length) return;
+    postings.forEach((list, term) => {
+      // Doc ids are appended in ascending order, so removed ones sit at the end
+      while (list.docs.length > 0 && list.docs[list.docs.length - 1] >= docCount) {
+        list.docs.pop();
+        list.freqs.pop();
+      }
+      if (list.docs.length === 0) postings.delete(term);
+    });
+    for (let doc = docCount; doc < docLengths.length; doc++) totalLength -= docLengths[doc] || 0;
+    docLengths.length = docCount;
+    sortedTerms = null;
+  };
+
+  /** Dictionary terms a query token matches: itself, then every word it is a prefix of. */
+  const expand = (token: string): { term: string; weight: number }[] => {
+    if (!sortedTerms) sortedTerms = [...postings.keys()].sort();
+    const matches: { term: string; weight: number }[] = [];
+    for (let i = lowerBound(sortedTerms, token); i < sortedTerms.length; i++) {
+      const term = sortedTerms[i];
+      if (!term.startsWith(token)) break;
+      matches.push({ term, weight: term === token ? 1 : PREFIX_WEIGHT });
+    }
+    return matches;
+  };
+
+  /** BM25 score of every document, and how many of the tokens each one matched. */
+  const scoreTokens = (tokens: string[], matchPrefixes: boolean) => {
+    const docCount = docLengths.length;
+    const averageLength = totalLength / docCount || 1;
+    const scores = new Float64Array(docCount);
+    // How many query tokens each document matched, and which token last counted it
+    const matched = new Uint16Array(docCount);
+    const lastToken = new Int32Array(docCount).fill(-1);
+
+    tokens.forEach((token, tokenIdx) => {
+      const terms = matchPrefixes ? expand(token) : postings.has(token) ? [{ term: token, weight: 1 }] : [];
+      for (const { term, weight } of terms) {
+        const list = postings.get(term)!;
+        const idf = Math.log(1 + (docCount - list.docs.length + 0.5) / (list.docs.length + 0.5));
+        for (let i = 0; i < list.docs.length; i++) {
+          const doc = list.docs[i];
+          const tf = list.freqs[i];
+          const norm = tf + K1 * (1 - B + (B * docLengths[doc]) / averageLength);
+          scores[doc] += weight * idf * ((tf * (K1 + 1)) / norm);
+          if (lastToken[doc] !== tokenIdx) {
+            lastToken[doc] = tokenIdx;
+            matched[doc]++;
+          }
+        }
+      }
+    });
+    return { scores, matched };
+  };
+
+  const search = (query: string): RankedHits => {
+    const tokens = [...new Set(tokenize(query))];
+    const docCount = docLengths.length;
+    if (tokens.length === 0 || docCount === 0) return { indices: [], scores: [] };
+
+    const { scores, matched } = scoreTokens(tokens, true);
+    const indices: number[] = [];
+    for (let doc = 0; doc < docCount; doc++) {
+      if (matched[doc] === tokens.length) indices.push(doc);
+    }
+    // Best first; equal scores keep file order
+    indices.sort((a, b) => scores[b] - scores[a] || a - b);
+    const best = indices.length > 0 ? scores[indices[0]] : 1;
+    return { indices, scores: indices.map(doc => scores[doc] / best) };
+  };
+
+  const related = (text: string, limit: number, accept?: (doc: number) => boolean): number[] => {
+    const tokens = [...new Set(tokenize(text))];
+    const docCount = docLengths.length;
+    if (tokens.length === 0 || docCount === 0) return [];
+
+    const { scores, matched } = scoreTokens(tokens, false);
+    const docs: number[] = [];
+    for (let doc = 0; doc < docCount; doc++) {
+      if (matched[doc] > 0) docs.push(doc);
+    }
+    docs.sort((a, b) => scores[b] - scores[a] || a - b);
+    if (!accept) return docs.slice(0, limit);
+    const accepted: number[] = [];
+    for (let i = 0; i < docs.length && accepted.length < limit; i++) {
+      if (accept(docs[i])) accepted.push(docs[i]);
+    }
+    return accepted;
+  };
+
+  const snapshot = (from: number, to: number): IndexSnapshot => {
+    const terms: string[] = [];
+    const docs: Uint32Array[] = [];
+    const freqs: Uint32Array[] = [];
+    postings.forEach((list, term) => {
+      const start = lowerBound(list.docs, from);
+      const end = lowerBound(list.docs, to);
+      if (start === end) return;
+      terms.push(term);
+      docs.push(Uint32Array.from(list.docs.slice(start, end), doc => doc - from));
+      freqs.push(Uint32Array.from(list.freqs.slice(start, end)));
+    });
+    const lengths = new Uint32Array(to - from);
+    for (let doc = from; doc < to; doc++) lengths[doc - from] = docLengths[doc] || 0;
+    return { terms, docs, freqs, docLengths: lengths };
+  };
+
+  const restore = (stored: IndexSnapshot, offset: number) => {
+    stored.terms.forEach((term, i) => {
+      let list = postings.get(term);
+      if (!list) {
+        list = { docs: [], freqs: [] };
+        postings.set(term, list);
+      }
+      const docs = stored.docs[i];
+      const freqs = stored.freqs[i];
+      for (let j = 0; j < docs.length; j++) {
+        list.docs.push(docs[j] + offset);
+        list.freqs.push(freqs[j]);
+      }
+    });
+    stored.docLengths.forEach((length, i) => {
+      docLengths[offset + i] = length;
+      totalLength += length;
+    });
+    sortedTerms = null;
+  };
+
+  return { add, remove, truncate, search, related, snapshot, restore };
+};
@@ -0,0 +1,57 @@
+import { LanguageView, NormalizedTu } from '../types';
+
+/**
+ * Arranging a unit's variants for the chosen language view. Language codes compare
+ * case-insensitively, since memories mix en-US and en-us.
+ */
+
+export const DEFAULT_LANGUAGE_VIEW: LanguageView = { source: null, targets: [], hideMissing: true };
+
+const sameLang = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const languageNames = typeof Intl.DisplayNames === 'function'
+  ? new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' })
+  : null;
+
+/**
+ * Whether a code is well-formed BCP 47 with a language subtag the runtime knows.
+ * Private-use and grandfathered tags (x-…, i-…) pass as they are.
+ */
+export const isKnownLanguage = (code: string): boolean => {
+  let canonical: string;
+  try {
+    [canonical] = Intl.getCanonicalLocales(code);
+  } catch {
+    return false;
+  }
+  if (!canonical) return false;
+  if (/^[xi]-/i.test(code)) return true;
+  const primary = canonical.split('-')[0];
+  return languageNames ? languageNames.of(primary) !== undefined : /^[a-z]{2,3}$/.test(primary);
+};
+
+/** Whether the view narrows anything down, i.e. differs from showing every unit as it is. */
+export const isLanguageFiltered = (view: LanguageView) => view.hideMissing && (view.source !== null || view.targets.length > 0);
+
+/**
+ * The variant for the source column, the ones for the target columns and how many are
+ * left out. Units without the pivot language fall back to their own source.
+ */
+export const arrangeVariants = (tu: NormalizedTu, view: LanguageView) => {
+  const ownSource = tu.variants.find(v => v.lang === tu.srcLang) || tu.variants[0];
+  const pivot = view.source ? tu.variants.find(v => sameLang(v.lang, view.source!)) : undefined;
+  const source = pivot || ownSource;
+  const others = tu.variants.filter(v => v !== source);
+  const targets = view.targets.length > 0
+    ? view.targets.flatMap(lang => others.filter(v => sameLang(v.lang, lang)))
+    : others;
+  return { source, targets, hidden: others.length - targets.length };
+};
+
+/** Whether a unit has what the view asks for: the pivot language and at least one target. */
+export const matchesLanguageView = (tu: NormalizedTu, view: Pick<LanguageView, 'source' | 'targets'>) => {
+  const has = (lang: string) => tu.variants.some(v => sameLang(v.lang, lang));
+  const source = view.source || tu.srcLang;
+  if (view.source && !has(view.source)) return false;
+  return view.targets.length === 0 || view.targets.some(lang => !sameLang(lang, source) && has(lang));
+};
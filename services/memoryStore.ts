@@ -0,0 +1,223 @@
+/**
+ * Local persistence in IndexedDB: parsed memories with their search index, so reopening
+ * a file skips parsing and indexing, and the working state of each session. Nothing
+ * leaves the browser. Used by the worker (memories) and the main thread (recent files,
+ * sessions); every function fails soft where IndexedDB is unavailable.
+ */
+import { ByteSpan } from './formats/common';
+import { IndexSnapshot } from './invertedIndex';
+import { DiagnosticLog } from './tmxValidator';
+import { CsvMapping, NormalizedTu, RecentFile, SavedSession, SourceFormat, TmxHeader } from '../types';
+
+/** A parsed file as the worker restores it: its units and their slice of the search index. */
+export interface StoredMemory {
+  schema: number; // MEMORY_SCHEMA when it was stored
+  fingerprint: string;
+  format: SourceFormat;
+  label: string;
+  header: TmxHeader;
+  version: string;
+  tus: NormalizedTu[];
+  index: IndexSnapshot;
+  spans: ByteSpan[] | null; // byte ranges of the units, valid since the bytes are identical
+  diagnostics?: DiagnosticLog; // validator findings, for TMX files
+  csvMapping?: CsvMapping; // the column mapping a CSV file was read with
+}
+
+/**
+ * Shape of stored memories: units, index and findings as this version of the app builds
+ * them. Raised whenever that changes; copies of another schema are read from the file again.
+ * 2: validator findings, lastUsageDate and dates taken from the variants.
+ */
+export const MEMORY_SCHEMA = 2;
+
+const DB_NAME = 'tmxplorer';
+// The object stores; what is kept in them is versioned by MEMORY_SCHEMA
+const DB_VERSION = 1;
+
+// Parsed memories are large; only the most recently opened ones are kept
+const MAX_MEMORIES = 5;
+const MAX_SESSIONS = 20;
+
+// Whether the user lets files be kept at all; a plain flag, so it lives in localStorage
+const REMEMBER_KEY = 'tmxplorer.rememberFiles';
+
+type StoreName = 'recent' | 'files' | 'memories' | 'sessions';
+
+export const isStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+export const isRememberingFiles = (): boolean => {
+  try {
+    return isStorageAvailable() && localStorage.getItem(REMEMBER_KEY) !== 'off';
+  } catch {
+    return false;
+  }
+};
+
+export const setRememberingFiles = (remember: boolean) => {
+  try {
+    localStorage.setItem(REMEMBER_KEY, remember ? 'on' : 'off');
+  } catch {
+    // Storage disabled; the choice lasts for this page only
+  }
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('recent', { keyPath: 'fingerprint' });
+        db.createObjectStore('files');
+        db.createObjectStore('memories', { keyPath: 'fingerprint' });
+        db.createObjectStore('sessions', { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('Local storage is in use by another tab.'));
+    });
+    // Let a later call try again
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+/**
+ * Runs `body` in one transaction and resolves with the result of the request it returns
+ * once the transaction has committed.
+ */
+const transact = async <T>(
+  stores: StoreName[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const request = body(tx);
+    tx.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Local storage transaction aborted.'));
+  });
+};
+
+/**
+ * Content hash of a file, read in chunks: two 32-bit FNV-1a lanes with different seeds,
+ * prefixed by the size. Identical bytes give the same fingerprint under any file name.
+ */
+export const fingerprintFile = async (file: File): Promise<string> => {
+  const reader = file.stream().getReader();
+  let a = 0x811c9dc5;
+  let b = 0x01000193 ^ file.size;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      a = Math.imul(a ^ value[i], 0x01000193);
+      b = Math.imul(b ^ value[i], 0x5bd1e995);
+      b ^= b >>> 15;
+    }
+  }
+  const hex = (n: number) => (n >>> 0).toString(16).padStart(8, '0');
+  return `${file.size}:${hex(a)}${hex(b)}`;
+};
+
+/** The stored copy of a file, unless there is none or it was built by another schema. */
+export const getStoredMemory = async (fingerprint: string): Promise<StoredMemory | undefined> => {
+  if (!isStorageAvailable()) return undefined;
+  const memory = await transact<StoredMemory | undefined>(['memories'], 'readonly', tx => tx.objectStore('memories').get(fingerprint));
+  return memory?.schema === MEMORY_SCHEMA ? memory : undefined;
+};
+
+export const listRecentFiles = async (): Promise<RecentFile[]> => {
+  if (!isStorageAvailable()) return [];
+  const recent = await transact<RecentFile[]>(['recent'], 'readonly', tx => tx.objectStore('recent').getAll());
+  return recent.sort((x, y) => y.openedAt - x.openedAt);
+};
+
+/** The file as it was opened, under its original name. */
+export const getStoredFile = async (fingerprint: string): Promise<File | undefined> => {
+  if (!isStorageAvailable()) return undefined;
+  return transact<File | undefined>(['files'], 'readonly', tx => tx.objectStore('files').get(fingerprint));
+};
+
+/** Drops everything kept for a file; sessions that used it can no longer be resumed. */
+export const forgetFile = async (fingerprint: string): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await transact(['recent', 'files', 'memories'], 'readwrite', tx => {
+    tx.objectStore('recent').delete(fingerprint);
+    tx.objectStore('files').delete(fingerprint);
+    tx.objectStore('memories').delete(fingerprint);
+  });
+};
+
+export const forgetAll = async (): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await transact(['recent', 'files', 'memories', 'sessions'], 'readwrite', tx => {
+    (['recent', 'files', 'memories', 'sessions'] as StoreName[]).forEach(name => tx.objectStore(name).clear());
+  });
+};
+
+/** Stores a parsed file, then evicts the least recently opened ones beyond the limit. */
+export const storeMemory = async (memory: StoredMemory, file: File, recent: RecentFile): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await transact(['recent', 'files', 'memories'], 'readwrite', tx => {
+    tx.objectStore('memories').put(memory);
+    tx.objectStore('files').put(file, memory.fingerprint);
+    tx.objectStore('recent').put(recent);
+  });
+  const stale = (await listRecentFiles()).slice(MAX_MEMORIES);
+  for (const entry of stale) await forgetFile(entry.fingerprint);
+};
+
+/** Marks a stored file as just opened, so eviction keeps it. */
+export const touchRecentFile = async (fingerprint: string, name: string): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await transact(['recent'], 'readwrite', tx => {
+    const store = tx.objectStore('recent');
+    const request = store.get(fingerprint);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, name, openedAt: Date.now() });
+    };
+  });
+};
+
+/** Sessions are keyed by the fingerprints of their files, in load order. */
+export const sessionKeyOf = (fingerprints: string[]) => fingerprints.join('|');
+
+export const saveSession = async (session: SavedSession): Promise<void> => {
+  if (!isStorageAvailable()) return;
+  await transact(['sessions'], 'readwrite', tx => {
+    tx.objectStore('sessions').put(session);
+  });
+  const sessions = await transact<SavedSession[]>(['sessions'], 'readonly', tx => tx.objectStore('sessions').getAll());
+  const stale = sessions.sort((x, y) => y.savedAt - x.savedAt).slice(MAX_SESSIONS);
+  if (stale.length > 0) {
+    await transact(['sessions'], 'readwrite', tx => {
+      stale.forEach(entry => tx.objectStore('sessions').delete(entry.key));
+    });
+  }
+};
+
+export const loadSession = async (key: string): Promise<SavedSession | undefined> => {
+  if (!isStorageAvailable()) return undefined;
+  return transact<SavedSession | undefined>(['sessions'], 'readonly', tx => tx.objectStore('sessions').get(key));
+};
+
+/** The most recently saved session whose files are all still stored. */
+export const lastSession = async (): Promise<SavedSession | undefined> => {
+  if (!isStorageAvailable()) return undefined;
+  const [sessions, recent] = await Promise.all([
+    transact<SavedSession[]>(['sessions'], 'readonly', tx => tx.objectStore('sessions').getAll()),
+    listRecentFiles()
+  ]);
+  const stored = new Set(recent.map(entry => entry.fingerprint));
+  return sessions
+    .filter(session => session.files.every(file => stored.has(file.fingerprint)))
+    .sort((x, y) => y.savedAt - x.savedAt)[0];
+};
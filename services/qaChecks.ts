@@ -0,0 +1,210 @@
+import { NormalizedTu, TuVariant, SegmentPart, QaCheckId, QaSeverity, QaIssue, QaConfig } from '../types';
+
+interface QaCheckInfo {
+  label: string;
+  severity: QaSeverity;
+  description: string;
+}
+
+export const QA_CHECKS: Record<QaCheckId, QaCheckInfo> = {
+  placeholders: { label: 'Placeholders', severity: 'error', description: 'Missing or extra {0}, %s or ICU arguments' },
+  numbers: { label: 'Numbers', severity: 'warning', description: 'Numbers in the source missing from the target, or vice versa' },
+  tags: { label: 'Inline tags', severity: 'error', description: 'Missing, extra or unbalanced inline tags' },
+  whitespace: { label: 'Leading/trailing spaces', severity: 'warning', description: 'Leading or trailing whitespace differs from the source' },
+  double_spaces: { label: 'Double spaces', severity: 'info', description: 'Repeated spaces in the target that the source does not have' },
+  punctuation: { label: 'End punctuation', severity: 'warning', description: 'Terminal punctuation differs from the source' },
+  empty_target: { label: 'Empty target', severity: 'error', description: 'Target is empty while the source is not' },
+  length_ratio: { label: 'Length ratio', severity: 'info', description: 'Target is unusually short or long for its source' }
+};
+
+export const QA_CHECK_IDS = Object.keys(QA_CHECKS) as QaCheckId[];
+
+export const DEFAULT_QA_CONFIG: QaConfig = {
+  checks: QA_CHECK_IDS,
+  minLengthRatio: 0.3,
+  maxLengthRatio: 3
+};
+
+// Sources shorter than this make length ratios meaningless
+const MIN_RATIO_SOURCE_LENGTH = 10;
+
+// printf-style (%s, %1$d, %.2f), .NET/ICU style ({0}, {name}, {count, plural, ...}) and %{name}.
+// Escaped %% is matched so it cannot start a placeholder, then dropped.
+const PRINTF_PATTERN = /%%|%(?:\d+\$)?[-+0#]*\d*(?:\.\d+)?(?:hh|h|ll|l|L|z|j|t)?[sdifuxXeEgGcpo@]|%\{[\w.]+\}/g;
+const BRACE_ARGUMENT_PATTERN = /\{\s*([\w.]+)\s*(?=[,}])/g;
+const NUMBER_PATTERN = /\d+(?:[.,'\u00a0\u202f]\d+)*/g;
+
+// Equivalent sentence-final punctuation across scripts
+const TERMINAL_CLASSES: [string, RegExp][] = [
+  ['ellipsis', /(…|\.\.\.)$/],
+  ['period', /[.。।۔]$/],
+  ['question', /[?？؟\u037e]$/],
+  ['exclamation', /[!！]$/],
+  ['colon', /[:：]$/],
+  ['semicolon', /[;；؛]$/]
+];
+// Closing quotes and brackets are skipped when looking for the final punctuation
+const TRAILING_CLOSERS = /[\s"'“”‘’«»‹›」』)\]]+$/;
+
+const countValues = (values: string[]) => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return counts;
+};
+
+/** Values present more often in `a` than in `b`, each listed once. */
+const surplus = (a: Map<string, number>, b: Map<string, number>) =>
+  [...a].filter(([value, count]) => count > (b.get(value) || 0)).map(([value]) => value);
+
+const placeholdersOf = (text: string): string[] => [
+  ...(text.match(PRINTF_PATTERN) || []).filter(match => match !== '%%'),
+  ...[...text.matchAll(BRACE_ARGUMENT_PATTERN)].map(m => `{${m[1]}}`)
+];
+
+const stripPlaceholders = (text: string) => text.replace(PRINTF_PATTERN, ' ').replace(/\{[^{}]*\}/g, ' ');
+
+/** Digits only, so 1,000.5 and 1.000,5 compare equal. */
+const numbersOf = (text: string): string[] =>
+  (stripPlaceholders(text).match(NUMBER_PATTERN) || []).map(n => n.replace(/\D/g, ''));
+
+/** Labels for the inline tags of a segment, in the spirit of SegmentView's chips. */
+const tagsOf = (parts: SegmentPart[], labels: string[] = []): string[] => {
+  for (const part of parts) {
+    if (part.kind !== 'tag') continue;
+    const { i, x, pos } = part.attributes;
+    switch (part.name) {
+      case 'bpt':
+        labels.push(`<${i ?? ''}>`);
+        break;
+      case 'ept':
+        labels.push(`</${i ?? ''}>`);
+        break;
+      case 'it':
+        labels.push(pos === 'end' ? `</${x ?? 'it'}>` : `<${x ?? 'it'}>`);
+        break;
+      case 'ph':
+      case 'ut':
+        labels.push(`<${x ?? part.name}/>`);
+        break;
+      default:
+        // hi/sub carry translatable text; look inside
+        tagsOf(part.content, labels);
+    }
+  }
+  return labels;
+};
+
+/** bpt/ept pairs by `i`: an ept before its bpt, or either one alone, is unbalanced. */
+const unbalancedTags = (parts: SegmentPart[]): string[] => {
+  const open = new Set<string>();
+  const problems: string[] = [];
+  for (const part of parts) {
+    if (part.kind !== 'tag') continue;
+    const i = part.attributes.i ?? '';
+    if (part.name === 'bpt') {
+      open.add(i);
+    } else if (part.name === 'ept') {
+      if (open.has(i)) open.delete(i);
+      else problems.push(`</${i}> without opening tag`);
+    }
+  }
+  open.forEach(i => problems.push(`<${i}> never closed`));
+  return problems;
+};
+
+const terminalClass = (text: string): string | null => {
+  const trimmed = text.replace(TRAILING_CLOSERS, '');
+  return TERMINAL_CLASSES.find(([, pattern]) => pattern.test(trimmed))?.[0] ?? null;
+};
+
+const list = (values: string[]) => values.join(', ');
+
+type PairCheck = (source: TuVariant, target: TuVariant, config: QaConfig) => string[];
+
+const PAIR_CHECKS: Record<QaCheckId, PairCheck> = {
+  empty_target: (source, target) =>
+    source.text.trim() && !target.text.trim() && tagsOf(target.segment).length === 0 ? ['Target is empty'] : [],
+
+  placeholders: (source, target) => {
+    const src = countValues(placeholdersOf(source.text));
+    const trg = countValues(placeholdersOf(target.text));
+    const missing = surplus(src, trg);
+    const extra = surplus(trg, src);
+    return [
+      ...(missing.length ? [`Missing placeholders: ${list(missing)}`] : []),
+      ...(extra.length ? [`Extra placeholders: ${list(extra)}`] : [])
+    ];
+  },
+
+  numbers: (source, target) => {
+    const src = countValues(numbersOf(source.text));
+    const trg = countValues(numbersOf(target.text));
+    const missing = surplus(src, trg);
+    const extra = surplus(trg, src);
+    return [
+      ...(missing.length ? [`Numbers missing in target: ${list(missing)}`] : []),
+      ...(extra.length ? [`Numbers not in source: ${list(extra)}`] : [])
+    ];
+  },
+
+  tags: (source, target) => {
+    const src = countValues(tagsOf(source.segment));
+    const trg = countValues(tagsOf(target.segment));
+    const missing = surplus(src, trg);
+    const extra = surplus(trg, src);
+    return [
+      ...(missing.length ? [`Missing tags: ${list(missing)}`] : []),
+      ...(extra.length ? [`Extra tags: ${list(extra)}`] : []),
+      ...unbalancedTags(target.segment).map(problem => `Unbalanced tag: ${problem}`)
+    ];
+  },
+
+  whitespace: (source, target) => {
+    const problems: string[] = [];
+    if (/^\s/.test(source.text) !== /^\s/.test(target.text)) problems.push('Leading whitespace differs from source');
+    if (/\s$/.test(source.text) !== /\s$/.test(target.text)) problems.push('Trailing whitespace differs from source');
+    return problems;
+  },
+
+  double_spaces: (source, target) =>
+    / {2,}/.test(target.text.trim()) && !/ {2,}/.test(source.text.trim()) ? ['Target contains double spaces'] : [],
+
+  punctuation: (source, target) => {
+    const src = terminalClass(source.text);
+    const trg = terminalClass(target.text);
+    if (src === trg) return [];
+    if (!src) return [`Target ends with ${trg} punctuation, source does not`];
+    if (!trg) return [`Source ends with ${src} punctuation, target does not`];
+    return [`Ends with ${trg} instead of ${src}`];
+  },
+
+  length_ratio: (source, target, config) => {
+    const sourceLength = source.text.trim().length;
+    const targetLength = target.text.trim().length;
+    if (sourceLength < MIN_RATIO_SOURCE_LENGTH || targetLength === 0) return [];
+    const ratio = targetLength / sourceLength;
+    if (ratio < config.minLengthRatio || ratio > config.maxLengthRatio) {
+      return [`Target is ${ratio.toFixed(2)}× the source length`];
+    }
+    return [];
+  }
+};
+
+/**
+ * Runs the enabled checks over every source/target pair of a unit.
+ */
+export const runQaChecks = (tu: NormalizedTu, config: QaConfig): QaIssue[] => {
+  const source = tu.variants.find(v => v.lang === tu.srcLang);
+  if (!source) return [];
+  const issues: QaIssue[] = [];
+
+  for (const target of tu.variants) {
+    if (target === source) continue;
+    for (const check of config.checks) {
+      for (const message of PAIR_CHECKS[check](source, target, config)) {
+        issues.push({ check, severity: QA_CHECKS[check].severity, lang: target.lang, message });
+      }
+    }
+  }
+  return issues;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { compileHighlighter, compileQuery, parseQuery, QuerySyntaxError } from './queryLanguage';
+import { normalizeTu, parseTmxContent } from './tmxParser';
+import { tmxDocument, tmxUnit } from './testing/workerHarness';
+
+const UNITS = parseTmxContent(tmxDocument([
+  tmxUnit('save', { en: 'Save the file', 'de-DE': 'Datei speichern', fr: 'Enregistrer' }, 'changedate="20240305T120000Z" changeid="jdoe"'),
+  tmxUnit('cancel', { en: 'Cancel', 'de-DE': 'Abbrechen', fr: 'Annuler le fichier' }, 'changedate="20230101T000000Z"'),
+  tmxUnit('open', { en: 'Open', 'de-DE': 'Öffnen' })
+].join(''))).tmx.body.tu.map((tu, idx) => normalizeTu(tu, idx, 'en'));
+
+const matching = (query: string) => {
+  const test = compileQuery(parseQuery(query)!);
+  return UNITS.filter(test).map(tu => tu.id);
+};
+
+/** The syntax error a query raises, as [message, position]. */
+const syntaxError = (query: string) => {
+  try {
+    parseQuery(query);
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) return [err.message, err.position];
+    throw err;
+  }
+  return null;
+};
+
+describe('query language', () => {
+  it('combines terms with AND, OR, NOT and parentheses', () => {
+    expect(matching('save file')).toEqual(['save']);
+    expect(matching('save OR cancel')).toEqual(['save', 'cancel']);
+    expect(matching('(save | open) -source:open')).toEqual(['save']);
+    expect(matching('NOT id=save')).toEqual(['cancel', 'open']);
+  });
+
+  it('narrows target and text terms to the languages of lang: terms beside them', () => {
+    expect(matching('target:fichier')).toEqual(['cancel']);
+    expect(matching('lang:de-de target:fichier')).toEqual([]);
+    expect(matching('target.fr:fichier')).toEqual(['cancel']);
+    expect(matching('target:/^Datei/')).toEqual(['save']);
+  });
+
+  it('compares dates and matches metadata fields', () => {
+    expect(matching('changed>=2024-01-01')).toEqual(['save']);
+    expect(matching('changed<2024')).toEqual(['cancel']);
+    expect(matching('changeid:jd')).toEqual(['save']);
+  });
+
+  it('reports malformed queries with the position of the problem', () => {
+    expect(parseQuery('   ')).toBeNull();
+    expect(syntaxError('target:"Datei')).toEqual(['Unclosed quote', 7]);
+    expect(syntaxError('lang:de changed>last-week')).toEqual(['Invalid date "last-week", use YYYY-MM-DD', 16]);
+    expect(syntaxError('source>3')).toEqual(['source cannot be compared with >', 0]);
+    expect(syntaxError('save -')).toEqual(['Nothing to negate', 5]);
+  });
+
+  it('highlights the text terms of a query, not the negated ones', () => {
+    const highlight = compileHighlighter(parseQuery('lang:de-DE target:datei -source:cancel')!);
+    expect(highlight(UNITS[0])).toEqual([[], [{ start: 0, end: 5 }], []]);
+  });
+});
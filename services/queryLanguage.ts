@@ -0,0 +1,457 @@
+import { HitRange, NormalizedTu, QueryField, QueryNode, QueryOperator, QueryValue, TuVariant } from '../types';
+import { dateDigits, parseTmxDate } from './tmxDates';
+
+/**
+ * Structured search syntax, e.g.
+ *   lang:de-DE target:"Speichern" -source:/^Cancel/ prop:x-context=button changeid:jdoe changed>2024-01-01
+ *
+ * Terms next to each other must all match; OR (or |) offers alternatives, NOT (or a
+ * leading -) negates, and parentheses group. Values are bare words, "quoted phrases" or
+ * /regular expressions/flags. `field:value` matches a substring and `field=value` the
+ * whole value, both ignoring case; dates and usage counts also take >, >=, < and <=.
+ * Inside an AND group, lang: terms also narrow the target: and text: terms next to them.
+ */
+
+export class QuerySyntaxError extends Error {
+  /** Offset into the query where the problem was found. */
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type FieldKind = 'text' | 'lang' | 'prop' | 'date' | 'number';
+
+const FIELDS: Record<Exclude<QueryField, 'any'>, FieldKind> = {
+  source: 'text',
+  target: 'text',
+  text: 'text',
+  lang: 'lang',
+  id: 'text',
+  segid: 'text',
+  prop: 'prop',
+  changeid: 'text',
+  creationid: 'text',
+  changed: 'date',
+  created: 'date',
+  used: 'date',
+  usage: 'number'
+};
+
+// Fields that take a language suffix, as in target.de-DE:
+const LANGUAGE_FIELDS = new Set<QueryField>(['target', 'text']);
+
+const DATE_PATTERN = /^\d{4}(-?\d{2}(-?\d{2}([T ]?\d{2}(:?\d{2}(:?\d{2})?)?)?)?)?$/;
+const REGEX_FLAGS = /^[imsu]*$/;
+
+const isFieldName = (name: string): name is Exclude<QueryField, 'any'> => Object.prototype.hasOwnProperty.call(FIELDS, name);
+
+/**
+ * Parses a query into a tree the worker can evaluate; returns null for a blank query.
+ * Throws QuerySyntaxError for malformed input.
+ */
+export const parseQuery = (input: string): QueryNode | null => {
+  if (!input.trim()) return null;
+  let pos = 0;
+
+  const peek = () => input[pos];
+  const atEnd = () => pos >= input.length;
+
+  const skipSpace = () => {
+    while (!atEnd() && /\s/.test(input[pos])) pos++;
+  };
+
+  /** Consumes an upper-case keyword when it stands alone. */
+  const keyword = (word: string): boolean => {
+    const end = pos + word.length;
+    if (input.startsWith(word, pos) && (end === input.length || /[\s()]/.test(input[end]))) {
+      pos = end;
+      return true;
+    }
+    return false;
+  };
+
+  const atOr = (): boolean => {
+    skipSpace();
+    if (peek() === '|') {
+      pos++;
+      return true;
+    }
+    return keyword('OR');
+  };
+
+  const parseValue = (): QueryValue => {
+    const start = pos;
+
+    if (peek() === '"') {
+      let text = '';
+      pos++;
+      while (!atEnd() && peek() !== '"') {
+        if (peek() === '\\' && pos + 1 < input.length) pos++;
+        text += input[pos++];
+      }
+      if (atEnd()) throw new QuerySyntaxError('Unclosed quote', start);
+      pos++;
+      return { kind: 'phrase', text };
+    }
+
+    if (peek() === '/') {
+      let pattern = '';
+      pos++;
+      while (!atEnd() && peek() !== '/') {
+        // Keep escapes for RegExp, but do not let an escaped slash end the pattern
+        if (peek() === '\\' && pos + 1 < input.length) pattern += input[pos++];
+        pattern += input[pos++];
+      }
+      if (atEnd()) throw new QuerySyntaxError('Unclosed regular expression', start);
+      pos++;
+      const flags = /^[a-z]*/.exec(input.slice(pos))![0];
+      pos += flags.length;
+      if (!REGEX_FLAGS.test(flags)) throw new QuerySyntaxError(`Unsupported regular expression flags "${flags}"`, start);
+      try {
+        new RegExp(pattern, flags);
+      } catch (err) {
+        // The engine's message already names the problem and the pattern
+        throw new QuerySyntaxError(err instanceof Error ? err.message : `Invalid regular expression /${pattern}/`, start);
+      }
+      return { kind: 'regex', pattern, flags };
+    }
+
+    const word = /^[^\s()"]+/.exec(input.slice(pos));
+    if (!word) throw new QuerySyntaxError('Expected a search term', start);
+    pos += word[0].length;
+    return { kind: 'term', text: word[0] };
+  };
+
+  /** prop:type tests presence, prop:type=value the value. */
+  const parsePropClause = (start: number): QueryNode => {
+    const typeMatch = /^[^\s()=]+/.exec(input.slice(pos));
+    if (!typeMatch) throw new QuerySyntaxError('Missing prop type after prop:', pos);
+    const propType = typeMatch[0];
+    pos += propType.length;
+
+    if (peek() !== '=') return { type: 'field', field: 'prop', op: ':', value: null, propType };
+    pos++;
+    if (atEnd() || /[\s)]/.test(peek())) {
+      throw new QuerySyntaxError(`Missing value for prop ${propType}`, start);
+    }
+    return { type: 'field', field: 'prop', op: '=', value: parseValue(), propType };
+  };
+
+  const parseClause = (): QueryNode => {
+    const start = pos;
+    const field = /^([a-z]+)(?:\.([A-Za-z0-9-]+))?(>=|<=|[:=<>])/i.exec(input.slice(pos));
+    const name = field?.[1].toLowerCase() ?? '';
+
+    // Anything that does not name a known field is a plain term, e.g. http://example.com
+    if (!field || !isFieldName(name)) {
+      return { type: 'field', field: 'any', op: ':', value: parseValue() };
+    }
+
+    const lang = field[2];
+    const op = field[3] as QueryOperator;
+    const kind = FIELDS[name];
+    if (lang && !LANGUAGE_FIELDS.has(name)) {
+      throw new QuerySyntaxError(`${name}: does not take a language`, start);
+    }
+    if ((op === '>' || op === '<' || op === '>=' || op === '<=') && kind !== 'date' && kind !== 'number') {
+      throw new QuerySyntaxError(`${name} cannot be compared with ${op}`, start);
+    }
+    pos += field[0].length;
+
+    if (kind === 'prop') return parsePropClause(start);
+
+    if (atEnd() || /[\s)]/.test(peek())) {
+      throw new QuerySyntaxError(`Missing value after ${name}${op}`, pos);
+    }
+    const valueStart = pos;
+    const value = parseValue();
+
+    if (kind === 'date' || kind === 'number') {
+      if (value.kind === 'regex') throw new QuerySyntaxError(`${name} does not accept a regular expression`, valueStart);
+      if (kind === 'date' && !DATE_PATTERN.test(value.text)) {
+        throw new QuerySyntaxError(`Invalid date "${value.text}", use YYYY-MM-DD`, valueStart);
+      }
+      if (kind === 'number' && !/^\d+$/.test(value.text)) {
+        throw new QuerySyntaxError(`${name} expects a whole number`, valueStart);
+      }
+      const text = kind === 'date' ? value.text.replace(/\D/g, '') : value.text;
+      return { type: 'field', field: name, op, value: { kind: 'term', text } };
+    }
+    return { type: 'field', field: name, op, value, ...(lang ? { lang } : {}) };
+  };
+
+  const parseUnary = (): QueryNode => {
+    const start = pos;
+    const dash = peek() === '-';
+    if (dash || keyword('NOT')) {
+      if (dash) pos++;
+      skipSpace();
+      if (atEnd() || peek() === ')') throw new QuerySyntaxError('Nothing to negate', start);
+      return { type: 'not', child: parseUnary() };
+    }
+    if (peek() === '(') {
+      pos++;
+      skipSpace();
+      if (peek() === ')') throw new QuerySyntaxError('Empty parentheses', start);
+      const node = parseOr();
+      skipSpace();
+      if (peek() !== ')') throw new QuerySyntaxError('Unclosed parenthesis', start);
+      pos++;
+      return node;
+    }
+    return parseClause();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = [];
+    for (;;) {
+      skipSpace();
+      const start = pos;
+      if (atEnd() || peek() === ')' || peek() === '|') break;
+      if (keyword('OR')) {
+        pos = start;
+        break;
+      }
+      if (keyword('AND')) {
+        skipSpace();
+        if (children.length === 0 || atEnd() || peek() === ')') {
+          throw new QuerySyntaxError('AND needs a term on both sides', start);
+        }
+        continue;
+      }
+      children.push(parseUnary());
+    }
+    if (children.length === 0) {
+      throw new QuerySyntaxError(atEnd() ? 'Query is incomplete' : 'Expected a search term', pos);
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (atOr()) {
+      skipSpace();
+      if (atEnd() || peek() === ')') throw new QuerySyntaxError('OR needs a term on both sides', pos);
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  };
+
+  const tree = parseOr();
+  skipSpace();
+  // Only a stray closing parenthesis stops parseOr early
+  if (!atEnd()) throw new QuerySyntaxError('Unmatched closing parenthesis', pos);
+  return tree;
+};
+
+// Evaluation (worker side)
+
+type TuTest = (tu: NormalizedTu) => boolean;
+type StringTest = (value: string) => boolean;
+
+const stringTest = (value: QueryValue, op: QueryOperator): StringTest => {
+  if (value.kind === 'regex') {
+    const re = new RegExp(value.pattern, value.flags);
+    return s => re.test(s);
+  }
+  const wanted = value.text.toLowerCase();
+  return op === '=' ? s => s.toLowerCase() === wanted : s => s.toLowerCase().includes(wanted);
+};
+
+/** `de` covers de-DE and de-AT; comparisons ignore case. */
+const langMatches = (lang: string, wanted: string) => {
+  const lower = lang.toLowerCase();
+  return lower === wanted || lower.startsWith(wanted + '-');
+};
+
+const compareOrdered = (actual: string | number, wanted: string | number, op: QueryOperator) => {
+  switch (op) {
+    case '>':
+      return actual > wanted;
+    case '>=':
+      return actual >= wanted;
+    case '<':
+      return actual < wanted;
+    case '<=':
+      return actual <= wanted;
+    default:
+      return actual === wanted;
+  }
+};
+
+/** Compares TMX dates (in UTC) at the precision the query gave, so changed:2024-03 means March. */
+const dateTest = (wanted: string, op: QueryOperator) => (date: string | undefined) => {
+  const time = parseTmxDate(date);
+  if (time === null) return false;
+  return compareOrdered(dateDigits(time).slice(0, wanted.length), wanted, op);
+};
+
+const compileField = (node: Extract<QueryNode, { type: 'field' }>, scopeLangs: string[]): TuTest => {
+  const { field, op, value } = node;
+  const langs = node.lang ? [node.lang.toLowerCase()] : scopeLangs;
+  const inScope = (lang: string) => langs.length === 0 || langs.some(wanted => langMatches(lang, wanted));
+
+  if (field === 'prop') {
+    const propType = node.propType || '';
+    if (!value) return tu => propType in tu.props;
+    const test = stringTest(value, op);
+    return tu => propType in tu.props && test(tu.props[propType]);
+  }
+  if (!value) return () => false;
+
+  if (field === 'changed' || field === 'created' || field === 'used') {
+    const test = dateTest(value.kind === 'regex' ? '' : value.text, op);
+    if (field === 'changed') return tu => test(tu.metadata.changeDate);
+    if (field === 'created') return tu => test(tu.metadata.creationDate);
+    return tu => test(tu.metadata.lastUsageDate);
+  }
+  if (field === 'usage') {
+    const wanted = value.kind === 'regex' ? 0 : Number(value.text);
+    return tu => compareOrdered(Number(tu.metadata.usageCount || 0), wanted, op === ':' ? '=' : op);
+  }
+
+  const test = stringTest(value, op);
+  switch (field) {
+    case 'source':
+      return tu => tu.variants.some(v => v.lang === tu.srcLang && test(v.text));
+    case 'target':
+      return tu => tu.variants.some(v => v.lang !== tu.srcLang && inScope(v.lang) && test(v.text));
+    case 'text':
+      return tu => tu.variants.some(v => inScope(v.lang) && test(v.text));
+    case 'lang': {
+      if (value.kind === 'regex') return tu => tu.variants.some(v => test(v.lang));
+      const wanted = value.text.toLowerCase();
+      return op === '='
+        ? tu => tu.variants.some(v => v.lang.toLowerCase() === wanted)
+        : tu => tu.variants.some(v => langMatches(v.lang, wanted));
+    }
+    case 'id':
+      return tu => test(tu.id);
+    case 'segid':
+      return tu => test(tu.props['x-segment-id'] || '');
+    case 'changeid':
+      return tu => test(tu.metadata.changeUser || '');
+    case 'creationid':
+      return tu => test(tu.metadata.createUser || '');
+    default:
+      return tu => test(tu.id) || test(tu.props['x-segment-id'] || '') || tu.variants.some(v => test(v.text));
+  }
+};
+
+const compileNode = (node: QueryNode, scopeLangs: string[]): TuTest => {
+  switch (node.type) {
+    case 'and': {
+      // lang: terms of this group narrow its text fields, including those in nested groups
+      const langs = node.children
+        .filter((child): child is Extract<QueryNode, { type: 'field' }> =>
+          child.type === 'field' && child.field === 'lang' && child.value !== null && child.value.kind !== 'regex')
+        .map(child => (child.value as { text: string }).text.toLowerCase());
+      const tests = node.children.map(child => compileNode(child, langs.length > 0 ? langs : scopeLangs));
+      return tu => tests.every(test => test(tu));
+    }
+    case 'or': {
+      const tests = node.children.map(child => compileNode(child, scopeLangs));
+      return tu => tests.some(test => test(tu));
+    }
+    case 'not': {
+      const test = compileNode(node.child, scopeLangs);
+      return tu => !test(tu);
+    }
+    default:
+      return compileField(node, scopeLangs);
+  }
+};
+
+/** Turns a parsed query into a predicate over units. */
+export const compileQuery = (node: QueryNode): TuTest => compileNode(node, []);
+
+// Hit highlighting (worker side)
+
+type VariantFinder = (tu: NormalizedTu, variant: TuVariant) => HitRange[];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Every non-empty match of a global pattern. */
+const matchRanges = (re: RegExp, text: string): HitRange[] => {
+  const ranges: HitRange[] = [];
+  re.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    if (match[0].length === 0) {
+      re.lastIndex++;
+      continue;
+    }
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+};
+
+const textFinder = (value: QueryValue, op: QueryOperator): ((text: string) => HitRange[]) => {
+  if (value.kind === 'regex') {
+    const re = new RegExp(value.pattern, value.flags.includes('g') ? value.flags : value.flags + 'g');
+    return text => matchRanges(re, text);
+  }
+  if (op === '=') {
+    const wanted = value.text.toLowerCase();
+    return text => (text.length > 0 && text.toLowerCase() === wanted ? [{ start: 0, end: text.length }] : []);
+  }
+  // Case-insensitive matching on the original text keeps offsets exact where lowercasing would change lengths
+  const re = new RegExp(escapeRegExp(value.text), 'giu');
+  return text => matchRanges(re, text);
+};
+
+const collectFinders = (node: QueryNode, scopeLangs: string[], finders: VariantFinder[]) => {
+  switch (node.type) {
+    case 'and': {
+      const langs = node.children
+        .filter((child): child is Extract<QueryNode, { type: 'field' }> =>
+          child.type === 'field' && child.field === 'lang' && child.value !== null && child.value.kind !== 'regex')
+        .map(child => (child.value as { text: string }).text.toLowerCase());
+      node.children.forEach(child => collectFinders(child, langs.length > 0 ? langs : scopeLangs, finders));
+      return;
+    }
+    case 'or':
+      node.children.forEach(child => collectFinders(child, scopeLangs, finders));
+      return;
+    case 'not':
+      // What a unit must not contain is never in it
+      return;
+    default: {
+      const { field, op, value } = node;
+      if (!value || (field !== 'any' && field !== 'source' && field !== 'target' && field !== 'text')) return;
+      const find = textFinder(value, op);
+      const langs = node.lang ? [node.lang.toLowerCase()] : scopeLangs;
+      const inScope = (lang: string) => langs.length === 0 || langs.some(wanted => langMatches(lang, wanted));
+      if (field === 'source') finders.push((tu, v) => (v.lang === tu.srcLang ? find(v.text) : []));
+      else if (field === 'target') finders.push((tu, v) => (v.lang !== tu.srcLang && inScope(v.lang) ? find(v.text) : []));
+      else if (field === 'text') finders.push((_tu, v) => (inScope(v.lang) ? find(v.text) : []));
+      else finders.push((_tu, v) => find(v.text));
+    }
+  }
+};
+
+/** Sorts ranges and joins the ones that overlap or touch. */
+const mergeRanges = (ranges: HitRange[]): HitRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HitRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+};
+
+/**
+ * Where a query's text terms match inside each variant of a unit, parallel to
+ * `tu.variants`. Negated terms and metadata fields contribute nothing.
+ */
+export const compileHighlighter = (node: QueryNode): ((tu: NormalizedTu) => HitRange[][]) => {
+  const finders: VariantFinder[] = [];
+  collectFinders(node, [], finders);
+  return tu => tu.variants.map(variant => mergeRanges(finders.flatMap(find => find(tu, variant))));
+};
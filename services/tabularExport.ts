@@ -0,0 +1,75 @@
+import { NormalizedTu, TabularExportOptions, MetadataField } from '../types';
+import { buildXlsxBlob } from './xlsxWriter';
+
+const METADATA_LABELS: Record<MetadataField, string> = {
+  creationDate: 'Creation Date',
+  createUser: 'Created By',
+  changeDate: 'Change Date',
+  changeUser: 'Changed By'
+};
+
+/**
+ * Lays out TUs as a table: optional ID column, one column per language,
+ * then the chosen props and metadata fields. The first row holds the headings.
+ */
+export const buildRows = (tus: NormalizedTu[], options: TabularExportOptions): string[][] => {
+  const headings = [
+    ...(options.includeId ? ['tuid'] : []),
+    ...options.languages,
+    ...options.propTypes,
+    ...options.metadataFields.map(field => METADATA_LABELS[field])
+  ];
+
+  const rows = tus.map(tu => [
+    ...(options.includeId ? [tu.id] : []),
+    ...options.languages.map(lang => tu.variants.find(v => v.lang === lang)?.text ?? ''),
+    ...options.propTypes.map(type => tu.props[type] ?? ''),
+    ...options.metadataFields.map(field => tu.metadata[field] ?? '')
+  ]);
+
+  return [headings, ...rows];
+};
+
+/**
+ * Quotes a field per RFC 4180 when it contains the delimiter, quotes or line breaks.
+ */
+const quoteField = (value: string, delimiter: string): string => {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+const encodeText = (text: string, encoding: TabularExportOptions['encoding']): BlobPart[] => {
+  if (encoding === 'utf-16le') {
+    const units = new Uint16Array(text.length + 1);
+    units[0] = 0xfeff; // BOM, so Excel detects the encoding
+    for (let i = 0; i < text.length; i++) units[i + 1] = text.charCodeAt(i);
+    // Uint16Array uses platform byte order; every browser platform we target is little-endian
+    return [units.buffer];
+  }
+  return encoding === 'utf-8-bom' ? ['\ufeff', text] : [text];
+};
+
+/**
+ * Serializes rows as delimited text. Row one is expected to hold the headings.
+ */
+export const buildDelimitedBlob = (
+  rows: string[][],
+  delimiter: string,
+  encoding: TabularExportOptions['encoding'] = 'utf-8-bom'
+): Blob => {
+  const text = rows.map(row => row.map(value => quoteField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+  const mime = delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv';
+  const charset = encoding === 'utf-16le' ? 'utf-16le' : 'utf-8';
+  return new Blob(encodeText(text, encoding), { type: `${mime};charset=${charset}` });
+};
+
+/**
+ * Serializes TUs into a CSV/TSV or XLSX Blob according to the export options.
+ */
+export const buildTabularBlob = (tus: NormalizedTu[], options: TabularExportOptions): Blob => {
+  const rows = buildRows(tus, options);
+  if (options.format === 'xlsx') return buildXlsxBlob(rows);
+  return buildDelimitedBlob(rows, options.format === 'tsv' ? '\t' : options.delimiter, options.encoding);
+};
@@ -0,0 +1,53 @@
+import { vi } from 'vitest';
+import { WorkerRequestMap, WorkerRequestType, WorkerResponse } from '../workerProtocol';
+
+/** A TMX 1.4b document around the given <tu> elements. */
+export const tmxDocument = (units: string, srclang = 'en') =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4"><header creationtool="test" creationtoolversion="1" segtype="sentence" o-tmf="test" adminlang="en" srclang="${srclang}" datatype="plaintext"/>
+<body>${units}</body></tmx>`;
+
+/** A unit with a variant per language, e.g. unit('a', { en: 'Save', de: 'Speichern' }). */
+export const tmxUnit = (tuid: string, texts: Record<string, string>, attributes = '') =>
+  `<tu tuid="${tuid}"${attributes ? ` ${attributes}` : ''}>${Object.entries(texts)
+    .map(([lang, text]) => `<tuv xml:lang="${lang}"><seg>${text}</seg></tuv>`)
+    .join('')}</tu>`;
+
+/**
+ * Runs a fresh copy of the data worker in the test's own thread and talks to it through
+ * its message protocol, as services/workerClient.ts does in the app.
+ */
+export const startWorker = async () => {
+  const pending = new Map<number, { resolve: (value: unknown) => void; reject: (reason: unknown) => void }>();
+  vi.stubGlobal('self', {
+    postMessage: (message: WorkerResponse) => {
+      const entry = pending.get(message.id);
+      if (!entry || message.type === 'PROGRESS') return;
+      pending.delete(message.id);
+      if (message.type === 'RESULT') entry.resolve(message.result);
+      else entry.reject(new Error(message.type === 'ERROR' ? message.message : 'Request was cancelled.'));
+    }
+  });
+  vi.resetModules();
+  await import('../tmxWorker');
+  const worker = self as unknown as { onmessage: (e: { data: unknown }) => Promise<void> };
+  let nextId = 1;
+
+  const request = <K extends WorkerRequestType>(type: K, params: WorkerRequestMap[K]['params']) =>
+    new Promise<WorkerRequestMap[K]['result']>((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve: value => resolve(value as WorkerRequestMap[K]['result']), reject });
+      void worker.onmessage({ data: { id, type, params } });
+    });
+
+  const loadTmx = (units: string, name = 'memory.tmx') =>
+    request('LOAD_FILE', { file: new File([tmxDocument(units)], name), format: 'tmx' });
+
+  /** tuids of a result set's units (or of the whole memory), in list order. */
+  const tuids = async (resultSetId: number | null) => {
+    const page = await request('GET_PAGE', { resultSetId, offset: 0, limit: 1000 });
+    return page.tus.map(tu => tu.attributes.tuid);
+  };
+
+  return { request, loadTmx, tuids };
+};
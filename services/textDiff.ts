@@ -0,0 +1,104 @@
+export type DiffOpType = 'equal' | 'insert' | 'delete';
+
+export interface DiffOp {
+  type: DiffOpType;
+  text: string;
+}
+
+// Beyond this many edits the diff is not worth reading character by character
+const MAX_EDITS = 500;
+
+const pushOp = (ops: DiffOp[], type: DiffOpType, text: string) => {
+  if (!text) return;
+  const last = ops[ops.length - 1];
+  if (last && last.type === type) last.text += text;
+  else ops.push({ type, text });
+};
+
+/**
+ * Myers' O(ND) shortest edit script over the characters of a and b. Returns null when
+ * more than MAX_EDITS edits are needed.
+ */
+const myers = (a: string, b: string): DiffOp[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDITS);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, offset, d);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string, b: string, trace: Int32Array[], offset: number, depth: number): DiffOp[] => {
+  const reversed: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = depth; d > 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      reversed.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (x === prevX) reversed.push({ type: 'insert', text: b[--y] });
+    else reversed.push({ type: 'delete', text: a[--x] });
+  }
+  while (x > 0 && y > 0) {
+    reversed.push({ type: 'equal', text: a[--x] });
+    y--;
+  }
+
+  const ops: DiffOp[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) pushOp(ops, reversed[i].type, reversed[i].text);
+  return ops;
+};
+
+/**
+ * Character-level diff of two strings. Common prefix and suffix are split off first;
+ * when the middle differs too much it is reported as one deletion plus one insertion.
+ */
+export const diffChars = (before: string, after: string): DiffOp[] => {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+
+  const ops: DiffOp[] = [];
+  pushOp(ops, 'equal', before.slice(0, prefix));
+  const middle = myers(a, b);
+  if (middle) {
+    middle.forEach(op => pushOp(ops, op.type, op.text));
+  } else {
+    pushOp(ops, 'delete', a);
+    pushOp(ops, 'insert', b);
+  }
+  pushOp(ops, 'equal', before.slice(before.length - suffix));
+  return ops;
+};
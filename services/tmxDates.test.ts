@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { dateDigits, dateRangeBounds, describeDateRange, isInBounds, isTmxDate, parseTmxDate } from './tmxDates';
+
+describe('TMX dates', () => {
+  it('reads the TMX form and the lenient ISO 8601 forms tools write', () => {
+    const expected = Date.UTC(2024, 2, 5, 14, 30, 0);
+    expect(parseTmxDate('20240305T143000Z')).toBe(expected);
+    expect(parseTmxDate('2024-03-05T14:30:00Z')).toBe(expected);
+    expect(parseTmxDate('2024-03-05 14:30')).toBe(expected);
+    expect(parseTmxDate('2024-03-05T16:30:00+02:00')).toBe(expected);
+    expect(parseTmxDate('20240305')).toBe(Date.UTC(2024, 2, 5));
+  });
+
+  it('rejects values that are not real dates', () => {
+    expect(parseTmxDate('20240231T000000Z')).toBeNull();
+    expect(parseTmxDate('20240305T250000Z')).toBeNull();
+    expect(parseTmxDate('yesterday')).toBeNull();
+    expect(parseTmxDate(undefined)).toBeNull();
+  });
+
+  it('tells the form TMX 1.4b requires from merely readable ones', () => {
+    expect(isTmxDate('20240305T143000Z')).toBe(true);
+    expect(isTmxDate('2024-03-05T14:30:00Z')).toBe(false);
+    expect(isTmxDate('20241305T143000Z')).toBe(false);
+    expect(dateDigits(Date.UTC(2024, 2, 5, 14, 30, 0))).toBe('20240305143000');
+  });
+
+  it('turns a range of local days into inclusive bounds, either of them open', () => {
+    const bounds = dateRangeBounds({ field: 'changed', from: '2024-01-01', to: '2024-01-31' });
+    expect(isInBounds(new Date('2024-01-01T00:00:00').getTime(), bounds)).toBe(true);
+    expect(isInBounds(new Date('2024-01-31T23:59:59').getTime(), bounds)).toBe(true);
+    expect(isInBounds(new Date('2024-02-01T00:00:00').getTime(), bounds)).toBe(false);
+    expect(isInBounds(null, bounds)).toBe(false);
+    expect(dateRangeBounds({ field: 'used', from: '', to: '2024-01-31' }).from).toBeNull();
+    expect(describeDateRange({ field: 'created', from: '2024-01-01', to: '' })).toBe('Created since 2024-01-01');
+  });
+});
@@ -0,0 +1,101 @@
+import { DateField, DateRange, NormalizedTu } from '../types';
+
+/**
+ * TMX dates: parsing what files actually contain, comparing and bucketing the results,
+ * and showing them in the reader's locale. TMX 1.4b writes YYYYMMDDThhmmssZ in UTC;
+ * some tools write the extended ISO 8601 form or leave out the time or the Z, and
+ * both are read as well (without a zone, as UTC).
+ */
+
+export const DATE_FIELD_LABELS: Record<DateField, string> = {
+  created: 'Created',
+  changed: 'Changed',
+  used: 'Last used'
+};
+
+// The form TMX 1.4b prescribes
+const TMX_DATE = /^\d{8}T\d{6}Z$/;
+// Basic or extended ISO 8601; the time, seconds, fraction and zone are optional
+const LENIENT_DATE = /^(\d{4})-?(\d{2})-?(\d{2})(?:[T ](\d{2}):?(\d{2})(?::?(\d{2})(?:[.,]\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+const DAY = 24 * 60 * 60 * 1000;
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * DAY],
+  ['month', 30 * DAY],
+  ['week', 7 * DAY],
+  ['day', DAY],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000]
+];
+
+const dateTimeFormat = new Intl.DateTimeFormat(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+const relativeFormat = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+
+/** Milliseconds since the epoch, or null when the value is not a date at all. */
+export const parseTmxDate = (value?: string): number | null => {
+  if (!value) return null;
+  const match = LENIENT_DATE.exec(value.trim());
+  if (!match) return null;
+  const [, ...parts] = match;
+  const zone = parts.pop();
+  const [year, month, day, hour = 0, minute = 0, second = 0] = parts.map(part => (part === undefined ? undefined : Number(part))) as number[];
+  const time = Date.UTC(year, month - 1, day, hour, minute, second);
+  // Date.UTC rolls 20240231 over into March; a real date survives the round trip
+  const check = new Date(time);
+  if (check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) return null;
+  if (!zone || zone.toUpperCase() === 'Z') return time;
+  const digits = zone.slice(1).replace(':', '');
+  const offset = (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2))) * 60 * 1000;
+  return zone[0] === '-' ? time + offset : time - offset;
+};
+
+/** Whether a value is written exactly as TMX 1.4b requires, and a real date. */
+export const isTmxDate = (value: string): boolean => TMX_DATE.test(value) && parseTmxDate(value) !== null;
+
+/** "YYYYMMDDhhmmss" in UTC, for comparing at the precision of a shorter prefix. */
+export const dateDigits = (time: number): string => new Date(time).toISOString().replace(/\D/g, '').slice(0, 14);
+
+/** "YYYY-MM" in UTC. */
+export const monthOfTime = (time: number): string => new Date(time).toISOString().slice(0, 7);
+
+/** A unit's dates as epoch milliseconds, null where it has none that can be read. */
+export const unitDates = (tu: NormalizedTu): Record<DateField, number | null> => ({
+  created: parseTmxDate(tu.metadata.creationDate),
+  changed: parseTmxDate(tu.metadata.changeDate),
+  used: parseTmxDate(tu.metadata.lastUsageDate)
+});
+
+/** A date range as epoch bounds (inclusive), for the worker; either may be open. */
+export interface DateBounds {
+  field: DateField;
+  from: number | null;
+  to: number | null;
+}
+
+/** The first and last millisecond of the range's local days. */
+export const dateRangeBounds = ({ field, from, to }: DateRange): DateBounds => {
+  const start = from ? new Date(`${from}T00:00:00`).getTime() : NaN;
+  const end = to ? new Date(`${to}T23:59:59.999`).getTime() : NaN;
+  return { field, from: Number.isNaN(start) ? null : start, to: Number.isNaN(end) ? null : end };
+};
+
+export const isInBounds = (time: number | null, { from, to }: DateBounds) =>
+  time !== null && (from === null || time >= from) && (to === null || time <= to);
+
+/** Date and time in the reader's locale and time zone. */
+export const formatDateTime = (time: number): string => dateTimeFormat.format(time);
+
+/** "3 days ago", "last year", "in 2 hours". */
+export const formatRelativeTime = (time: number, now = Date.now()): string => {
+  const diff = time - now;
+  const found = RELATIVE_UNITS.find(([, length]) => Math.abs(diff) >= length);
+  return found ? relativeFormat.format(Math.round(diff / found[1]), found[0]) : relativeFormat.format(0, 'minute');
+};
+
+/** "Changed 2024-01-01 – 2024-03-31", "Created since 2024-01-01", for a filter chip. */
+export const describeDateRange = ({ field, from, to }: DateRange): string => {
+  const label = DATE_FIELD_LABELS[field];
+  if (from && to) return `${label} ${from} – ${to}`;
+  if (from) return `${label} since ${from}`;
+  return `${label} until ${to}`;
+};
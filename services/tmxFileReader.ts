@@ -0,0 +1,101 @@
+import { createTmxStreamParser } from './tmxStreamParser';
+import { normalizeTu } from './tmxParser';
+import { createTmxValidator } from './tmxValidator';
+import { NormalizedTu } from '../types';
+import { streamFileText, detectEncoding, FormatReadHandlers, ByteSpan } from './formats/common';
+
+const BATCH_SIZE = 2000;
+
+/** Number of bytes a string takes up in UTF-8. */
+const utf8Length = (text: string): number => {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) length += 1;
+    else if (code < 0x800) length += 2;
+    else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      // Surrogate pair: one four-byte sequence
+      length += 4;
+      i++;
+    } else length += 3;
+  }
+  return length;
+};
+
+/**
+ * Maps character offsets in the decoded text of a UTF-8 file back to byte offsets.
+ * Offsets must be asked for in ascending order; text before the last one is let go.
+ */
+const createByteLocator = (bomLength: number) => {
+  let pending = '';
+  let charPos = 0;
+  let bytePos = bomLength;
+  return {
+    append: (text: string) => {
+      pending += text;
+    },
+    byteOffset: (charOffset: number) => {
+      const skipped = pending.slice(0, charOffset - charPos);
+      bytePos += utf8Length(skipped);
+      pending = pending.slice(skipped.length);
+      charPos = charOffset;
+      return bytePos;
+    }
+  };
+};
+
+/**
+ * Streams a TMX File in chunks through the incremental parser, normalizing TUs as they
+ * complete. Resolves with the total number of TUs read. For UTF-8 files each unit's
+ * byte span is reported too, so unedited units can later be copied over verbatim.
+ * With an onDiagnostic handler the file is validated along the way (services/tmxValidator.ts).
+ */
+export const readTmxFile = async (file: File, handlers: FormatReadHandlers): Promise<number> => {
+  let headerSrc = 'en-US';
+  let tuCount = 0;
+  let batch: NormalizedTu[] = [];
+  let spans: ByteSpan[] = [];
+
+  const head = new Uint8Array(await file.slice(0, 200).arrayBuffer());
+  const isUtf8 = new TextDecoder(detectEncoding(head)).encoding === 'utf-8';
+  const hasBom = head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf;
+  const locator = isUtf8 ? createByteLocator(hasBom ? 3 : 0) : null;
+
+  const validator = handlers.onDiagnostic ? createTmxValidator(handlers.onDiagnostic) : null;
+
+  const parser = createTmxStreamParser({
+    onRoot: handlers.onRoot,
+    onHeader: (header, location) => {
+      headerSrc = header['@_srclang'] || headerSrc;
+      validator?.header(header, location);
+      handlers.onHeader?.(header);
+    },
+    onTu: (rawTu, span, locations) => {
+      validator?.tu(rawTu, tuCount, locations);
+      batch.push(normalizeTu(rawTu, tuCount, headerSrc));
+      if (locator) spans.push({ start: locator.byteOffset(span.start), end: locator.byteOffset(span.end) });
+      tuCount++;
+    },
+    onXmlError: validator?.xml
+  });
+
+  const flush = (bytesProcessed: number) => {
+    // Batches are cut per chunk; split oversized ones so consumers get steady updates.
+    for (let i = 0; i < batch.length || i === 0; i += BATCH_SIZE) {
+      handlers.onBatch(batch.slice(i, i + BATCH_SIZE), bytesProcessed, locator ? spans.slice(i, i + BATCH_SIZE) : undefined);
+    }
+    batch = [];
+    spans = [];
+  };
+
+  await streamFileText(file, (text, bytesProcessed) => {
+    locator?.append(text);
+    parser.write(text);
+    flush(bytesProcessed);
+  });
+  parser.end();
+  validator?.finish();
+  if (batch.length > 0) flush(file.size);
+
+  return tuCount;
+};
@@ -1,5 +1,7 @@
 import { XMLParser } from 'fast-xml-parser';
-import { ParsedTmxData, NormalizedTu, TmxTu, TmxTuv, TmxProp } from '../types';
+import { ParsedTmxData, NormalizedTu, TmxTu, TmxTuv, TmxProp, TmxNote, TmxSeg, SegmentPart, TmxAnnotation } from '../types';
+import { parseSegment, segmentToPlainText } from './inlineMarkup';
+import { unitMetadata } from './tuMetadata';
 
 /**
  * Parses a raw TMX XML string into a usable JavaScript object.
@@ -11,9 +13,15 @@ export const parseTmxContent = (xmlContent: string): ParsedTmxData => {
     attributeNamePrefix: '@_',
     // Ensure critical fields are always arrays, even if only one exists
     isArray: (name) => {
-      return ['tu', 'tuv', 'prop'].indexOf(name) !== -1;
+      return ['tu', 'tuv', 'prop', 'note'].indexOf(name) !== -1;
     },
-    textNodeName: '#text'
+    textNodeName: '#text',
+    // Prop and note values are text; never coerce them to numbers
+    parseTagValue: false,
+    // A note without attributes is still an object with #text, as collectAnnotations expects
+    alwaysCreateTextNode: true,
+    // Keep the raw inner XML of <seg> so inline markup order survives; see parseSegment
+    stopNodes: ['*.seg']
   });
 
   try {
@@ -29,16 +37,12 @@ export const parseTmxContent = (xmlContent: string): ParsedTmxData => {
 };
 
 /**
- * Helper to normalize segment text which might be complex (contain tags) or simple.
+ * Builds the ordered segment model from the raw <seg> content kept by the parser.
  */
-const extractText = (seg: any): string => {
-  if (typeof seg === 'string') return seg;
-  if (seg && seg['#text']) return seg['#text'];
-  // If seg contains nested tags (like <bpt>, <ept>), fast-xml-parser might objectify them.
-  // For this viewer, we primarily want readable text. 
-  // A robust implementation would recursively traverse the object to reconstruct the string.
-  // This is a simplified fallback for standard text.
-  return JSON.stringify(seg); 
+const extractSegment = (seg: string | TmxSeg | undefined): SegmentPart[] => {
+  if (typeof seg === 'string') return parseSegment(seg);
+  if (seg && typeof seg['#text'] === 'string') return parseSegment(seg['#text']);
+  return [];
 };
 
 /**
@@ -51,36 +55,75 @@ const normalizeProps = (props?: TmxProp[] | TmxProp): Record<string, string> =>
   const list = Array.isArray(props) ? props : [props];
   list.forEach(p => {
     if (p['@_type']) {
-      map[p['@_type']] = p['#text'] || '';
+      map[p['@_type']] = String(p['#text'] ?? '');
     }
   });
   return map;
 };
 
+/**
+ * Collects the unprefixed attributes of a raw element, e.g. { tuid: '42' } from { '@_tuid': '42' }.
+ */
+export const collectAttributes = (raw: object, exclude: string[] = []): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    if (!key.startsWith('@_')) return;
+    const name = key.slice(2);
+    if (!exclude.includes(name)) attributes[name] = String(value);
+  });
+  return attributes;
+};
+
+const toList = <T,>(value?: T[] | T): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value]);
+
+/**
+ * Keeps props and notes with all of their attributes so they can be written back out.
+ */
+export const collectAnnotations = (props?: TmxProp[] | TmxProp, notes?: TmxNote[] | TmxNote): TmxAnnotation[] => {
+  const annotations: TmxAnnotation[] = toList(props).map(p => ({
+    element: 'prop',
+    type: p['@_type'],
+    value: String(p['#text'] ?? ''),
+    attributes: collectAttributes(p, ['type'])
+  }));
+  toList(notes).forEach(n => {
+    annotations.push({ element: 'note', value: String(n['#text'] ?? ''), attributes: collectAttributes(n) });
+  });
+  return annotations;
+};
+
 /**
  * Transforms raw TMX TU objects into a normalized structure for the UI.
  * This decouples the view from the specific XML library structure.
  */
 export const normalizeTu = (rawTu: TmxTu, index: number, defaultSrcLang: string): NormalizedTu => {
-  const variants = rawTu.tuv.map((v: TmxTuv) => ({
-    lang: v['@_xml:lang'] || 'unknown',
-    text: extractText(v.seg)
-  }));
+  const variants = rawTu.tuv.map((v: TmxTuv) => {
+    const segment = extractSegment(v.seg);
+    return {
+      lang: v['@_xml:lang'] || 'unknown',
+      text: segmentToPlainText(segment),
+      segment,
+      attributes: collectAttributes(v, ['xml:lang']),
+      annotations: collectAnnotations(v.prop, v.note)
+    };
+  });
 
-  // Attempt to identify source lang if not explicitly marked, usually matches header srclang
-  const srcLang = defaultSrcLang; 
-  
+  // The unit's own srclang wins over the header's. "*all*" means any variant may serve as
+  // source, so the first one does; matching ignores case (en-US vs en-us)
+  const declared = rawTu['@_srclang'] || defaultSrcLang;
+  const source = declared === '*all*'
+    ? variants[0]
+    : variants.find(v => v.lang.toLowerCase() === declared.toLowerCase());
+  const srcLang = source ? source.lang : declared;
+
+  const attributes = collectAttributes(rawTu);
   return {
     id: rawTu['@_tuid'] || `generated-${index}`,
     srcLang,
     variants,
     props: normalizeProps(rawTu.prop),
-    metadata: {
-      creationDate: rawTu['@_creationdate'],
-      changeDate: rawTu['@_changedate'],
-      usageCount: rawTu['@_usagecount'],
-      createUser: rawTu['@_creationid'],
-      changeUser: rawTu['@_changeid']
-    }
+    attributes,
+    annotations: collectAnnotations(rawTu.prop, rawTu.note),
+    metadata: unitMetadata(attributes, variants)
   };
 };
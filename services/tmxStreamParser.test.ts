@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createTmxStreamParser, TextSpan, XmlError } from './tmxStreamParser';
+import { normalizeTu, parseTmxContent } from './tmxParser';
+import { tmxDocument, tmxUnit } from './testing/workerHarness';
+import { TmxTu } from '../types';
+
+const DOCUMENT = tmxDocument([
+  tmxUnit('save', { en: 'Save &amp; close', de: 'Speichern &amp; schließen' }, 'changedate="20240305T120000Z"'),
+  '<tu tuid="tagged"><prop type="x-segment-id">app.ok</prop><note>Button</note>' +
+    '<tuv xml:lang="en"><seg>Press <bpt i="1">&lt;b&gt;</bpt>OK<ept i="1">&lt;/b&gt;</ept></seg></tuv>' +
+    '<tuv xml:lang="de"><seg><![CDATA[Drücke <OK>]]></seg></tuv></tu>'
+].join(''));
+
+/** Feeds a document in chunks of `size` characters and collects what the parser reports. */
+const stream = (text: string, size: number) => {
+  const tus: TmxTu[] = [];
+  const spans: TextSpan[] = [];
+  const errors: XmlError[] = [];
+  let version = '';
+  const parser = createTmxStreamParser({
+    onRoot: v => (version = v),
+    onTu: (tu, span) => {
+      tus.push(tu);
+      spans.push(span);
+    },
+    onXmlError: error => errors.push(error)
+  });
+  for (let i = 0; i < text.length; i += size) parser.write(text.slice(i, i + size));
+  parser.end();
+  return { tus, spans, errors, version };
+};
+
+describe('TMX stream parser', () => {
+  it('emits the units parseTmxContent reads, however the text is split', () => {
+    const expected = parseTmxContent(DOCUMENT).tmx.body.tu.map((tu, idx) => normalizeTu(tu, idx, 'en'));
+    for (const size of [1, 7, DOCUMENT.length]) {
+      const { tus, errors, version } = stream(DOCUMENT, size);
+      expect(version).toBe('1.4');
+      expect(errors).toEqual([]);
+      expect(tus.map((tu, idx) => normalizeTu(tu, idx, 'en')), `chunks of ${size}`).toEqual(expected);
+    }
+  });
+
+  it('locates each unit in the text', () => {
+    const { spans } = stream(DOCUMENT, 16);
+    expect(DOCUMENT.slice(spans[0].start, spans[0].end)).toMatch(/^<tu tuid="save".*<\/tu>$/);
+    expect(DOCUMENT.slice(spans[1].start, spans[1].end)).toMatch(/^<tu tuid="tagged".*<\/tu>$/);
+  });
+
+  it('keeps the units completed before a document is cut off', () => {
+    const cut = DOCUMENT.slice(0, DOCUMENT.indexOf('<tu tuid="tagged"') + 30);
+    const { tus, errors } = stream(cut, 64);
+    expect(tus.map(tu => tu['@_tuid'])).toEqual(['save']);
+    expect(errors.some(error => error.truncated)).toBe(true);
+    expect(() => createTmxStreamParser({ onTu: () => {} }).end()).toThrow();
+  });
+});
+
+describe('unit normalization', () => {
+  const normalize = (units: string, srclang = 'en') =>
+    parseTmxContent(tmxDocument(units, srclang)).tmx.body.tu.map((tu, idx) => normalizeTu(tu, idx, srclang));
+
+  it('takes the source variant from the unit, the header or *all*, ignoring case', () => {
+    const [own, header, all] = normalize([
+      tmxUnit('a', { en: 'Save', de: 'Speichern' }, 'srclang="de"'),
+      tmxUnit('b', { 'EN-us': 'Save', de: 'Speichern' }),
+      tmxUnit('c', { fr: 'Enregistrer', en: 'Save' }, 'srclang="*all*"')
+    ].join(''), 'en-US');
+    expect([own.srcLang, header.srcLang, all.srcLang]).toEqual(['de', 'EN-us', 'fr']);
+  });
+
+  it('falls back to the variants\' dates and users where the unit has none', () => {
+    const [tu] = normalize(
+      '<tu><tuv xml:lang="en" creationdate="20220101T000000Z" changedate="20230101T000000Z" changeid="ann"><seg>Save</seg></tuv>' +
+        '<tuv xml:lang="de" creationdate="20210101T000000Z" creationid="bo" changedate="20240101T000000Z" changeid="cy"><seg>Speichern</seg></tuv></tu>'
+    );
+    expect(tu.id).toBe('generated-0');
+    expect(tu.metadata).toMatchObject({
+      creationDate: '20210101T000000Z',
+      createUser: 'bo',
+      changeDate: '20240101T000000Z',
+      changeUser: 'cy'
+    });
+  });
+});
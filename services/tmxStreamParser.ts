@@ -0,0 +1,341 @@
+import { TmxHeader, TmxTu, TmxTuv, TmxProp, TmxNote } from '../types';
+import { decodeXmlEntities } from './inlineMarkup';
+
+export interface TmxStreamHandlers {
+  onRoot?: (version: string) => void;
+  onHeader?: (header: TmxHeader, location: TextLocation) => void;
+  /**
+   * `span` locates the element in the decoded text: from its '<' to just past its closing '>'.
+   * `locations` gives the line and column of its start tag and of each <tuv>'s.
+   */
+  onTu: (tu: TmxTu, span: TextSpan, locations: TuLocations) => void;
+  /**
+   * Well-formedness problems. The parser recovers from each: elements left open are closed
+   * where their parent ends, stray end tags are skipped, and a truncated document keeps the
+   * units completed before the cut (without this handler, truncation throws instead).
+   */
+  onXmlError?: (error: XmlError) => void;
+}
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/** 1-based line and column in the decoded text. */
+export interface TextLocation {
+  line: number;
+  column: number;
+}
+
+export interface TuLocations {
+  start: TextLocation;
+  tuvs: TextLocation[];
+}
+
+export interface XmlError {
+  message: string;
+  location: TextLocation;
+  /** The document ends before its elements are closed. */
+  truncated?: boolean;
+}
+
+export interface TmxStreamParser {
+  /** Feeds the next decoded chunk of the document. */
+  write: (chunk: string) => void;
+  /** Signals end of input; throws if the document had no <tmx> root, or was truncated and no onXmlError is set. */
+  end: () => void;
+}
+
+// Elements under construction always carry their prop/note lists as arrays.
+type Annotated = { prop: TmxProp[]; note: TmxNote[] };
+
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const NAME_PATTERN = /^[A-Za-z_:][\w.:-]*$/;
+
+// Elements whose content is captured verbatim up to their end tag instead of tokenized.
+const CAPTURED_ELEMENTS = ['seg', 'prop', 'note'];
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(source)) !== null) {
+    attributes[`@_${match[1]}`] = decodeXmlEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+};
+
+/** Finds the '>' closing a start tag, skipping over quoted attribute values. */
+const findTagEnd = (buffer: string, from: number): number => {
+  let quote = '';
+  for (let i = from; i < buffer.length; i++) {
+    const ch = buffer[i];
+    if (quote) {
+      if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const stripCdata = (text: string): string => {
+  if (text.indexOf('<![CDATA[') === -1) return decodeXmlEntities(text);
+  return text
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map(piece => (piece.startsWith('<![CDATA[') ? piece.slice(9, -3) : decodeXmlEntities(piece)))
+    .join('');
+};
+
+/**
+ * Incremental TMX reader for documents too large to hold as a single string.
+ * It only understands the TMX element structure (tmx/header/body/tu/tuv/prop/seg)
+ * and emits each <tu> in the same shape fast-xml-parser produces in parseTmxContent,
+ * so normalizeTu works unchanged. <seg> content is kept as raw inner XML.
+ */
+export const createTmxStreamParser = (handlers: TmxStreamHandlers): TmxStreamParser => {
+  let buffer = '';
+  let sawRoot = false;
+  let header: (TmxHeader & Annotated) | null = null;
+  let tu: (TmxTu & Annotated) | null = null;
+  let tuv: (TmxTuv & Annotated) | null = null;
+  // Set while waiting for the end tag of a captured element.
+  let captured: { name: string; attributes: Record<string, string> } | null = null;
+  // Characters dropped from the front of the buffer so far, and where the current tag
+  // and the open <tu> sit in the whole text
+  let consumed = 0;
+  let tag: TextSpan = { start: 0, end: 0 };
+  let tuStart = 0;
+  // Open structural elements, innermost last; captured elements never get here
+  const open: string[] = [];
+  let headerLocation: TextLocation = { line: 1, column: 1 };
+  let tuLocations: TuLocations = { start: headerLocation, tuvs: [] };
+
+  // Newlines are counted up to `counted` as text goes by; offsets are asked for in
+  // ascending order, and always before the buffer drops them
+  let line = 1;
+  let lineStart = 0;
+  let counted = 0;
+
+  const locate = (offset: number): TextLocation => {
+    if (offset > counted) {
+      const to = offset - consumed;
+      let nl = buffer.indexOf('\n', counted - consumed);
+      while (nl !== -1 && nl < to) {
+        line++;
+        lineStart = consumed + nl + 1;
+        nl = buffer.indexOf('\n', nl + 1);
+      }
+      counted = offset;
+    }
+    return { line, column: Math.max(1, offset - lineStart + 1) };
+  };
+
+  const reportXml = (message: string, offset: number) => handlers.onXmlError?.({ message, location: locate(offset) });
+
+  const finishHeader = () => {
+    if (!header) return;
+    const done: TmxHeader = header;
+    if (header.prop.length === 0) delete done.prop;
+    if (header.note.length === 0) delete done.note;
+    handlers.onHeader?.(done, headerLocation);
+    header = null;
+  };
+
+  const handleCaptured = (name: string, attributes: Record<string, string>, raw: string) => {
+    if (name === 'seg') {
+      if (tuv) tuv.seg = raw;
+      return;
+    }
+    if (name === 'prop') {
+      const prop = { ...attributes, '#text': stripCdata(raw) } as TmxProp;
+      (tuv || tu || header)?.prop.push(prop);
+    } else if (name === 'note') {
+      const note = { ...attributes, '#text': stripCdata(raw) } as TmxNote;
+      (tuv || tu || header)?.note.push(note);
+    }
+  };
+
+  const handleStart = (name: string, attributes: Record<string, string>, selfClosing: boolean) => {
+    switch (name) {
+      case 'tmx':
+        sawRoot = true;
+        handlers.onRoot?.(attributes['@_version'] || '');
+        break;
+      case 'header':
+        header = { ...attributes, prop: [], note: [] };
+        headerLocation = locate(tag.start);
+        if (selfClosing) finishHeader();
+        break;
+      case 'tu':
+        finishHeader();
+        tu = { ...attributes, prop: [], note: [], tuv: [] };
+        tuStart = tag.start;
+        tuLocations = { start: locate(tag.start), tuvs: [] };
+        if (selfClosing) handleEnd('tu');
+        break;
+      case 'tuv':
+        if (!tu) break;
+        tuv = { ...attributes, prop: [], note: [], seg: '' } as TmxTuv & Annotated;
+        tuLocations.tuvs.push(locate(tag.start));
+        if (selfClosing) handleEnd('tuv');
+        break;
+      default:
+        if (CAPTURED_ELEMENTS.includes(name)) {
+          if (selfClosing) handleCaptured(name, attributes, '');
+          else captured = { name, attributes };
+        }
+    }
+  };
+
+  const handleEnd = (name: string) => {
+    if (name === 'header') {
+      finishHeader();
+    } else if (name === 'tuv' && tu && tuv) {
+      if (tuv.prop.length === 0) delete (tuv as TmxTuv).prop;
+      if (tuv.note.length === 0) delete (tuv as TmxTuv).note;
+      tu.tuv.push(tuv);
+      tuv = null;
+    } else if (name === 'tu' && tu) {
+      if (tu.prop.length === 0) delete (tu as TmxTu).prop;
+      if (tu.note.length === 0) delete (tu as TmxTu).note;
+      handlers.onTu(tu, { start: tuStart, end: tag.end }, tuLocations);
+      tu = null;
+    }
+  };
+
+  /** Closes the elements above `depth` that lack an end tag, reporting each. */
+  const closeAbove = (depth: number, before: string) => {
+    while (open.length > depth) {
+      const name = open.pop() as string;
+      reportXml(`Missing </${name}> before ${before}`, tag.start);
+      handleEnd(name);
+    }
+  };
+
+  const endElement = (name: string) => {
+    const depth = open.lastIndexOf(name);
+    if (depth === -1) {
+      reportXml(`Unexpected </${name}> without a matching start tag`, tag.start);
+      return;
+    }
+    closeAbove(depth + 1, `</${name}>`);
+    open.pop();
+    handleEnd(name);
+  };
+
+  const startElement = (name: string, attributes: Record<string, string>, selfClosing: boolean) => {
+    if (!NAME_PATTERN.test(name)) {
+      reportXml(`Malformed tag <${name}>`, tag.start);
+      return;
+    }
+    // A <tu> or <tuv> inside one of its own kind means the previous one was never closed
+    if (name === 'tu' || name === 'tuv') {
+      const depth = open.lastIndexOf(name);
+      if (depth !== -1) closeAbove(depth, `<${name}>`);
+    }
+    if (!selfClosing && !CAPTURED_ELEMENTS.includes(name)) open.push(name);
+    handleStart(name, attributes, selfClosing);
+  };
+
+  /** Consumes as much of the buffer as forms complete tokens. */
+  const drain = () => {
+    let pos = 0;
+    while (pos < buffer.length) {
+      if (captured) {
+        const closeTag = `</${captured.name}`;
+        const close = buffer.indexOf(closeTag, pos);
+        if (close === -1) break;
+        const gt = buffer.indexOf('>', close);
+        if (gt === -1) break;
+        handleCaptured(captured.name, captured.attributes, buffer.slice(pos, close));
+        captured = null;
+        pos = gt + 1;
+        continue;
+      }
+
+      const lt = buffer.indexOf('<', pos);
+      if (lt === -1) {
+        // Only whitespace or stray text between structural elements; discard.
+        pos = buffer.length;
+        break;
+      }
+      pos = lt;
+
+      if (buffer.startsWith('<!--', pos)) {
+        const end = buffer.indexOf('-->', pos + 4);
+        if (end === -1) break;
+        pos = end + 3;
+      } else if (buffer.startsWith('<?', pos)) {
+        const end = buffer.indexOf('?>', pos + 2);
+        if (end === -1) break;
+        pos = end + 2;
+      } else if (buffer.startsWith('<![CDATA[', pos)) {
+        const end = buffer.indexOf(']]>', pos + 9);
+        if (end === -1) break;
+        pos = end + 3;
+      } else if (buffer.startsWith('<!', pos)) {
+        // DOCTYPE, possibly with an internal subset in brackets.
+        const bracket = buffer.indexOf('[', pos);
+        const gt = buffer.indexOf('>', pos);
+        if (gt === -1) break;
+        if (bracket !== -1 && bracket < gt) {
+          const subsetEnd = buffer.indexOf(']>', bracket);
+          if (subsetEnd === -1) break;
+          pos = subsetEnd + 2;
+        } else {
+          pos = gt + 1;
+        }
+      } else if (buffer[pos + 1] === '/') {
+        const gt = buffer.indexOf('>', pos);
+        if (gt === -1) break;
+        tag = { start: consumed + pos, end: consumed + gt + 1 };
+        endElement(buffer.slice(pos + 2, gt).trim());
+        pos = gt + 1;
+      } else {
+        const gt = findTagEnd(buffer, pos + 1);
+        if (gt === -1) break;
+        let inner = buffer.slice(pos + 1, gt);
+        const selfClosing = inner.endsWith('/');
+        if (selfClosing) inner = inner.slice(0, -1);
+        const nameEnd = inner.search(/[\s]/);
+        const name = nameEnd === -1 ? inner : inner.slice(0, nameEnd);
+        const attributes = nameEnd === -1 ? {} : parseAttributes(inner.slice(nameEnd));
+        tag = { start: consumed + pos, end: consumed + gt + 1 };
+        pos = gt + 1;
+        startElement(name, attributes, selfClosing);
+      }
+    }
+    locate(consumed + pos);
+    buffer = buffer.slice(pos);
+    consumed += pos;
+  };
+
+  return {
+    write: (chunk: string) => {
+      buffer += chunk;
+      drain();
+    },
+    end: () => {
+      drain();
+      if (!sawRoot) {
+        throw new Error('Invalid TMX file: Missing root <tmx> element.');
+      }
+      if (!handlers.onXmlError) {
+        if (captured || tu || buffer.trim()) {
+          throw new Error('Unexpected end of file: the TMX document appears to be truncated.');
+        }
+        return;
+      }
+      if (captured || open.length > 0 || buffer.trim()) {
+        const message = tu
+          ? `The file ends inside the <tu> at line ${tuLocations.start.line}, which is left out; it appears to be truncated`
+          : `The file ends before </${open[open.length - 1] || captured?.name || 'tmx'}>; it appears to be truncated`;
+        handlers.onXmlError({ message, location: locate(consumed + buffer.length), truncated: true });
+      }
+    }
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { startWorker, tmxUnit } from './testing/workerHarness';
+
+const diagnosticsOf = async (units: string) => {
+  const { request, loadTmx } = await startWorker();
+  await loadTmx(units);
+  const { diagnostics } = await request('GET_DIAGNOSTICS', { fileIndex: 0, codes: [], offset: 0, limit: 100 });
+  return diagnostics.map(({ code, message, tuid }) => ({ code, message, tuid }));
+};
+
+describe('TMX validation', () => {
+  it('reports dates on units and variants that are not TMX dates', async () => {
+    const diagnostics = await diagnosticsOf(
+      '<tu tuid="a" creationdate="2024-01-05" lastusagedate="20240105T101500Z">' +
+        '<tuv xml:lang="en" changedate="yesterday"><seg>Save</seg></tuv>' +
+        '<tuv xml:lang="de" lastusagedate="20241301"><seg>Speichern</seg></tuv></tu>'
+    );
+    expect(diagnostics).toEqual([
+      { code: 'invalid_date', message: '<tu> creationdate="2024-01-05" is not a date in the form YYYYMMDDThhmmssZ', tuid: 'a' },
+      { code: 'invalid_date', message: '<tuv> changedate="yesterday" is not a date in the form YYYYMMDDThhmmssZ', tuid: 'a' },
+      { code: 'invalid_date', message: '<tuv> lastusagedate="20241301" is not a date in the form YYYYMMDDThhmmssZ', tuid: 'a' }
+    ]);
+  });
+
+  it('flags duplicate tuids, lone variants and variants without xml:lang', async () => {
+    const diagnostics = await diagnosticsOf(
+      tmxUnit('a', { en: 'Save', de: 'Speichern' }) +
+        tmxUnit('a', { en: 'Open' }) +
+        '<tu tuid="b"><tuv xml:lang="en"><seg>Close</seg></tuv><tuv lang="de"><seg>Schließen</seg></tuv></tu>'
+    );
+    expect(diagnostics.map(({ code, tuid }) => [code, tuid])).toEqual([
+      ['duplicate_tuid', 'a'],
+      ['too_few_tuvs', 'a'],
+      ['missing_lang', 'b']
+    ]);
+    expect(diagnostics[2].message).toContain('only the TMX 1.1 lang attribute');
+  });
+
+  it('reports an unknown language code once', async () => {
+    const diagnostics = await diagnosticsOf(
+      tmxUnit('a', { en: 'Save', xx: 'Save' }) + tmxUnit('b', { en: 'Open', xx: 'Open' })
+    );
+    expect(diagnostics.map(({ code, tuid }) => [code, tuid])).toEqual([['unknown_language', 'a']]);
+  });
+});
@@ -0,0 +1,182 @@
+import { DiagnosticCode, DiagnosticSeverity, TmxDiagnostic, TmxHeader, TmxTu, ValidationCounts } from '../types';
+import { TextLocation, TuLocations, XmlError } from './tmxStreamParser';
+import { isTmxDate } from './tmxDates';
+import { isKnownLanguage } from './languageView';
+
+interface DiagnosticInfo {
+  label: string;
+  severity: DiagnosticSeverity;
+}
+
+export const DIAGNOSTICS: Record<DiagnosticCode, DiagnosticInfo> = {
+  xml: { label: 'XML syntax', severity: 'error' },
+  truncated: { label: 'Truncated file', severity: 'error' },
+  missing_header: { label: 'No header', severity: 'error' },
+  missing_srclang: { label: 'No srclang', severity: 'error' },
+  missing_attribute: { label: 'Missing header attribute', severity: 'warning' },
+  too_few_tuvs: { label: 'Fewer than two variants', severity: 'warning' },
+  missing_lang: { label: 'Variant without xml:lang', severity: 'error' },
+  duplicate_tuid: { label: 'Duplicate tuid', severity: 'warning' },
+  invalid_date: { label: 'Invalid date', severity: 'warning' },
+  unpaired_tag: { label: 'Unpaired bpt/ept', severity: 'error' },
+  unknown_language: { label: 'Unknown language code', severity: 'warning' }
+};
+
+export const DIAGNOSTIC_CODES = Object.keys(DIAGNOSTICS) as DiagnosticCode[];
+
+/** Findings of one file: every one counted, the first MAX_DIAGNOSTICS kept for listing. */
+export interface DiagnosticLog {
+  entries: TmxDiagnostic[];
+  counts: ValidationCounts;
+}
+
+// A file broken throughout would otherwise hold a finding per unit
+const MAX_DIAGNOSTICS = 10000;
+
+// Attributes TMX 1.4b requires on <header>; srclang has a code of its own
+const REQUIRED_HEADER_ATTRIBUTES: (keyof TmxHeader)[] = ['@_creationtool', '@_creationtoolversion', '@_segtype', '@_o-tmf', '@_adminlang', '@_datatype'];
+const DATE_ATTRIBUTES = ['@_creationdate', '@_changedate', '@_lastusagedate'] as const;
+
+/** The date attributes an element may carry; <header> has no lastusagedate. */
+type DatedElement = Pick<TmxTu, (typeof DATE_ATTRIBUTES)[number]>;
+
+// Inline elements that must be balanced inside <seg>, and the start and end tags of one
+const PAIRED_INLINE = ['bpt', 'ept', 'ph', 'it', 'ut', 'hi', 'sub'];
+const INLINE_TAG = /<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const I_ATTRIBUTE = /\si\s*=\s*(?:"([^"]*)"|'([^']*)')/;
+
+export const createDiagnosticLog = (): DiagnosticLog => ({ entries: [], counts: { errors: 0, warnings: 0, byCode: {} } });
+
+export const addDiagnostic = (log: DiagnosticLog, diagnostic: TmxDiagnostic) => {
+  if (diagnostic.severity === 'error') log.counts.errors++;
+  else log.counts.warnings++;
+  log.counts.byCode[diagnostic.code] = (log.counts.byCode[diagnostic.code] || 0) + 1;
+  if (log.entries.length < MAX_DIAGNOSTICS) log.entries.push(diagnostic);
+};
+
+/** Unbalanced inline markup in a <seg>'s raw XML: bpt/ept pairs by their i, others by nesting. */
+const inlineProblems = (raw: string): { code: DiagnosticCode; message: string }[] => {
+  const problems: { code: DiagnosticCode; message: string }[] = [];
+  const openBpt = new Set<string>();
+  const stack: string[] = [];
+  INLINE_TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = INLINE_TAG.exec(raw)) !== null) {
+    const [, closing, name, attributes, empty] = match;
+    if (!PAIRED_INLINE.includes(name)) continue;
+    if (!closing && (name === 'bpt' || name === 'ept')) {
+      const iMatch = I_ATTRIBUTE.exec(attributes);
+      const i = iMatch ? iMatch[1] ?? iMatch[2] : '';
+      if (name === 'bpt') {
+        if (openBpt.has(i)) problems.push({ code: 'unpaired_tag', message: `<bpt i="${i}"> opened twice without an <ept>` });
+        openBpt.add(i);
+      } else if (!openBpt.delete(i)) {
+        problems.push({ code: 'unpaired_tag', message: `<ept i="${i}"> without a matching <bpt>` });
+      }
+    }
+    if (empty) continue;
+    if (!closing) {
+      stack.push(name);
+    } else if (stack[stack.length - 1] === name) {
+      stack.pop();
+    } else {
+      problems.push({ code: 'xml', message: `Unexpected </${name}> inside <seg>` });
+      const depth = stack.lastIndexOf(name);
+      if (depth !== -1) stack.length = depth;
+    }
+  }
+  stack.forEach(name => problems.push({ code: 'xml', message: `<${name}> inside <seg> is not closed` }));
+  openBpt.forEach(i => problems.push({ code: 'unpaired_tag', message: `<bpt i="${i}"> without a matching <ept>` }));
+  return problems;
+};
+
+/**
+ * Checks a TMX file against TMX 1.4b as the stream parser hands over its pieces: the
+ * header, each unit with where it sits, and the parser's own well-formedness errors.
+ * Findings go to `report` as they are made.
+ */
+export const createTmxValidator = (report: (diagnostic: TmxDiagnostic) => void) => {
+  const firstSeen = new Map<string, number>(); // tuid -> line of its first unit
+  const knownCodes = new Map<string, boolean>();
+  // Unknown codes are reported where they first appear, not on every unit
+  const reportedCodes = new Set<string>();
+  let sawHeader = false;
+
+  const add = (code: DiagnosticCode, message: string, at: TextLocation, unit?: { tuid?: string; tuIndex: number }) => {
+    report({ code, severity: DIAGNOSTICS[code].severity, message, line: at.line, column: at.column, ...unit });
+  };
+
+  const checkLanguage = (code: string, at: TextLocation, unit?: { tuid?: string; tuIndex: number }) => {
+    if (code === '*all*' || reportedCodes.has(code)) return;
+    let known = knownCodes.get(code);
+    if (known === undefined) {
+      known = isKnownLanguage(code);
+      knownCodes.set(code, known);
+    }
+    if (!known) {
+      reportedCodes.add(code);
+      add('unknown_language', `Unknown language code "${code}" (later uses are not listed)`, at, unit);
+    }
+  };
+
+  const checkDates = (element: string, dated: DatedElement, at: TextLocation, unit?: { tuid?: string; tuIndex: number }) => {
+    for (const key of DATE_ATTRIBUTES) {
+      const value = dated[key];
+      if (typeof value === 'string' && !isTmxDate(value)) {
+        add('invalid_date', `<${element}> ${key.slice(2)}="${value}" is not a date in the form YYYYMMDDThhmmssZ`, at, unit);
+      }
+    }
+  };
+
+  return {
+    xml: ({ message, location, truncated }: XmlError) => add(truncated ? 'truncated' : 'xml', message, location),
+
+    header: (header: TmxHeader, at: TextLocation) => {
+      sawHeader = true;
+      const srclang = header['@_srclang'];
+      if (!srclang) add('missing_srclang', '<header> has no srclang attribute', at);
+      else checkLanguage(srclang, at);
+      const missing = REQUIRED_HEADER_ATTRIBUTES.filter(key => !header[key]).map(key => key.slice(2));
+      if (missing.length > 0) {
+        add('missing_attribute', `<header> lacks required ${missing.length === 1 ? 'attribute' : 'attributes'} ${missing.join(', ')}`, at);
+      }
+      checkDates('header', header, at);
+    },
+
+    tu: (tu: TmxTu, tuIndex: number, { start, tuvs }: TuLocations) => {
+      if (!sawHeader) {
+        sawHeader = true;
+        add('missing_header', 'The document has no <header> before its first unit', start);
+      }
+      const tuid = tu['@_tuid'];
+      const unit = { tuid, tuIndex };
+
+      if (tuid !== undefined) {
+        const line = firstSeen.get(tuid);
+        if (line === undefined) firstSeen.set(tuid, start.line);
+        else add('duplicate_tuid', `tuid "${tuid}" is also used by the unit at line ${line}`, start, unit);
+      }
+      if (tu.tuv.length < 2) {
+        add('too_few_tuvs', `Unit has ${tu.tuv.length === 0 ? 'no variants' : 'a single variant'}; TMX expects at least two`, start, unit);
+      }
+      if (tu['@_srclang']) checkLanguage(tu['@_srclang'], start, unit);
+      checkDates('tu', tu, start, unit);
+
+      tu.tuv.forEach((tuv, i) => {
+        const at = tuvs[i] || start;
+        // TMX 1.1 called it lang; normalizeTu does not read that either
+        const lang = tuv['@_xml:lang'];
+        if (!lang) add('missing_lang', `<tuv> has no xml:lang${tuv['@_lang'] ? ' (only the TMX 1.1 lang attribute)' : ''}`, at, unit);
+        else checkLanguage(lang, at, unit);
+        checkDates('tuv', tuv, at, unit);
+        const raw = typeof tuv.seg === 'string' ? tuv.seg : tuv.seg['#text'];
+        if (raw.indexOf('<') !== -1) inlineProblems(raw).forEach(({ code, message }) => add(code, message, at, unit));
+      });
+    },
+
+    /** Called once the whole document is read. */
+    finish: () => {
+      if (!sawHeader) add('missing_header', 'The document has no <header>', { line: 1, column: 1 });
+    }
+  };
+};
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { startWorker, tmxUnit } from './testing/workerHarness';
+import { DEFAULT_QA_CONFIG } from './qaChecks';
+
+const MEMORY = [
+  tmxUnit('save', { en: 'Save the file', de: 'Datei speichern' }),
+  tmxUnit('format', { en: 'Hello %s, you have {0} messages', de: 'Hallo %s, Sie haben {0} Nachrichten' }),
+  tmxUnit('bold', { en: 'Press &lt;b&gt;OK&lt;/b&gt;', de: 'Drücken Sie &lt;b&gt;OK&lt;/b&gt;' }),
+  tmxUnit('saves', { en: 'Saves are kept', de: 'Speicherstände bleiben' })
+].join('');
+
+describe('full-text search', () => {
+  it('ranks word-prefix matches through the index', async () => {
+    const { request, loadTmx, tuids } = await startWorker();
+    await loadTmx(MEMORY);
+    const result = await request('SEARCH', { query: 'save', mode: 'text' });
+    expect(result.ranked).toBe(true);
+    expect(await tuids(result.resultSetId)).toEqual(['save', 'saves']);
+  });
+
+  it('falls back to a substring scan for queries without words', async () => {
+    const { request, loadTmx, tuids } = await startWorker();
+    await loadTmx(MEMORY);
+    for (const query of ['%s', '{0}', '</b>']) {
+      const result = await request('SEARCH', { query, mode: 'text' });
+      expect(result.ranked).toBe(false);
+      expect(await tuids(result.resultSetId), query).toEqual(query === '</b>' ? ['bold'] : ['format']);
+    }
+  });
+
+  it('finds text inside words in substring mode, with hits where it occurs', async () => {
+    const { request, loadTmx, tuids } = await startWorker();
+    await loadTmx(MEMORY);
+    expect(await tuids((await request('SEARCH', { query: 'peicher', mode: 'text' })).resultSetId)).toEqual([]);
+    const result = await request('SEARCH', { query: 'PEICHER', mode: 'substring' });
+    expect(await tuids(result.resultSetId)).toEqual(['save', 'saves']);
+    const page = await request('GET_PAGE', { resultSetId: result.resultSetId, offset: 0, limit: 1 });
+    expect(page.hits?.[0]).toEqual([[], [{ start: 7, end: 14 }]]);
+  });
+});
+
+describe('bulk cleanup', () => {
+  it('does not remove the variant in a unit\'s source language', async () => {
+    const { request, loadTmx, tuids } = await startWorker();
+    await loadTmx([
+      tmxUnit('a', { en: 'Save', de: 'Speichern', fr: 'Enregistrer' }),
+      tmxUnit('b', { de: 'Abbrechen', en: 'Cancel' }, 'srclang="de"')
+    ].join(''));
+    const summary = await request('PREVIEW_BULK', { action: { kind: 'remove_language', lang: 'DE' }, indices: null });
+    expect(summary).toMatchObject({ changedUnits: 1, removedVariants: 1, sourceKeptUnits: 1 });
+    await request('APPLY_BULK', { previewId: summary.previewId });
+    const page = await request('GET_PAGE', { resultSetId: null, offset: 0, limit: 10 });
+    expect(page.tus.map(tu => tu.variants.map(v => v.lang))).toEqual([['en', 'fr'], ['de', 'en']]);
+    expect(await tuids(null)).toEqual(['a', 'b']);
+  });
+});
+
+describe('multiple files', () => {
+  it('tells files with the same name apart by their load order', async () => {
+    const { request, loadTmx } = await startWorker();
+    await loadTmx(tmxUnit('a', { en: 'Save', de: 'Speichern' }), 'strings.tmx');
+    await loadTmx(tmxUnit('b', { en: 'Save', de: 'Sichern' }), 'strings.tmx');
+    const page = await request('GET_PAGE', { resultSetId: null, offset: 0, limit: 10 });
+    expect(page.tus.map(tu => tu.origin)).toEqual([0, 1]);
+    const grouped = await request('GROUP_TUS', { resultSetId: null });
+    const groups = await request('GET_GROUP_PAGE', { groupSetId: grouped.groupSetId, offset: 0, limit: 10 });
+    expect(groups.groups[0].origins).toEqual([0, 1]);
+  });
+});
+
+describe('fuzzy lookup', () => {
+  it('only takes units whose live source shares a word as candidates', async () => {
+    const { request, loadTmx } = await startWorker();
+    await loadTmx([
+      tmxUnit('a', { en: 'Save the file', de: 'Datei speichern' }),
+      tmxUnit('save', { en: 'Close the window', de: 'Fenster schließen' }),
+      tmxUnit('c', { en: 'Save the file now', de: 'Datei jetzt speichern' }),
+      tmxUnit('d', { en: 'Print', de: 'Save' })
+    ].join(''));
+    const summary = await request('PREVIEW_BULK', { action: { kind: 'delete' }, indices: [2] });
+    await request('APPLY_BULK', { previewId: summary.previewId });
+    const result = await request('FUZZY_MATCH', { text: 'Save the file', minScore: 50, limit: 10 });
+    expect(result.candidates).toBe(2);
+    expect(result.matches.map(match => [match.tu.id, match.score])).toEqual([['a', 100]]);
+  });
+});
+
+describe('dates', () => {
+  it('filters and sorts by the dates a unit has now, after an edit stamps a new one', async () => {
+    const { request, loadTmx, tuids } = await startWorker();
+    await loadTmx([
+      tmxUnit('old', { en: 'Save', de: 'Speichern' }, 'changedate="20200105T100000Z"'),
+      tmxUnit('new', { en: 'Open', de: 'Öffnen' }, 'changedate="2023-06-01T08:00:00Z"'),
+      tmxUnit('undated', { en: 'Close', de: 'Schließen' })
+    ].join(''));
+    const since2021 = { field: 'changed' as const, from: Date.UTC(2021, 0, 1), to: null };
+    const sorted = await request('SEARCH', { query: '', mode: 'text', sort: { field: 'changed', descending: true } });
+    expect(await tuids(sorted.resultSetId)).toEqual(['new', 'old', 'undated']);
+    expect(await tuids((await request('SEARCH', { query: '', mode: 'text', dateRanges: [since2021] })).resultSetId)).toEqual(['new']);
+    await request('EDIT_TU', { index: 0, edit: { segments: [{ variant: 1, segment: [{ kind: 'text', text: 'Sichern' }] }] } });
+    expect(await tuids((await request('SEARCH', { query: '', mode: 'text', dateRanges: [since2021] })).resultSetId)).toEqual(['old', 'new']);
+  });
+});
+
+describe('analytics', () => {
+  it('counts language codes that differ only in case as one language, as the facet filters them', async () => {
+    const { request, loadTmx, tuids } = await startWorker();
+    await loadTmx([
+      tmxUnit('a', { en: 'Save', 'de-DE': 'Speichern' }),
+      tmxUnit('b', { en: 'Cancel', 'de-de': 'Abbrechen' }),
+      tmxUnit('c', { en: 'Open', fr: 'Ouvrir' })
+    ].join(''));
+    const analytics = await request('GET_ANALYTICS', { resultSetId: null });
+    expect(analytics.languages.map(figures => [figures.lang, figures.units])).toEqual([['en', 3], ['de-DE', 2], ['fr', 1]]);
+    const result = await request('SEARCH', { query: '', mode: 'text', facets: [{ field: 'language', value: 'de-DE' }] });
+    expect(await tuids(result.resultSetId)).toEqual(['a', 'b']);
+  });
+});
+
+describe('editing', () => {
+  it('drops QA findings and the consistency report the edit makes stale', async () => {
+    const { request, loadTmx } = await startWorker();
+    await loadTmx([tmxUnit('a', { en: 'Save', de: 'Save' }), tmxUnit('b', { en: 'Save', de: 'Speichern' })].join(''));
+    const qa = await request('RUN_QA', { config: DEFAULT_QA_CONFIG });
+    const consistency = await request('ANALYZE_CONSISTENCY', {});
+    await request('EDIT_TU', { index: 0, edit: { segments: [{ variant: 1, segment: [{ kind: 'text', text: 'Speichern' }] }] } });
+    await expect(request('EXPORT_QA', { qaRunId: qa.qaRunId })).rejects.toThrow('no longer available');
+    await expect(request('GET_CLUSTER_PAGE', { reportId: consistency.reportId, issue: 'target_conflict', offset: 0, limit: 10 })).rejects.toThrow();
+    await expect(request('SEARCH', { query: '', mode: 'text', qaChecks: ['numbers'] })).rejects.toThrow('no longer available');
+  });
+});
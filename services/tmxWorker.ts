@@ -0,0 +1,1318 @@
+/// <reference lib="webworker" />
+/**
+ * Data worker: owns the loaded translation memory. It reads and parses the files of a
+ * session (TMX or any other format in ./formats), normalizes and indexes TUs, runs
+ * searches and hands out pages of TUs, so the main thread never holds (or
+ * structured-clones) the full dataset.
+ */
+import { detectFormat, getFormatReader, previewCsv } from './formats';
+import { buildTmxBlob, serializeTu } from './tmxWriter';
+import { buildTabularBlob, buildDelimitedBlob } from './tabularExport';
+import { matchKeyOf, classifyPair } from './tuCompare';
+import { analyzeConsistency, ConsistencyReport, CONSISTENCY_ISSUE_LABELS } from './consistencyAnalysis';
+import { runQaChecks, QA_CHECKS, QA_CHECK_IDS } from './qaChecks';
+import { compileQuery, compileHighlighter } from './queryLanguage';
+import { createInvertedIndex, findTokenHits, tokenize } from './invertedIndex';
+import { fuzzyScore } from './fuzzyMatch';
+import { applyTuEdit } from './tuEditing';
+import { createReplacer, replaceInTu } from './findReplace';
+import { cleanupUnit, describeCleanup, keepsSourceVariant } from './bulkCleanup';
+import { matchesLanguageView } from './languageView';
+import { computeAnalytics, matchesFacets } from './analytics';
+import { globToRegExp, isGlob } from './batchList';
+import { addDiagnostic, createDiagnosticLog, DiagnosticLog } from './tmxValidator';
+import { isInBounds, unitDates } from './tmxDates';
+import { fingerprintFile, getStoredMemory, isStorageAvailable, MEMORY_SCHEMA, storeMemory, StoredMemory, touchRecentFile } from './memoryStore';
+import { ByteSpan } from './formats/common';
+import { NormalizedTu, TmxHeader, SourceFormat, SourceFileSummary, TuGroup, DiffStatus, ConsistencyCluster, ConsistencyIssue, QaCheckId, QaConfig, QaIssue, FuzzyMatch, HitRange, EditState, TuEdit, MemoryAnalytics, BatchOptions, BatchReport, ListSort, CsvMapping, DateField } from '../types';
+import {
+  WorkerRequest,
+  WorkerRequestMap,
+  WorkerRequestType,
+  WorkerResponse,
+  InspectParams,
+  InspectResult,
+  LoadParams,
+  LoadResult,
+  SearchParams,
+  SearchResult,
+  PageParams,
+  PageResult,
+  LocateParams,
+  DiagnosticsParams,
+  DiagnosticsResult,
+  EditParams,
+  ReplaceParams,
+  ReplaceResult,
+  ReplacePageParams,
+  ReplacePageResult,
+  BulkParams,
+  BulkSummary,
+  GroupParams,
+  GroupResult,
+  GroupPageParams,
+  GroupPageResult,
+  CompareParams,
+  CompareResult,
+  DiffPageParams,
+  DiffPageResult,
+  ConsistencyResult,
+  ClusterRef,
+  ClusterPageParams,
+  ClusterPageResult,
+  FuzzyParams,
+  FuzzyResult,
+  QaResult,
+  ExportParams,
+  ExportResult,
+  TableExportParams,
+  StatsResult,
+  LoadProgress
+} from './workerProtocol';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+interface SearchEntry {
+  // Specific field for targeted search; full text goes through textIndex
+  segmentId: string;
+  // Index of the loaded file the TU came from
+  origin: number;
+  // The TU's dates, parsed once for date filters and sorting
+  dates: Record<DateField, number | null>;
+}
+
+// Number of index entries scanned between yields, so CANCEL messages get a chance to arrive.
+const SCAN_SLICE = 20000;
+
+// Files only ever get appended to a session, so TU indices stay valid while loading
+const tus: NormalizedTu[] = [];
+// Header and TMX version of the first loaded file; used for stats and export
+let header: TmxHeader = {};
+let version = '';
+const sources: SourceFileSummary[] = [];
+// What saving a loaded file back needs, by file index: the file itself and, for UTF-8
+// TMX, where each of its units sits in it
+const sourceFiles: { file: File; firstTu: number; version: string; spans: ByteSpan[] | null }[] = [];
+// Validator findings by file index; null for formats that are not validated
+const diagnosticLogs: (DiagnosticLog | null)[] = [];
+const searchIndex: SearchEntry[] = [];
+// Token index over tuid, x-segment-id and every variant's text; document ids are TU indices
+const textIndex = createInvertedIndex();
+// Languages and prop types seen while loading
+const languages = new Set<string>();
+const propTypes = new Set<string>();
+
+type HitFinder = (tu: NormalizedTu) => HitRange[][];
+
+// Ranked result sets carry a relevance score per index; text searches also know how to
+// locate their hits inside a unit
+let currentResults: { id: number; indices: number[]; scores?: number[]; highlight?: HitFinder } | null = null;
+let currentGroups: { id: number; groups: number[][] } | null = null;
+let currentReport: { id: number; report: ConsistencyReport } | null = null;
+// Comparison entries hold TU indices; -1 marks the side a unit is missing from
+let currentDiff: { id: number; entries: { status: DiffStatus; baseline: number; revised: number }[] } | null = null;
+// Findings of the latest QA run by TU index; units without findings are left empty
+let currentQa: { id: number; issues: QaIssue[][] } | null = null;
+// Counts the changes that made QA findings and the consistency report stale, so a run
+// that a load or an edit overtook does not keep its outdated result
+let analysisGeneration = 0;
+
+interface EditStep {
+  label: string;
+  changes: { idx: number; before: NormalizedTu; after: NormalizedTu }[];
+  // Units the step took out of the memory
+  deleted?: number[];
+}
+
+const undoStack: EditStep[] = [];
+const redoStack: EditStep[] = [];
+// Units as loaded, for those changed since; an entry goes once undo brings the unit back
+const originals = new Map<number, NormalizedTu>();
+// Units taken out by bulk cleanup. They keep their index, so every other index stays
+// valid and undo can bring them back; listings, exports and saves skip them.
+const deleted = new Set<number>();
+// Indices of the units not deleted, in order; rebuilt after a change
+let liveIndices: number[] | null = null;
+// Units a find-and-replace preview would change; the replacements themselves are redone on demand
+let currentReplace: { id: number; params: ReplaceParams; indices: number[] } | null = null;
+// Cleanup awaiting APPLY_BULK; like replacements, its outcome is worked out again on apply
+let currentBulk: { id: number; params: BulkParams } | null = null;
+
+const inFlight = new Set<number>();
+const cancelled = new Set<number>();
+
+/** Thrown inside a handler when its request was cancelled by the client. */
+const CANCELLED = Symbol('cancelled');
+
+const post = (message: WorkerResponse) => self.postMessage(message);
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+const throwIfCancelled = (requestId: number) => {
+  if (cancelled.has(requestId)) throw CANCELLED;
+};
+
+/** Every unit still in the memory, in file order. */
+const memoryIndices = (): number[] => {
+  if (!liveIndices) {
+    liveIndices = [];
+    for (let idx = 0; idx < tus.length; idx++) {
+      if (!deleted.has(idx)) liveIndices.push(idx);
+    }
+  }
+  return liveIndices;
+};
+
+const sourceTextOf = (tu: NormalizedTu) => tu.variants.find(v => v.lang === tu.srcLang)?.text || '';
+
+const indexFields = (tu: NormalizedTu) => [
+  { text: tu.id },
+  { text: tu.props['x-segment-id'] || '' },
+  ...tu.variants.map(v => ({ text: v.text, lang: v.lang }))
+];
+
+const indexTu = (tu: NormalizedTu, idx: number, origin: number): SearchEntry => {
+  const segmentId = tu.props['x-segment-id'] || '';
+  textIndex.add(idx, indexFields(tu));
+
+  return {
+    segmentId: segmentId.toLowerCase(), // Normalize for search
+    origin,
+    dates: unitDates(tu)
+  };
+};
+
+/** Origin file, QA, edit and language restrictions, which apply on top of any query. */
+const buildScopeFilter = (params: SearchParams): ((entry: SearchEntry, idx: number) => boolean) => {
+  const filters: ((entry: SearchEntry, idx: number) => boolean)[] = [];
+  if (params.originFiles) {
+    const origins = new Set(params.originFiles);
+    filters.push(entry => origins.has(entry.origin));
+  }
+  if (params.qaChecks) {
+    if (!currentQa) throw new Error('QA results are no longer available.');
+    const { issues } = currentQa;
+    const checks = new Set(params.qaChecks);
+    filters.push((_, idx) => issues[idx]?.some(issue => checks.has(issue.check)) ?? false);
+  }
+  if (params.modifiedOnly) filters.push((_, idx) => originals.has(idx));
+  if (params.languages) {
+    const view = params.languages;
+    filters.push((_, idx) => matchesLanguageView(tus[idx], view));
+  }
+  if (params.facets && params.facets.length > 0) {
+    const facets = params.facets;
+    filters.push((_, idx) => matchesFacets(tus[idx], facets));
+  }
+  params.dateRanges?.forEach(bounds => filters.push(entry => isInBounds(entry.dates[bounds.field], bounds)));
+  if (deleted.size > 0) filters.push((_, idx) => !deleted.has(idx));
+  return (entry, idx) => filters.every(filter => filter(entry, idx));
+};
+
+// Placeholder and markup characters, which the index drops but a query containing them means
+const CODE_CHARACTERS = /[%{}<>[\]$&#@\\/|^~*=_]/;
+
+/**
+ * Whether a query is answered by scanning for it as a substring: on request, or when a
+ * full-text query is placeholders or markup (%s, {0}, </b>) that its words alone would
+ * not find.
+ */
+const isSubstringSearch = ({ query, mode }: Pick<SearchParams, 'query' | 'mode'>) =>
+  mode === 'substring' || (mode === 'text' && !!query.trim() && (CODE_CHARACTERS.test(query) || tokenize(query).length === 0));
+
+/** Case-insensitive substring match against what full-text search covers: ids and plain segment text. */
+const containsText = (tu: NormalizedTu, lowerQuery: string) =>
+  tu.id.toLowerCase().includes(lowerQuery) ||
+  (tu.props['x-segment-id'] || '').toLowerCase().includes(lowerQuery) ||
+  tu.variants.some(v => v.text.toLowerCase().includes(lowerQuery));
+
+/** Where a substring occurs in a text, case-insensitively. */
+const findSubstringHits = (text: string, lowerQuery: string): HitRange[] => {
+  const hits: HitRange[] = [];
+  const lower = text.toLowerCase();
+  for (let at = lower.indexOf(lowerQuery); at !== -1; at = lower.indexOf(lowerQuery, at + lowerQuery.length)) {
+    hits.push({ start: at, end: at + lowerQuery.length });
+  }
+  return hits;
+};
+
+const buildQueryMatcher = ({ query, mode, queryTree }: SearchParams): ((entry: SearchEntry, idx: number) => boolean) => {
+  const lowerQuery = query.toLowerCase();
+
+  if (isSubstringSearch({ query, mode })) return (_, idx) => containsText(tus[idx], lowerQuery);
+
+  // Structured query: evaluated against the TU itself, not the flattened index entry
+  if (mode === 'query') {
+    if (!queryTree) return () => true;
+    const test = compileQuery(queryTree);
+    return (_, idx) => test(tus[idx]);
+  }
+
+  // Segment ID Prefix Logic
+  if (mode === 'id_prefix') return entry => entry.segmentId.startsWith(lowerQuery);
+  // Segment ID Partial Logic (using includes for user friendliness)
+  if (mode === 'id_partial') return entry => entry.segmentId.includes(lowerQuery);
+  // Full text queries are answered by textIndex; without a query, everything in scope matches
+  return () => true;
+};
+
+/** Where a search's text terms sit in each variant of a unit; none for ID lookups. */
+const buildHighlighter = ({ query, mode, queryTree }: SearchParams): HitFinder | undefined => {
+  if (mode === 'query') return queryTree ? compileHighlighter(queryTree) : undefined;
+  if (isSubstringSearch({ query, mode })) {
+    const lowerQuery = query.toLowerCase();
+    return tu => tu.variants.map(v => findSubstringHits(v.text, lowerQuery));
+  }
+  if (mode !== 'text') return undefined;
+  const tokens = [...new Set(tokenize(query))];
+  if (tokens.length === 0) return undefined;
+  return tu => tu.variants.map(v => findTokenHits(v.text, v.lang, tokens));
+};
+
+const inspectFile = async ({ file, remember }: InspectParams): Promise<InspectResult> => {
+  const reader = await detectFormat(file);
+  const result: InspectResult = { format: reader.format, label: reader.label, cached: false };
+  if (remember && isStorageAvailable()) {
+    result.fingerprint = await fingerprintFile(file);
+    // A broken or full local store only costs the fast path
+    result.cached = !!(await getStoredMemory(result.fingerprint).catch(() => undefined));
+  }
+  // The mapping is asked for every time; a stored copy is only used if it was read with the same one
+  if (reader.format === 'csv') result.csvPreview = await previewCsv(file);
+  return result;
+};
+
+const sameCsvMapping = (a?: CsvMapping, b?: CsvMapping) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** Appends a file's summary once its units are in, and makes the first file's header the session's. */
+const addSource = (
+  file: File,
+  format: SourceFormat,
+  label: string,
+  fileHeader: TmxHeader,
+  fileVersion: string,
+  firstTu: number,
+  spans: ByteSpan[] | null,
+  diagnostics: DiagnosticLog | null
+) => {
+  const fileIndex = sources.length;
+  const fileLanguages = new Set<string>();
+  for (let idx = firstTu; idx < tus.length; idx++) tus[idx].variants.forEach(v => fileLanguages.add(v.lang));
+  // QA findings and the consistency report do not cover the new units
+  dropAnalyses();
+
+  if (fileIndex === 0) {
+    header = fileHeader;
+    version = fileVersion;
+  }
+
+  const source: SourceFileSummary = {
+    index: fileIndex,
+    name: file.name,
+    format,
+    label,
+    header: fileHeader,
+    tuCount: tus.length - firstTu,
+    languages: [...fileLanguages].sort()
+  };
+  if (diagnostics) source.validation = diagnostics.counts;
+  sources.push(source);
+  sourceFiles.push({ file, firstTu, version: fileVersion, spans: format === 'tmx' ? spans : null });
+  diagnosticLogs.push(diagnostics);
+  return source;
+};
+
+/** Appends a stored copy of a file: its units and index slice go in as they are, without parsing. */
+const restoreFile = (file: File, stored: StoredMemory, requestId: number): LoadResult => {
+  const fileIndex = sources.length;
+  const firstTu = tus.length;
+  for (const tu of stored.tus) {
+    tu.origin = fileIndex;
+    tus.push(tu);
+    searchIndex.push({ segmentId: (tu.props['x-segment-id'] || '').toLowerCase(), origin: fileIndex, dates: unitDates(tu) });
+    tu.variants.forEach(v => languages.add(v.lang));
+    Object.keys(tu.props).forEach(type => propTypes.add(type));
+  }
+  textIndex.restore(stored.index, firstTu);
+  liveIndices = null;
+  post({
+    id: requestId,
+    type: 'PROGRESS',
+    progress: { fileIndex, bytesProcessed: file.size, totalBytes: file.size, tuCount: tus.length, version: stored.version, header: stored.header }
+  });
+
+  const source = addSource(file, stored.format, stored.label, stored.header, stored.version, firstTu, stored.spans, stored.diagnostics || null);
+  touchRecentFile(stored.fingerprint, file.name).catch(() => undefined);
+  return { tuCount: tus.length, source, restored: true };
+};
+
+/**
+ * Keeps a parsed copy of the file just loaded. Resolves with why it could not be kept;
+ * the file itself stays loaded either way.
+ */
+const rememberFile = async (file: File, fingerprint: string, source: SourceFileSummary, firstTu: number, csvMapping?: CsvMapping): Promise<string | undefined> => {
+  const { version: fileVersion, spans } = sourceFiles[source.index];
+  const memory: StoredMemory = {
+    schema: MEMORY_SCHEMA,
+    fingerprint,
+    format: source.format,
+    label: source.label,
+    header: source.header,
+    version: fileVersion,
+    tus: tus.slice(firstTu, firstTu + source.tuCount),
+    index: textIndex.snapshot(firstTu, firstTu + source.tuCount),
+    spans,
+    diagnostics: diagnosticLogs[source.index] || undefined,
+    csvMapping
+  };
+  const recent = {
+    fingerprint,
+    name: file.name,
+    size: file.size,
+    label: source.label,
+    tuCount: source.tuCount,
+    languages: source.languages,
+    openedAt: Date.now()
+  };
+  try {
+    await storeMemory(memory, file, recent);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+/**
+ * Reads one file and appends its TUs to the session; a failed load leaves the
+ * previously loaded files untouched. TMX files are validated while they are read, and
+ * one with recoverable faults (unbalanced tags, a truncated end) loads what could be read.
+ */
+const loadFile = async ({ file, format, csvMapping, fingerprint, remember }: LoadParams, requestId: number): Promise<LoadResult> => {
+  const stored = fingerprint ? await getStoredMemory(fingerprint).catch(() => undefined) : undefined;
+  if (stored && sameCsvMapping(stored.csvMapping, csvMapping)) return restoreFile(file, stored, requestId);
+
+  const fileIndex = sources.length;
+  const reader = getFormatReader(format);
+  const firstTu = tus.length;
+  let fileHeader: TmxHeader = {};
+  let fileVersion = '';
+  let spans: ByteSpan[] | null = [];
+  const diagnostics = format === 'tmx' ? createDiagnosticLog() : null;
+  // Restored if the load fails, so the session lists nothing from a file it never added
+  const knownLanguages = [...languages];
+  const knownPropTypes = [...propTypes];
+
+  const progress: LoadProgress = { fileIndex, bytesProcessed: 0, totalBytes: file.size, tuCount: tus.length };
+  const report = () => post({ id: requestId, type: 'PROGRESS', progress: { ...progress } });
+
+  try {
+    await reader.read(file, {
+      onRoot: (rootVersion) => {
+        fileVersion = rootVersion;
+        progress.version = rootVersion;
+      },
+      onHeader: (parsedHeader: TmxHeader) => {
+        fileHeader = parsedHeader;
+        progress.header = parsedHeader;
+        report();
+        delete progress.header;
+      },
+      onBatch: (batch, bytesProcessed, batchSpans) => {
+        if (spans && batchSpans) spans.push(...batchSpans);
+        else spans = null;
+        for (const tu of batch) {
+          tu.origin = fileIndex;
+          tus.push(tu);
+          searchIndex.push(indexTu(tu, tus.length - 1, fileIndex));
+          tu.variants.forEach(v => languages.add(v.lang));
+          Object.keys(tu.props).forEach(type => propTypes.add(type));
+        }
+        liveIndices = null;
+        progress.bytesProcessed = bytesProcessed;
+        progress.tuCount = tus.length;
+        report();
+      },
+      onDiagnostic: diagnostics ? diagnostic => addDiagnostic(diagnostics, diagnostic) : undefined
+    }, { csvMapping });
+  } catch (err) {
+    tus.length = firstTu;
+    searchIndex.length = firstTu;
+    textIndex.truncate(firstTu);
+    languages.clear();
+    knownLanguages.forEach(lang => languages.add(lang));
+    propTypes.clear();
+    knownPropTypes.forEach(type => propTypes.add(type));
+    liveIndices = null;
+    throw err;
+  }
+
+  // Parser errors come out when they are noticed, a little after the unit findings before them
+  diagnostics?.entries.sort((a, b) => a.line - b.line || a.column - b.column);
+  const label = format === 'tmx' ? `TMX ${fileVersion}`.trim() : fileHeader['@_o-tmf'] || reader.label;
+  const source = addSource(file, format, label, fileHeader, fileVersion, firstTu, spans, diagnostics);
+  const result: LoadResult = { tuCount: tus.length, source, restored: false };
+  if (fingerprint && remember) result.storeError = await rememberFile(file, fingerprint, source, firstTu, csvMapping);
+  return result;
+};
+
+/** What a batch list entry is compared with; IDs in lower case, as the entries are compared. */
+const batchKeyOf = (idx: number, { field, propType }: BatchOptions): string => {
+  switch (field) {
+    case 'segmentId':
+      return searchIndex[idx].segmentId;
+    case 'tuid':
+      return tus[idx].id.toLowerCase();
+    case 'prop':
+      return (tus[idx].props[propType] || '').toLowerCase();
+    case 'source':
+      return sourceTextOf(tus[idx]).trim();
+  }
+};
+
+/**
+ * Units matching a batch list, grouped by the first entry each one matches so the hits
+ * follow the list. Entries are counted against the whole memory, so the report does not
+ * depend on other filters.
+ */
+const searchBatch = async (params: SearchParams, inScope: (entry: SearchEntry, idx: number) => boolean, requestId: number): Promise<SearchResult> => {
+  const options = params.batchOptions ?? { field: 'segmentId', propType: '', patterns: false };
+  const ignoreCase = options.field !== 'source';
+  // One entry per key; "ABC" and "abc" are the same ID
+  const entries: string[] = [];
+  const exact = new Map<string, number>();
+  const patterns: { at: number; regex: RegExp }[] = [];
+  const seenPatterns = new Set<string>();
+  for (const raw of params.batchList || []) {
+    const entry = raw.trim();
+    if (!entry) continue;
+    const key = ignoreCase ? entry.toLowerCase() : entry;
+    if (options.patterns && isGlob(entry)) {
+      if (seenPatterns.has(key)) continue;
+      seenPatterns.add(key);
+      patterns.push({ at: entries.length, regex: globToRegExp(entry, ignoreCase) });
+    } else {
+      if (exact.has(key)) continue;
+      exact.set(key, entries.length);
+    }
+    entries.push(entry);
+  }
+
+  const counts = new Uint32Array(entries.length);
+  const buckets: number[][] = entries.map(() => []);
+  for (let start = 0; start < searchIndex.length; start += SCAN_SLICE) {
+    const end = Math.min(searchIndex.length, start + SCAN_SLICE);
+    for (let i = start; i < end; i++) {
+      if (deleted.has(i)) continue;
+      const key = batchKeyOf(i, options);
+      if (!key) continue;
+      let first = exact.get(key) ?? entries.length;
+      if (first < entries.length) counts[first]++;
+      for (const pattern of patterns) {
+        if (!pattern.regex.test(key)) continue;
+        counts[pattern.at]++;
+        first = Math.min(first, pattern.at);
+      }
+      if (first < entries.length && inScope(searchIndex[i], i)) buckets[first].push(i);
+    }
+    await yieldToEventLoop();
+    throwIfCancelled(requestId);
+  }
+
+  const indices = buckets.flat();
+  const isPattern = new Set(patterns.map(pattern => pattern.at));
+  const batchReport: BatchReport = {
+    requested: entries.length,
+    matched: indices.length,
+    missing: entries.filter((_, at) => counts[at] === 0),
+    // Patterns are meant to match several units
+    ambiguous: entries.flatMap((entry, at) => (counts[at] > 1 && !isPattern.has(at) ? [{ entry, count: counts[at] }] : []))
+  };
+  currentResults = { id: requestId, indices };
+  return { resultSetId: requestId, total: indices.length, ranked: false, batchReport };
+};
+
+const findMatches = async (params: SearchParams, requestId: number): Promise<SearchResult> => {
+  const inScope = buildScopeFilter(params);
+
+  if (params.mode === 'batch_id') return searchBatch(params, inScope, requestId);
+
+  // Full text goes through the token index and comes back ranked; scope filters apply afterwards
+  if (params.mode === 'text' && params.query.trim() && !isSubstringSearch(params)) {
+    const hits = textIndex.search(params.query);
+    const indices: number[] = [];
+    const scores: number[] = [];
+    for (let start = 0; start < hits.indices.length; start += SCAN_SLICE) {
+      const end = Math.min(hits.indices.length, start + SCAN_SLICE);
+      for (let i = start; i < end; i++) {
+        const idx = hits.indices[i];
+        if (inScope(searchIndex[idx], idx)) {
+          indices.push(idx);
+          scores.push(hits.scores[i]);
+        }
+      }
+      await yieldToEventLoop();
+      throwIfCancelled(requestId);
+    }
+    // Relative to the best hit that survived the filters
+    const best = scores[0] || 1;
+    currentResults = { id: requestId, indices, scores: scores.map(score => score / best), highlight: buildHighlighter(params) };
+    return { resultSetId: requestId, total: indices.length, ranked: true };
+  }
+
+  const matches = buildQueryMatcher(params);
+  const indices: number[] = [];
+
+  for (let start = 0; start < searchIndex.length; start += SCAN_SLICE) {
+    const end = Math.min(searchIndex.length, start + SCAN_SLICE);
+    for (let i = start; i < end; i++) {
+      if (inScope(searchIndex[i], i) && matches(searchIndex[i], i)) indices.push(i);
+    }
+    await yieldToEventLoop();
+    throwIfCancelled(requestId);
+  }
+
+  currentResults = { id: requestId, indices, highlight: buildHighlighter(params) };
+  return { resultSetId: requestId, total: indices.length, ranked: false };
+};
+
+/** Reorders the current results by a date; the sort is stable, and undated units go last. */
+const sortResults = async ({ field, descending }: ListSort, requestId: number) => {
+  if (!currentResults || currentResults.id !== requestId) return;
+  const { indices, scores } = currentResults;
+  const times = new Float64Array(indices.length);
+  for (let start = 0; start < indices.length; start += SCAN_SLICE) {
+    const end = Math.min(indices.length, start + SCAN_SLICE);
+    for (let pos = start; pos < end; pos++) times[pos] = searchIndex[indices[pos]].dates[field] ?? NaN;
+    await yieldToEventLoop();
+    throwIfCancelled(requestId);
+  }
+  const direction = descending ? -1 : 1;
+  const order = indices.map((_, pos) => pos).sort((a, b) => {
+    const undated = Number(Number.isNaN(times[a])) - Number(Number.isNaN(times[b]));
+    return undated || (times[a] - times[b]) * direction || 0;
+  });
+  currentResults.indices = order.map(pos => indices[pos]);
+  if (scores) currentResults.scores = order.map(pos => scores[pos]);
+};
+
+const search = async (params: SearchParams, requestId: number): Promise<SearchResult> => {
+  const result = await findMatches(params, requestId);
+  if (!params.sort) return result;
+  await sortResults(params.sort, requestId);
+  return { ...result, ranked: false };
+};
+
+/** Resolves a result set handle to the TU indices it matched. */
+const getResultIndices = (resultSetId: number): number[] => {
+  if (!currentResults || currentResults.id !== resultSetId) {
+    throw new Error('Result set is no longer available.');
+  }
+  return currentResults.indices;
+};
+
+const getPage = async ({ resultSetId, offset, limit }: PageParams): Promise<PageResult> => {
+  const indices = resultSetId !== null ? getResultIndices(resultSetId) : deleted.size > 0 ? memoryIndices() : null;
+  const total = indices ? indices.length : tus.length;
+  const pageIndices = indices
+    ? indices.slice(offset, offset + limit)
+    : Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, i) => offset + i);
+  const page: PageResult = { tus: pageIndices.map(idx => tus[idx]), indices: pageIndices, total };
+  const scores = resultSetId !== null && currentResults?.scores;
+  if (scores) page.scores = scores.slice(offset, offset + limit);
+  const highlight = resultSetId !== null && currentResults?.highlight;
+  if (highlight) page.hits = page.tus.map(highlight);
+  if (currentQa) {
+    const { issues } = currentQa;
+    page.qa = pageIndices.map(idx => issues[idx] || []);
+  }
+  if (originals.size > 0) page.modified = pageIndices.map(idx => originals.has(idx));
+  return page;
+};
+
+/** Normalized source text used to match units across files. */
+const groupingText = (tu: NormalizedTu) => sourceTextOf(tu).trim().replace(/\s+/g, ' ');
+
+/**
+ * Groups TUs that share their x-segment-id or their source text. Both keys link units,
+ * so a unit with a known ID and a unit with the same source end up in one group.
+ */
+const groupTus = async ({ resultSetId }: GroupParams, requestId: number): Promise<GroupResult> => {
+  const indices = resultSetId === null ? memoryIndices() : getResultIndices(resultSetId);
+  const parent = indices.map((_, pos) => pos);
+  const find = (pos: number): number => {
+    while (parent[pos] !== pos) {
+      parent[pos] = parent[parent[pos]];
+      pos = parent[pos];
+    }
+    return pos;
+  };
+  const firstByKey = new Map<string, number>();
+  const link = (key: string, pos: number) => {
+    const first = firstByKey.get(key);
+    if (first === undefined) {
+      firstByKey.set(key, pos);
+      return;
+    }
+    // Keep the earliest position as root so groups stay in file order
+    const a = find(first);
+    const b = find(pos);
+    if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+  };
+
+  for (let start = 0; start < indices.length; start += SCAN_SLICE) {
+    const end = Math.min(indices.length, start + SCAN_SLICE);
+    for (let pos = start; pos < end; pos++) {
+      const entry = searchIndex[indices[pos]];
+      if (entry.segmentId) link('id:' + entry.segmentId, pos);
+      const text = groupingText(tus[indices[pos]]);
+      if (text) link('src:' + text, pos);
+    }
+    await yieldToEventLoop();
+    throwIfCancelled(requestId);
+  }
+
+  const byRoot = new Map<number, number[]>();
+  indices.forEach((tuIndex, pos) => {
+    const root = find(pos);
+    const members = byRoot.get(root);
+    if (members) members.push(tuIndex);
+    else byRoot.set(root, [tuIndex]);
+  });
+
+  currentGroups = { id: requestId, groups: [...byRoot.values()] };
+  return { groupSetId: requestId, total: currentGroups.groups.length };
+};
+
+const getGroupPage = async ({ groupSetId, offset, limit }: GroupPageParams): Promise<GroupPageResult> => {
+  if (!currentGroups || currentGroups.id !== groupSetId) {
+    throw new Error('Grouping is no longer available.');
+  }
+  const groups = currentGroups.groups.slice(offset, offset + limit).map((members): TuGroup => {
+    const groupTus = members.map(idx => tus[idx]);
+    return {
+      key: groupTus[0].props['x-segment-id'] || sourceTextOf(groupTus[0]),
+      tus: groupTus,
+      origins: [...new Set(groupTus.map(tu => tu.origin ?? -1))]
+    };
+  });
+  return { groups, total: currentGroups.groups.length };
+};
+
+/** TU index range of a loaded file; files occupy consecutive ranges in load order. */
+const fileRange = (fileIndex: number) => {
+  if (!sources[fileIndex]) throw new Error('Unknown file.');
+  const start = sources.slice(0, fileIndex).reduce((sum, source) => sum + source.tuCount, 0);
+  return { start, end: start + sources[fileIndex].tuCount };
+};
+
+/**
+ * Matches the units of a revised file against a baseline by key. Units sharing a key
+ * are paired in file order; units without a key never match.
+ */
+const compareFiles = async ({ baseline, revised, matchBy }: CompareParams, requestId: number): Promise<CompareResult> => {
+  const base = fileRange(baseline);
+  const rev = fileRange(revised);
+  const counts: Record<DiffStatus, number> = { added: 0, removed: 0, changed: 0, metadata: 0, unchanged: 0 };
+  const entries: { status: DiffStatus; baseline: number; revised: number }[] = [];
+
+  const baselineByKey = new Map<string, number[]>();
+  for (let idx = base.start; idx < base.end; idx++) {
+    const key = !deleted.has(idx) && matchKeyOf(tus[idx], matchBy);
+    if (!key) continue;
+    const queue = baselineByKey.get(key);
+    if (queue) queue.push(idx);
+    else baselineByKey.set(key, [idx]);
+  }
+
+  const matched = new Set<number>();
+  for (let idx = rev.start; idx < rev.end; idx++) {
+    if (deleted.has(idx)) continue;
+    const key = matchKeyOf(tus[idx], matchBy);
+    const baseIdx = key ? baselineByKey.get(key)?.shift() : undefined;
+    if (baseIdx === undefined) {
+      entries.push({ status: 'added', baseline: -1, revised: idx });
+    } else {
+      matched.add(baseIdx);
+      entries.push({ status: classifyPair(tus[baseIdx], tus[idx]), baseline: baseIdx, revised: idx });
+    }
+    if ((idx - rev.start + 1) % SCAN_SLICE === 0) {
+      await yieldToEventLoop();
+      throwIfCancelled(requestId);
+    }
+  }
+  for (let idx = base.start; idx < base.end; idx++) {
+    if (!matched.has(idx) && !deleted.has(idx)) entries.push({ status: 'removed', baseline: idx, revised: -1 });
+  }
+
+  entries.forEach(entry => counts[entry.status]++);
+  currentDiff = { id: requestId, entries };
+  return { diffSetId: requestId, counts };
+};
+
+const getDiffPage = async ({ diffSetId, statuses, offset, limit }: DiffPageParams): Promise<DiffPageResult> => {
+  if (!currentDiff || currentDiff.id !== diffSetId) {
+    throw new Error('Comparison is no longer available.');
+  }
+  const wanted = new Set(statuses);
+  const filtered = currentDiff.entries.filter(entry => wanted.has(entry.status));
+  return {
+    entries: filtered.slice(offset, offset + limit).map(entry => ({
+      status: entry.status,
+      baseline: entry.baseline === -1 ? undefined : tus[entry.baseline],
+      revised: entry.revised === -1 ? undefined : tus[entry.revised]
+    })),
+    total: filtered.length
+  };
+};
+
+// Members sent along with each cluster on a page; the rest is reachable via SELECT_CLUSTER
+const CLUSTER_PREVIEW_SIZE = 10;
+
+const analyze = async (_params: Record<string, never>, requestId: number): Promise<ConsistencyResult> => {
+  const generation = analysisGeneration;
+  const report = await analyzeConsistency(tus, async () => {
+    await yieldToEventLoop();
+    throwIfCancelled(requestId);
+  }, deleted);
+  throwIfOvertaken(generation);
+  currentReport = { id: requestId, report };
+  const counts = Object.fromEntries(
+    Object.entries(report).map(([issue, clusters]) => [issue, clusters.length])
+  ) as Record<ConsistencyIssue, number>;
+  return { reportId: requestId, counts };
+};
+
+const getReport = (reportId: number): ConsistencyReport => {
+  if (!currentReport || currentReport.id !== reportId) {
+    throw new Error('Report is no longer available.');
+  }
+  return currentReport.report;
+};
+
+const getCluster = ({ reportId, issue, index }: ClusterRef) => {
+  const cluster = getReport(reportId)[issue][index];
+  if (!cluster) throw new Error('Unknown cluster.');
+  return cluster;
+};
+
+const getClusterPage = async ({ reportId, issue, offset, limit }: ClusterPageParams): Promise<ClusterPageResult> => {
+  const clusters = getReport(reportId)[issue];
+  return {
+    clusters: clusters.slice(offset, offset + limit).map(({ members, ...cluster }, idx): ConsistencyCluster => ({
+      ...cluster,
+      index: offset + idx,
+      total: members.length,
+      tus: members.slice(0, CLUSTER_PREVIEW_SIZE).map(tuIndex => tus[tuIndex])
+    })),
+    total: clusters.length
+  };
+};
+
+const selectCluster = async (ref: ClusterRef, requestId: number): Promise<SearchResult> => {
+  const indices = getCluster(ref).members;
+  currentResults = { id: requestId, indices };
+  return { resultSetId: requestId, total: indices.length, ranked: false };
+};
+
+const exportCluster = async (ref: ClusterRef): Promise<ExportResult> => {
+  const selected = getCluster(ref).members.map(idx => tus[idx]);
+  return { blob: buildTmxBlob(header, version, selected), count: selected.length };
+};
+
+/** One CSV row per member unit, grouped by cluster. */
+const exportReport = async ({ reportId }: { reportId: number }): Promise<ExportResult> => {
+  const report = getReport(reportId);
+  const rows: string[][] = [['Issue', 'Cluster', 'Key', 'Source Language', 'Target Language', 'tuid', 'x-segment-id', 'Source', 'Targets']];
+  (Object.keys(report) as ConsistencyIssue[]).forEach(issue => {
+    report[issue].forEach((cluster, clusterIdx) => {
+      cluster.members.forEach(idx => {
+        const tu = tus[idx];
+        const source = tu.variants.find(v => v.lang === tu.srcLang);
+        const targets = tu.variants
+          .filter(v => v !== source && (!cluster.targetLang || v.lang === cluster.targetLang))
+          .map(v => `${v.lang}: ${v.text}`);
+        rows.push([
+          CONSISTENCY_ISSUE_LABELS[issue],
+          String(clusterIdx + 1),
+          cluster.key,
+          cluster.srcLang,
+          cluster.targetLang || '',
+          tu.id,
+          tu.props['x-segment-id'] || '',
+          source?.text || '',
+          targets.join('\n')
+        ]);
+      });
+    });
+  });
+  return { blob: buildDelimitedBlob(rows, ','), count: rows.length - 1 };
+};
+
+// Units considered for a fuzzy lookup, taken from the index by shared words
+const FUZZY_CANDIDATES = 5000;
+
+/** Scores the units whose source shares words with the text, like a CAT tool's TM lookup. */
+const fuzzyMatch = async ({ text, minScore, limit }: FuzzyParams, requestId: number): Promise<FuzzyResult> => {
+  // The index covers ids and every language; a word shared only with a target or id
+  // does not make a candidate and must not take one of the limited places
+  const words = new Set(tokenize(text));
+  const sharesSourceWord = (idx: number) =>
+    !deleted.has(idx) && tokenize(sourceTextOf(tus[idx]), tus[idx].srcLang).some(token => words.has(token));
+  const candidates = textIndex.related(text, FUZZY_CANDIDATES, sharesSourceWord);
+  const matches: FuzzyMatch[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    const tu = tus[candidates[i]];
+    const score = fuzzyScore(text, sourceTextOf(tu), minScore);
+    if (score !== null) matches.push({ tu, score });
+    if ((i + 1) % 1000 === 0) {
+      await yieldToEventLoop();
+      throwIfCancelled(requestId);
+    }
+  }
+
+  // Stable sort keeps index relevance as the tie-breaker
+  matches.sort((a, b) => b.score - a.score);
+  return { matches: matches.slice(0, limit), candidates: candidates.length };
+};
+
+const runQa = async ({ config }: { config: QaConfig }, requestId: number): Promise<QaResult> => {
+  const issues: QaIssue[][] = [];
+  const counts = Object.fromEntries(QA_CHECK_IDS.map(check => [check, 0])) as Record<QaCheckId, number>;
+  let affectedUnits = 0;
+  const generation = analysisGeneration;
+
+  for (let idx = 0; idx < tus.length; idx++) {
+    const found = deleted.has(idx) ? [] : runQaChecks(tus[idx], config);
+    if (found.length > 0) {
+      issues[idx] = found;
+      affectedUnits++;
+      new Set(found.map(issue => issue.check)).forEach(check => counts[check]++);
+    }
+    if ((idx + 1) % SCAN_SLICE === 0) {
+      await yieldToEventLoop();
+      throwIfCancelled(requestId);
+    }
+  }
+
+  throwIfOvertaken(generation);
+  currentQa = { id: requestId, issues };
+  return { qaRunId: requestId, counts, affectedUnits };
+};
+
+/** One CSV row per finding, in file order. */
+const exportQa = async ({ qaRunId }: { qaRunId: number }): Promise<ExportResult> => {
+  if (!currentQa || currentQa.id !== qaRunId) {
+    throw new Error('QA results are no longer available.');
+  }
+  const rows: string[][] = [['Check', 'Severity', 'File', 'tuid', 'x-segment-id', 'Source Language', 'Target Language', 'Message', 'Source', 'Target']];
+  currentQa.issues.forEach((found, idx) => {
+    const tu = tus[idx];
+    found.forEach(issue => {
+      rows.push([
+        QA_CHECKS[issue.check].label,
+        issue.severity,
+        tu.origin === undefined ? '' : sources[tu.origin].name,
+        tu.id,
+        tu.props['x-segment-id'] || '',
+        tu.srcLang,
+        issue.lang,
+        issue.message,
+        sourceTextOf(tu),
+        tu.variants.find(v => v.lang === issue.lang)?.text || ''
+      ]);
+    });
+  });
+  return { blob: buildDelimitedBlob(rows, ','), count: rows.length - 1 };
+};
+
+/** Index of the loaded file a unit belongs to. */
+const fileIndexOf = (idx: number) => {
+  let fileIndex = 0;
+  while (fileIndex + 1 < sourceFiles.length && sourceFiles[fileIndex + 1].firstTu <= idx) fileIndex++;
+  return fileIndex;
+};
+
+const editState = (): EditState => {
+  const modifiedByFile = sourceFiles.map(() => 0);
+  originals.forEach((_, idx) => {
+    if (!deleted.has(idx)) modifiedByFile[fileIndexOf(idx)]++;
+  });
+  deleted.forEach(idx => modifiedByFile[fileIndexOf(idx)]++);
+  return {
+    modifiedCount: originals.size,
+    deletedCount: deleted.size,
+    modifiedByFile,
+    undoLabel: undoStack[undoStack.length - 1]?.label ?? null,
+    redoLabel: redoStack[redoStack.length - 1]?.label ?? null
+  };
+};
+
+/** QA findings and the consistency report describe the units as they were before a change. */
+const dropAnalyses = () => {
+  currentQa = null;
+  currentReport = null;
+  analysisGeneration++;
+};
+
+const throwIfOvertaken = (generation: number) => {
+  if (generation !== analysisGeneration) throw new Error('The memory changed while it was being checked; run the check again.');
+};
+
+/** Puts a new version of a unit in place and keeps the indexes and the modified set in step. */
+const replaceTu = (idx: number, next: NormalizedTu) => {
+  dropAnalyses();
+  const previous = tus[idx];
+  textIndex.remove(idx, indexFields(previous));
+  textIndex.add(idx, indexFields(next));
+  searchIndex[idx].segmentId = (next.props['x-segment-id'] || '').toLowerCase();
+  searchIndex[idx].dates = unitDates(next);
+  tus[idx] = next;
+  if (!originals.has(idx)) originals.set(idx, previous);
+  else if (originals.get(idx) === next) originals.delete(idx);
+};
+
+/** Takes units out of the memory, or puts them back. */
+const setDeleted = (indices: number[], isDeleted: boolean) => {
+  indices.forEach(idx => (isDeleted ? deleted.add(idx) : deleted.delete(idx)));
+  if (indices.length > 0) {
+    liveIndices = null;
+    dropAnalyses();
+  }
+};
+
+const editTu = async ({ index, edit, user }: EditParams): Promise<EditState> => {
+  const before = tus[index];
+  if (!before) throw new Error('Unit is no longer available.');
+  const after = applyTuEdit(before, edit, user);
+  replaceTu(index, after);
+  undoStack.push({ label: `Edit ${before.id}`, changes: [{ idx: index, before, after }] });
+  redoStack.length = 0;
+  return editState();
+};
+
+const undo = async (): Promise<EditState> => {
+  const step = undoStack.pop();
+  if (step) {
+    // Later changes first, in case a step touched a unit twice
+    [...step.changes].reverse().forEach(({ idx, before }) => replaceTu(idx, before));
+    setDeleted(step.deleted || [], false);
+    redoStack.push(step);
+  }
+  return editState();
+};
+
+const redo = async (): Promise<EditState> => {
+  const step = redoStack.pop();
+  if (step) {
+    step.changes.forEach(({ idx, after }) => replaceTu(idx, after));
+    setDeleted(step.deleted || [], true);
+    undoStack.push(step);
+  }
+  return editState();
+};
+
+const previewReplace = async (params: ReplaceParams, requestId: number): Promise<ReplaceResult> => {
+  const replace = createReplacer(params.options);
+  const scope = params.resultSetId === null ? memoryIndices() : getResultIndices(params.resultSetId);
+  const indices: number[] = [];
+  let replacements = 0;
+  for (let i = 0; i < scope.length; i++) {
+    const idx = scope[i];
+    const result = replaceInTu(tus[idx], params.options, replace);
+    if (result) {
+      indices.push(idx);
+      replacements += result.count;
+    }
+    if ((i + 1) % SCAN_SLICE === 0) {
+      await yieldToEventLoop();
+      throwIfCancelled(requestId);
+    }
+  }
+  currentReplace = { id: requestId, params, indices };
+  return { previewId: requestId, affectedUnits: indices.length, replacements };
+};
+
+const getReplacePreview = (previewId: number) => {
+  if (!currentReplace || currentReplace.id !== previewId) {
+    throw new Error('Replace preview is no longer available.');
+  }
+  return currentReplace;
+};
+
+const getReplacePage = async ({ previewId, offset, limit }: ReplacePageParams): Promise<ReplacePageResult> => {
+  const { params, indices } = getReplacePreview(previewId);
+  const replace = createReplacer(params.options);
+  const entries = indices.slice(offset, offset + limit).map(idx => ({
+    tu: tus[idx],
+    changes: replaceInTu(tus[idx], params.options, replace)?.changes || []
+  }));
+  return { entries, total: indices.length };
+};
+
+const applyReplace = async ({ previewId, user }: { previewId: number; user?: string }): Promise<EditState> => {
+  const { params, indices } = getReplacePreview(previewId);
+  const replace = createReplacer(params.options);
+  const changes: EditStep['changes'] = [];
+  for (const idx of indices) {
+    const result = replaceInTu(tus[idx], params.options, replace);
+    if (result) changes.push({ idx, before: tus[idx], after: applyTuEdit(tus[idx], result.edit, user) });
+  }
+  currentReplace = null;
+  if (changes.length === 0) return editState();
+  changes.forEach(({ idx, after }) => replaceTu(idx, after));
+  const { find, replace: replacement } = params.options;
+  undoStack.push({ label: `Replace "${find}" with "${replacement}" in ${changes.length} units`, changes });
+  redoStack.length = 0;
+  return editState();
+};
+
+const locateTu = async ({ resultSetId, tuid, segmentId, index }: LocateParams): Promise<number> => {
+  const indices = resultSetId === null ? memoryIndices() : getResultIndices(resultSetId);
+  if (index !== undefined) return indices.indexOf(index);
+  if (segmentId !== undefined) {
+    const key = segmentId.toLowerCase();
+    return indices.findIndex(idx => searchIndex[idx].segmentId === key);
+  }
+  return indices.findIndex(idx => tus[idx].id === tuid);
+};
+
+const getIndices = async ({ resultSetId, offset, limit }: PageParams): Promise<number[]> => {
+  const indices = resultSetId === null ? memoryIndices() : getResultIndices(resultSetId);
+  return indices.slice(offset, offset + limit).filter(idx => !deleted.has(idx));
+};
+
+/**
+ * Works out which units a cleanup deletes and how it edits the others. With a
+ * selection, delete reaches the selected units, keep the rest; everything else is
+ * limited to the selection.
+ */
+const planBulk = async ({ action, indices }: BulkParams, requestId: number) => {
+  const selected = indices ? new Set(indices) : null;
+  const deletions: number[] = [];
+  const edits: { idx: number; edit: TuEdit }[] = [];
+  let sourceKeptUnits = 0;
+  for (let idx = 0; idx < tus.length; idx++) {
+    const inScope = !selected || selected.has(idx);
+    if (!deleted.has(idx) && (action.kind === 'keep' ? !inScope : inScope)) {
+      if (keepsSourceVariant(tus[idx], action)) sourceKeptUnits++;
+      const outcome = cleanupUnit(tus[idx], action);
+      if (outcome === 'delete') deletions.push(idx);
+      else if (outcome) edits.push({ idx, edit: outcome });
+    }
+    if ((idx + 1) % SCAN_SLICE === 0) {
+      await yieldToEventLoop();
+      throwIfCancelled(requestId);
+    }
+  }
+  return { deletions, edits, sourceKeptUnits };
+};
+
+const previewBulk = async (params: BulkParams, requestId: number): Promise<BulkSummary> => {
+  if (params.action.kind === 'keep' && !params.indices) throw new Error('Select the units to keep first.');
+  const { deletions, edits, sourceKeptUnits } = await planBulk(params, requestId);
+  const affectedByFile = sourceFiles.map(() => 0);
+  deletions.forEach(idx => affectedByFile[fileIndexOf(idx)]++);
+  let removedVariants = 0;
+  let removedProps = 0;
+  let monolingualUnits = 0;
+  edits.forEach(({ idx, edit }) => {
+    const tu = tus[idx];
+    affectedByFile[fileIndexOf(idx)]++;
+    if (edit.dropVariants) {
+      removedVariants += edit.dropVariants.length;
+      if (tu.variants.length - edit.dropVariants.length < 2) monolingualUnits++;
+    }
+    if (edit.props) removedProps += Object.keys(tu.props).length - Object.keys(edit.props).length;
+  });
+  currentBulk = { id: requestId, params };
+  return {
+    previewId: requestId,
+    deletedUnits: deletions.length,
+    changedUnits: edits.length,
+    removedVariants,
+    removedProps,
+    monolingualUnits,
+    sourceKeptUnits,
+    affectedByFile,
+    remainingUnits: tus.length - deleted.size - deletions.length
+  };
+};
+
+const applyBulk = async ({ previewId, user }: { previewId: number; user?: string }, requestId: number): Promise<EditState> => {
+  if (!currentBulk || currentBulk.id !== previewId) {
+    throw new Error('Cleanup preview is no longer available.');
+  }
+  const { params } = currentBulk;
+  const { deletions, edits } = await planBulk(params, requestId);
+  currentBulk = null;
+  if (deletions.length === 0 && edits.length === 0) return editState();
+  const changes = edits.map(({ idx, edit }) => ({ idx, before: tus[idx], after: applyTuEdit(tus[idx], edit, user) }));
+  changes.forEach(({ idx, after }) => replaceTu(idx, after));
+  setDeleted(deletions, true);
+  undoStack.push({ label: describeCleanup(params.action, deletions.length + edits.length), changes, deleted: deletions });
+  redoStack.length = 0;
+  return editState();
+};
+
+/**
+ * A loaded file with its edits applied and deleted units left out. For UTF-8 TMX
+ * only the edited units are rewritten; everything between them is copied from the
+ * original bytes. Other files are serialized in full.
+ */
+const saveTmx = async ({ fileIndex }: { fileIndex: number }): Promise<ExportResult> => {
+  const source = sourceFiles[fileIndex];
+  if (!source) throw new Error('File is no longer loaded.');
+  const { file, firstTu, spans } = source;
+  const tuCount = sources[fileIndex].tuCount;
+  let edited = 0;
+  for (let idx = firstTu; idx < firstTu + tuCount; idx++) {
+    if (originals.has(idx) || deleted.has(idx)) edited++;
+  }
+
+  if (!spans) {
+    const kept = tus.slice(firstTu, firstTu + tuCount).filter((_, offset) => !deleted.has(firstTu + offset));
+    return { blob: buildTmxBlob(sources[fileIndex].header, source.version, kept), count: edited };
+  }
+  const parts: BlobPart[] = [];
+  let cursor = 0;
+  spans.forEach((span, offset) => {
+    const idx = firstTu + offset;
+    if (deleted.has(idx)) {
+      // Cut the whitespace leading up to the unit along with it, so no blank line is left;
+      // the first unit takes the whitespace after it instead
+      const start = offset > 0 ? spans[offset - 1].end : span.start;
+      const end = offset === 0 && spans.length > 1 ? spans[1].start : span.end;
+      if (start > cursor) parts.push(file.slice(cursor, start));
+      cursor = Math.max(cursor, end);
+      return;
+    }
+    if (!originals.has(idx)) return;
+    parts.push(file.slice(cursor, span.start), serializeTu(tus[idx]).trim());
+    cursor = span.end;
+  });
+  parts.push(file.slice(cursor));
+  return { blob: new Blob(parts, { type: 'application/x-tmx+xml' }), count: edited };
+};
+
+const selectTus = (resultSetId: number | null): NormalizedTu[] => {
+  if (resultSetId === null) return deleted.size > 0 ? memoryIndices().map(idx => tus[idx]) : tus;
+  return getResultIndices(resultSetId).map(idx => tus[idx]);
+};
+
+const exportTmx = async ({ resultSetId }: ExportParams): Promise<ExportResult> => {
+  const selected = selectTus(resultSetId);
+  return { blob: buildTmxBlob(header, version, selected), count: selected.length };
+};
+
+const exportTable = async ({ resultSetId, options }: TableExportParams): Promise<ExportResult> => {
+  const selected = selectTus(resultSetId);
+  return { blob: buildTabularBlob(selected, options), count: selected.length };
+};
+
+const getStats = async (): Promise<StatsResult> => {
+  const sourceLang = header['@_srclang'] || 'en-US';
+  // Source language first, the rest alphabetically
+  const sortedLanguages = [...languages].sort((a, b) =>
+    a === sourceLang ? -1 : b === sourceLang ? 1 : a.localeCompare(b)
+  );
+  return {
+    stats: {
+      totalUnits: tus.length - deleted.size,
+      sourceLang,
+      languages: sortedLanguages,
+      tool: header['@_creationtool'] || '',
+      version
+    },
+    propTypes: [...propTypes].sort()
+  };
+};
+
+const getAnalytics = async ({ resultSetId }: { resultSetId: number | null }, requestId: number): Promise<MemoryAnalytics> => {
+  const indices = resultSetId === null ? memoryIndices() : getResultIndices(resultSetId);
+  return computeAnalytics(tus, indices, async () => {
+    await yieldToEventLoop();
+    throwIfCancelled(requestId);
+  });
+};
+
+const getDiagnostics = async ({ fileIndex, codes, offset, limit }: DiagnosticsParams): Promise<DiagnosticsResult> => {
+  const log = diagnosticLogs[fileIndex];
+  if (!log) throw new Error(`File ${fileIndex} was not validated`);
+  const entries = codes.length > 0 ? log.entries.filter(d => codes.includes(d.code)) : log.entries;
+  const { firstTu } = sourceFiles[fileIndex];
+  const { tuCount } = sources[fileIndex];
+  return {
+    diagnostics: entries.slice(offset, offset + limit).map(d =>
+      d.tuIndex !== undefined && d.tuIndex < tuCount ? { ...d, unit: firstTu + d.tuIndex } : d
+    ),
+    total: entries.length,
+    counts: log.counts
+  };
+};
+
+type Handler<K extends WorkerRequestType> = (
+  params: WorkerRequestMap[K]['params'],
+  requestId: number
+) => Promise<WorkerRequestMap[K]['result']>;
+
+const handlers: { [K in WorkerRequestType]: Handler<K> } = {
+  INSPECT_FILE: inspectFile,
+  LOAD_FILE: loadFile,
+  SEARCH: search,
+  GET_PAGE: getPage,
+  GROUP_TUS: groupTus,
+  GET_GROUP_PAGE: getGroupPage,
+  COMPARE: compareFiles,
+  GET_DIFF_PAGE: getDiffPage,
+  ANALYZE_CONSISTENCY: analyze,
+  GET_CLUSTER_PAGE: getClusterPage,
+  SELECT_CLUSTER: selectCluster,
+  EXPORT_CLUSTER: exportCluster,
+  EXPORT_REPORT: exportReport,
+  FUZZY_MATCH: fuzzyMatch,
+  RUN_QA: runQa,
+  EXPORT_QA: exportQa,
+  EDIT_TU: editTu,
+  UNDO: undo,
+  REDO: redo,
+  PREVIEW_REPLACE: previewReplace,
+  GET_REPLACE_PAGE: getReplacePage,
+  APPLY_REPLACE: applyReplace,
+  LOCATE_TU: locateTu,
+  GET_INDICES: getIndices,
+  PREVIEW_BULK: previewBulk,
+  APPLY_BULK: applyBulk,
+  SAVE_TMX: saveTmx,
+  EXPORT_TMX: exportTmx,
+  EXPORT_TABLE: exportTable,
+  GET_STATS: getStats,
+  GET_ANALYTICS: getAnalytics,
+  GET_DIAGNOSTICS: getDiagnostics
+};
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+
+  if (request.type === 'CANCEL') {
+    if (inFlight.has(request.params.targetId)) cancelled.add(request.params.targetId);
+    return;
+  }
+
+  const { id } = request;
+  inFlight.add(id);
+  try {
+    const handler = handlers[request.type] as (params: unknown, requestId: number) => Promise<unknown>;
+    const result = await handler(request.params, id);
+    post({ id, type: 'RESULT', result });
+  } catch (err) {
+    if (err === CANCELLED) {
+      post({ id, type: 'CANCELLED' });
+    } else {
+      post({ id, type: 'ERROR', message: err instanceof Error ? err.message : String(err) });
+    }
+  } finally {
+    inFlight.delete(id);
+    cancelled.delete(id);
+  }
+};
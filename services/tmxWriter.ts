@@ -0,0 +1,60 @@
+import { NormalizedTu, TmxHeader, TmxAnnotation } from '../types';
+import { escapeXmlText, escapeXmlAttribute, serializeAttributes, serializeSegment } from './inlineMarkup';
+import { collectAttributes, collectAnnotations } from './tmxParser';
+
+// TUs are joined into string parts of this size so huge exports never build one giant string.
+const TUS_PER_PART = 1000;
+
+const serializeAnnotations = (annotations: TmxAnnotation[], indent: string): string => {
+  return annotations.map(a => {
+    const attributes = a.element === 'prop'
+      ? serializeAttributes({ type: a.type || '', ...a.attributes })
+      : serializeAttributes(a.attributes);
+    return `${indent}<${a.element}${attributes}>${escapeXmlText(a.value)}</${a.element}>\n`;
+  }).join('');
+};
+
+/**
+ * Serializes a single normalized TU as a TMX 1.4b <tu> element, including its
+ * attributes, props, notes and the inline markup of each segment.
+ */
+export const serializeTu = (tu: NormalizedTu): string => {
+  let xml = `    <tu${serializeAttributes(tu.attributes)}>\n`;
+  xml += serializeAnnotations(tu.annotations, '      ');
+  tu.variants.forEach(v => {
+    xml += `      <tuv${serializeAttributes({ 'xml:lang': v.lang, ...v.attributes })}>\n`;
+    xml += serializeAnnotations(v.annotations, '        ');
+    xml += `        <seg>${serializeSegment(v.segment)}</seg>\n`;
+    xml += '      </tuv>\n';
+  });
+  xml += '    </tu>\n';
+  return xml;
+};
+
+/**
+ * Serializes a header as read from the source file, keeping every attribute, prop and note.
+ */
+export const serializeHeader = (header: TmxHeader): string => {
+  const annotations = collectAnnotations(header.prop, header.note);
+  const attributes = serializeAttributes(collectAttributes(header));
+  if (annotations.length === 0) return `  <header${attributes}/>\n`;
+  return `  <header${attributes}>\n${serializeAnnotations(annotations, '    ')}  </header>\n`;
+};
+
+/**
+ * Builds a complete TMX document for the given TUs as a Blob.
+ */
+export const buildTmxBlob = (header: TmxHeader, version: string, tus: NormalizedTu[]): Blob => {
+  const parts: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>\n',
+    '<!DOCTYPE tmx SYSTEM "tmx14.dtd">\n',
+    `<tmx version="${escapeXmlAttribute(version || '1.4')}">\n`,
+    serializeHeader(header),
+    '  <body>\n'
+  ];
+  for (let i = 0; i < tus.length; i += TUS_PER_PART) {
+    parts.push(tus.slice(i, i + TUS_PER_PART).map(serializeTu).join(''));
+  }
+  parts.push('  </body>\n</tmx>\n');
+  return new Blob(parts, { type: 'application/x-tmx+xml' });
+};
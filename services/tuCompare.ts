@@ -0,0 +1,41 @@
+import { NormalizedTu, DiffMatchKey, DiffStatus } from '../types';
+import { serializeSegment } from './inlineMarkup';
+
+/** Key a unit is matched on across versions; empty when the unit has no such key. */
+export const matchKeyOf = (tu: NormalizedTu, matchBy: DiffMatchKey): string => {
+  switch (matchBy) {
+    case 'tuid':
+      return tu.attributes.tuid || '';
+    case 'segmentId':
+      return tu.props['x-segment-id'] || '';
+    case 'source': {
+      const source = tu.variants.find(v => v.lang === tu.srcLang) || tu.variants[0];
+      return source ? source.text.trim().replace(/\s+/g, ' ') : '';
+    }
+  }
+};
+
+/** Segment markup per language; inline tag changes count as text changes. */
+const contentOf = (tu: NormalizedTu): Map<string, string> =>
+  new Map(tu.variants.map(v => [v.lang.toLowerCase(), serializeSegment(v.segment)]));
+
+const metadataOf = (tu: NormalizedTu): string =>
+  JSON.stringify([
+    tu.attributes,
+    tu.annotations,
+    tu.variants.map(v => [v.lang.toLowerCase(), v.attributes, v.annotations])
+  ]);
+
+/**
+ * Classifies a matched pair: 'changed' when any variant's text differs or a language was
+ * added or dropped, 'metadata' when only attributes, props or notes differ.
+ */
+export const classifyPair = (baseline: NormalizedTu, revised: NormalizedTu): DiffStatus => {
+  const before = contentOf(baseline);
+  const after = contentOf(revised);
+  if (before.size !== after.size) return 'changed';
+  for (const [lang, text] of before) {
+    if (after.get(lang) !== text) return 'changed';
+  }
+  return metadataOf(baseline) === metadataOf(revised) ? 'unchanged' : 'metadata';
+};
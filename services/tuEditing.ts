@@ -0,0 +1,120 @@
+import { NormalizedTu, SegmentPart, SegmentInlineTag, TmxAnnotation, TuEdit } from '../types';
+import { segmentToPlainText } from './inlineMarkup';
+import { unitMetadata } from './tuMetadata';
+
+/**
+ * Unit editing. Segments are edited as plain text in which each inline tag stands as a
+ * numbered token: ⟦1⟧ for a placeholder or paired tag, ⟦2⟧…⟦/2⟧ around the text of a
+ * <hi>. Tokens can be moved or deleted but not invented, so tag code is never retyped.
+ */
+
+const TAG_TOKEN = /⟦(\/?)(\d+)⟧/g;
+
+/** Inline tags of a segment in document order, which is what the token numbers refer to. */
+const collectTags = (parts: SegmentPart[], tags: SegmentInlineTag[] = []): SegmentInlineTag[] => {
+  for (const part of parts) {
+    if (part.kind !== 'tag') continue;
+    tags.push(part);
+    if (part.name === 'hi') collectTags(part.content, tags);
+  }
+  return tags;
+};
+
+/** The editable text of a segment. */
+export const segmentToEditable = (parts: SegmentPart[]): string => {
+  let counter = 0;
+  const render = (list: SegmentPart[]): string =>
+    list.map(part => {
+      if (part.kind === 'text') return part.text;
+      const n = ++counter;
+      return part.name === 'hi' ? `⟦${n}⟧${render(part.content)}⟦/${n}⟧` : `⟦${n}⟧`;
+    }).join('');
+  return render(parts);
+};
+
+/**
+ * Turns edited text back into a segment, restoring the original segment's tags for
+ * their tokens. Throws when a token is unknown, repeated or left unclosed.
+ */
+export const editableToSegment = (text: string, original: SegmentPart[]): SegmentPart[] => {
+  const tags = collectTags(original);
+  const used = new Set<number>();
+  const root: SegmentPart[] = [];
+  const stack: { n: number; tag: SegmentInlineTag | null; parts: SegmentPart[] }[] = [{ n: 0, tag: null, parts: root }];
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const parts = stack[stack.length - 1].parts;
+    const last = parts[parts.length - 1];
+    if (last && last.kind === 'text') last.text += value;
+    else parts.push({ kind: 'text', text: value });
+  };
+
+  let pos = 0;
+  for (const match of text.matchAll(TAG_TOKEN)) {
+    pushText(text.slice(pos, match.index));
+    pos = match.index! + match[0].length;
+    const n = Number(match[2]);
+    const tag = tags[n - 1];
+    if (match[1]) {
+      const top = stack[stack.length - 1];
+      if (top.n !== n) throw new Error(`${match[0]} does not close the tag opened last.`);
+      stack.pop();
+      stack[stack.length - 1].parts.push({ ...top.tag!, content: top.parts });
+      continue;
+    }
+    if (!tag) throw new Error(`${match[0]} is not a tag of the original segment.`);
+    if (used.has(n)) throw new Error(`${match[0]} appears more than once.`);
+    used.add(n);
+    if (tag.name === 'hi') stack.push({ n, tag, parts: [] });
+    else stack[stack.length - 1].parts.push(tag);
+  }
+  pushText(text.slice(pos));
+  if (stack.length > 1) throw new Error(`⟦${stack[stack.length - 1].n}⟧ is never closed.`);
+  return root;
+};
+
+/** Current time in the TMX date format, e.g. 20240131T094500Z. */
+export const tmxTimestamp = (date = new Date()): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+/** Props as annotations: existing ones updated in place or dropped, new ones after the last prop. */
+const updatePropAnnotations = (annotations: TmxAnnotation[], props: Record<string, string>): TmxAnnotation[] => {
+  const kept = annotations
+    .filter(a => a.element !== 'prop' || a.type === undefined || a.type in props)
+    .map(a => (a.element === 'prop' && a.type !== undefined ? { ...a, value: props[a.type] } : a));
+  const known = new Set(kept.map(a => a.element === 'prop' && a.type));
+  const added: TmxAnnotation[] = Object.entries(props)
+    .filter(([type]) => !known.has(type))
+    .map(([type, value]) => ({ element: 'prop', type, value, attributes: {} }));
+  let insertAt = 0;
+  kept.forEach((a, idx) => {
+    if (a.element === 'prop') insertAt = idx + 1;
+  });
+  return [...kept.slice(0, insertAt), ...added, ...kept.slice(insertAt)];
+};
+
+/**
+ * Applies an edit to a copy of the unit and stamps it with changedate and, when known,
+ * changeid. tuid and the metadata shown on cards follow the edited attributes.
+ */
+export const applyTuEdit = (tu: NormalizedTu, edit: TuEdit, user?: string): NormalizedTu => {
+  const variants = tu.variants
+    .map((variant, idx) => {
+      const changed = edit.segments?.find(entry => entry.variant === idx);
+      return changed ? { ...variant, segment: changed.segment, text: segmentToPlainText(changed.segment) } : variant;
+    })
+    .filter((_, idx) => !edit.dropVariants?.includes(idx));
+  const attributes: Record<string, string> = { ...(edit.attributes || tu.attributes), changedate: tmxTimestamp() };
+  if (user) attributes.changeid = user;
+
+  return {
+    ...tu,
+    id: attributes.tuid || tu.id,
+    variants,
+    props: edit.props || tu.props,
+    attributes,
+    annotations: edit.props ? updatePropAnnotations(tu.annotations, edit.props) : tu.annotations,
+    metadata: unitMetadata(attributes, variants)
+  };
+};
@@ -0,0 +1,35 @@
+import { NormalizedTu, TuVariant } from '../types';
+import { parseTmxDate } from './tmxDates';
+
+/** The variant with the earliest (or latest) readable date in `attribute`, if any has one. */
+const variantDatedBy = (variants: TuVariant[], attribute: string, latest: boolean): TuVariant | undefined => {
+  let found: TuVariant | undefined;
+  let foundTime = 0;
+  for (const variant of variants) {
+    const time = parseTmxDate(variant.attributes[attribute]);
+    if (time !== null && (!found || (latest ? time > foundTime : time < foundTime))) {
+      found = variant;
+      foundTime = time;
+    }
+  }
+  return found;
+};
+
+/**
+ * A unit's dates and users from its attributes (unprefixed). Where the <tu> has no date,
+ * its variants' stand in: the earliest creation, the latest change and use, each with
+ * the user of the same variant.
+ */
+export const unitMetadata = (attributes: Record<string, string>, variants: TuVariant[]): NormalizedTu['metadata'] => {
+  const created = attributes.creationdate ? undefined : variantDatedBy(variants, 'creationdate', false);
+  const changed = attributes.changedate ? undefined : variantDatedBy(variants, 'changedate', true);
+  const used = attributes.lastusagedate ? undefined : variantDatedBy(variants, 'lastusagedate', true);
+  return {
+    creationDate: attributes.creationdate ?? created?.attributes.creationdate,
+    changeDate: attributes.changedate ?? changed?.attributes.changedate,
+    lastUsageDate: attributes.lastusagedate ?? used?.attributes.lastusagedate,
+    usageCount: attributes.usagecount,
+    createUser: attributes.creationid ?? created?.attributes.creationid,
+    changeUser: attributes.changeid ?? changed?.attributes.changeid
+  };
+};
@@ -0,0 +1,100 @@
+import { WorkerRequest, WorkerRequestMap, WorkerRequestType, WorkerResponse } from './workerProtocol';
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request was cancelled.');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export interface PendingRequest<T> {
+  id: number;
+  promise: Promise<T>;
+}
+
+export interface TmxWorkerClient {
+  request: <K extends WorkerRequestType>(
+    type: K,
+    params: WorkerRequestMap[K]['params'],
+    onProgress?: (progress: WorkerRequestMap[K]['progress']) => void
+  ) => PendingRequest<WorkerRequestMap[K]['result']>;
+  /** Asks the worker to abandon a request; its promise rejects with RequestCancelledError. */
+  cancel: (id: number) => void;
+  terminate: () => void;
+}
+
+// Payloads arrive untyped from the worker; request() narrows them to the request's own types
+interface PendingEntry {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: unknown) => void;
+}
+
+/**
+ * Spawns the data worker and wraps its message protocol in promises.
+ */
+export const createTmxWorkerClient = (): TmxWorkerClient => {
+  const worker = new Worker(new URL('./tmxWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingEntry>();
+  let nextId = 1;
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const message = e.data;
+    const entry = pending.get(message.id);
+    if (!entry) return;
+
+    switch (message.type) {
+      case 'PROGRESS':
+        entry.onProgress?.(message.progress);
+        return;
+      case 'RESULT':
+        entry.resolve(message.result);
+        break;
+      case 'ERROR':
+        entry.reject(new Error(message.message));
+        break;
+      case 'CANCELLED':
+        entry.reject(new RequestCancelledError());
+        break;
+    }
+    pending.delete(message.id);
+  };
+
+  worker.onerror = (e) => {
+    const error = new Error(e.message || 'The data worker crashed.');
+    pending.forEach(entry => entry.reject(error));
+    pending.clear();
+  };
+
+  const post = (message: WorkerRequest) => worker.postMessage(message);
+
+  const request = <K extends WorkerRequestType>(
+    type: K,
+    params: WorkerRequestMap[K]['params'],
+    onProgress?: (progress: WorkerRequestMap[K]['progress']) => void
+  ): PendingRequest<WorkerRequestMap[K]['result']> => {
+    const id = nextId++;
+    const promise = new Promise<WorkerRequestMap[K]['result']>((resolve, reject) => {
+      pending.set(id, {
+        resolve: value => resolve(value as WorkerRequestMap[K]['result']),
+        reject,
+        onProgress: onProgress && (progress => onProgress(progress as WorkerRequestMap[K]['progress']))
+      });
+    });
+    post({ id, type, params } as WorkerRequest);
+    return { id, promise };
+  };
+
+  return {
+    request,
+    cancel: (id) => {
+      if (!pending.has(id)) return;
+      post({ id: nextId++, type: 'CANCEL', params: { targetId: id } });
+    },
+    terminate: () => {
+      worker.terminate();
+      pending.forEach(entry => entry.reject(new RequestCancelledError()));
+      pending.clear();
+    }
+  };
+};
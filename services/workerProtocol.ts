@@ -0,0 +1,358 @@
+import { NormalizedTu, TmxHeader, SearchMode, TmxStats, TabularExportOptions, SourceFormat, CsvMapping, CsvPreview, SourceFileSummary, TuGroup, DiffMatchKey, DiffStatus, TuDiff, ConsistencyIssue, ConsistencyCluster, QaCheckId, QaConfig, QaIssue, QueryNode, FuzzyMatch, HitRange, TuEdit, EditState, ReplaceOptions, ReplacePreviewEntry, BulkAction, FacetFilter, MemoryAnalytics, BatchOptions, BatchReport, DiagnosticCode, TmxDiagnostic, ValidationCounts, ListSort } from '../types';
+import { DateBounds } from './tmxDates';
+
+/**
+ * Message schema shared by the main thread (workerClient.ts) and the data worker (tmxWorker.ts).
+ * Every request carries a numeric id; the worker answers with exactly one RESULT, ERROR or
+ * CANCELLED message for that id, optionally preceded by PROGRESS messages.
+ */
+
+export interface LoadProgress {
+  /** Index of the file being loaded; each LOAD_FILE adds one file to the session. */
+  fileIndex: number;
+  bytesProcessed: number;
+  totalBytes: number;
+  tuCount: number;
+  version?: string;
+  header?: TmxHeader;
+}
+
+export interface InspectResult {
+  format: SourceFormat;
+  label: string;
+  /** Present for CSV files, which need a column mapping before LOAD_FILE. */
+  csvPreview?: CsvPreview;
+  /** Content hash (services/memoryStore.ts); absent where files are not remembered or storage is unavailable. */
+  fingerprint?: string;
+  /** A parsed copy is stored locally, so LOAD_FILE can restore it without parsing (CSV: if read with the same mapping). */
+  cached: boolean;
+}
+
+export interface InspectParams {
+  file: File;
+  /** Whether the user keeps files locally; the file is only hashed to look up or keep a copy. */
+  remember: boolean;
+}
+
+export interface LoadParams {
+  file: File;
+  format: SourceFormat;
+  csvMapping?: CsvMapping;
+  /** From INSPECT_FILE; restores the stored copy when there is one read the same way. */
+  fingerprint?: string;
+  /** Keep a parsed copy locally for the next time the file is opened. */
+  remember?: boolean;
+}
+
+export interface LoadResult {
+  /** Total number of TUs in the session, across all loaded files. */
+  tuCount: number;
+  source: SourceFileSummary;
+  /** Taken from the local copy instead of parsed. */
+  restored: boolean;
+  /** Why a copy asked for with `remember` could not be kept. */
+  storeError?: string;
+}
+
+export interface SearchParams {
+  query: string;
+  mode: SearchMode;
+  /** Query parsed on the main thread (services/queryLanguage.ts); required for mode 'query'. */
+  queryTree?: QueryNode;
+  batchList?: string[];
+  /** How batch entries are matched (services/batchList.ts); x-segment-ids without patterns when absent. */
+  batchOptions?: BatchOptions;
+  /** Restricts matches to TUs from these loaded files (by index); all files when absent. */
+  originFiles?: number[];
+  /** Restricts matches to TUs flagged by any of these checks in the latest QA run. */
+  qaChecks?: QaCheckId[];
+  /** Restricts matches to TUs edited in this session. */
+  modifiedOnly?: boolean;
+  /** Restricts matches to TUs with this source language (null: their own) and one of these targets. */
+  languages?: { source: string | null; targets: string[] };
+  /** Restricts matches to TUs in the picked analytics buckets (services/analytics.ts). */
+  facets?: FacetFilter[];
+  /** Restricts matches to TUs dated within every one of these ranges (services/tmxDates.ts). */
+  dateRanges?: DateBounds[];
+  /** Orders the hits by a date instead of by relevance, list or file order. */
+  sort?: ListSort;
+}
+
+export interface SearchResult {
+  /** Handle for GET_PAGE; only the most recent result set is kept by the worker. */
+  resultSetId: number;
+  total: number;
+  /** True when hits are ordered by relevance (full-text search) rather than file order or a date. */
+  ranked: boolean;
+  /** For batch searches, whose hits follow the order of the list. */
+  batchReport?: BatchReport;
+}
+
+export interface PageParams {
+  /** Result set to page through, or null for the whole memory in file order. */
+  resultSetId: number | null;
+  offset: number;
+  limit: number;
+}
+
+export interface PageResult {
+  tus: NormalizedTu[];
+  /** Position of each unit in the session, parallel to `tus`; edits refer to units by it. */
+  indices: number[];
+  total: number;
+  /** QA findings per TU on the page, parallel to `tus`; present once QA has been run. */
+  qa?: QaIssue[][];
+  /** Relevance per TU on the page (best hit = 1); present for ranked result sets. */
+  scores?: number[];
+  /** Matched stretches per TU and variant, parallel to `tus`; present when the search has text terms. */
+  hits?: HitRange[][][];
+  /** Whether each TU on the page was edited, parallel to `tus`; present once anything was. */
+  modified?: boolean[];
+}
+
+/** A unit to find by tuid, x-segment-id or session index; LOCATE_TU answers its list position, or -1. */
+export interface LocateParams {
+  resultSetId: number | null;
+  tuid?: string;
+  segmentId?: string;
+  index?: number;
+}
+
+export interface DiagnosticsParams {
+  /** Loaded file whose findings to list. */
+  fileIndex: number;
+  /** Only findings of these kinds; all when empty. */
+  codes: DiagnosticCode[];
+  offset: number;
+  limit: number;
+}
+
+export interface DiagnosticsResult {
+  /** Each finding with the session index of its unit, where that unit was loaded. */
+  diagnostics: (TmxDiagnostic & { unit?: number })[];
+  /** Listed findings matching `codes`; the worker keeps the first 10,000 of a file. */
+  total: number;
+  counts: ValidationCounts;
+}
+
+export interface GroupParams {
+  /** Result set to group, or null for the whole memory. */
+  resultSetId: number | null;
+}
+
+export interface GroupResult {
+  /** Handle for GET_GROUP_PAGE; only the most recent grouping is kept by the worker. */
+  groupSetId: number;
+  total: number;
+}
+
+export interface GroupPageParams {
+  groupSetId: number;
+  offset: number;
+  limit: number;
+}
+
+export interface GroupPageResult {
+  groups: TuGroup[];
+  total: number;
+}
+
+export interface CompareParams {
+  /** Indices of the loaded files to compare. */
+  baseline: number;
+  revised: number;
+  matchBy: DiffMatchKey;
+}
+
+export interface CompareResult {
+  /** Handle for GET_DIFF_PAGE; only the most recent comparison is kept by the worker. */
+  diffSetId: number;
+  counts: Record<DiffStatus, number>;
+}
+
+export interface DiffPageParams {
+  diffSetId: number;
+  statuses: DiffStatus[];
+  offset: number;
+  limit: number;
+}
+
+export interface DiffPageResult {
+  entries: TuDiff[];
+  total: number;
+}
+
+export interface ConsistencyResult {
+  /** Handle for the cluster requests; only the most recent report is kept by the worker. */
+  reportId: number;
+  counts: Record<ConsistencyIssue, number>;
+}
+
+export interface ClusterRef {
+  reportId: number;
+  issue: ConsistencyIssue;
+  index: number;
+}
+
+export interface ClusterPageParams {
+  reportId: number;
+  issue: ConsistencyIssue;
+  offset: number;
+  limit: number;
+}
+
+export interface ClusterPageResult {
+  clusters: ConsistencyCluster[];
+  total: number;
+}
+
+export interface FuzzyParams {
+  /** Sentence to look up, compared against each unit's source variant. */
+  text: string;
+  minScore: number;
+  limit: number;
+}
+
+export interface FuzzyResult {
+  /** Best matches first. */
+  matches: FuzzyMatch[];
+  /** Number of units scored after the index narrowed down the memory. */
+  candidates: number;
+}
+
+export interface QaResult {
+  /** Handle for EXPORT_QA; only the most recent run is kept by the worker. */
+  qaRunId: number;
+  /** Number of units flagged by each check. */
+  counts: Record<QaCheckId, number>;
+  affectedUnits: number;
+}
+
+export interface EditParams {
+  /** Unit to change, as given by PageResult.indices. */
+  index: number;
+  edit: TuEdit;
+  /** Written to the unit's changeid when given. */
+  user?: string;
+}
+
+export interface ReplaceParams {
+  /** Units to consider: a result set, or null for the whole memory. */
+  resultSetId: number | null;
+  options: ReplaceOptions;
+}
+
+export interface ReplaceResult {
+  /** Handle for the preview pages and APPLY_REPLACE; only the latest preview is kept. */
+  previewId: number;
+  affectedUnits: number;
+  replacements: number;
+}
+
+export interface ReplacePageParams {
+  previewId: number;
+  offset: number;
+  limit: number;
+}
+
+export interface ReplacePageResult {
+  entries: ReplacePreviewEntry[];
+  total: number;
+}
+
+export interface BulkParams {
+  action: BulkAction;
+  /** The selection, as given by PageResult.indices; null for the whole memory. */
+  indices: number[] | null;
+}
+
+export interface BulkSummary {
+  /** Handle for APPLY_BULK; only the latest preview is kept. */
+  previewId: number;
+  deletedUnits: number;
+  changedUnits: number;
+  removedVariants: number;
+  removedProps: number;
+  /** Changed units that would be left with fewer than two languages. */
+  monolingualUnits: number;
+  /** Units left alone because the language to remove is their source language. */
+  sourceKeptUnits: number;
+  /** Units deleted or changed per loaded file, by file index. */
+  affectedByFile: number[];
+  /** Units left in the memory afterwards. */
+  remainingUnits: number;
+}
+
+export interface ExportParams {
+  /** Result set to export, or null for the whole memory. */
+  resultSetId: number | null;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  count: number;
+}
+
+export interface TableExportParams extends ExportParams {
+  options: TabularExportOptions;
+}
+
+export interface StatsResult {
+  stats: TmxStats;
+  /** Every prop type seen on TUs, e.g. x-segment-id, sorted. */
+  propTypes: string[];
+}
+
+export interface WorkerRequestMap {
+  INSPECT_FILE: { params: InspectParams; result: InspectResult; progress: never };
+  LOAD_FILE: { params: LoadParams; result: LoadResult; progress: LoadProgress };
+  SEARCH: { params: SearchParams; result: SearchResult; progress: never };
+  GET_PAGE: { params: PageParams; result: PageResult; progress: never };
+  GROUP_TUS: { params: GroupParams; result: GroupResult; progress: never };
+  GET_GROUP_PAGE: { params: GroupPageParams; result: GroupPageResult; progress: never };
+  COMPARE: { params: CompareParams; result: CompareResult; progress: never };
+  GET_DIFF_PAGE: { params: DiffPageParams; result: DiffPageResult; progress: never };
+  ANALYZE_CONSISTENCY: { params: Record<string, never>; result: ConsistencyResult; progress: never };
+  GET_CLUSTER_PAGE: { params: ClusterPageParams; result: ClusterPageResult; progress: never };
+  /** Makes a cluster's units the current result set, for browsing them in the main list. */
+  SELECT_CLUSTER: { params: ClusterRef; result: SearchResult; progress: never };
+  EXPORT_CLUSTER: { params: ClusterRef; result: ExportResult; progress: never };
+  EXPORT_REPORT: { params: { reportId: number }; result: ExportResult; progress: never };
+  FUZZY_MATCH: { params: FuzzyParams; result: FuzzyResult; progress: never };
+  RUN_QA: { params: { config: QaConfig }; result: QaResult; progress: never };
+  EXPORT_QA: { params: { qaRunId: number }; result: ExportResult; progress: never };
+  EDIT_TU: { params: EditParams; result: EditState; progress: never };
+  UNDO: { params: Record<string, never>; result: EditState; progress: never };
+  REDO: { params: Record<string, never>; result: EditState; progress: never };
+  PREVIEW_REPLACE: { params: ReplaceParams; result: ReplaceResult; progress: never };
+  GET_REPLACE_PAGE: { params: ReplacePageParams; result: ReplacePageResult; progress: never };
+  /** Makes the previewed replacements as one undoable step. */
+  APPLY_REPLACE: { params: { previewId: number; user?: string }; result: EditState; progress: never };
+  /** Position of the first unit with this tuid in a result set (or the memory); -1 when absent. */
+  LOCATE_TU: { params: LocateParams; result: number; progress: never };
+  /** Positions offset..offset+limit of a result set (or the memory) as unit indices, for selecting them. */
+  GET_INDICES: { params: PageParams; result: number[]; progress: never };
+  PREVIEW_BULK: { params: BulkParams; result: BulkSummary; progress: never };
+  /** Makes the previewed cleanup as one undoable step. */
+  APPLY_BULK: { params: { previewId: number; user?: string }; result: EditState; progress: never };
+  /** Writes one loaded file back out with its edits and deletions; unedited TMX units keep their original bytes. */
+  SAVE_TMX: { params: { fileIndex: number }; result: ExportResult; progress: never };
+  EXPORT_TMX: { params: ExportParams; result: ExportResult; progress: never };
+  EXPORT_TABLE: { params: TableExportParams; result: ExportResult; progress: never };
+  GET_STATS: { params: Record<string, never>; result: StatsResult; progress: never };
+  /** Metadata breakdown of a result set, or of the memory when resultSetId is null. */
+  GET_ANALYTICS: { params: { resultSetId: number | null }; result: MemoryAnalytics; progress: never };
+  GET_DIAGNOSTICS: { params: DiagnosticsParams; result: DiagnosticsResult; progress: never };
+}
+
+export type WorkerRequestType = keyof WorkerRequestMap;
+
+export type WorkerRequest =
+  | { [K in WorkerRequestType]: { id: number; type: K; params: WorkerRequestMap[K]['params'] } }[WorkerRequestType]
+  | { id: number; type: 'CANCEL'; params: { targetId: number } };
+
+export type WorkerResponse =
+  | { id: number; type: 'RESULT'; result: unknown }
+  | { id: number; type: 'PROGRESS'; progress: unknown }
+  | { id: number; type: 'ERROR'; message: string }
+  | { id: number; type: 'CANCELLED' };
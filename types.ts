@@ -2,6 +2,14 @@
 
 export interface TmxProp {
   '@_type': string;
+  '@_xml:lang'?: string;
+  '@_o-encoding'?: string;
+  '#text': string;
+}
+
+export interface TmxNote {
+  '@_xml:lang'?: string;
+  '@_o-encoding'?: string;
   '#text': string;
 }
 
@@ -11,12 +19,16 @@ export interface TmxSeg {
 
 export interface TmxTuv {
   '@_xml:lang': string;
+  '@_lang'?: string; // TMX 1.1 spelling of xml:lang, only reported by the validator
   '@_creationdate'?: string;
   '@_creationid'?: string;
   '@_changedate'?: string;
   '@_changeid'?: string;
-  seg: string | TmxSeg; // parser might return string or object depending on content
+  '@_usagecount'?: string;
+  '@_lastusagedate'?: string;
+  seg: string | TmxSeg; // raw inner XML of <seg>; an object only if <seg> carries attributes
   prop?: TmxProp[] | TmxProp;
+  note?: TmxNote[] | TmxNote;
 }
 
 export interface TmxTu {
@@ -27,8 +39,9 @@ export interface TmxTu {
   '@_changeid'?: string;
   '@_usagecount'?: string;
   '@_lastusagedate'?: string;
-  '@_src'?: string; // Sometimes source is defined at TU level
+  '@_srclang'?: string; // overrides the header's srclang for this unit
   prop?: TmxProp[] | TmxProp;
+  note?: TmxNote[] | TmxNote;
   tuv: TmxTuv[];
 }
 
@@ -40,7 +53,10 @@ export interface TmxHeader {
   '@_adminlang'?: string;
   '@_srclang'?: string;
   '@_datatype'?: string;
+  '@_creationdate'?: string;
+  '@_changedate'?: string;
   prop?: TmxProp[] | TmxProp;
+  note?: TmxNote[] | TmxNote;
 }
 
 export interface TmxBody {
@@ -57,25 +73,373 @@ export interface ParsedTmxData {
   tmx: TmxRoot;
 }
 
+// Segment Content Model
+
+export type InlineTagName = 'bpt' | 'ept' | 'ph' | 'it' | 'ut' | 'hi' | 'sub';
+
+export interface SegmentTextRun {
+  kind: 'text';
+  text: string;
+}
+
+export interface SegmentInlineTag {
+  kind: 'tag';
+  name: InlineTagName;
+  attributes: Record<string, string>; // i, x, type, pos, assoc, ...
+  content: SegmentPart[]; // native code for bpt/ept/ph/it/ut, translatable text for hi/sub
+}
+
+export type SegmentPart = SegmentTextRun | SegmentInlineTag;
+
 // Application Logic Types
 
+/**
+ * A <prop> or <note> element as written in the file, kept so exports round-trip.
+ * `attributes` holds everything except `type`, e.g. xml:lang or o-encoding.
+ */
+export interface TmxAnnotation {
+  element: 'prop' | 'note';
+  type?: string;
+  value: string;
+  attributes: Record<string, string>;
+}
+
+export interface TuVariant {
+  lang: string;
+  text: string; // plain-text projection of segment, used for display fallbacks and search
+  segment: SegmentPart[];
+  attributes: Record<string, string>; // TUV attributes other than xml:lang, unprefixed
+  annotations: TmxAnnotation[];
+}
+
 export interface NormalizedTu {
   id: string;
-  srcLang: string; // derived from header or first TUV
-  variants: {
-    lang: string;
-    text: string;
-  }[];
+  srcLang: string; // the unit's srclang, else the header's; spelled like the matching variant's lang
+  variants: TuVariant[];
   props: Record<string, string>;
+  attributes: Record<string, string>; // TU attributes as written (tuid, creationdate, ...), unprefixed
+  annotations: TmxAnnotation[]; // TU-level props and notes, in file order per element kind
+  origin?: number; // index of the loaded file the unit came from (SourceFileSummary.index)
+  // Dates as written; each falls back to the variants' own when the <tu> has none (services/tuMetadata.ts)
   metadata: {
     creationDate?: string;
     changeDate?: string;
+    lastUsageDate?: string;
     usageCount?: string;
     createUser?: string;
     changeUser?: string;
   };
 }
 
+// text: ranked word-prefix search; substring: plain substring scan, also used for text queries without words
+export type SearchMode = 'text' | 'substring' | 'id_partial' | 'id_prefix' | 'batch_id' | 'query';
+
+// Structured Query Language (parsed on the main thread, evaluated in the worker)
+
+export type QueryField =
+  | 'any' // bare terms: tuid, x-segment-id and every variant's text
+  | 'source'
+  | 'target'
+  | 'text' // any variant, source included
+  | 'lang'
+  | 'id'
+  | 'segid'
+  | 'prop'
+  | 'changeid'
+  | 'creationid'
+  | 'changed'
+  | 'created'
+  | 'used'
+  | 'usage';
+
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryValue =
+  | { kind: 'term'; text: string }
+  | { kind: 'phrase'; text: string }
+  | { kind: 'regex'; pattern: string; flags: string };
+
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | {
+      type: 'field';
+      field: QueryField;
+      op: QueryOperator;
+      value: QueryValue | null; // null for `prop:type`, which only tests presence
+      lang?: string; // target.de-DE:... restricts a text field to one language
+      propType?: string;
+    };
+
+export type MetadataField = 'creationDate' | 'createUser' | 'changeDate' | 'changeUser';
+
+export interface TabularExportOptions {
+  format: 'csv' | 'tsv' | 'xlsx';
+  delimiter: ',' | ';' | '\t'; // csv only; tsv always uses tabs
+  encoding: 'utf-8' | 'utf-8-bom' | 'utf-16le'; // csv/tsv only
+  languages: string[]; // one column per language, in this order
+  includeId: boolean;
+  propTypes: string[]; // prop columns, e.g. x-segment-id
+  metadataFields: MetadataField[];
+}
+
+// Import Formats
+
+export type SourceFormat = 'tmx' | 'xliff' | 'csv' | 'tbx';
+
+export type CsvColumnRole =
+  | { kind: 'ignore' }
+  | { kind: 'id' }
+  | { kind: 'language'; lang: string }
+  | { kind: 'prop'; type: string };
+
+export interface CsvMapping {
+  delimiter: string;
+  hasHeaderRow: boolean;
+  sourceLang: string;
+  columns: CsvColumnRole[]; // one role per column, by position
+}
+
+export interface CsvPreview {
+  delimiter: string;
+  rows: string[][]; // first rows of the file, header row included
+}
+
+// Loaded Files
+
+export interface SourceFileSummary {
+  index: number; // load order within the session
+  name: string;
+  format: SourceFormat;
+  label: string; // e.g. "TMX 1.4" or "XLIFF 1.2"
+  header: TmxHeader;
+  tuCount: number;
+  languages: string[];
+  /** Findings of the validator while reading; TMX files only. */
+  validation?: ValidationCounts;
+}
+
+/** TUs that share their source text or x-segment-id, as shown in the merged view. */
+export interface TuGroup {
+  key: string; // x-segment-id or source text of the first member
+  tus: NormalizedTu[];
+  origins: number[]; // distinct file indices among the members
+}
+
+// Version Comparison
+
+export type DiffMatchKey = 'tuid' | 'segmentId' | 'source';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'metadata' | 'unchanged';
+
+/** One matched (or unmatched) unit of a baseline/revised comparison. */
+export interface TuDiff {
+  status: DiffStatus;
+  baseline?: NormalizedTu;
+  revised?: NormalizedTu;
+}
+
+// Consistency Report
+
+export type ConsistencyIssue = 'duplicate' | 'target_conflict' | 'source_conflict' | 'segment_id_conflict';
+
+/** A set of units that together form one duplicate or inconsistency finding. */
+export interface ConsistencyCluster {
+  index: number; // position within its issue's cluster list
+  issue: ConsistencyIssue;
+  key: string; // the shared source text, target text or x-segment-id
+  srcLang: string;
+  targetLang?: string; // set for per-language-pair findings
+  total: number; // number of member units
+  variants: { text: string; count: number }[]; // distinct values on the conflicting side
+  tus: NormalizedTu[]; // leading members, for preview
+}
+
+// Language View
+
+/** Which languages the list shows side by side, chosen for the whole session. */
+export interface LanguageView {
+  source: string | null; // pivot language for the source column; null for each unit's own srclang
+  targets: string[]; // target columns in this order; empty for every other language
+  hideMissing: boolean; // leave out units lacking the source or all of the targets
+}
+
+// Dates
+
+export type DateField = 'created' | 'changed' | 'used';
+
+/** Units dated within these local calendar days (YYYY-MM-DD); an empty end is open. */
+export interface DateRange {
+  field: DateField;
+  from: string;
+  to: string;
+}
+
+/** List order by a date; undated units come last either way. */
+export interface ListSort {
+  field: DateField;
+  descending: boolean;
+}
+
+// Search Hits
+
+/** A highlighted stretch of a variant's plain text, as [start, end) UTF-16 offsets into `text`. */
+export interface HitRange {
+  start: number;
+  end: number;
+}
+
+// Editing
+
+/** Changes made to one unit in the edit form; fields left out stay as they are. */
+export interface TuEdit {
+  segments?: { variant: number; segment: SegmentPart[] }[]; // new segments by index into tu.variants
+  props?: Record<string, string>; // the complete new set of props
+  attributes?: Record<string, string>; // the complete new set of TU attributes, unprefixed
+  dropVariants?: number[]; // variants to remove, by index into tu.variants
+}
+
+/** Edit history as the worker holds it, for the undo/redo controls and the save menu. */
+export interface EditState {
+  modifiedCount: number;
+  deletedCount: number;
+  modifiedByFile: number[]; // edited or deleted units per loaded file, by file index
+  undoLabel: string | null; // what undo would revert
+  redoLabel: string | null;
+}
+
+// Find and Replace
+
+export type ReplaceField = 'target' | 'source' | 'prop';
+
+export interface ReplaceOptions {
+  find: string;
+  replace: string; // $1, $<name> and $& refer to the match when `regex` is set
+  field: ReplaceField;
+  languages: string[]; // target/source languages to touch; empty for all
+  propType: string; // prop to touch when field is 'prop'; empty for all
+  regex: boolean;
+  unicode: boolean; // compile the regex with the u flag, for \p{…} escapes
+  matchCase: boolean;
+  wholeWord: boolean;
+  preserveCase: boolean; // adapt the replacement to the case of each match (FOO, Foo, foo)
+}
+
+/** One changed text of a unit: a segment (labelled by language) or a prop value (by type). */
+export interface ReplaceChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface ReplacePreviewEntry {
+  tu: NormalizedTu; // as it is now
+  changes: ReplaceChange[];
+}
+
+// Bulk Cleanup
+
+/**
+ * A cleanup applied to many units at once. delete and keep act on the selection itself;
+ * the others on every unit in scope.
+ */
+export type BulkAction =
+  | { kind: 'delete' }
+  | { kind: 'keep' } // delete everything outside the selection
+  | { kind: 'remove_language'; lang: string }
+  | { kind: 'strip_props'; propTypes: string[] }
+  | { kind: 'drop_older'; date: string } // YYYY-MM-DD; by changedate, or creationdate for units never changed
+  | { kind: 'drop_unused' }; // usagecount of 0
+
+export type BulkActionKind = BulkAction['kind'];
+
+// Batch Filter
+
+/** What the entries of a batch list are matched against. */
+export type BatchField = 'segmentId' | 'tuid' | 'prop' | 'source';
+
+export interface BatchOptions {
+  field: BatchField;
+  propType: string; // for field 'prop'
+  patterns: boolean; // entries with * or ? are wildcard patterns
+}
+
+/** How a batch list fared: entries without any unit, and exact entries shared by several units. */
+export interface BatchReport {
+  requested: number; // distinct entries in the list
+  matched: number; // units in the result
+  missing: string[];
+  ambiguous: { entry: string; count: number }[];
+}
+
+// Fuzzy Matching
+
+export interface FuzzyMatch {
+  tu: NormalizedTu;
+  score: number; // match percentage against the unit's source, 100 = identical
+}
+
+// File Validation (TMX 1.4b)
+
+export type DiagnosticCode =
+  | 'xml'
+  | 'truncated'
+  | 'missing_header'
+  | 'missing_srclang'
+  | 'missing_attribute'
+  | 'too_few_tuvs'
+  | 'missing_lang'
+  | 'duplicate_tuid'
+  | 'invalid_date'
+  | 'unpaired_tag'
+  | 'unknown_language';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface TmxDiagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  line: number; // 1-based, in the decoded text
+  column: number;
+  tuid?: string;
+  tuIndex?: number; // position of the offending unit among those read from the file
+}
+
+export interface ValidationCounts {
+  errors: number;
+  warnings: number;
+  byCode: Partial<Record<DiagnosticCode, number>>;
+}
+
+// QA Checks
+
+export type QaCheckId =
+  | 'placeholders'
+  | 'numbers'
+  | 'tags'
+  | 'whitespace'
+  | 'double_spaces'
+  | 'punctuation'
+  | 'empty_target'
+  | 'length_ratio';
+
+export type QaSeverity = 'error' | 'warning' | 'info';
+
+export interface QaIssue {
+  check: QaCheckId;
+  severity: QaSeverity;
+  lang: string; // target language of the offending pair
+  message: string;
+}
+
+export interface QaConfig {
+  checks: QaCheckId[]; // enabled checks
+  minLengthRatio: number; // target/source length bounds for the length_ratio check
+  maxLengthRatio: number;
+}
+
 export interface TmxStats {
   totalUnits: number;
   sourceLang: string;
@@ -83,3 +447,86 @@ export interface TmxStats {
   tool: string;
   version: string;
 }
+
+// Analytics and Facets
+
+/** A metadata dimension of the analytics view; each of its buckets can filter the list. */
+export type FacetField = 'language' | 'pair' | 'creationid' | 'changeid' | 'created' | 'changed' | 'usage' | 'prop';
+
+/**
+ * One bucket picked as a filter. Values are as the analytics report them: a language,
+ * "en-US → de-DE", a user, "2024" or "2024-03", a usage range, a prop value; '' stands
+ * for units without the field.
+ */
+export interface FacetFilter {
+  field: FacetField;
+  value: string;
+  propType?: string; // for field 'prop'
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+/** The most frequent values of an open-ended field, and how many distinct ones there are. */
+export interface FacetCounts {
+  buckets: FacetBucket[];
+  distinct: number;
+}
+
+export interface LanguageFigures {
+  lang: string;
+  units: number; // units with a variant in this language
+  words: number;
+  characters: number;
+}
+
+export interface MemoryAnalytics {
+  totalUnits: number;
+  languages: LanguageFigures[];
+  pairs: FacetBucket[];
+  creationUsers: FacetCounts;
+  changeUsers: FacetCounts;
+  created: FacetBucket[]; // chronological, by month or year, with undated units last as ''
+  changed: FacetBucket[];
+  usage: FacetBucket[]; // in USAGE_BUCKETS order
+  props: ({ type: string } & FacetCounts)[];
+}
+
+// Local Persistence
+
+// Numbered pages or one continuous list, and full cards or one line per unit
+export type ListLayout = 'pages' | 'scroll';
+export type Density = 'comfortable' | 'compact';
+
+/** A file kept in local storage, as listed on the upload screen. */
+export interface RecentFile {
+  fingerprint: string; // content hash, see services/memoryStore.ts
+  name: string; // as last opened
+  size: number;
+  label: string;
+  tuCount: number;
+  languages: string[];
+  openedAt: number; // ms since epoch
+}
+
+/** Where the user left a session: its files and the filters and position of the list. */
+export interface SavedSession {
+  key: string; // fingerprints of the files, in load order
+  files: { fingerprint: string; name: string }[];
+  savedAt: number;
+  searchQuery: string;
+  searchMode: SearchMode;
+  batchInput: string;
+  isBatchActive: boolean;
+  batchOptions?: BatchOptions; // absent in sessions saved before batch options existed
+  originFilter: number | null;
+  languageView: LanguageView;
+  facets: FacetFilter[];
+  dateRanges?: DateRange[]; // absent in sessions saved before date filters existed
+  listSort?: ListSort | null;
+  listLayout: ListLayout;
+  density: Density;
+  listPosition: number; // first unit in view
+}